@@ -9,23 +9,45 @@ import {
     execute,
     saveToFile,
     getResponse,
+    stream,
+    embed,
     withTemplate,
     task,
     addMCP,
+    addTool,
+    getUsage,
+    outputSchema,
+    retry,
+    withHistory,
+    getObject,
+    clone,
 } from "./agent/mod";
 
 import type { 
     AgentConfig, 
+    AgentRunOptions,
     ProviderType, 
     OutputType,
     AgentForceLogger,
     ModelConfig,
     MCPServerConfig,
+    LLMStreamEvent,
+    TokenUsage,
+    JSONSchema,
+    OutputSchemaOptions,
+    RetryPolicy,
+    ChatMessage,
+    LLMMessage,
+    PromptOptions,
+    Tool,
+    ToolImplementation,
+    ToolRegistry,
 } from "./types";
 
 export type { AgentConfig };
 
 import { defaultLogger, Logger } from "./logger";
+import { createEmptyUsage } from "./provider/usage";
 
 /**
  * Represents an AI agent within the AgentForce framework.
@@ -77,15 +99,21 @@ export class AgentForceAgent {
     private name: string;
     private agentSystemPrompt: string = "You are an AI agent created by AgentForceZone. You can perform various tasks based on the methods provided.";
     private userPrompt: string = "";
+    private images: string[] = [];
     private template: string = "";
     private tools: string[] = [];
     private skills: string[] = [];
     private mcps: string[] = [];
     private mcpConfig?: string;
     private customMcpConfigs: Map<string, MCPServerConfig> = new Map();
+    private customTools: ToolRegistry = {};
     private assetPath: string = ".";
     private taskList: {description: string, result: string | null}[] = [];
-    private chatHistory: {role: string, content: string}[] = [];
+    private chatHistory: LLMMessage[] = [];
+    private history: ChatMessage[] = [];
+    private usage: TokenUsage = createEmptyUsage();
+    private outputSchemaConfig?: { schema: JSONSchema; maxRetries: number };
+    private retryPolicy?: RetryPolicy;
     private logger: AgentForceLogger;
 
     private provider: string = "ollama";
@@ -130,7 +158,7 @@ export class AgentForceAgent {
      */
     constructor(config: AgentConfig) {
         this.name = config.name;
-        this.tools = config.tools || [];
+        this.tools = [...(config.tools || [])];
         this.skills = config.skills || [];
         this.mcps = config.mcps || [];
         this.mcpConfig = config.mcpConfig;
@@ -181,6 +209,23 @@ export class AgentForceAgent {
         return this.tools;
     }
 
+    /**
+     * Set the tools of the agent.
+     * @param tools - Array of tool names to set
+     */
+    protected setTools(tools: string[]): void {
+        this.tools = tools;
+    }
+
+    /**
+     * Get the custom tools added to the agent with addTool().
+     * 
+     * @returns {ToolRegistry} Map of tool names to their implementations
+     */
+    protected getCustomTools(): ToolRegistry {
+        return this.customTools;
+    }
+
     /**
      * Get the skills of the agent.
      */
@@ -255,6 +300,21 @@ export class AgentForceAgent {
         this.userPrompt = prompt;
     }
 
+    /**
+     * Get the images attached to the user prompt.
+     */
+    protected getImages(): string[] {
+        return this.images;
+    }
+
+    /**
+     * Set the images attached to the user prompt.
+     * @param images - File paths, http(s) URLs, data URLs or base64 strings
+     */
+    protected setImages(images: string[]): void {
+        this.images = images;
+    }
+
     /**
      * Get the system prompt of the agent.
      */
@@ -333,19 +393,35 @@ export class AgentForceAgent {
      * Push a response to the chat history.
      * @param role - The role of the message sender ('user' or 'assistant')
      * @param content - The content of the message
+     * @param images - Images attached to the message
      */
-    protected pushToChatHistory(role: string, content: string): void {
-        this.chatHistory.push({ role, content });
+    protected pushToChatHistory(role: string, content: string, images?: string[]): void {
+        this.chatHistory.push(images?.length ? { role, content, images } : { role, content });
     }
 
     /**
      * Get the chat history.
-     * @returns Array of chat messages with role and content
+     * @returns Array of chat messages with role, content and images
      */
-    protected getChatHistory(): {role: string, content: string}[] {
+    protected getChatHistory(): LLMMessage[] {
         return this.chatHistory;
     }
 
+    /**
+     * Get the earlier turns of the conversation sent before the prompt.
+     */
+    protected getHistory(): ChatMessage[] {
+        return this.history;
+    }
+
+    /**
+     * Set the earlier turns of the conversation sent before the prompt.
+     * @param messages - The messages, oldest first
+     */
+    protected setHistory(messages: ChatMessage[]): void {
+        this.history = messages;
+    }
+
     /**
      * Get the logger instance.
      */
@@ -375,27 +451,81 @@ export class AgentForceAgent {
         this.taskList = [];
     }
 
+    /**
+     * Get the token usage of the last execution.
+     */
+    protected getExecutionUsage(): TokenUsage {
+        return this.usage;
+    }
+
+    /**
+     * Set the token usage of the current execution.
+     * @param usage - The usage to set
+     */
+    protected setExecutionUsage(usage: TokenUsage): void {
+        this.usage = usage;
+    }
+
+    /**
+     * Get the output schema configuration.
+     */
+    protected getOutputSchema(): { schema: JSONSchema; maxRetries: number } | undefined {
+        return this.outputSchemaConfig;
+    }
+
+    /**
+     * Set the output schema configuration.
+     * @param config - The schema and the number of repair attempts
+     */
+    protected setOutputSchema(config: { schema: JSONSchema; maxRetries: number }): void {
+        this.outputSchemaConfig = config;
+    }
+
+    /**
+     * Get the retry policy used in workflows.
+     */
+    protected getRetryPolicy(): RetryPolicy | undefined {
+        return this.retryPolicy;
+    }
+
+    /**
+     * Set the retry policy used in workflows.
+     * @param policy - The retry policy with defaults applied
+     */
+    protected setRetryPolicy(policy: RetryPolicy): void {
+        this.retryPolicy = policy;
+    }
+
     /**
      * Execute the agent with the current user prompt.
      * @returns The response from the agent
      */
-    protected execute: (userPrompt?: string) => Promise<string> = execute.bind(this);
+    protected execute: (userPrompt?: string, options?: AgentRunOptions) => Promise<string> = execute.bind(this);
 
 
     // Chainable methods
     debug: () => AgentForceAgent = debug.bind(this);
     useLLM: (provider?: ProviderType, model?: string, modelConfig?: ModelConfig) => AgentForceAgent = useLLM.bind(this);
     systemPrompt: (prompt: string) => AgentForceAgent = systemPrompt.bind(this);
-    prompt: (userPrompt: string) => AgentForceAgent = prompt.bind(this);
+    prompt: (userPrompt: string, options?: PromptOptions) => AgentForceAgent = prompt.bind(this);
     withTemplate: (templatePath: string, templateData?: Record<string, unknown>) => AgentForceAgent = withTemplate.bind(this);
     task: (taskDescription: string) => AgentForceAgent = task.bind(this);
     addMCP: (serverNameOrConfig: string | MCPServerConfig) => AgentForceAgent = addMCP.bind(this);
-    run: () => Promise<AgentForceAgent> = run.bind(this);
+    addTool: (definition: Tool, execute: ToolImplementation["execute"]) => AgentForceAgent = addTool.bind(this);
+    outputSchema: (schema: JSONSchema, options?: OutputSchemaOptions) => AgentForceAgent = outputSchema.bind(this);
+    retry: (policy?: RetryPolicy) => AgentForceAgent = retry.bind(this);
+    withHistory: (messages: ChatMessage[]) => AgentForceAgent = withHistory.bind(this);
+    run: (options?: AgentRunOptions) => Promise<AgentForceAgent> = run.bind(this);
     
     // Execution/Non-chainable methods (return output, not this)
     serve: (host?: string, port?: number) => Promise<void> = serve.bind(this);
-    output: (outputType: OutputType, enableCodeBlockParsing?: boolean) => Promise<string | object> = output.bind(this);
-    getResponse: () => Promise<string> = getResponse.bind(this);
+    output: (outputType: OutputType, enableCodeBlockParsing?: boolean, options?: AgentRunOptions) => Promise<string | object> = output.bind(this);
+    getResponse: (options?: AgentRunOptions) => Promise<string> = getResponse.bind(this);
+    getObject: <T = unknown>(options?: AgentRunOptions) => Promise<T> = getObject.bind(this) as <T = unknown>(options?: AgentRunOptions) => Promise<T>;
+    stream: (options?: AgentRunOptions) => AsyncGenerator<LLMStreamEvent> = stream.bind(this);
+    embed: (input: string | string[], options?: AgentRunOptions) => Promise<number[][]> = embed.bind(this);
     saveToFile: (fileName: string) => Promise<string> = saveToFile.bind(this);
+    getUsage: () => TokenUsage = getUsage.bind(this);
+    clone: () => AgentForceAgent = clone.bind(this);
 
 }
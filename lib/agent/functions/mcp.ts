@@ -120,9 +120,10 @@ export async function getMCPTools(agent: AgentForceAgent): Promise<any[]> {
  * @param agent - The AgentForceAgent instance executing the tool
  * @param toolName - The MCP tool name in format "mcp_{serverName}_{toolName}"
  * @param args - Arguments to pass to the MCP tool
+ * @param signal - Optional signal cancelling the tool call
  * @returns Promise resolving to the tool execution result
  */
-export async function executeMCPTool(agent: AgentForceAgent, toolName: string, args: Record<string, any>): Promise<any> {
+export async function executeMCPTool(agent: AgentForceAgent, toolName: string, args: Record<string, any>, signal?: AbortSignal): Promise<any> {
     const logger = agent["getLogger"]();
     
     // Parse MCP tool name: mcp_{serverName}_{toolName}
@@ -153,7 +154,7 @@ export async function executeMCPTool(agent: AgentForceAgent, toolName: string, a
             args, 
         });
         
-        const result = await client.callTool(mcpToolName, args);
+        const result = await client.callTool(mcpToolName, args, { signal });
         
         logger.debug("MCP tool executed successfully", { 
             serverName, 
@@ -0,0 +1,122 @@
+import { Ajv } from "ajv";
+import type { ErrorObject, ValidateFunction } from "ajv";
+import type { JSONSchema, StructuredOutputIssue } from "../../types";
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+/**
+ * Error thrown when a structured output response still does not match the schema after all retries
+ */
+export class StructuredOutputError extends Error {
+    /** Validation issues of the last response */
+    readonly issues: StructuredOutputIssue[];
+    /** The last raw response of the model */
+    readonly response: string;
+    /** Number of responses that were validated, the first one included */
+    readonly attempts: number;
+
+    constructor(issues: StructuredOutputIssue[], response: string, attempts: number) {
+        super(`Structured output does not match the schema after ${attempts} attempt(s): ${formatIssues(issues)}`);
+        this.name = "StructuredOutputError";
+        this.issues = issues;
+        this.response = response;
+        this.attempts = attempts;
+    }
+}
+
+/**
+ * Compile a JSON Schema, ajv caches validators by schema object
+ * @param schema - The JSON Schema
+ * @returns {ValidateFunction} The compiled validator
+ * @throws {Error} If the schema itself is invalid
+ */
+export function compileSchema(schema: JSONSchema): ValidateFunction {
+    try {
+        return ajv.compile(schema);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid output schema: ${errorMessage}`);
+    }
+}
+
+/**
+ * Build the system prompt instructions asking for JSON matching the schema
+ * @param schema - The JSON Schema
+ * @returns {string} Instructions appended to the system prompt
+ */
+export function buildSchemaInstructions(schema: JSONSchema): string {
+    return `\n\nRespond only with a JSON value that matches the following JSON Schema, without explanations or code fences:\n${JSON.stringify(schema, null, 2)}`;
+}
+
+/**
+ * Parse a model response and validate it against a JSON Schema
+ * JSON wrapped in a markdown code block or surrounded by text is extracted first.
+ * @param response - The raw model response
+ * @param schema - The JSON Schema
+ * @returns The parsed value when valid, otherwise the validation issues
+ */
+export function validateStructuredResponse(response: string, schema: JSONSchema): { value: unknown; issues?: undefined } | { value?: undefined; issues: StructuredOutputIssue[] } {
+    let value: unknown;
+    try {
+        value = JSON.parse(extractJson(response));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { issues: [{ path: "", message: `Response is not valid JSON: ${errorMessage}` }] };
+    }
+
+    const validate = compileSchema(schema);
+    if (validate(value)) {
+        return { value };
+    }
+    return { issues: (validate.errors ?? []).map(toIssue) };
+}
+
+/**
+ * Build the follow-up prompt asking the model to fix an invalid response
+ * @param issues - The validation issues of the previous response
+ * @returns {string} The repair prompt
+ */
+export function buildRepairPrompt(issues: StructuredOutputIssue[]): string {
+    return `Your previous response does not match the required JSON Schema:\n${formatIssues(issues, "\n")}\n\nRespond again with only the corrected JSON.`;
+}
+
+/**
+ * Format validation issues for messages
+ * @internal
+ */
+function formatIssues(issues: StructuredOutputIssue[], separator: string = "; "): string {
+    return issues.map(issue => `${issue.path || "/"} ${issue.message}`).join(separator);
+}
+
+/**
+ * Convert an ajv error to a validation issue
+ * @internal
+ */
+function toIssue(error: ErrorObject): StructuredOutputIssue {
+    // Report the missing property itself rather than its parent object
+    if (error.keyword === "required" && typeof error.params.missingProperty === "string") {
+        return { path: `${error.instancePath}/${error.params.missingProperty}`, message: "is required" };
+    }
+    return { path: error.instancePath, message: error.message ?? "is invalid" };
+}
+
+/**
+ * Extract the JSON text from a response that may contain a code block or surrounding text
+ * @internal
+ */
+function extractJson(response: string): string {
+    const trimmed = response.trim();
+    const codeBlock = trimmed.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/i);
+    if (codeBlock?.[1]) {
+        return codeBlock[1].trim();
+    }
+
+    if (/^[[{]/.test(trimmed)) {
+        return trimmed;
+    }
+
+    // Fall back to the outermost object or array in the text
+    const start = trimmed.search(/[[{]/);
+    const end = Math.max(trimmed.lastIndexOf("}"), trimmed.lastIndexOf("]"));
+    return start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
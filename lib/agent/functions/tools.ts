@@ -1,7 +1,8 @@
 import type { AgentForceAgent } from "../../agent";
-import type { Tool } from "../../types";
+import type { Tool, ToolImplementation } from "../../types";
 import { getTool, hasTool } from "../../tools/registry";
 import { executeMCPTool } from "./mcp";
+import { abortable } from "../../utils/abort";
 
 /**
  * Internal function to load tools defined in agent config
@@ -20,12 +21,10 @@ export function loadTools(agent: AgentForceAgent): Tool[] {
     logger.debug({ requestedTools: tools }, "Loading tools for agent");
     
     for (const toolName of tools) {
-        if (hasTool(toolName)) {
-            const tool = getTool(toolName);
-            if (tool) {
-                loadedTools.push(tool.definition);
-                logger.debug({ tool: toolName }, "Tool loaded successfully");
-            }
+        const tool = getAgentTool(agent, toolName) ?? (hasTool(toolName) ? getTool(toolName) : undefined);
+        if (tool) {
+            loadedTools.push(tool.definition);
+            logger.debug({ tool: toolName }, "Tool loaded successfully");
         } else {
             logger.warn({ tool: toolName }, "Tool not found in registry");
         }
@@ -38,6 +37,7 @@ export function loadTools(agent: AgentForceAgent): Tool[] {
 /**
  * Execute a tool call with the provided arguments
  * This function handles both regular AgentForce tools and MCP tools
+ * Failures are returned as `{ error }` for the model, an aborted signal rejects with its reason instead.
  * @internal
  */
 export async function executeTool(
@@ -45,7 +45,10 @@ export async function executeTool(
     args: Record<string, any>,
     agent?: AgentForceAgent,
     logger?: any,
+    signal?: AbortSignal,
 ): Promise<any> {
+    signal?.throwIfAborted();
+
     // Check if this is an MCP tool (prefixed with "mcp_")
     if (toolName.startsWith("mcp_")) {
         if (!agent) {
@@ -57,8 +60,9 @@ export async function executeTool(
         }
         
         try {
-            return await executeMCPTool(agent, toolName, args);
+            return await abortable(executeMCPTool(agent, toolName, args, signal), signal);
         } catch (error: any) {
+            signal?.throwIfAborted();
             const errorMessage = `MCP tool execution failed for ${toolName}: ${error.message}`;
             if (logger) {
                 logger.error(errorMessage);
@@ -67,8 +71,8 @@ export async function executeTool(
         }
     }
     
-    // Handle regular AgentForce tools
-    const tool = getTool(toolName);
+    // Handle tools added to the agent, then registered AgentForce tools
+    const tool = (agent && getAgentTool(agent, toolName)) ?? getTool(toolName);
     
     if (!tool) {
         const errorMessage = `Tool ${toolName} not found in registry`;
@@ -79,13 +83,23 @@ export async function executeTool(
     }
     
     try {
-        const result = await tool.execute(args);
+        const result = await abortable(tool.execute(args, { signal }), signal);
         return result;
     } catch (error: any) {
+        signal?.throwIfAborted();
         const errorMessage = `Tool execution failed for ${toolName}: ${error.message}`;
         if (logger) {
             logger.error(errorMessage);
         }
         return { error: errorMessage };
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Look up a tool added to the agent with addTool()
+ * @internal
+ */
+function getAgentTool(agent: AgentForceAgent, toolName: string): ToolImplementation | undefined {
+    const customTools = agent["getCustomTools"]();
+    return Object.prototype.hasOwnProperty.call(customTools, toolName) ? customTools[toolName] : undefined;
+}
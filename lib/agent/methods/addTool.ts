@@ -0,0 +1,57 @@
+import type { AgentForceAgent } from "../../agent";
+import type { Tool, ToolImplementation } from "../../types";
+import { hasTool, validateToolImplementation } from "../../tools/registry";
+
+/**
+ * Adds a custom tool to this agent only.
+ * The tool is available to the model next to the tools from the agent config; use registerTool() to share a tool between agents.
+ *
+ * @memberof AgentForceAgent
+ * @function addTool
+ * @param {Tool} definition - The tool definition sent to the model
+ * @param {Function} execute - Receives the call arguments, the result is sent back to the model
+ * @returns {AgentForceAgent} Returns the agent instance for method chaining
+ * @throws {Error} If the tool is invalid or its name is already used by a registered tool or another tool of the agent
+ *
+ * @example
+ * ```ts
+ * const agent = new AgentForceAgent({ name: "Support" })
+ *   .addTool({
+ *     type: "function",
+ *     function: {
+ *       name: "lookup_order",
+ *       description: "Look up an order by its id",
+ *       parameters: {
+ *         type: "object",
+ *         properties: { orderId: { type: "string", description: "The order id" } },
+ *         required: ["orderId"],
+ *       },
+ *     },
+ *   }, async ({ orderId }) => orders.find(orderId))
+ *   .useLLM("openai", "gpt-4o-mini")
+ *   .prompt("Where is order 42?");
+ * ```
+ */
+export function addTool(this: AgentForceAgent, definition: Tool, execute: ToolImplementation["execute"]): AgentForceAgent {
+    const name = validateToolImplementation({ definition, execute });
+
+    if (hasTool(name)) {
+        throw new Error(`Tool "${name}" is already registered, choose a different name`);
+    }
+
+    const customTools = this["getCustomTools"]();
+    if (Object.prototype.hasOwnProperty.call(customTools, name)) {
+        throw new Error(`Tool "${name}" was already added to agent "${this["getName"]()}"`);
+    }
+
+    customTools[name] = { definition, execute };
+
+    // Listing the tool makes the agent load it like the tools from its config
+    const tools = this["getTools"]();
+    if (!tools.includes(name)) {
+        tools.push(name);
+    }
+
+    this["getLogger"]().debug({ tool: name }, "Custom tool added to agent");
+    return this;
+}
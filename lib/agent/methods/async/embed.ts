@@ -0,0 +1,63 @@
+import type { AgentForceAgent } from "../../../agent";
+import type { AgentRunOptions } from "../../../types";
+import { createProvider } from "../../../provider/registry";
+import { createEmptyUsage, withCost } from "../../../provider/usage";
+import { acquireProviderSlot } from "../../../provider/concurrency";
+import { abortable, withTimeout } from "../../../utils/abort";
+
+/**
+ * Creates embeddings of texts with the provider and model of the agent (execution method)
+ *
+ * Configure an embedding model with useLLM(), e.g. `useLLM("ollama", "nomic-embed-text")`.
+ * The Ollama, OpenRouter and OpenAI providers support embeddings; the token usage of the call
+ * is available with getUsage() afterwards.
+ *
+ * @param this - The AgentForceAgent instance (bound context)
+ * @param input - The text or texts to embed
+ * @param options - Optional abort signal and timeout of the call
+ * @returns {Promise<number[][]>} Returns one embedding per input text, in input order - NOT the agent instance
+ * @throws {Error} If the input is empty or the provider does not support embeddings
+ * @throws {TimeoutError} If the call takes longer than `options.timeoutMs`
+ *
+ * @example
+ * ```ts
+ * const [query] = await new AgentForceAgent({ name: "Embedder" })
+ *   .useLLM("ollama", "nomic-embed-text")
+ *   .embed("How do I reset my password?");
+ * ```
+ */
+export async function embed(this: AgentForceAgent, input: string | string[], options: AgentRunOptions = {}): Promise<number[][]> {
+    const texts = typeof input === "string" ? [input] : input;
+    if (!Array.isArray(texts) || texts.length === 0 || texts.some(text => typeof text !== "string")) {
+        throw new Error("Embedding input must be a string or a non-empty array of strings");
+    }
+
+    const provider = this.getProvider();
+    const model = this.getModel();
+    const logger = this.getLogger();
+    const { signal, clear } = withTimeout(options.signal, options.timeoutMs, `Agent "${this.getName()}"`);
+    let releaseSlot: (() => void) | undefined;
+
+    try {
+        signal?.throwIfAborted();
+        releaseSlot = await acquireProviderSlot(provider, signal);
+        const llm = createProvider(provider, model, this.getModelConfig());
+        if (!llm.embed) {
+            throw new Error(`Provider "${provider}" does not support embeddings`);
+        }
+
+        const embeddings = await abortable(llm.embed(texts, { signal }), signal);
+        this.setExecutionUsage(withCost(llm.getUsage?.() ?? createEmptyUsage(), provider, model));
+        logger.info("Embeddings created", {
+            agent: this.getName(),
+            provider,
+            model,
+            inputs: texts.length,
+            usage: this.getExecutionUsage(),
+        });
+        return embeddings;
+    } finally {
+        clear();
+        releaseSlot?.();
+    }
+}
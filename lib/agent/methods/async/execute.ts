@@ -1,19 +1,39 @@
 import type { AgentForceAgent } from "../../../agent";
-import { GoogleProvider } from "../../../provider/google";
-import { OllamaProvider } from "../../../provider/ollama";
-import { OpenRouterProvider } from "../../../provider/openrouter";
+import type { AgentRunOptions, LLMMessage, LLMProvider } from "../../../types";
+import { createProvider, hasProvider } from "../../../provider/registry";
+import { createEmptyUsage, mergeUsage, withCost } from "../../../provider/usage";
+import { withProviderSlot } from "../../../provider/concurrency";
 import { loadSkills } from "../../functions/skills";
 import { loadTools } from "../../functions/tools";
 import { loadMCPs, getMCPTools, disconnectMCPs } from "../../functions/mcp";
+import { buildRepairPrompt, buildSchemaInstructions, StructuredOutputError, validateStructuredResponse } from "../../functions/schema";
 import { truncate } from "../../../utils/truncate";
+import { abortable, withTimeout } from "../../../utils/abort";
 import { generateExecutionId } from "../../../logger";
 
 /**
  * Executes the agent's provider call to generate response
  * @param this - The AgentForceAgent instance (bound context)
+ * @param _userPrompt - Unused, the prompt is set with prompt()
+ * @param options - Optional abort signal and timeout of the execution
  * @returns {Promise<string>} Returns the generated response from the provider
+ * @throws {TimeoutError} If the execution takes longer than `options.timeoutMs`
  */
-export async function execute(this: AgentForceAgent): Promise<string> {
+export async function execute(this: AgentForceAgent, _userPrompt?: string, options: AgentRunOptions = {}): Promise<string> {
+    const { signal, clear } = withTimeout(options.signal, options.timeoutMs, `Agent "${this.getName()}"`);
+    try {
+        return await executeWithSignal.call(this, signal);
+    } finally {
+        clear();
+    }
+}
+
+/**
+ * Helper function running the execution, the signal is aborted on cancellation or timeout
+ * @internal
+ */
+async function executeWithSignal(this: AgentForceAgent, signal: AbortSignal | undefined): Promise<string> {
+    signal?.throwIfAborted();
     const logger = this.getLogger();
     
     // Generate and set execution ID for this execution
@@ -24,6 +44,9 @@ export async function execute(this: AgentForceAgent): Promise<string> {
         (logger as any).setExecutionId(executionId);
     }
     
+    // Token usage is summed across all provider calls of this execution
+    this.setExecutionUsage(createEmptyUsage());
+
     // Log execution start with execution ID
     logger.info("Execution started", { 
         executionId,
@@ -37,8 +60,12 @@ export async function execute(this: AgentForceAgent): Promise<string> {
     const systemPrompt = this.getSystemPrompt();
     const template = this.getTemplate();
     const userPrompt = this.getUserPrompt();
-    const modelConfig = (this as any).getModelConfig?.() || undefined; // access if available
+    const agentModelConfig = (this as any).getModelConfig?.() || undefined; // access if available
     const taskList = this.getTaskList();
+    const outputSchema = this.getOutputSchema();
+
+    // Structured output turns on the provider's native JSON mode for the schema
+    const modelConfig = outputSchema ? { ...agentModelConfig, jsonSchema: outputSchema.schema } : agentModelConfig;
     
     // Load skills content
     const skills = this.getSkills();
@@ -73,6 +100,11 @@ export async function execute(this: AgentForceAgent): Promise<string> {
         fullSystemPrompt = `${fullSystemPrompt}\n\n${template}`;
     }
 
+    // Add the schema instructions for structured output
+    if (outputSchema) {
+        fullSystemPrompt = `${fullSystemPrompt}${buildSchemaInstructions(outputSchema.schema)}`;
+    }
+
     // Log the execution details
     logger.debug(
         "Run execute", 
@@ -91,7 +123,7 @@ export async function execute(this: AgentForceAgent): Promise<string> {
         
         // Add the initial user prompt to chat history if it exists
         if (userPrompt && userPrompt.trim()) {
-            this.pushToChatHistory("user", userPrompt);
+            this.pushToChatHistory("user", userPrompt, this["getImages"]?.());
         }
         
         const results: string[] = [];
@@ -104,13 +136,15 @@ export async function execute(this: AgentForceAgent): Promise<string> {
                 continue;
             }
             
+            // Stop before the next task once the execution is cancelled
+            signal?.throwIfAborted();
             logger.debug({ taskIndex: i, task: task.description }, "Processing task");
             
             // Add the current task as a user message to chat history
             this.pushToChatHistory("user", task.description);
             
             // Execute the task with full chat history context
-            const taskResult = await executeProviderCallWithChatHistory(
+            let taskResult = await executeProviderCallWithChatHistory(
                 this,
                 provider,
                 model,
@@ -119,7 +153,13 @@ export async function execute(this: AgentForceAgent): Promise<string> {
                 task.description,
                 allTools,
                 logger,
+                signal,
             );
+
+            // The last task produces the structured output
+            if (outputSchema && i === taskList.length - 1) {
+                taskResult = await enforceOutputSchema(this, provider, model, modelConfig, fullSystemPrompt, taskResult, logger, signal);
+            }
             
             // Add the task result to chat history
             this.pushToChatHistory("assistant", taskResult);
@@ -145,11 +185,14 @@ export async function execute(this: AgentForceAgent): Promise<string> {
         
         // Log execution completion
         const finalResult = results.length > 0 ? results[results.length - 1]! : "";
+        const usage = withCost(this.getExecutionUsage(), provider, model);
+        this.setExecutionUsage(usage);
         logger.info("Execution completed", {
             executionId,
             agent: this.getName(),
             timestamp: new Date().toISOString(),
             taskCount: results.length,
+            usage,
         });
         
         // Return the final result (last task's output) or empty string if no results
@@ -160,7 +203,7 @@ export async function execute(this: AgentForceAgent): Promise<string> {
     const chatHistory = this.getChatHistory();
     const lastUserMessage = chatHistory.findLast(msg => msg.role === "user");
     if (!lastUserMessage || lastUserMessage.content !== userPrompt) {
-        this.pushToChatHistory("user", userPrompt);
+        this.pushToChatHistory("user", userPrompt, this["getImages"]?.());
     }
 
     try {
@@ -175,16 +218,24 @@ export async function execute(this: AgentForceAgent): Promise<string> {
             userPrompt,
             allTools,
             logger,
+            signal,
         );
 
+        if (outputSchema) {
+            response = await enforceOutputSchema(this, provider, model, modelConfig, fullSystemPrompt, response, logger, signal);
+        }
+
         // Store the assistant response in chat history
         this.pushToChatHistory("assistant", response);
         
         // Log execution completion
+        const usage = withCost(this.getExecutionUsage(), provider, model);
+        this.setExecutionUsage(usage);
         logger.info("Execution completed", {
             executionId,
             agent: this.getName(),
             timestamp: new Date().toISOString(),
+            usage,
         });
         
         return response;
@@ -195,11 +246,14 @@ export async function execute(this: AgentForceAgent): Promise<string> {
         this.pushToChatHistory("assistant", errorMessage);
         
         // Log execution error with execution ID
+        const usage = withCost(this.getExecutionUsage(), provider, model);
+        this.setExecutionUsage(usage);
         logger.error("Execution failed", {
             executionId,
             agent: this.getName(),
             error: String(error),
             timestamp: new Date().toISOString(),
+            usage,
         });
         
         throw error; // Re-throw to let caller handle the error
@@ -215,6 +269,70 @@ export async function execute(this: AgentForceAgent): Promise<string> {
     }
 }
 
+/**
+ * Helper function to add the usage reported by a provider instance to the agent's execution usage
+ * @internal
+ */
+function addProviderUsage(agent: AgentForceAgent, llm: LLMProvider): void {
+    const usage = llm.getUsage?.();
+    if (usage) {
+        agent["setExecutionUsage"](mergeUsage(agent["getExecutionUsage"](), usage));
+    }
+}
+
+/**
+ * Helper function to validate a response against the output schema
+ * Invalid responses are sent back to the model with the validation errors until the retries are used up.
+ * @returns The valid response serialized as JSON
+ * @throws {StructuredOutputError} If the last response still does not match the schema
+ * @internal
+ */
+async function enforceOutputSchema(
+    agent: AgentForceAgent,
+    provider: string,
+    model: string,
+    modelConfig: any,
+    systemPrompt: string,
+    response: string,
+    logger: any,
+    signal: AbortSignal | undefined,
+): Promise<string> {
+    const { schema, maxRetries } = agent["getOutputSchema"]()!;
+
+    // Continue the conversation that produced the response
+    const messages: LLMMessage[] = [
+        ...(systemPrompt.trim() ? [{ role: "system", content: systemPrompt }] : []),
+        ...(agent["getHistory"]?.() ?? []),
+        ...agent["getChatHistory"](),
+    ];
+    let llm: LLMProvider | undefined;
+
+    try {
+        for (let attempt = 1; ; attempt++) {
+            const result = validateStructuredResponse(response, schema);
+            if (!result.issues) {
+                return JSON.stringify(result.value);
+            }
+
+            logger.warn("Structured output does not match the schema", { attempt, issues: result.issues });
+            if (attempt > maxRetries) {
+                throw new StructuredOutputError(result.issues, response, attempt);
+            }
+
+            messages.push(
+                { role: "assistant", content: response },
+                { role: "user", content: buildRepairPrompt(result.issues) },
+            );
+            const repairLlm = llm ??= createProvider(provider, model, modelConfig);
+            response = await withProviderSlot(provider, signal, () => abortable(repairLlm.chat(messages, { signal }), signal));
+        }
+    } finally {
+        if (llm) {
+            addProviderUsage(agent, llm);
+        }
+    }
+}
+
 /**
  * Helper function to execute provider calls with full chat history context
  * @internal
@@ -228,81 +346,54 @@ async function executeProviderCallWithChatHistory(
     currentUserPrompt: string,
     loadedTools: any[],
     logger: any,
+    signal: AbortSignal | undefined,
 ): Promise<string> {
     const chatHistory = (agent as any).getChatHistory();
     
     // Prepare messages for chat format - include system prompt as first message
-    const messages: Array<{ role: string; content: string }> = [];
+    const messages: LLMMessage[] = [];
     
     // Add system message if we have one
     if (systemPrompt && systemPrompt.trim()) {
         messages.push({ role: "system", content: systemPrompt });
     }
     
-    // Add chat history
-    messages.push(...chatHistory);
+    // Add the earlier turns of the conversation and the chat history
+    messages.push(...(agent["getHistory"]?.() ?? []), ...chatHistory);
     
     // Add current user prompt
     messages.push({ role: "user", content: currentUserPrompt });
     
-    // Execute based on provider
-    switch (provider.toLowerCase()) {
-        case "ollama":
-            // Initialize Ollama provider with model config
-            const ollamaProvider = new OllamaProvider(model, modelConfig);
-            // Generate response using Ollama with tools if available
-            if (loadedTools && loadedTools.length > 0) {
-                logger.debug("Using Ollama with tools and chat history", { 
-                    toolCount: loadedTools.length,
-                    chatHistoryLength: chatHistory.length,
-                    totalMessages: messages.length,
-                });
-                return await ollamaProvider.chatWithTools(messages, loadedTools, logger, agent);
-            } else {
-                logger.debug("Using Ollama with chat history", { 
-                    chatHistoryLength: chatHistory.length,
-                    totalMessages: messages.length,
-                });
-                return await ollamaProvider.chat(messages);
-            }
+    // Providers set outside of useLLM (e.g. from a server request) may not be registered
+    if (!hasProvider(provider)) {
+        return `Unknown provider integration not available: ${provider}`;
+    }
 
-        case "openrouter":
-            // Initialize OpenRouter provider
-            const openRouterProvider = new OpenRouterProvider(model, modelConfig);
-            // Generate response using OpenRouter with tools if available
-            if (loadedTools && loadedTools.length > 0) {
-                logger.debug("Using OpenRouter with tools and chat history", { 
-                    toolCount: loadedTools.length,
-                    chatHistoryLength: chatHistory.length,
-                    totalMessages: messages.length,
-                });
-                return await openRouterProvider.chatWithTools(messages, loadedTools, logger, agent);
-            } else {
-                logger.debug("Using OpenRouter with chat history", { 
-                    chatHistoryLength: chatHistory.length,
-                    totalMessages: messages.length,
-                });
-                return await openRouterProvider.chat(messages);
-            }
+    // Resolve the provider through the registry
+    const llm = createProvider(provider, model, modelConfig);
 
-        case "google":
-            // Initialize Google provider
-            const googleProvider = new GoogleProvider(model, modelConfig);
-            // Generate response using Google with chat history
-            logger.debug("Using Google with chat history", { 
+    try {
+        // Generate response with tools if available and supported by the provider
+        if (loadedTools && loadedTools.length > 0 && llm.chatWithTools) {
+            logger.debug(`Using ${provider} with tools and chat history`, { 
+                toolCount: loadedTools.length,
                 chatHistoryLength: chatHistory.length,
                 totalMessages: messages.length,
             });
-            return await googleProvider.chat(messages);
-
-        case "openai":
-            return "OpenAI integration not implemented yet.";
+            return await withProviderSlot(provider, signal, () => abortable(llm.chatWithTools!(messages, loadedTools, logger, agent, { signal }), signal));
+        }
 
-        case "anthropic":
-            return "Anthropic integration not implemented yet.";
+        if (loadedTools && loadedTools.length > 0) {
+            logger.warn(`Provider ${provider} does not support tools, continuing without them`, { toolCount: loadedTools.length });
+        }
 
-        default:
-            return `Unknown provider integration not available: ${provider}`;
+        logger.debug(`Using ${provider} with chat history`, { 
+            chatHistoryLength: chatHistory.length,
+            totalMessages: messages.length,
+        });
+        return await withProviderSlot(provider, signal, () => abortable(llm.chat(messages, { signal }), signal));
+    } finally {
+        addProviderUsage(agent, llm);
     }
 }
 
@@ -311,7 +402,7 @@ async function executeProviderCallWithChatHistory(
  * @internal
  */
 async function executeProviderCall(
-    _agent: AgentForceAgent,
+    agent: AgentForceAgent,
     provider: string,
     model: string,
     modelConfig: any,
@@ -319,44 +410,48 @@ async function executeProviderCall(
     userPrompt: string,
     loadedTools: any[],
     logger: any,
+    signal: AbortSignal | undefined,
 ): Promise<string> {
-    // Execute based on provider
-    switch (provider.toLowerCase()) {
-        case "ollama":
-            // Initialize Ollama provider with model config
-            const ollamaProvider = new OllamaProvider(model, modelConfig);
-            // Generate response using Ollama with tools if available
-            if (loadedTools && loadedTools.length > 0) {
-                logger.debug("Using Ollama with tools", { toolCount: loadedTools.length });
-                return await ollamaProvider.generateWithTools(userPrompt, loadedTools, systemPrompt, logger, _agent);
-            } else {
-                return await ollamaProvider.generate(userPrompt, systemPrompt);
-            }
+    // Providers set outside of useLLM (e.g. from a server request) may not be registered
+    if (!hasProvider(provider)) {
+        return `Unknown provider integration not available: ${provider}`;
+    }
 
-        case "openrouter":
-            // Initialize OpenRouter provider
-            const openRouterProvider = new OpenRouterProvider(model, modelConfig);
-            // Generate response using OpenRouter with tools if available
+    // Resolve the provider through the registry
+    const llm = createProvider(provider, model, modelConfig);
+
+    try {
+        // Earlier turns of the conversation and images are sent as chat messages, generate only takes text
+        const history = agent["getHistory"]?.() ?? [];
+        const images = agent["getImages"]?.() ?? [];
+        if (history.length > 0 || images.length > 0) {
+            const messages: LLMMessage[] = [
+                ...(systemPrompt.trim() ? [{ role: "system", content: systemPrompt }] : []),
+                ...history,
+                images.length > 0 ? { role: "user", content: userPrompt, images } : { role: "user", content: userPrompt },
+            ];
+            if (loadedTools && loadedTools.length > 0 && llm.chatWithTools) {
+                logger.debug(`Using ${provider} with tools and history`, { toolCount: loadedTools.length, historyLength: history.length });
+                return await withProviderSlot(provider, signal, () => abortable(llm.chatWithTools!(messages, loadedTools, logger, agent, { signal }), signal));
+            }
             if (loadedTools && loadedTools.length > 0) {
-                logger.debug("Using OpenRouter with tools", { toolCount: loadedTools.length });
-                return await openRouterProvider.generateWithTools(userPrompt, loadedTools, systemPrompt, logger, _agent);
-            } else {
-                return await openRouterProvider.generate(userPrompt, systemPrompt);
+                logger.warn(`Provider ${provider} does not support tools, continuing without them`, { toolCount: loadedTools.length });
             }
+            return await withProviderSlot(provider, signal, () => abortable(llm.chat(messages, { signal }), signal));
+        }
 
-        case "google":
-            // Initialize Google provider
-            const googleProvider = new GoogleProvider(model, modelConfig);
-            // Generate response using Google
-            return await googleProvider.generate(userPrompt, systemPrompt);    
-
-        case "openai":
-            return "OpenAI integration not implemented yet.";
+        // Generate response with tools if available and supported by the provider
+        if (loadedTools && loadedTools.length > 0 && llm.generateWithTools) {
+            logger.debug(`Using ${provider} with tools`, { toolCount: loadedTools.length });
+            return await withProviderSlot(provider, signal, () => abortable(llm.generateWithTools!(userPrompt, loadedTools, systemPrompt, logger, agent, { signal }), signal));
+        }
 
-        case "anthropic":
-            return "Anthropic integration not implemented yet.";
+        if (loadedTools && loadedTools.length > 0) {
+            logger.warn(`Provider ${provider} does not support tools, continuing without them`, { toolCount: loadedTools.length });
+        }
 
-        default:
-            return `Unknown provider integration not available: ${provider}`;
+        return await withProviderSlot(provider, signal, () => abortable(llm.generate(userPrompt, systemPrompt, { signal }), signal));
+    } finally {
+        addProviderUsage(agent, llm);
     }
 }
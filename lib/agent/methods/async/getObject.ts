@@ -0,0 +1,26 @@
+import type { AgentForceAgent } from "../../../agent";
+import type { AgentRunOptions } from "../../../types";
+import { execute } from "./execute";
+
+/**
+ * Executes the agent and returns the response parsed and validated against the output schema (execution method)
+ *
+ * Requires outputSchema() to be configured. Unlike getResponse(), failures are thrown instead of
+ * being returned as error strings.
+ *
+ * @param this - The AgentForceAgent instance (bound context)
+ * @param options - Optional abort signal and timeout of the execution
+ * @returns {Promise<T>} Returns the validated value - NOT the agent instance (terminal method)
+ * @throws {StructuredOutputError} If the response does not match the schema after all retries
+ * @throws {Error} If no output schema is configured or the provider call fails
+ * @throws {TimeoutError} If the execution takes longer than `options.timeoutMs`
+ */
+export async function getObject<T = unknown>(this: AgentForceAgent, options: AgentRunOptions = {}): Promise<T> {
+    if (!this.getOutputSchema()) {
+        throw new Error("getObject() requires an output schema, call outputSchema(schema) first");
+    }
+
+    // execute() returns the validated response serialized as JSON
+    const response = await execute.call(this, undefined, options);
+    return JSON.parse(response) as T;
+}
@@ -1,5 +1,7 @@
 import type { AgentForceAgent } from "../../../agent";
+import type { AgentRunOptions } from "../../../types";
 import { execute } from "./execute";
+import { TimeoutError } from "../../../utils/abort";
 
 /**
  * Executes the agent and returns only the raw LLM response (execution method)
@@ -8,14 +10,21 @@ import { execute } from "./execute";
  * For structured output with metadata, timestamps, and formatting options, use output() instead.
  * 
  * @param this - The AgentForceAgent instance (bound context)
+ * @param options - Optional abort signal and timeout of the execution
  * @returns {Promise<string>} Returns only the LLM response - NOT the agent instance (terminal method)
+ * @throws {TimeoutError} If the execution takes longer than `options.timeoutMs`
  */
-export async function getResponse(this: AgentForceAgent): Promise<string> {
+export async function getResponse(this: AgentForceAgent, options: AgentRunOptions = {}): Promise<string> {
     // Execute the provider call to get the response
     try {
-        const response = await execute.call(this);
+        const response = await execute.call(this, undefined, options);
         return response;
     } catch (error) {
+        // A cancelled execution has no response to return
+        if (error instanceof TimeoutError || options.signal?.aborted) {
+            throw error;
+        }
+
         // Get the error message from chat history if execute failed
         const chatHistory = this.getChatHistory();
         const latestAssistantMessage = chatHistory.findLast(msg => msg.role === "assistant");
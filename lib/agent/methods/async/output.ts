@@ -1,10 +1,12 @@
 import type { AgentForceAgent } from "../../../agent";
-import type { OutputType } from "../../../types";
+import type { AgentRunOptions, OutputType } from "../../../types";
 import { execute } from "./execute";
 import { formatResponseAsYaml } from "../../../utils/yaml";
 import { formatResponseAsJson } from "../../../utils/json";
 import { formatResponseAsMarkdown } from "../../../utils/markdown";
 import { formatResponseAsHtml } from "../../../utils/html";
+import { StructuredOutputError } from "../../functions/schema";
+import { TimeoutError } from "../../../utils/abort";
 
 /**
  * Executes the agent and outputs the response in the specified format (execution method)
@@ -15,9 +17,12 @@ import { formatResponseAsHtml } from "../../../utils/html";
  * @param this - The AgentForceAgent instance (bound context)
  * @param outputType - The output format type ('text', 'json', 'md', 'yaml')
  * @param enableCodeBlockParsing - Optional boolean to enable/disable code block parsing (default: true). Set to false to return whole response.
- * @returns {Promise<string|object>} Returns the formatted output - NOT the agent instance (execution method)
+ * @param options - Optional abort signal and timeout of the execution
+ * @returns {Promise<string|object>} Returns the formatted output - NOT the agent instance (execution method). With an output schema, "json" returns the validated value.
+ * @throws {StructuredOutputError} If an output schema is set and the response does not match it
+ * @throws {TimeoutError} If the execution takes longer than `options.timeoutMs`
  */
-export async function output(this: AgentForceAgent, outputType: OutputType, enableCodeBlockParsing?: boolean): Promise<string | object> {
+export async function output(this: AgentForceAgent, outputType: OutputType, enableCodeBlockParsing?: boolean, options: AgentRunOptions = {}): Promise<string | object> {
     // Validate input
     if (!outputType || typeof outputType !== "string") {
         throw new Error("Output type must be a string");
@@ -30,8 +35,12 @@ export async function output(this: AgentForceAgent, outputType: OutputType, enab
 
     // Execute the provider call first to get the response
     try {
-        await execute.call(this);
-    } catch {
+        await execute.call(this, undefined, options);
+    } catch (error) {
+        // A response that does not match the output schema must not pass silently, neither must a cancelled execution
+        if (error instanceof StructuredOutputError || error instanceof TimeoutError || options.signal?.aborted) {
+            throw error;
+        }
         // Error handling is already done in execute function
         // Continue with output generation using the error message from chat history
     }
@@ -56,6 +65,10 @@ export async function output(this: AgentForceAgent, outputType: OutputType, enab
             return textOutput;
             
         case "json":
+            // The response was already validated against the output schema
+            if (this.getOutputSchema()) {
+                return JSON.parse(assistantResponse) as object;
+            }
             try {
                 const enableParsing = enableCodeBlockParsing !== false; // Default to true
                 const jsonOutput = formatResponseAsJson(assistantResponse, enableParsing);
@@ -1,16 +1,26 @@
 import type { AgentForceAgent } from "../../../agent";
 import { execute } from "./execute";
+import { StructuredOutputError } from "../../functions/schema";
+import { TimeoutError } from "../../../utils/abort";
+import type { AgentRunOptions } from "../../../types";
 
 /**
  * Executes the agent's chain by making the actual API call to the configured provider (execution method)
  * @param this - The AgentForceAgent instance (bound context)
+ * @param options - Optional abort signal and timeout of the execution
  * @returns {Promise<AgentForceAgent>} Returns the agent instance for method chaining
+ * @throws {StructuredOutputError} If an output schema is set and the response does not match it
+ * @throws {TimeoutError} If the execution takes longer than `options.timeoutMs`
  */
-export async function run(this: AgentForceAgent): Promise<AgentForceAgent> {
+export async function run(this: AgentForceAgent, options: AgentRunOptions = {}): Promise<AgentForceAgent> {
     try {
         // Use the execute function to handle the provider call
-        await execute.call(this);
-    } catch {
+        await execute.call(this, undefined, options);
+    } catch (error) {
+        // A response that does not match the output schema must not pass silently, neither must a cancelled execution
+        if (error instanceof StructuredOutputError || error instanceof TimeoutError || options.signal?.aborted) {
+            throw error;
+        }
         // Error handling is already done in execute function
         // Just continue with the chain
     }
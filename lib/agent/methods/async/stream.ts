@@ -0,0 +1,168 @@
+import type { AgentForceAgent } from "../../../agent";
+import type { AgentRunOptions, LLMMessage, LLMProvider, LLMStreamEvent } from "../../../types";
+import { createProvider } from "../../../provider/registry";
+import { createEmptyUsage, withCost } from "../../../provider/usage";
+import { acquireProviderSlot } from "../../../provider/concurrency";
+import { loadSkills } from "../../functions/skills";
+import { loadTools } from "../../functions/tools";
+import { loadMCPs, getMCPTools, disconnectMCPs } from "../../functions/mcp";
+import { generateExecutionId } from "../../../logger";
+import { abortable, withTimeout } from "../../../utils/abort";
+
+/**
+ * Executes the agent and streams the response as it is generated (execution method)
+ *
+ * Yields `text` events with response deltas and, when the agent has tools or MCP servers,
+ * `tool_call` / `tool_result` events around each tool execution. The full response is added
+ * to the chat history once the stream completes. Providers without native streaming
+ * (OpenAI, Anthropic) yield the complete response as a single `text` event.
+ *
+ * @param this - The AgentForceAgent instance (bound context)
+ * @param options - Optional abort signal and timeout of the execution
+ * @returns {AsyncGenerator<LLMStreamEvent>} Returns the stream of events - NOT the agent instance (terminal method)
+ * @throws {Error} If the agent has tasks, task lists are only supported by run(), output() and getResponse()
+ * @throws {TimeoutError} If the execution takes longer than `options.timeoutMs`
+ *
+ * @example
+ * ```typescript
+ * const agent = new AgentForceAgent({ name: "Writer" })
+ *   .useLLM("ollama", "gemma3:4b")
+ *   .prompt("Write a short story about a robot");
+ *
+ * for await (const event of agent.stream()) {
+ *   if (event.type === "text") {
+ *     process.stdout.write(event.text);
+ *   }
+ * }
+ * ```
+ */
+export async function* stream(this: AgentForceAgent, options: AgentRunOptions = {}): AsyncGenerator<LLMStreamEvent> {
+    const logger = this.getLogger();
+
+    if (this.getTaskList().length > 0) {
+        throw new Error("stream() does not support task lists, use run(), output() or getResponse() instead");
+    }
+
+    if (this.getOutputSchema()) {
+        throw new Error("stream() does not support output schemas, use getObject() instead");
+    }
+
+    // Generate and set execution ID for this execution
+    const executionId = generateExecutionId();
+    if ("setExecutionId" in logger && typeof (logger as any).setExecutionId === "function") {
+        (logger as any).setExecutionId(executionId);
+    }
+
+    this.setExecutionUsage(createEmptyUsage());
+
+    logger.info("Execution started", {
+        executionId,
+        agent: this.getName(),
+        streaming: true,
+        timestamp: new Date().toISOString(),
+    });
+
+    const provider = this.getProvider();
+    const model = this.getModel();
+    const userPrompt = this.getUserPrompt();
+    const modelConfig = this.getModelConfig();
+
+    // Construct the full system prompt in order: systemPrompt + skills + template
+    const skills = this.getSkills();
+    const skillsContent = (skills && skills.length > 0) ? (loadSkills(this) || "") : "";
+    const template = this.getTemplate();
+    let fullSystemPrompt = `${this.getSystemPrompt()}${skillsContent}`;
+    if (template && template.trim()) {
+        fullSystemPrompt = `${fullSystemPrompt}\n\n${template}`;
+    }
+
+    // Load tools and MCP servers if configured
+    const tools = this.getTools();
+    const loadedTools = (tools && tools.length > 0) ? (loadTools(this) || []) : [];
+    const mcps = this.getMCPs();
+    if (mcps && mcps.length > 0) {
+        await loadMCPs(this);
+    }
+    const allTools = [...loadedTools, ...await getMCPTools(this)];
+
+    const images = this.getImages();
+    const messages: LLMMessage[] = [
+        ...(fullSystemPrompt.trim() ? [{ role: "system", content: fullSystemPrompt }] : []),
+        ...this.getHistory(),
+        images.length > 0 ? { role: "user", content: userPrompt, images } : { role: "user", content: userPrompt },
+    ];
+
+    // Store the user prompt in chat history if not already stored
+    const lastUserMessage = this.getChatHistory().findLast(msg => msg.role === "user");
+    if (!lastUserMessage || lastUserMessage.content !== userPrompt) {
+        this.pushToChatHistory("user", userPrompt, images);
+    }
+
+    let response = "";
+    let llm: LLMProvider | undefined;
+    let releaseSlot: (() => void) | undefined;
+    const { signal, clear } = withTimeout(options.signal, options.timeoutMs, `Agent "${this.getName()}"`);
+
+    // Provider usage is cumulative, so this can run again when the consumer stops early
+    const updateUsage = (): void => {
+        this.setExecutionUsage(withCost(llm?.getUsage?.() ?? createEmptyUsage(), provider, model));
+    };
+
+    try {
+        signal?.throwIfAborted();
+        releaseSlot = await acquireProviderSlot(provider, signal);
+        llm = createProvider(provider, model, modelConfig);
+
+        if (llm.stream) {
+            for await (const event of llm.stream(messages, allTools, logger, this, { signal })) {
+                signal?.throwIfAborted();
+                if (event.type === "text") {
+                    response += event.text;
+                }
+                yield event;
+            }
+        } else {
+            logger.debug(`Provider ${provider} has no streaming support, yielding the complete response`);
+            response = allTools.length > 0 && llm.chatWithTools
+                ? await abortable(llm.chatWithTools(messages, allTools, logger, this, { signal }), signal)
+                : await abortable(llm.chat(messages, { signal }), signal);
+            yield { type: "text", text: response };
+        }
+
+        updateUsage();
+        logger.info("Execution completed", {
+            executionId,
+            agent: this.getName(),
+            streaming: true,
+            timestamp: new Date().toISOString(),
+            usage: this.getExecutionUsage(),
+        });
+    } catch (error) {
+        response = `Error: ${error}`;
+
+        updateUsage();
+        logger.error("Execution failed", {
+            executionId,
+            agent: this.getName(),
+            error: String(error),
+            timestamp: new Date().toISOString(),
+            usage: this.getExecutionUsage(),
+        });
+
+        throw error;
+    } finally {
+        // Also reached when the consumer stops iterating early
+        clear();
+        releaseSlot?.();
+        updateUsage();
+        this.pushToChatHistory("assistant", response);
+
+        if (mcps && mcps.length > 0) {
+            try {
+                await disconnectMCPs(this);
+            } catch (cleanupError) {
+                logger.error("MCP cleanup error:", cleanupError);
+            }
+        }
+    }
+}
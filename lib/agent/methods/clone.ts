@@ -0,0 +1,63 @@
+import type { AgentForceAgent } from "../../agent";
+
+/**
+ * Creates a copy of the agent with the same configuration and its own conversation state.
+ * The copy starts with a snapshot of the conversation history, chat history and task list; executions of the
+ * copy and of the original do not see each other's prompts, history or usage. Workflows run parallel and iterate
+ * steps on copies so concurrent executions of one agent stay isolated.
+ *
+ * @memberof AgentForceAgent
+ * @function clone
+ * @returns {AgentForceAgent} Returns the new agent instance - NOT the original agent
+ *
+ * @example
+ * const translator = new AgentForceAgent({ name: "Translator" })
+ *   .useLLM("ollama", "gemma3:4b")
+ *   .systemPrompt("Translate the text to German");
+ *
+ * const [first, second] = await Promise.all([
+ *   translator.clone().prompt("Good morning").getResponse(),
+ *   translator.clone().prompt("Good night").getResponse(),
+ * ]);
+ */
+export function clone(this: AgentForceAgent): AgentForceAgent {
+    // The constructor of a subclass keeps the methods it adds
+    const AgentClass = this.constructor as new (...args: ConstructorParameters<typeof AgentForceAgent>) => AgentForceAgent;
+    const copy = new AgentClass({
+        name: this["getName"](),
+        tools: this["getTools"](),
+        skills: [...this["getSkills"]()],
+        mcps: [...this["getMCPs"]()],
+        mcpConfig: this["getMcpConfig"](),
+        assetPath: this["getAssetPath"](),
+        logger: this["getLogger"](),
+    });
+
+    copy["setProvider"](this["getProvider"]());
+    copy["setModel"](this["getModel"]());
+    copy["setModelConfig"](this["getModelConfig"]());
+    copy["setSystemPrompt"](this["getSystemPrompt"]());
+    copy["setUserPrompt"](this["getUserPrompt"]());
+    copy["setImages"]([...this["getImages"]()]);
+    copy["setTemplate"](this["getTemplate"]());
+    copy["setTaskList"](this["getTaskList"]().map(task => ({ ...task })));
+    Object.assign(copy["getCustomTools"](), this["getCustomTools"]());
+    for (const [name, config] of this["getCustomMcpConfigs"]()) {
+        copy["addCustomMcpConfig"](name, config);
+    }
+    copy["setHistory"](this["getHistory"]().map(message => ({ ...message })));
+    for (const message of this["getChatHistory"]()) {
+        copy["pushToChatHistory"](message.role, message.content, message.images);
+    }
+
+    const outputSchema = this["getOutputSchema"]();
+    if (outputSchema) {
+        copy["setOutputSchema"](outputSchema);
+    }
+    const retryPolicy = this["getRetryPolicy"]();
+    if (retryPolicy) {
+        copy["setRetryPolicy"](retryPolicy);
+    }
+
+    return copy;
+}
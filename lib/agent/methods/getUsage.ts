@@ -0,0 +1,23 @@
+import type { AgentForceAgent } from "../../agent";
+import type { TokenUsage } from "../../types";
+
+/**
+ * Returns the token usage of the agent's last execution.
+ * Counts are summed across tool-call rounds and task lists. `cost` is set when a price is
+ * registered for the model with registerModelPricing().
+ *
+ * @memberof AgentForceAgent
+ * @function getUsage
+ * @returns {TokenUsage} Returns the usage of the last execution - NOT the agent instance
+ *
+ * @example
+ * const agent = new AgentForceAgent({ name: "Assistant" })
+ *   .useLLM("openai", "gpt-4o-mini")
+ *   .prompt("Summarize the news");
+ *
+ * await agent.run();
+ * const { promptTokens, completionTokens, cost } = agent.getUsage();
+ */
+export function getUsage(this: AgentForceAgent): TokenUsage {
+    return { ...this["getExecutionUsage"]() };
+}
@@ -0,0 +1,47 @@
+import type { AgentForceAgent } from "../../agent";
+import type { JSONSchema, OutputSchemaOptions } from "../../types";
+import { compileSchema } from "../functions/schema";
+
+/**
+ * Requires the agent's response to be JSON matching a JSON Schema.
+ * Providers with a native JSON mode (Ollama, OpenAI, OpenRouter, Google) are constrained to the schema,
+ * every response is validated and the model is re-prompted with the validation errors up to
+ * `maxRetries` times. getObject() returns the parsed value, run(), output() and getObject() throw a
+ * StructuredOutputError when the response still does not match.
+ *
+ * @memberof AgentForceAgent
+ * @function outputSchema
+ * @param {JSONSchema} schema - The JSON Schema the response must match
+ * @param {OutputSchemaOptions} [options] - Retry options, `maxRetries` defaults to 2
+ * @returns {AgentForceAgent} Returns the agent instance for method chaining
+ * @throws {Error} If the schema is not a valid JSON Schema
+ *
+ * @example
+ * interface Person { name: string; age: number }
+ *
+ * const person = await new AgentForceAgent({ name: "Extractor" })
+ *   .useLLM("openai", "gpt-4o-mini")
+ *   .prompt("Ada Lovelace was born in 1815 and died at 36.")
+ *   .outputSchema({
+ *     type: "object",
+ *     properties: { name: { type: "string" }, age: { type: "integer" } },
+ *     required: ["name", "age"],
+ *   })
+ *   .getObject<Person>();
+ */
+export function outputSchema(this: AgentForceAgent, schema: JSONSchema, options: OutputSchemaOptions = {}): AgentForceAgent {
+    if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+        throw new Error("Output schema must be a JSON Schema object");
+    }
+
+    const maxRetries = options.maxRetries ?? 2;
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+        throw new Error("maxRetries must be a non-negative integer");
+    }
+
+    // Fail early on schemas that cannot be compiled
+    compileSchema(schema);
+
+    this["setOutputSchema"]({ schema, maxRetries });
+    return this;
+}
@@ -1,19 +1,33 @@
 import type { AgentForceAgent } from "../../agent";
+import type { PromptOptions } from "../../types";
 
 /**
  * Sets the user prompt for the agent
+ * Images are sent with the prompt to vision models; calling prompt again without images removes them.
  * @param this - The AgentForceAgent instance (bound context)
  * @param prompt - The user prompt to set for the agent
+ * @param options - Optional images to attach, as file paths, http(s) URLs, data URLs or base64 strings
  * @returns {AgentForceAgent} Returns the agent instance for method chaining
+ *
+ * @example
+ * const description = await new AgentForceAgent({ name: "Describer" })
+ *   .useLLM("ollama", "gemma3:4b")
+ *   .prompt("What is in this picture?", { images: ["./photos/cat.jpg"] })
+ *   .getResponse();
  */
-export function prompt(this: AgentForceAgent, prompt: string): AgentForceAgent {
+export function prompt(this: AgentForceAgent, prompt: string, options: PromptOptions = {}): AgentForceAgent {
     // Validate input
     if (typeof prompt !== "string") {
         throw new Error("User prompt must be a string");
     }
+    const images = options.images ?? [];
+    if (!Array.isArray(images) || images.some(image => typeof image !== "string" || !image)) {
+        throw new Error("Prompt images must be an array of non-empty strings");
+    }
     
     // Set the user prompt using the internal setter
     this.setUserPrompt(prompt);
+    this["setImages"]([...images]);
     
     // Return 'this' for method chaining
     return this;
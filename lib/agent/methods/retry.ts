@@ -0,0 +1,28 @@
+import type { AgentForceAgent } from "../../agent";
+import type { RetryPolicy } from "../../types";
+import { resolveRetryPolicy } from "../../utils/retry";
+
+/**
+ * Sets the retry policy used when the agent runs in a workflow.
+ * Every sequence, parallel, iterate, branch, route and dispatched task execution of the agent
+ * is retried with exponential backoff, e.g. while Ollama loads a model or a provider rate limits.
+ *
+ * @memberof AgentForceAgent
+ * @function retry
+ * @param {RetryPolicy} [policy] - The retry policy, 3 attempts starting with a 1 second delay by default
+ * @returns {AgentForceAgent} Returns the agent instance for method chaining
+ * @throws {Error} If a policy value is out of range
+ *
+ * @example
+ * const writer = new AgentForceAgent({ name: "Writer" })
+ *   .useLLM("openrouter", "openai/gpt-4o-mini")
+ *   .retry({
+ *     maxAttempts: 5,
+ *     initialDelayMs: 2000,
+ *     retryOn: error => String(error).includes("429"),
+ *   });
+ */
+export function retry(this: AgentForceAgent, policy: RetryPolicy = {}): AgentForceAgent {
+    this["setRetryPolicy"](resolveRetryPolicy(policy));
+    return this;
+}
@@ -1,7 +1,5 @@
 import type { AgentForceAgent } from "../../agent";
-import { OllamaProvider } from "../../provider/ollama";
-import { OpenRouterProvider } from "../../provider/openrouter";
-import { GoogleProvider } from "../../provider/google";
+import { createProvider } from "../../provider/registry";
 import type { ProviderType, ModelConfig } from "../../types";
 
 /**
@@ -10,10 +8,11 @@ import type { ProviderType, ModelConfig } from "../../types";
  *
  * @memberof AgentForceAgent
  * @function useLLM
- * @param {ProviderType} provider - The AI provider name (see {@link ProviderType} for available options)
+ * @param {ProviderType} provider - The AI provider name, a built-in provider (see {@link ProviderType}) or one added with `registerProvider`
  * @param {string} model - The model name (e.g., "phi4-mini:latest", "gpt-3.5-turbo", "claude-3", "moonshotai/kimi-k2:free")
  * @param {ModelConfig} [modelConfig] - Optional model configuration (see {@link ModelConfig} for available options)
  * @returns {AgentForceAgent} Returns the {@link AgentForceAgent} instance for method chaining
+ * @throws {Error} If no provider is registered under the given name
  * 
  * @example
  * ```typescript
@@ -27,49 +26,26 @@ import type { ProviderType, ModelConfig } from "../../types";
  * 
  * // Different providers
  * agent.useLLM("openai", "gpt-3.5-turbo");
- * agent.useLLM("anthropic", "claude-3");
+ * agent.useLLM("openai", "llama3.1", { baseUrl: "http://localhost:1234/v1" }); // any OpenAI-compatible endpoint
+ * agent.useLLM("anthropic", "claude-sonnet-4-20250514", { maxTokens: 2048 });
  * agent.useLLM("openrouter", "moonshotai/kimi-k2:free");
  * 
  * // Method chaining
  * agent.useLLM("google", "gemini-1.5-flash").useLLM("ollama", "llama2");
+ * 
+ * // Custom provider
+ * registerProvider("gateway", (model, config) => new GatewayProvider(model, config));
+ * agent.useLLM("gateway", "team-model");
  * ```
  */
 export function useLLM(this: AgentForceAgent, provider: ProviderType = "ollama", model = "gemma3:4b", modelConfig?: ModelConfig): AgentForceAgent {
-    const logger = this.getLogger();
-    
+    // Resolve the provider first so unknown providers fail before the agent is changed
+    createProvider(provider || "ollama", model, modelConfig);
+
     // Update agent settings with provided parameters
     this.setProvider(provider);
     this.setModel(model);
     this.setModelConfig(modelConfig); // persist model configuration on agent
 
-    // Initialize the appropriate provider
-    switch ((provider || "ollama").toLowerCase()) {
-        case "ollama":
-            // Initialize Ollama provider
-            new OllamaProvider(model, modelConfig);
-            break;
-        
-        case "openrouter":
-            // Initialize OpenRouter provider
-            new OpenRouterProvider(model, modelConfig);
-            break;
-        
-        case "google":
-            new GoogleProvider(model, modelConfig);
-            break;
-        
-        case "openai":
-            logger.debug(`⚠️  OpenAI provider not implemented yet. Model: ${model}`);
-            break;
-        
-        case "anthropic":
-            logger.debug(`⚠️  Anthropic provider not implemented yet. Model: ${model}`);
-            break;
-        
-        default:
-            logger.debug(`⚠️  Unknown provider: ${provider}. Model: ${model}`);
-            break;
-    }
-
     return this;
-}
\ No newline at end of file
+}
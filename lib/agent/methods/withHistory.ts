@@ -0,0 +1,47 @@
+import type { AgentForceAgent } from "../../agent";
+import type { ChatMessage } from "../../types";
+
+/**
+ * Sets the earlier turns of the conversation.
+ * The messages are sent to the model as chat messages between the system prompt and the prompt, so the
+ * agent answers the prompt as the next turn of the conversation. Calling it again replaces the history.
+ *
+ * @memberof AgentForceAgent
+ * @function withHistory
+ * @param {ChatMessage[]} messages - The user and assistant messages, oldest first
+ * @returns {AgentForceAgent} Returns the agent instance for method chaining
+ * @throws {Error} If a message has another role, no text content or invalid images
+ *
+ * @example
+ * const response = await new AgentForceAgent({ name: "Assistant" })
+ *   .useLLM("ollama", "gemma3:4b")
+ *   .withHistory([
+ *     { role: "user", content: "My name is Ada" },
+ *     { role: "assistant", content: "Nice to meet you, Ada!" },
+ *   ])
+ *   .prompt("What is my name?")
+ *   .getResponse();
+ */
+export function withHistory(this: AgentForceAgent, messages: ChatMessage[]): AgentForceAgent {
+    if (!Array.isArray(messages)) {
+        throw new Error("History must be an array of messages");
+    }
+    messages.forEach((message, index) => {
+        if (message?.role !== "user" && message?.role !== "assistant") {
+            throw new Error(`History message at index ${index} must have the role "user" or "assistant"`);
+        }
+        if (typeof message.content !== "string") {
+            throw new Error(`History message at index ${index} must have string content`);
+        }
+        if (message.images !== undefined && (!Array.isArray(message.images) || message.images.some(image => typeof image !== "string" || !image))) {
+            throw new Error(`History message at index ${index} must have images as an array of non-empty strings`);
+        }
+    });
+
+    this["setHistory"](messages.map(message => ({
+        role: message.role,
+        content: message.content,
+        ...(message.images?.length ? { images: [...message.images] } : {}),
+    })));
+    return this;
+}
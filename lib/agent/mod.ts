@@ -8,12 +8,21 @@ export * from "./methods/prompt";
 export * from "./methods/withTemplate";
 export * from "./methods/task";
 export * from "./methods/addMCP";
+export * from "./methods/addTool";
+export * from "./methods/getUsage";
+export * from "./methods/outputSchema";
+export * from "./methods/retry";
+export * from "./methods/withHistory";
+export * from "./methods/clone";
 
 // Async methods
 export * from "./methods/async/run";
 export * from "./methods/async/execute";
 export * from "./methods/async/output";
 export * from "./methods/async/getResponse";
+export * from "./methods/async/getObject";
+export * from "./methods/async/stream";
+export * from "./methods/async/embed";
 export * from "./methods/async/saveToFile";
 
 // Server methods
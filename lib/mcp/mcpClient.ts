@@ -306,8 +306,9 @@ export class McpClient implements MCPClient {
 
     /**
      * Call a tool on the MCP server
+     * Aborting the signal cancels the request on the server and rejects with the abort reason.
      */
-    async callTool(name: string, arguments_: Record<string, any>): Promise<any> {
+    async callTool(name: string, arguments_: Record<string, any>, options: { signal?: AbortSignal } = {}): Promise<any> {
         if (!this.isConnectedState) {
             throw new Error(`MCP client ${this.name} is not connected`);
         }
@@ -319,10 +320,11 @@ export class McpClient implements MCPClient {
             const response = await this.mcp.callTool({
                 name,
                 arguments: arguments_,
-            });
+            }, undefined, { signal: options.signal });
 
             return response;
         } catch (error) {
+            options.signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             throw new Error(`Failed to call tool ${name} on MCP server ${this.name}: ${errorMessage}`);
         }
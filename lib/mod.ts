@@ -34,8 +34,62 @@
 export * from "./types";
 
 export { AgentForceAgent } from "./agent";
-export { AgentForceServer, type RouteAgentSchema } from "./server";
-export { AgentForceWorkflow } from "./workflow";
+export {
+    AgentForceServer,
+    type RouteAgentSchema,
+    type OpenAICompatibleRoutingOptions,
+    type SystemMessagePolicy,
+    type ModelAgents,
+} from "./server";
+export {
+    AgentForceWorkflow,
+    type DispatchedTask,
+    type WorkflowPredicate,
+    type WorkflowRouter,
+    type RepeatUntilCondition,
+    type RepeatUntilOptions,
+    type ParallelOptions,
+    type SettledOutput,
+    type WorkflowLoopOptions,
+    type WorkflowLoopHandle,
+    type WorkflowCheckpoint,
+    type CheckpointStore,
+    type WorkflowRunOptions,
+    type WorkflowRunResult,
+    type WorkflowResumeOptions,
+} from "./workflow";
+
+// Workflow checkpoint store exports
+export * from "./workflow/checkpoints/mod";
+
+// Workflow definition file exports
+export {
+    WorkflowDefinitionError,
+    workflowDefinitionSchema,
+    type WorkflowDefinition,
+    type WorkflowAgentDefinition,
+    type WorkflowStepDefinition,
+    type WorkflowConditionDefinition,
+    type WorkflowDefinitionIssue,
+} from "./workflow/functions/definition";
 
 // MCP exports
 export * from "./mcp/mod";
+
+// Provider registry exports
+export * from "./provider/registry";
+
+// Tool registry exports
+export { registerTool, unregisterTool, hasTool, getAvailableTools } from "./tools/registry";
+
+// Token usage and model pricing exports
+export { registerModelPricing, clearModelPricing, getModelPricing } from "./provider/usage";
+
+// Provider concurrency exports
+export { setProviderConcurrency, getProviderConcurrency } from "./provider/concurrency";
+
+// Structured output exports
+export { StructuredOutputError } from "./agent/functions/schema";
+
+// Cancellation exports
+export { TimeoutError } from "./utils/abort";
@@ -0,0 +1,372 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { ContentBlock, MessageParam, Tool as AnthropicTool, ToolResultBlockParam } from "@anthropic-ai/sdk/resources/messages";
+import type { TokenUsage, Tool } from "../types";
+import { executeTool } from "../agent/functions/tools";
+import { isDeferredToolCall } from "../utils/deferred";
+import { createEmptyUsage, recordUsage } from "./usage";
+import type { AgentForceLogger, LLMCallOptions, ModelConfig } from "../types";
+import { truncate } from "../utils/truncate";
+import { sleep } from "../utils/abort";
+import { sanitizeToolResultForContext } from "../utils/sanitize";
+import type { AgentForceAgent } from "../agent";
+
+/**
+ * Interface for Anthropic tool use functionality
+ * @interface AnthropicToolUseInterface
+ * @property {function} generateWithTools - Generate response with tool support using a prompt
+ * @property {function} chatWithTools - Chat with tool support using message history
+ * @property {function} getUsage - Get the token usage of all tool rounds
+ */
+export interface AnthropicToolUseInterface {
+    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools(messages: Array<{ role: string; content: string }>, tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    getUsage(): TokenUsage;
+}
+
+// Re-export types for convenience
+export type { Tool, AgentForceLogger, ModelConfig };
+
+/**
+ * The Messages API requires max_tokens on every request
+ */
+export const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * Convert AgentForce chat history to the Anthropic Messages API shape.
+ * System messages are lifted into the top-level `system` parameter, tool messages are dropped
+ * (they have no matching tool_use block) and consecutive messages of the same role are merged,
+ * because the API expects user and assistant turns to alternate.
+ * @param messages - Array of messages for the conversation
+ * @returns The system prompt (if any) and the alternating message list
+ */
+export function toAnthropicMessages(messages: Array<{ role: string; content: string }>): { system?: string; messages: MessageParam[] } {
+    const systemParts: string[] = [];
+    const converted: MessageParam[] = [];
+
+    for (const msg of messages) {
+        if (msg.role === "system") {
+            systemParts.push(msg.content);
+            continue;
+        }
+        if (msg.role !== "user" && msg.role !== "assistant") {
+            continue;
+        }
+
+        const previous = converted[converted.length - 1];
+        if (previous && previous.role === msg.role && typeof previous.content === "string") {
+            previous.content = `${previous.content}\n\n${msg.content}`;
+        } else {
+            converted.push({ role: msg.role, content: msg.content });
+        }
+    }
+
+    return {
+        ...(systemParts.length > 0 && { system: systemParts.join("\n\n") }),
+        messages: converted,
+    };
+}
+
+/**
+ * Join the text blocks of an Anthropic response into a single string
+ * @param content - Content blocks returned by the Messages API
+ */
+export function extractAnthropicText(content: ContentBlock[]): string {
+    return content
+        .filter((block): block is Extract<ContentBlock, { type: "text" }> => block.type === "text")
+        .map(block => block.text)
+        .join("");
+}
+
+/**
+ * Anthropic tool use functionality for the AgentForce SDK
+ * Runs the Messages API tool_use / tool_result loop over AgentForce and MCP tools
+ */
+export class AnthropicToolUse implements AnthropicToolUseInterface {
+    private model: string;
+    private modelConfig?: ModelConfig;
+    private client: Anthropic;
+    private usage: TokenUsage = createEmptyUsage();
+
+    constructor(model: string, modelConfig?: ModelConfig) {
+        this.model = model;
+        this.modelConfig = modelConfig;
+
+        const apiKey = process.env.ANTHROPIC_API_KEY;
+        if (!apiKey) {
+            throw new Error("ANTHROPIC_API_KEY environment variable is required");
+        }
+
+        this.client = new Anthropic({
+            apiKey: apiKey,
+            ...(modelConfig?.baseUrl && { baseURL: modelConfig.baseUrl }),
+        });
+    }
+
+    /**
+     * Get the token usage of all requests made by this instance
+     */
+    getUsage(): TokenUsage {
+        return { ...this.usage };
+    }
+
+    /**
+     * Convert AgentForce Tool format to Anthropic tool format
+     * @param tools - Array of AgentForce tool definitions
+     * @returns Array of Anthropic-compatible tool definitions
+     */
+    private convertToolsToAnthropicFormat(tools: Tool[]): AnthropicTool[] {
+        return tools.map(tool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            input_schema: tool.function.parameters,
+        }));
+    }
+
+    /**
+     * Get the options for Anthropic API calls
+     * Merges default options with user-provided ModelConfig
+     */
+    private getAnthropicOptions(): { max_tokens: number; temperature?: number } {
+        return {
+            max_tokens: this.modelConfig?.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+            ...(this.modelConfig?.temperature !== undefined && { temperature: this.modelConfig.temperature }),
+        };
+    }
+
+    /**
+     * Apply request delay if configured
+     * Helps prevent rate limiting by spacing out API calls
+     */
+    private async applyRequestDelay(logger?: AgentForceLogger, signal?: AbortSignal): Promise<void> {
+        if (this.modelConfig?.requestDelay && this.modelConfig.requestDelay > 0) {
+            const delayMs = this.modelConfig.requestDelay * 1000; // Convert seconds to milliseconds
+
+            if (logger) {
+                logger.debug("Applying request delay", {
+                    delaySeconds: this.modelConfig.requestDelay,
+                    delayMs,
+                    provider: "anthropic",
+                    model: this.model,
+                });
+            }
+
+            await sleep(delayMs, signal);
+        }
+    }
+
+    /**
+     * Generate response with tool support using the Anthropic model
+     * @param prompt - The user prompt to send to the model
+     * @param tools - Array of tool definitions
+     * @param system - Optional system prompt
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string> {
+        const messages: Array<{ role: string; content: string }> = [
+            ...(system ? [{ role: "system", content: system }] : []),
+            { role: "user", content: prompt },
+        ];
+
+        return this.chatWithTools(messages, tools, logger, agent, options);
+    }
+
+    /**
+     * Chat with tool support
+     * @param messages - Array of messages for the conversation
+     * @param tools - Array of tool definitions
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async chatWithTools(
+        messages: Array<{ role: string; content: string }>,
+        tools: Tool[],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options: LLMCallOptions = {},
+    ): Promise<string> {
+        const { signal } = options;
+        try {
+            if (logger) {
+                logger.debug("Initial Anthropic chat call with tools", {
+                    model: this.model,
+                    toolsAvailable: tools.map(t => t.function.name),
+                    messageCount: messages.length,
+                });
+            }
+
+            const { system, messages: convo } = toAnthropicMessages(messages);
+
+            const maxRounds = this.modelConfig?.maxToolRounds ?? 20;
+            let lastToolResults: string[] = [];
+
+            // Convert tools to Anthropic format
+            const anthropicTools = this.convertToolsToAnthropicFormat(tools);
+
+            for (let round = 0; round < maxRounds; round++) {
+                // Apply delay before each API call to prevent rate limiting
+                if (round > 0) { // Skip delay on first call
+                    await this.applyRequestDelay(logger, signal);
+                }
+
+                const response = await this.client.messages.create({
+                    model: this.model,
+                    messages: convo,
+                    tools: anthropicTools,
+                    tool_choice: { type: "auto" },
+                    ...(system && { system }),
+                    ...this.getAnthropicOptions(),
+                }, { signal });
+                recordUsage(this.usage, response.usage?.input_tokens, response.usage?.output_tokens);
+
+                const toolUses = response.content.filter(
+                    (block): block is Extract<ContentBlock, { type: "tool_use" }> => block.type === "tool_use",
+                );
+
+                // Check if model wants to use tools
+                if (toolUses.length > 0) {
+                    if (logger) {
+                        logger.debug("Model requested tool calls", {
+                            toolCalls: toolUses.map(tu => ({
+                                id: tu.id,
+                                tool: tu.name,
+                                args: truncate(JSON.stringify(tu.input ?? {}), 200),
+                            })),
+                        });
+                    }
+
+                    const toolResults: string[] = [];
+                    let deferred = false;
+                    const toolResultBlocks: ToolResultBlockParam[] = [];
+
+                    // The assistant turn with the tool_use blocks must precede the tool results
+                    convo.push({ role: "assistant", content: response.content });
+
+                    // Execute each tool call
+                    for (const toolUse of toolUses) {
+                        const toolName = toolUse.name;
+                        const args = (toolUse.input ?? {}) as Record<string, unknown>;
+
+                        if (logger) {
+                            logger.debug("Executing tool", {
+                                toolId: toolUse.id,
+                                tool: toolName,
+                                args: truncate(JSON.stringify(args), 200),
+                            });
+                        }
+
+                        try {
+                            const result = await executeTool(toolName, args, agent, logger, signal);
+                            deferred ||= isDeferredToolCall(result);
+
+                            if (logger) {
+                                logger.debug("Tool executed successfully", {
+                                    toolId: toolUse.id,
+                                    tool: toolName,
+                                    result: truncate(JSON.stringify(result), 200),
+                                });
+                            }
+
+                            toolResults.push(
+                                `Tool ${toolName} (${toolUse.id}) args: ${JSON.stringify(args)}\nResult: ${JSON.stringify(result, null, 2)}`,
+                            );
+
+                            // Add tool result to the next user turn (exclude large data like screenshots)
+                            toolResultBlocks.push({
+                                type: "tool_result",
+                                tool_use_id: toolUse.id,
+                                content: JSON.stringify(sanitizeToolResultForContext(result)),
+                            });
+
+                        } catch (error) {
+                            signal?.throwIfAborted();
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            if (logger) {
+                                logger.error("Tool execution failed", {
+                                    toolId: toolUse.id,
+                                    tool: toolName,
+                                    args: JSON.stringify(args),
+                                    error: errorMessage,
+                                });
+                            }
+
+                            toolResults.push(`Tool ${toolName} (${toolUse.id}) args: ${JSON.stringify(args)}\nError: ${errorMessage}`);
+
+                            // Add error as tool result
+                            toolResultBlocks.push({
+                                type: "tool_result",
+                                tool_use_id: toolUse.id,
+                                content: `Error: ${errorMessage}`,
+                                is_error: true,
+                            });
+                        }
+                    }
+
+                    // All tool results of a round go back in a single user turn
+                    convo.push({ role: "user", content: toolResultBlocks });
+                    lastToolResults = toolResults;
+
+                    // Calls of tools the agent does not execute go back to its caller instead of the model
+                    if (deferred) {
+                        if (logger) {
+                            logger.debug("Returning deferred tool calls to the caller", { round: round + 1 });
+                        }
+                        return extractAnthropicText(response.content);
+                    }
+
+                    if (logger) {
+                        logger.debug("Sending tool results back to LLM for follow-up", { round: round + 1 });
+                    }
+
+                    // Continue to next round
+                    continue;
+                }
+
+                const finalContent = extractAnthropicText(response.content);
+
+                // No tool calls -> final answer
+                if (logger) {
+                    logger.debug("Final response generated after tool execution", {
+                        round: round + 1,
+                        contentPreview: finalContent.substring(0, 200),
+                        stopReason: response.stop_reason,
+                    });
+                }
+
+                if (this.modelConfig?.appendToolResults && lastToolResults.length > 0) {
+                    return `${finalContent}\n\n---\nRaw tool results:\n${lastToolResults.join("\n\n")}`;
+                }
+                return finalContent;
+            }
+
+            if (logger) {
+                logger.debug("Max tool rounds reached, returning last attempt content");
+            }
+
+            // Final attempt with tool calls disabled so the model has to answer with what it has
+            await this.applyRequestDelay(logger, signal);
+            const lastAttempt = await this.client.messages.create({
+                model: this.model,
+                messages: convo,
+                tools: anthropicTools,
+                tool_choice: { type: "none" },
+                ...(system && { system }),
+                ...this.getAnthropicOptions(),
+            }, { signal });
+            recordUsage(this.usage, lastAttempt.usage?.input_tokens, lastAttempt.usage?.output_tokens);
+
+            return extractAnthropicText(lastAttempt.content);
+        } catch (error) {
+            signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (logger) {
+                logger.error(`Anthropic provider error: ${errorMessage}`);
+            }
+            return `Error: Anthropic provider error - ${errorMessage}`;
+        }
+    }
+}
@@ -0,0 +1,168 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { LLMCallOptions, TokenUsage, Tool } from "../types";
+import { AnthropicToolUse, ANTHROPIC_DEFAULT_MAX_TOKENS, extractAnthropicText, toAnthropicMessages } from "./anthropic-tooluse";
+import { createEmptyUsage, mergeUsage, recordUsage } from "./usage";
+import type { AgentForceLogger, ModelConfig } from "../types";
+import type { AgentForceAgent } from "../agent";
+
+/**
+ * Interface for Anthropic provider functionality
+ * @interface AnthropicProviderInterface
+ * @property {function} generate - Generate response from prompt without tools
+ * @property {function} generateWithTools - Generate response with tool support
+ * @property {function} chatWithTools - Chat with tool support using message history
+ * @property {function} chat - Chat without tool support using message history
+ * @property {function} getUsage - Get the token usage of all calls, tool rounds included
+ * @property {function} getModel - Get current model name
+ * @property {function} setModel - Set model name
+ */
+export interface AnthropicProviderInterface {
+    generate(prompt: string, system?: string, options?: LLMCallOptions): Promise<string>;
+    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools(messages: Array<{ role: string; content: string }>, tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chat(messages: Array<{ role: string; content: string }>, options?: LLMCallOptions): Promise<string>;
+    getUsage(): TokenUsage;
+    getModel(): string;
+    setModel(model: string): void;
+    cleanup(): void;
+}
+
+/**
+ * Anthropic provider implementation for the AgentForce SDK
+ * Handles communication with the Anthropic Messages API.
+ * System prompts are sent through the top-level `system` parameter and `maxTokens` defaults to 4096.
+ */
+export class AnthropicProvider implements AnthropicProviderInterface {
+    private model: string;
+    private modelConfig?: ModelConfig;
+    private client: Anthropic;
+    private toolUse: AnthropicToolUse;
+    private usage: TokenUsage = createEmptyUsage();
+
+    constructor(model: string, modelConfig?: ModelConfig) {
+        this.model = model;
+        this.modelConfig = modelConfig;
+
+        const apiKey = process.env.ANTHROPIC_API_KEY;
+        if (!apiKey) {
+            throw new Error("ANTHROPIC_API_KEY environment variable is required");
+        }
+
+        this.client = new Anthropic({
+            apiKey: apiKey,
+            ...(modelConfig?.baseUrl && { baseURL: modelConfig.baseUrl }),
+        });
+
+        this.toolUse = new AnthropicToolUse(model, modelConfig);
+    }
+
+    /**
+     * Generate response using the Anthropic model
+     * @param prompt - The user prompt to send to the model
+     * @param system - Optional system prompt to override the model's default
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response
+     */
+    async generate(prompt: string, system?: string, options: LLMCallOptions = {}): Promise<string> {
+        const messages: Array<{ role: string; content: string }> = [];
+
+        if (system) {
+            messages.push({ role: "system", content: system });
+        }
+
+        messages.push({ role: "user", content: prompt });
+
+        return this.chat(messages, options);
+    }
+
+    /**
+     * Chat with the Anthropic model
+     * @param messages - Array of messages for the conversation
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response
+     */
+    async chat(messages: Array<{ role: string; content: string }>, options: LLMCallOptions = {}): Promise<string> {
+        try {
+            // Lift system messages out and merge consecutive turns of the same role
+            const { system, messages: anthropicMessages } = toAnthropicMessages(messages);
+
+            const response = await this.client.messages.create({
+                model: this.model,
+                messages: anthropicMessages,
+                max_tokens: this.modelConfig?.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+                ...(system && { system }),
+                ...(this.modelConfig?.temperature !== undefined && { temperature: this.modelConfig.temperature }),
+            }, { signal: options.signal });
+            recordUsage(this.usage, response.usage?.input_tokens, response.usage?.output_tokens);
+
+            return extractAnthropicText(response.content);
+        } catch (error) {
+            options.signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return `Error: Anthropic provider error - ${errorMessage}`;
+        }
+    }
+
+    /**
+     * Get the token usage of all calls made by this provider instance, tool rounds included
+     */
+    getUsage(): TokenUsage {
+        return mergeUsage(this.usage, this.toolUse.getUsage());
+    }
+
+    /**
+     * Get the current model name
+     */
+    getModel(): string {
+        return this.model;
+    }
+
+    /**
+     * Set a new model
+     */
+    setModel(model: string): void {
+        this.model = model;
+        this.usage = this.getUsage();
+        this.toolUse = new AnthropicToolUse(model, this.modelConfig);
+    }
+
+    /**
+     * Generate response with tool support using the Anthropic model
+     * @param prompt - The user prompt to send to the model
+     * @param tools - Array of tool definitions
+     * @param system - Optional system prompt
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string> {
+        return this.toolUse.generateWithTools(prompt, tools, system, logger, agent, options);
+    }
+
+    /**
+     * Chat with tool support
+     * @param messages - Array of messages for the conversation
+     * @param tools - Array of tool definitions
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async chatWithTools(
+        messages: Array<{ role: string; content: string }>,
+        tools: Tool[],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options?: LLMCallOptions,
+    ): Promise<string> {
+        return this.toolUse.chatWithTools(messages, tools, logger, agent, options);
+    }
+
+    /**
+     * Cleanup HTTP connections to allow process to exit cleanly
+     */
+    cleanup(): void {
+        // The Anthropic SDK uses the global fetch and keeps no agent of its own
+    }
+}
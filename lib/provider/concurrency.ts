@@ -0,0 +1,67 @@
+import { assertConcurrency, createLimiter, type Limiter } from "../utils/concurrency";
+
+/**
+ * Concurrency pools keyed by lowercase provider name
+ * Providers without a pool are not limited.
+ */
+const providerLimiters: Record<string, Limiter> = {};
+
+/**
+ * Limit how many calls to a provider run at the same time across all agents and workflows
+ * Calls above the limit wait for a free slot. Changing the limit does not affect calls already running.
+ * @param provider - The provider name, e.g. "ollama"
+ * @param limit - The maximum number of concurrent calls, undefined removes the limit
+ *
+ * @example
+ * ```ts
+ * // A local Ollama instance handles two requests at a time
+ * setProviderConcurrency("ollama", 2);
+ *
+ * await workflow.iterate(documents, summarizer, { concurrency: 10 }).run();
+ * ```
+ */
+export function setProviderConcurrency(provider: string, limit: number | undefined): void {
+    const key = provider.toLowerCase();
+    if (limit === undefined) {
+        delete providerLimiters[key];
+        return;
+    }
+    assertConcurrency(limit, `Concurrency of provider "${provider}"`);
+    providerLimiters[key] = createLimiter(limit);
+}
+
+/**
+ * Get the concurrency limit of a provider
+ * @param provider - The provider name
+ * @returns {number | undefined} The limit or undefined when the provider is not limited
+ */
+export function getProviderConcurrency(provider: string): number | undefined {
+    return providerLimiters[provider.toLowerCase()]?.limit;
+}
+
+/**
+ * Wait for a free slot of the provider pool
+ * @param provider - The provider name
+ * @param signal - Stops waiting when aborted
+ * @returns {Promise<Function>} Function releasing the slot, a no-op when the provider is not limited
+ */
+export async function acquireProviderSlot(provider: string, signal?: AbortSignal): Promise<() => void> {
+    const limiter = providerLimiters[provider.toLowerCase()];
+    return limiter ? limiter.acquire(signal) : (): void => {};
+}
+
+/**
+ * Run a provider call within the concurrency limit of the provider
+ * @param provider - The provider name
+ * @param signal - Stops waiting for a slot when aborted
+ * @param operation - The provider call
+ * @returns The result of the call
+ */
+export async function withProviderSlot<T>(provider: string, signal: AbortSignal | undefined, operation: () => Promise<T>): Promise<T> {
+    const release = await acquireProviderSlot(provider, signal);
+    try {
+        return await operation();
+    } finally {
+        release();
+    }
+}
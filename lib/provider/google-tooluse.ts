@@ -0,0 +1,553 @@
+import { GoogleGenAI, FunctionCallingConfigMode } from "@google/genai";
+import type { Content, FunctionCall, FunctionDeclaration, GenerateContentConfig, GenerateContentResponseUsageMetadata, Part } from "@google/genai";
+import type { LLMMessage, LLMStreamEvent, TokenUsage, Tool } from "../types";
+import { executeTool } from "../agent/functions/tools";
+import { isDeferredToolCall } from "../utils/deferred";
+import { createEmptyUsage, recordUsage } from "./usage";
+import type { AgentForceLogger, LLMCallOptions, ModelConfig } from "../types";
+import { truncate } from "../utils/truncate";
+import { sleep } from "../utils/abort";
+import { sanitizeToolResultForContext } from "../utils/sanitize";
+import { inlineImages, parseDataUrl } from "../utils/images";
+import type { AgentForceAgent } from "../agent";
+
+/**
+ * Interface for Google Gemini tool use functionality
+ * @interface GoogleToolUseInterface
+ * @property {function} generateWithTools - Generate response with tool support using a prompt
+ * @property {function} chatWithTools - Chat with tool support using message history
+ * @property {function} stream - Stream the response with tool support using message history
+ * @property {function} getUsage - Get the token usage of all tool rounds
+ */
+export interface GoogleToolUseInterface {
+    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools(messages: LLMMessage[], tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    stream(messages: LLMMessage[], tools?: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): AsyncGenerator<LLMStreamEvent>;
+    getUsage(): TokenUsage;
+}
+
+// Re-export types for convenience
+export type { Tool, AgentForceLogger, ModelConfig };
+
+/**
+ * Convert AgentForce chat history to Gemini contents.
+ * System messages become the systemInstruction, assistant messages use the "model" role
+ * and tool messages are dropped because they have no matching functionCall part.
+ * Images loaded with `inlineImages()` become inlineData parts, other image URLs are sent as fileData.
+ * @param messages - Array of messages for the conversation
+ * @returns The system instruction (if any) and the Gemini contents
+ */
+export function toGeminiContents(messages: LLMMessage[]): { systemInstruction?: string; contents: Content[] } {
+    const systemParts: string[] = [];
+    const contents: Content[] = [];
+
+    for (const msg of messages) {
+        if (msg.role === "system") {
+            systemParts.push(msg.content);
+        } else if (msg.role === "user" || msg.role === "assistant") {
+            const imageParts: Part[] = (msg.images ?? []).map(url => {
+                const image = parseDataUrl(url);
+                return image ? { inlineData: image } : { fileData: { fileUri: url } };
+            });
+            contents.push({
+                role: msg.role === "assistant" ? "model" : "user",
+                parts: [{ text: msg.content }, ...imageParts],
+            });
+        }
+    }
+
+    return {
+        ...(systemParts.length > 0 && { systemInstruction: systemParts.join("\n\n") }),
+        contents,
+    };
+}
+
+/**
+ * Create the Gemini client, honouring a base URL override from the model config
+ * @param modelConfig - Optional model configuration
+ */
+export function createGoogleClient(modelConfig?: ModelConfig): GoogleGenAI {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new Error("GEMINI_API_KEY environment variable is required");
+    }
+
+    return new GoogleGenAI({
+        apiKey,
+        ...(modelConfig?.baseUrl && { httpOptions: { baseUrl: modelConfig.baseUrl } }),
+    });
+}
+
+/**
+ * Google Gemini tool use functionality for the AgentForce SDK
+ * Runs the Gemini function calling loop over AgentForce and MCP tools
+ */
+export class GoogleToolUse implements GoogleToolUseInterface {
+    private model: string;
+    private modelConfig?: ModelConfig;
+    private ai: GoogleGenAI;
+    private usage: TokenUsage = createEmptyUsage();
+
+    constructor(model: string, modelConfig?: ModelConfig) {
+        this.model = model;
+        this.modelConfig = modelConfig;
+        this.ai = createGoogleClient(modelConfig);
+    }
+
+    /**
+     * Get the token usage of all requests made by this instance
+     */
+    getUsage(): TokenUsage {
+        return { ...this.usage };
+    }
+
+    /**
+     * Convert AgentForce Tool format to Gemini function declarations
+     * @param tools - Array of AgentForce tool definitions
+     * @returns Array of Gemini function declarations
+     */
+    private convertToolsToGeminiFormat(tools: Tool[]): FunctionDeclaration[] {
+        return tools.map(tool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            parametersJsonSchema: tool.function.parameters,
+        }));
+    }
+
+    /**
+     * Get the generation options for Gemini API calls
+     * Merges default options with user-provided ModelConfig
+     */
+    private getGeminiOptions(): GenerateContentConfig {
+        const options: GenerateContentConfig = {};
+
+        if (!this.modelConfig) {
+            return options;
+        }
+
+        if (this.modelConfig.temperature !== undefined) {
+            options.temperature = this.modelConfig.temperature;
+        }
+        if (this.modelConfig.maxTokens !== undefined) {
+            options.maxOutputTokens = this.modelConfig.maxTokens;
+        }
+
+        return options;
+    }
+
+    /**
+     * Apply request delay if configured
+     * Helps prevent rate limiting by spacing out API calls
+     */
+    private async applyRequestDelay(logger?: AgentForceLogger, signal?: AbortSignal): Promise<void> {
+        if (this.modelConfig?.requestDelay && this.modelConfig.requestDelay > 0) {
+            const delayMs = this.modelConfig.requestDelay * 1000; // Convert seconds to milliseconds
+
+            if (logger) {
+                logger.debug("Applying request delay", {
+                    delaySeconds: this.modelConfig.requestDelay,
+                    delayMs,
+                    provider: "google",
+                    model: this.model,
+                });
+            }
+
+            await sleep(delayMs, signal);
+        }
+    }
+
+    /**
+     * Generate response with tool support using the Gemini model
+     * @param prompt - The user prompt to send to the model
+     * @param tools - Array of tool definitions
+     * @param system - Optional system prompt
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string> {
+        const messages: LLMMessage[] = [
+            ...(system ? [{ role: "system", content: system }] : []),
+            { role: "user", content: prompt },
+        ];
+
+        return this.chatWithTools(messages, tools, logger, agent, options);
+    }
+
+    /**
+     * Chat with tool support
+     * @param messages - Array of messages for the conversation
+     * @param tools - Array of tool definitions
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async chatWithTools(
+        messages: LLMMessage[],
+        tools: Tool[],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options: LLMCallOptions = {},
+    ): Promise<string> {
+        const { signal } = options;
+        try {
+            if (logger) {
+                logger.debug("Initial Google chat call with tools", {
+                    model: this.model,
+                    toolsAvailable: tools.map(t => t.function.name),
+                    messageCount: messages.length,
+                });
+            }
+
+            const { systemInstruction, contents } = toGeminiContents(await inlineImages(messages, signal));
+
+            const maxRounds = this.modelConfig?.maxToolRounds ?? 20;
+            let lastToolResults: string[] = [];
+
+            // Convert tools to Gemini format
+            const geminiTools = [{ functionDeclarations: this.convertToolsToGeminiFormat(tools) }];
+
+            for (let round = 0; round < maxRounds; round++) {
+                // Apply delay before each API call to prevent rate limiting
+                if (round > 0) { // Skip delay on first call
+                    await this.applyRequestDelay(logger, signal);
+                }
+
+                const response = await this.ai.models.generateContent({
+                    model: this.model,
+                    contents,
+                    config: {
+                        tools: geminiTools,
+                        toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.AUTO } },
+                        ...(systemInstruction && { systemInstruction }),
+                        ...this.getGeminiOptions(),
+                        ...(signal && { abortSignal: signal }),
+                    },
+                });
+                recordUsage(this.usage, response.usageMetadata?.promptTokenCount, response.usageMetadata?.candidatesTokenCount);
+
+                const functionCalls = response.functionCalls || [];
+
+                // Check if model wants to use tools
+                if (functionCalls.length > 0) {
+                    if (logger) {
+                        logger.debug("Model requested tool calls", {
+                            toolCalls: functionCalls.map(fc => ({
+                                id: fc.id,
+                                tool: fc.name,
+                                args: truncate(JSON.stringify(fc.args ?? {}), 200),
+                            })),
+                        });
+                    }
+
+                    const toolResults: string[] = [];
+                    let deferred = false;
+                    const responseParts: Part[] = [];
+
+                    // The model turn with the functionCall parts must precede the function responses
+                    const modelContent = response.candidates?.[0]?.content;
+                    contents.push(modelContent ?? { role: "model", parts: functionCalls.map(fc => ({ functionCall: fc })) });
+
+                    // Execute each tool call
+                    for (const functionCall of functionCalls) {
+                        const toolName = functionCall.name ?? "";
+                        const args = (functionCall.args ?? {}) as Record<string, unknown>;
+
+                        if (logger) {
+                            logger.debug("Executing tool", {
+                                toolId: functionCall.id,
+                                tool: toolName,
+                                args: truncate(JSON.stringify(args), 200),
+                            });
+                        }
+
+                        try {
+                            const result = await executeTool(toolName, args, agent, logger, signal);
+                            deferred ||= isDeferredToolCall(result);
+
+                            if (logger) {
+                                logger.debug("Tool executed successfully", {
+                                    toolId: functionCall.id,
+                                    tool: toolName,
+                                    result: truncate(JSON.stringify(result), 200),
+                                });
+                            }
+
+                            toolResults.push(`Tool ${toolName} args: ${JSON.stringify(args)}\nResult: ${JSON.stringify(result, null, 2)}`);
+
+                            // Add function response to the next user turn (exclude large data like screenshots)
+                            responseParts.push({
+                                functionResponse: {
+                                    ...(functionCall.id && { id: functionCall.id }),
+                                    name: toolName,
+                                    response: { output: sanitizeToolResultForContext(result) },
+                                },
+                            });
+
+                        } catch (error) {
+                            signal?.throwIfAborted();
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            if (logger) {
+                                logger.error("Tool execution failed", {
+                                    toolId: functionCall.id,
+                                    tool: toolName,
+                                    args: JSON.stringify(args),
+                                    error: errorMessage,
+                                });
+                            }
+
+                            toolResults.push(`Tool ${toolName} args: ${JSON.stringify(args)}\nError: ${errorMessage}`);
+
+                            // Add error as function response
+                            responseParts.push({
+                                functionResponse: {
+                                    ...(functionCall.id && { id: functionCall.id }),
+                                    name: toolName,
+                                    response: { error: errorMessage },
+                                },
+                            });
+                        }
+                    }
+
+                    // All function responses of a round go back in a single user turn
+                    contents.push({ role: "user", parts: responseParts });
+                    lastToolResults = toolResults;
+
+                    // Calls of tools the agent does not execute go back to its caller instead of the model
+                    if (deferred) {
+                        if (logger) {
+                            logger.debug("Returning deferred tool calls to the caller", { round: round + 1 });
+                        }
+                        return response.text ?? "";
+                    }
+
+                    if (logger) {
+                        logger.debug("Sending tool results back to LLM for follow-up", { round: round + 1 });
+                    }
+
+                    // Continue to next round
+                    continue;
+                }
+
+                const finalContent = response.text ?? "";
+
+                // No tool calls -> final answer
+                if (logger) {
+                    logger.debug("Final response generated after tool execution", {
+                        round: round + 1,
+                        contentPreview: finalContent.substring(0, 200),
+                        finishReason: response.candidates?.[0]?.finishReason,
+                    });
+                }
+
+                if (this.modelConfig?.appendToolResults && lastToolResults.length > 0) {
+                    return `${finalContent}\n\n---\nRaw tool results:\n${lastToolResults.join("\n\n")}`;
+                }
+                return finalContent;
+            }
+
+            if (logger) {
+                logger.debug("Max tool rounds reached, returning last attempt content");
+            }
+
+            // Final attempt with function calling disabled so the model has to answer with what it has
+            await this.applyRequestDelay(logger, signal);
+            const lastAttempt = await this.ai.models.generateContent({
+                model: this.model,
+                contents,
+                config: {
+                    tools: geminiTools,
+                    toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } },
+                    ...(systemInstruction && { systemInstruction }),
+                    ...this.getGeminiOptions(),
+                    ...(signal && { abortSignal: signal }),
+                },
+            });
+            recordUsage(this.usage, lastAttempt.usageMetadata?.promptTokenCount, lastAttempt.usageMetadata?.candidatesTokenCount);
+
+            return lastAttempt.text ?? "";
+        } catch (error) {
+            signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (logger) {
+                logger.error(`Google Gemini provider error: ${errorMessage}`);
+            }
+            return `Error: Google Gemini provider error - ${errorMessage}`;
+        }
+    }
+
+    /**
+     * Stream the response as text deltas, running function calls between rounds
+     * @param messages - Array of messages for the conversation
+     * @param tools - Optional array of tool definitions
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Async generator of text deltas and tool events
+     */
+    async *stream(
+        messages: LLMMessage[],
+        tools: Tool[] = [],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options: LLMCallOptions = {},
+    ): AsyncGenerator<LLMStreamEvent> {
+        const { signal } = options;
+        try {
+            if (logger) {
+                logger.debug("Initial Google streaming call", {
+                    model: this.model,
+                    toolsAvailable: tools.map(t => t.function.name),
+                    messageCount: messages.length,
+                });
+            }
+
+            const { systemInstruction, contents } = toGeminiContents(await inlineImages(messages, signal));
+
+            const maxRounds = this.modelConfig?.maxToolRounds ?? 20;
+            const geminiTools = tools.length > 0 ? [{ functionDeclarations: this.convertToolsToGeminiFormat(tools) }] : undefined;
+            let lastToolResults: string[] = [];
+
+            for (let round = 0; round <= maxRounds; round++) {
+                // Apply delay before each API call to prevent rate limiting
+                if (round > 0) { // Skip delay on first call
+                    await this.applyRequestDelay(logger, signal);
+                }
+
+                // After maxRounds the model has to answer with what it has
+                const mode = round < maxRounds ? FunctionCallingConfigMode.AUTO : FunctionCallingConfigMode.NONE;
+
+                const chunks = await this.ai.models.generateContentStream({
+                    model: this.model,
+                    contents,
+                    config: {
+                        ...(geminiTools && { tools: geminiTools, toolConfig: { functionCallingConfig: { mode } } }),
+                        ...(systemInstruction && { systemInstruction }),
+                        ...this.getGeminiOptions(),
+                        ...(signal && { abortSignal: signal }),
+                    },
+                });
+
+                let content = "";
+                // Keep every part of the model turn so thought signatures survive the round trip
+                const modelParts: Part[] = [];
+                const functionCalls: FunctionCall[] = [];
+
+                // Usage metadata is cumulative, the last chunk has the totals of the round
+                let roundUsage: GenerateContentResponseUsageMetadata | undefined;
+
+                for await (const chunk of chunks) {
+                    roundUsage = chunk.usageMetadata ?? roundUsage;
+                    const parts = chunk.candidates?.[0]?.content?.parts ?? [];
+                    // Read text parts directly, the chunk.text getter warns about function call parts
+                    const text = parts.filter(part => part.text && !part.thought).map(part => part.text).join("");
+                    if (text) {
+                        content += text;
+                        yield { type: "text", text };
+                    }
+                    modelParts.push(...parts);
+                    functionCalls.push(...(chunk.functionCalls ?? []));
+                }
+                recordUsage(this.usage, roundUsage?.promptTokenCount, roundUsage?.candidatesTokenCount);
+
+                // No tool calls -> final answer
+                if (functionCalls.length === 0) {
+                    if (logger) {
+                        logger.debug("Final streamed response generated", {
+                            round: round + 1,
+                            contentPreview: content.substring(0, 200),
+                        });
+                    }
+
+                    if (this.modelConfig?.appendToolResults && lastToolResults.length > 0) {
+                        yield { type: "text", text: `\n\n---\nRaw tool results:\n${lastToolResults.join("\n\n")}` };
+                    }
+                    return;
+                }
+
+                // The model turn with the functionCall parts must precede the function responses
+                contents.push({ role: "model", parts: modelParts });
+
+                const toolResults: string[] = [];
+                let deferred = false;
+                const responseParts: Part[] = [];
+
+                // Execute each tool call
+                for (const functionCall of functionCalls) {
+                    const toolName = functionCall.name ?? "";
+                    const args = (functionCall.args ?? {}) as Record<string, unknown>;
+                    yield { type: "tool_call", name: toolName, args };
+
+                    try {
+                        const result = await executeTool(toolName, args, agent, logger, signal);
+                        deferred ||= isDeferredToolCall(result);
+
+                        if (logger) {
+                            logger.debug("Tool executed successfully", {
+                                toolId: functionCall.id,
+                                tool: toolName,
+                                result: truncate(JSON.stringify(result), 200),
+                            });
+                        }
+
+                        toolResults.push(`Tool ${toolName} args: ${JSON.stringify(args)}\nResult: ${JSON.stringify(result, null, 2)}`);
+                        yield { type: "tool_result", name: toolName, result };
+
+                        // Add function response to the next user turn (exclude large data like screenshots)
+                        responseParts.push({
+                            functionResponse: {
+                                ...(functionCall.id && { id: functionCall.id }),
+                                name: toolName,
+                                response: { output: sanitizeToolResultForContext(result) },
+                            },
+                        });
+                    } catch (error) {
+                        signal?.throwIfAborted();
+                        const errorMessage = error instanceof Error ? error.message : String(error);
+                        if (logger) {
+                            logger.error("Tool execution failed", {
+                                toolId: functionCall.id,
+                                tool: toolName,
+                                args: JSON.stringify(args),
+                                error: errorMessage,
+                            });
+                        }
+
+                        toolResults.push(`Tool ${toolName} args: ${JSON.stringify(args)}\nError: ${errorMessage}`);
+                        yield { type: "tool_result", name: toolName, error: errorMessage };
+
+                        // Add error as function response
+                        responseParts.push({
+                            functionResponse: {
+                                ...(functionCall.id && { id: functionCall.id }),
+                                name: toolName,
+                                response: { error: errorMessage },
+                            },
+                        });
+                    }
+                }
+
+                // All function responses of a round go back in a single user turn
+                contents.push({ role: "user", parts: responseParts });
+                lastToolResults = toolResults;
+
+                // Calls of tools the agent does not execute go back to its caller instead of the model
+                if (deferred) {
+                    if (logger) {
+                        logger.debug("Returning deferred tool calls to the caller", { round: round + 1 });
+                    }
+                    return;
+                }
+            }
+        } catch (error) {
+            signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (logger) {
+                logger.error(`Google Gemini provider error: ${errorMessage}`);
+            }
+            yield { type: "text", text: `Error: Google Gemini provider error - ${errorMessage}` };
+        }
+    }
+}
@@ -1,65 +1,87 @@
-import { GoogleGenAI, Content } from "@google/genai";
-import type { ModelConfig } from "../types";
+import type { GoogleGenAI, GenerateContentConfig } from "@google/genai";
+import type { LLMCallOptions, LLMMessage, LLMStreamEvent, TokenUsage, Tool } from "../types";
+import { GoogleToolUse, createGoogleClient, toGeminiContents } from "./google-tooluse";
+import { createEmptyUsage, mergeUsage, recordUsage } from "./usage";
+import { inlineImages } from "../utils/images";
+import type { AgentForceLogger, ModelConfig } from "../types";
+import type { AgentForceAgent } from "../agent";
 
 /**
  * Interface for Google provider functionality
  * @interface GoogleProviderInterface
  * @property {function} generate - Generate response from prompt
+ * @property {function} generateWithTools - Generate response with tool support
+ * @property {function} chatWithTools - Chat with tool support using message history
  * @property {function} chat - Chat using message history
+ * @property {function} stream - Stream the response as text deltas and tool events
+ * @property {function} getUsage - Get the token usage of all calls, tool rounds included
  * @property {function} getModel - Get current model name
  * @property {function} setModel - Set model name
  */
 export interface GoogleProviderInterface {
-    generate(prompt: string, system?: string): Promise<string>;
-    chat(messages: Array<{ role: string; content: string }>): Promise<string>;
+    generate(prompt: string, system?: string, options?: LLMCallOptions): Promise<string>;
+    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools(messages: LLMMessage[], tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chat(messages: LLMMessage[], options?: LLMCallOptions): Promise<string>;
+    stream(messages: LLMMessage[], tools?: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): AsyncIterable<LLMStreamEvent>;
+    getUsage(): TokenUsage;
     getModel(): string;
     setModel(model: string): void;
 }
 
 /**
  * Google Gemini provider implementation for the AgentForce SDK
- * Handles communication with Google's Gemini models
+ * Handles communication with Google's Gemini models.
+ * System prompts are sent as systemInstruction and tools run through Gemini function calling.
  */
 export class GoogleProvider implements GoogleProviderInterface {
     private model: string;
     private modelConfig?: ModelConfig;
     private ai: GoogleGenAI;
+    private toolUse: GoogleToolUse;
+    private usage: TokenUsage = createEmptyUsage();
 
     constructor(model: string, modelConfig?: ModelConfig) {
         this.model = model;
         this.modelConfig = modelConfig;
+        this.ai = createGoogleClient(modelConfig);
+        this.toolUse = new GoogleToolUse(model, modelConfig);
+    }
 
-        const apiKey = process.env.GEMINI_API_KEY;
-        if (!apiKey) {
-            throw new Error("GEMINI_API_KEY environment variable is required");
-        }
-
-        this.ai = new GoogleGenAI({ apiKey });
+    /**
+     * Get the generation options for Gemini API calls
+     * Merges default options with user-provided ModelConfig
+     */
+    private getGeminiOptions(): GenerateContentConfig {
+        return {
+            ...(this.modelConfig?.temperature !== undefined && { temperature: this.modelConfig.temperature }),
+            ...(this.modelConfig?.maxTokens !== undefined && { maxOutputTokens: this.modelConfig.maxTokens }),
+            ...(this.modelConfig?.jsonSchema && { responseMimeType: "application/json", responseJsonSchema: this.modelConfig.jsonSchema }),
+        };
     }
 
     /**
      * Generate response using the Google Gemini model
      * @param prompt - The user prompt to send to the model
      * @param system - Optional system prompt to provide context
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response
      */
-    public async generate(prompt: string, _system?: string): Promise<string> {
+    public async generate(prompt: string, system?: string, options: LLMCallOptions = {}): Promise<string> {
         try {
-            const generationConfig: any = {};
-            if (this.modelConfig?.temperature !== undefined) {
-                generationConfig.temperature = this.modelConfig.temperature;
-            }
-            if (this.modelConfig?.maxTokens !== undefined) {
-                generationConfig.maxOutputTokens = this.modelConfig.maxTokens;
-            }
-            
             const response = await this.ai.models.generateContent({
                 model: this.model,
                 contents: prompt,
-                ...(Object.keys(generationConfig).length > 0 && { generationConfig }),
+                config: {
+                    ...(system && { systemInstruction: system }),
+                    ...this.getGeminiOptions(),
+                    ...(options.signal && { abortSignal: options.signal }),
+                },
             });
+            recordUsage(this.usage, response.usageMetadata?.promptTokenCount, response.usageMetadata?.candidatesTokenCount);
             return response.text ?? "No response text available";
         } catch (error) {
+            options.signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             return `Error: Google Gemini provider error - ${errorMessage}`;
         }
@@ -68,24 +90,13 @@ export class GoogleProvider implements GoogleProviderInterface {
     /**
      * Chat with the Google Gemini model
      * @param messages - Array of messages for the conversation
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response
      */
-    async chat(messages: Array<{ role: string; content: string }>): Promise<string> {
+    async chat(messages: LLMMessage[], options: LLMCallOptions = {}): Promise<string> {
         try {
-            const contents: Content[] = [];
-
-            for (const msg of messages) {
-                if (msg.role === "system") {
-                    // System messages are handled differently in Gemini API
-                    // For now, we'll skip them as they're not directly supported in contents
-                } else {
-                    // The Gemini API uses 'user' and 'model' roles
-                    contents.push({
-                        role: msg.role === "assistant" ? "model" : "user",
-                        parts: [{ text: msg.content }],
-                    });
-                }
-            }
+            // System messages become the systemInstruction, the Gemini API uses 'user' and 'model' roles
+            const { systemInstruction, contents } = toGeminiContents(await inlineImages(messages, options.signal));
             const tools = [
                 {
                     googleSearch: {
@@ -93,16 +104,16 @@ export class GoogleProvider implements GoogleProviderInterface {
                 },
             ];
 
-            const config = {
+            // Google Search grounding cannot be combined with a JSON response schema
+            const config: GenerateContentConfig = {
                 thinkingConfig: {
                     thinkingBudget: 0,
                 },
-                tools,
+                ...(!this.modelConfig?.jsonSchema && { tools }),
                 responseMimeType: "text/plain",
-                generationConfig: {
-                    ...(this.modelConfig?.temperature !== undefined && { temperature: this.modelConfig.temperature }),
-                    ...(this.modelConfig?.maxTokens !== undefined && { maxOutputTokens: this.modelConfig.maxTokens }),
-                },
+                ...(systemInstruction && { systemInstruction }),
+                ...this.getGeminiOptions(),
+                ...(options.signal && { abortSignal: options.signal }),
             };
 
             const response = await this.ai.models.generateContent({
@@ -110,6 +121,7 @@ export class GoogleProvider implements GoogleProviderInterface {
                 config,
                 contents,
             });
+            recordUsage(this.usage, response.usageMetadata?.promptTokenCount, response.usageMetadata?.candidatesTokenCount);
 
             if (!response.text) {
                 return "Error: No response text available from Google Gemini";
@@ -117,16 +129,78 @@ export class GoogleProvider implements GoogleProviderInterface {
             return response.text;
 
         } catch (error) {
+            options.signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             return `Error: Google Gemini provider error - ${errorMessage}`;
         }
     }
 
+    /**
+     * Generate response with tool support using the Gemini model
+     * @param prompt - The user prompt to send to the model
+     * @param tools - Array of tool definitions
+     * @param system - Optional system prompt
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string> {
+        return this.toolUse.generateWithTools(prompt, tools, system, logger, agent, options);
+    }
+
+    /**
+     * Chat with tool support
+     * @param messages - Array of messages for the conversation
+     * @param tools - Array of tool definitions
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async chatWithTools(
+        messages: LLMMessage[],
+        tools: Tool[],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options?: LLMCallOptions,
+    ): Promise<string> {
+        return this.toolUse.chatWithTools(messages, tools, logger, agent, options);
+    }
+
+    /**
+     * Get the token usage of all calls made by this provider instance, tool rounds included
+     */
+    getUsage(): TokenUsage {
+        return mergeUsage(this.usage, this.toolUse.getUsage());
+    }
+
+    /**
+     * Stream the response as text deltas and tool events
+     * @param messages - Array of messages for the conversation
+     * @param tools - Optional array of tool definitions, tool calls are executed between rounds
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Async iterable of text deltas and tool events
+     */
+    stream(
+        messages: LLMMessage[],
+        tools?: Tool[],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options?: LLMCallOptions,
+    ): AsyncIterable<LLMStreamEvent> {
+        return this.toolUse.stream(messages, tools, logger, agent, options);
+    }
+
     getModel(): string {
         return this.model;
     }
 
     setModel(model: string): void {
         this.model = model;
+        this.usage = this.getUsage();
+        this.toolUse = new GoogleToolUse(model, this.modelConfig);
     }
 }
\ No newline at end of file
@@ -1,23 +1,49 @@
 import ollama from "ollama";
-import type { Tool } from "../types";
+import type { Message, ToolCall } from "ollama";
+import type { LLMMessage, LLMStreamEvent, TokenUsage, Tool } from "../types";
 import { executeTool } from "../agent/functions/tools";
-import type { AgentForceLogger, ModelConfig } from "../types";
+import { isDeferredToolCall } from "../utils/deferred";
+import { createEmptyUsage, recordUsage } from "./usage";
+import type { AgentForceLogger, LLMCallOptions, ModelConfig } from "../types";
 import { truncate } from "../utils/truncate";
+import { abortable, sleep } from "../utils/abort";
+import { loadImage } from "../utils/images";
+import type { AgentForceAgent } from "../agent";
 
 /**
  * Interface for Ollama tool use functionality
  * @interface OllamaToolUseInterface
  * @property {function} generateWithTools - Generate response with tool support using a prompt
  * @property {function} chatWithTools - Chat with tool support using message history
+ * @property {function} stream - Stream the response with tool support using message history
+ * @property {function} getUsage - Get the token usage of all tool rounds
  */
 export interface OllamaToolUseInterface {
-    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: any): Promise<string>;
-    chatWithTools(messages: Array<{ role: string; content: string }>, tools: Tool[], logger?: AgentForceLogger, agent?: any): Promise<string>;
+    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools(messages: LLMMessage[], tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    stream(messages: LLMMessage[], tools?: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): AsyncGenerator<LLMStreamEvent>;
+    getUsage(): TokenUsage;
 }
 
 // Re-export types for convenience
 export type { Tool, AgentForceLogger, ModelConfig };
 
+/**
+ * Convert messages to Ollama chat messages, images are sent as base64 strings
+ * @param messages - The messages to send
+ * @param signal - Cancels the download of http(s) images
+ * @returns The Ollama messages
+ */
+export async function toOllamaMessages(messages: LLMMessage[], signal?: AbortSignal): Promise<Message[]> {
+    return Promise.all(messages.map(async message => {
+        if (!message.images?.length) {
+            return message;
+        }
+        const images = await Promise.all(message.images.map(async image => (await loadImage(image, signal)).data));
+        return { ...message, images };
+    }));
+}
+
 /**
  * Ollama tool use functionality for the AgentForce SDK
  * Handles tool execution with locally running Ollama models
@@ -25,12 +51,20 @@ export type { Tool, AgentForceLogger, ModelConfig };
 export class OllamaToolUse implements OllamaToolUseInterface {
     private model: string;
     private modelConfig?: ModelConfig;
+    private usage: TokenUsage = createEmptyUsage();
 
     constructor(model: string, modelConfig?: ModelConfig) {
         this.model = model;
         this.modelConfig = modelConfig;
     }
 
+    /**
+     * Get the token usage of all requests made by this instance
+     */
+    getUsage(): TokenUsage {
+        return { ...this.usage };
+    }
+
     /**
      * Get the combined options for Ollama API calls
      * Merges default options with user-provided ModelConfig
@@ -56,10 +90,10 @@ export class OllamaToolUse implements OllamaToolUseInterface {
      * Apply request delay if configured
      * Helps prevent rate limiting by spacing out API calls
      */
-    private async applyRequestDelay(): Promise<void> {
+    private async applyRequestDelay(signal?: AbortSignal): Promise<void> {
         if (this.modelConfig?.requestDelay && this.modelConfig.requestDelay > 0) {
             const delayMs = this.modelConfig.requestDelay * 1000; // Convert seconds to milliseconds
-            await new Promise(resolve => setTimeout(resolve, delayMs));
+            await sleep(delayMs, signal);
         }
     }
 
@@ -70,9 +104,11 @@ export class OllamaToolUse implements OllamaToolUseInterface {
      * @param system - Optional system prompt
      * @param logger - Optional logger for debugging
      * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response after tool execution
      */
-    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: any): Promise<string> {
+    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options: LLMCallOptions = {}): Promise<string> {
+        const { signal } = options;
         try {
             if (logger) {
                 logger.debug("Initial LLM call with tools", {
@@ -93,15 +129,16 @@ export class OllamaToolUse implements OllamaToolUseInterface {
             for (let round = 0; round < maxRounds; round++) {
                 // Apply delay before each API call to prevent rate limiting
                 if (round > 0) { // Skip delay on first call
-                    await this.applyRequestDelay();
+                    await this.applyRequestDelay(signal);
                 }
 
-                const response = await ollama.chat({
+                const response = await abortable(ollama.chat({
                     model: this.model,
                     messages,
                     tools,
                     options: this.getOllamaOptions(),
-                });
+                }), signal);
+                recordUsage(this.usage, response.prompt_eval_count, response.eval_count);
 
                 // Debug: log the full response structure
                 if (logger) {
@@ -166,6 +203,7 @@ export class OllamaToolUse implements OllamaToolUseInterface {
                     }
 
                     const toolResults: string[] = [];
+                    let deferred = false;
 
                     // Execute each tool call
                     for (const toolCall of toolCalls) {
@@ -178,7 +216,9 @@ export class OllamaToolUse implements OllamaToolUseInterface {
                                 toolCall.function.arguments,
                                 agent,
                                 logger,
+                                signal,
                             );
+                            deferred ||= isDeferredToolCall(result);
                             if (logger) {
                                 logger.debug("Tool executed successfully", { 
                                     tool: toolCall.function.name, 
@@ -191,6 +231,7 @@ export class OllamaToolUse implements OllamaToolUseInterface {
                                 `Tool ${toolCall.function.name} args: ${JSON.stringify(toolCall.function.arguments)}\nResult: ${JSON.stringify(result, null, 2)}`,
                             );
                         } catch (error: any) {
+                            signal?.throwIfAborted();
                             if (logger) {
                                 logger.error("Tool execution failed", { tool: toolCall.function.name, args: toolCall.function.arguments, error: error.message });
                             }
@@ -202,6 +243,14 @@ export class OllamaToolUse implements OllamaToolUseInterface {
 
                     lastToolResults = toolResults; // keep latest for optional appending
 
+                    // Calls of tools the agent does not execute go back to its caller instead of the model
+                    if (deferred) {
+                        if (logger) {
+                            logger.debug("Returning deferred tool calls to the caller", { round: round + 1 });
+                        }
+                        return response.message.content;
+                    }
+
                     if (logger) {
                         logger.debug("Sending tool results back to LLM for follow-up", { round: round + 1 });
                     }
@@ -233,15 +282,17 @@ export class OllamaToolUse implements OllamaToolUseInterface {
                 logger.debug("Max tool rounds reached, returning last message content");
             }
             // Fallback to basic generate without tools
-            await this.applyRequestDelay(); // Apply delay before fallback call
-            const response = await ollama.generate({
+            await this.applyRequestDelay(signal); // Apply delay before fallback call
+            const response = await abortable(ollama.generate({
                 model: this.model,
                 prompt: prompt,
                 system: system,
                 options: this.getOllamaOptions(),
-            });
+            }), signal);
+            recordUsage(this.usage, response.prompt_eval_count, response.eval_count);
             return response.response;
         } catch (error) {
+            signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             if (logger) {
                 logger.error(`Ollama provider error: ${errorMessage}`);
@@ -256,14 +307,17 @@ export class OllamaToolUse implements OllamaToolUseInterface {
      * @param tools - Array of tool definitions
      * @param logger - Optional logger for debugging
      * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response after tool execution
      */
     async chatWithTools(
-        messages: Array<{ role: string; content: string }>,
+        messages: LLMMessage[],
         tools: Tool[],
         logger?: AgentForceLogger,
-        agent?: any,
+        agent?: AgentForceAgent,
+        options: LLMCallOptions = {},
     ): Promise<string> {
+        const { signal } = options;
         try {
             if (logger) {
                 logger.debug("Initial chat call with tools", {
@@ -273,21 +327,22 @@ export class OllamaToolUse implements OllamaToolUseInterface {
                 });
             }
 
-            const convo: Array<{ role: string; content: string }> = [...messages];
+            const convo: Message[] = await toOllamaMessages(messages, signal);
             const maxRounds = this.modelConfig?.maxToolRounds ?? 20; // configurable via ModelConfig, default 10
             let lastToolResults: string[] = [];
             for (let round = 0; round < maxRounds; round++) {
                 // Apply delay before each API call to prevent rate limiting
                 if (round > 0) { // Skip delay on first call
-                    await this.applyRequestDelay();
+                    await this.applyRequestDelay(signal);
                 }
 
-                const response = await ollama.chat({
+                const response = await abortable(ollama.chat({
                     model: this.model,
                     messages: convo,
                     tools,
                     options: this.getOllamaOptions(),
-                });
+                }), signal);
+                recordUsage(this.usage, response.prompt_eval_count, response.eval_count);
 
                 // Determine tool calls from response
                 let toolCalls = response.message.tool_calls as Array<{ function: { name: string; arguments: any } }>|undefined;
@@ -342,6 +397,7 @@ export class OllamaToolUse implements OllamaToolUseInterface {
                     }
 
                     const toolResults: string[] = [];
+                    let deferred = false;
                     // Execute each tool call
                     for (const toolCall of toolCalls) {
                         if (logger) {
@@ -353,7 +409,9 @@ export class OllamaToolUse implements OllamaToolUseInterface {
                                 toolCall.function.arguments,
                                 agent,
                                 logger,
+                                signal,
                             );
+                            deferred ||= isDeferredToolCall(result);
                             if (logger) {
                                 logger.debug("Tool executed successfully", { 
                                     tool: toolCall.function.name, 
@@ -365,6 +423,7 @@ export class OllamaToolUse implements OllamaToolUseInterface {
                                 `Tool ${toolCall.function.name} args: ${JSON.stringify(toolCall.function.arguments)}\nResult: ${JSON.stringify(result, null, 2)}`,
                             );
                         } catch (error: any) {
+                            signal?.throwIfAborted();
                             if (logger) {
                                 logger.error("Tool execution failed", { tool: toolCall.function.name, args: toolCall.function.arguments, error: error.message });
                             }
@@ -376,6 +435,14 @@ export class OllamaToolUse implements OllamaToolUseInterface {
 
                     lastToolResults = toolResults;
 
+                    // Calls of tools the agent does not execute go back to its caller instead of the model
+                    if (deferred) {
+                        if (logger) {
+                            logger.debug("Returning deferred tool calls to the caller", { round: round + 1 });
+                        }
+                        return response.message.content;
+                    }
+
                     // Append assistant tool-call message and tool results, then continue
                     convo.push(response.message);
                     convo.push({ role: "tool", content: toolResults.join("\n\n") });
@@ -401,10 +468,12 @@ export class OllamaToolUse implements OllamaToolUseInterface {
             if (logger) {
                 logger.debug("Max tool rounds reached, returning last attempt content");
             }
-            await this.applyRequestDelay(); // Apply delay before final attempt
-            const lastAttempt = await ollama.chat({ model: this.model, messages: convo, options: this.getOllamaOptions() });
+            await this.applyRequestDelay(signal); // Apply delay before final attempt
+            const lastAttempt = await abortable(ollama.chat({ model: this.model, messages: convo, options: this.getOllamaOptions() }), signal);
+            recordUsage(this.usage, lastAttempt.prompt_eval_count, lastAttempt.eval_count);
             return lastAttempt.message.content;
         } catch (error) {
+            signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             if (logger) {
                 logger.error(`Ollama provider error: ${errorMessage}`);
@@ -412,4 +481,148 @@ export class OllamaToolUse implements OllamaToolUseInterface {
             return `Error: Ollama provider error - ${errorMessage}`;
         }
     }
+
+    /**
+     * Stream the response as text deltas, running tool calls between rounds
+     * Tool calls written as JSON into the message content are not detected while streaming.
+     * @param messages - Array of messages for the conversation
+     * @param tools - Optional array of tool definitions
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Async generator of text deltas and tool events
+     */
+    async *stream(
+        messages: LLMMessage[],
+        tools: Tool[] = [],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options: LLMCallOptions = {},
+    ): AsyncGenerator<LLMStreamEvent> {
+        const { signal } = options;
+        try {
+            if (logger) {
+                logger.debug("Initial Ollama streaming call", {
+                    model: this.model,
+                    toolsAvailable: tools.map(t => t.function.name),
+                    messageCount: messages.length,
+                });
+            }
+
+            const convo: Message[] = await toOllamaMessages(messages, signal);
+            const maxRounds = this.modelConfig?.maxToolRounds ?? 20;
+            let lastToolResults: string[] = [];
+
+            for (let round = 0; round <= maxRounds; round++) {
+                // Apply delay before each API call to prevent rate limiting
+                if (round > 0) { // Skip delay on first call
+                    await this.applyRequestDelay(signal);
+                }
+
+                // After maxRounds the tools are dropped so the model has to answer with what it has
+                const roundTools = round < maxRounds && tools.length > 0 ? tools : undefined;
+
+                const parts = await ollama.chat({
+                    model: this.model,
+                    messages: convo,
+                    ...(roundTools && { tools: roundTools }),
+                    options: this.getOllamaOptions(),
+                    stream: true,
+                });
+                // Stop the streamed response as soon as the caller gives up on it
+                const abortParts = (): void => parts.abort();
+                signal?.addEventListener("abort", abortParts, { once: true });
+
+                let content = "";
+                const toolCalls: ToolCall[] = [];
+
+                try {
+                    for await (const part of parts) {
+                        if (part.message.content) {
+                            content += part.message.content;
+                            yield { type: "text", text: part.message.content };
+                        }
+                        // Ollama sends complete tool calls rather than fragments
+                        toolCalls.push(...(part.message.tool_calls ?? []));
+                        // The final part carries the token counts of the round
+                        if (part.done) {
+                            recordUsage(this.usage, part.prompt_eval_count, part.eval_count);
+                        }
+                    }
+                } finally {
+                    signal?.removeEventListener("abort", abortParts);
+                }
+
+                // No tool calls -> final answer
+                if (toolCalls.length === 0) {
+                    if (logger) {
+                        logger.debug("Final streamed response generated", {
+                            round: round + 1,
+                            contentPreview: content.substring(0, 200),
+                        });
+                    }
+
+                    if (this.modelConfig?.appendToolResults && lastToolResults.length > 0) {
+                        yield { type: "text", text: `\n\n---\nRaw tool results:\n${lastToolResults.join("\n\n")}` };
+                    }
+                    return;
+                }
+
+                const toolResults: string[] = [];
+                let deferred = false;
+
+                // Execute each tool call
+                for (const toolCall of toolCalls) {
+                    const toolName = toolCall.function.name;
+                    const args = toolCall.function.arguments;
+                    yield { type: "tool_call", name: toolName, args };
+
+                    try {
+                        const result = await executeTool(toolName, args, agent, logger, signal);
+                        deferred ||= isDeferredToolCall(result);
+
+                        if (logger) {
+                            logger.debug("Tool executed successfully", {
+                                tool: toolName,
+                                args,
+                                result: truncate(JSON.stringify(result), 200),
+                            });
+                        }
+
+                        toolResults.push(`Tool ${toolName} args: ${JSON.stringify(args)}\nResult: ${JSON.stringify(result, null, 2)}`);
+                        yield { type: "tool_result", name: toolName, result };
+                    } catch (error: any) {
+                        signal?.throwIfAborted();
+                        if (logger) {
+                            logger.error("Tool execution failed", { tool: toolName, args, error: error.message });
+                        }
+
+                        toolResults.push(`Tool ${toolName} args: ${JSON.stringify(args)}\nError: ${error.message}`);
+                        yield { type: "tool_result", name: toolName, error: error.message };
+                    }
+                }
+
+                lastToolResults = toolResults;
+
+                // Calls of tools the agent does not execute go back to its caller instead of the model
+                if (deferred) {
+                    if (logger) {
+                        logger.debug("Returning deferred tool calls to the caller", { round: round + 1 });
+                    }
+                    return;
+                }
+
+                // Append assistant tool-call message and tool results, then continue
+                convo.push({ role: "assistant", content, tool_calls: toolCalls });
+                convo.push({ role: "tool", content: toolResults.join("\n\n") });
+            }
+        } catch (error) {
+            signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (logger) {
+                logger.error(`Ollama provider error: ${errorMessage}`);
+            }
+            yield { type: "text", text: `Error: Ollama provider error - ${errorMessage}` };
+        }
+    }
 }
@@ -1,7 +1,10 @@
 import ollama from "ollama";
-import type { Tool } from "../types";
-import { OllamaToolUse } from "./ollama-tooluse";
+import type { LLMCallOptions, LLMMessage, LLMStreamEvent, TokenUsage, Tool } from "../types";
+import { OllamaToolUse, toOllamaMessages } from "./ollama-tooluse";
+import { createEmptyUsage, mergeUsage, recordUsage } from "./usage";
+import { abortable } from "../utils/abort";
 import type { AgentForceLogger, ModelConfig } from "../types";
+import type { AgentForceAgent } from "../agent";
 
 /**
  * Interface for Ollama provider functionality
@@ -9,12 +12,18 @@ import type { AgentForceLogger, ModelConfig } from "../types";
  * @property {function} generate - Generate response from prompt without tools
  * @property {function} generateWithTools - Generate response with tool support
  * @property {function} chatWithTools - Chat with tool support using message history
+ * @property {function} stream - Stream the response as text deltas and tool events
+ * @property {function} embed - Create one embedding per input text
+ * @property {function} getUsage - Get the token usage of all calls, tool rounds included
  * @property {function} getModel - Get current model name
  */
 export interface OllamaProviderInterface {
-    generate(prompt: string, system?: string): Promise<string>;
-    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: any): Promise<string>;
-    chatWithTools(messages: Array<{ role: string; content: string }>, tools: Tool[], logger?: AgentForceLogger, agent?: any): Promise<string>;
+    generate(prompt: string, system?: string, options?: LLMCallOptions): Promise<string>;
+    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools(messages: LLMMessage[], tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    stream(messages: LLMMessage[], tools?: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): AsyncIterable<LLMStreamEvent>;
+    embed(input: string[], options?: LLMCallOptions): Promise<number[][]>;
+    getUsage(): TokenUsage;
     getModel(): string;
 }
 
@@ -26,6 +35,7 @@ export class OllamaProvider implements OllamaProviderInterface {
     private model: string;
     private modelConfig?: ModelConfig;
     private toolUse: OllamaToolUse;
+    private usage: TokenUsage = createEmptyUsage();
 
     constructor(model: string, modelConfig?: ModelConfig) {
         this.model = model;
@@ -58,18 +68,23 @@ export class OllamaProvider implements OllamaProviderInterface {
      * Generate response using the Ollama model
      * @param prompt - The user prompt to send to the model
      * @param system - Optional system prompt to override the model's default
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response
      */
-    async generate(prompt: string, system?: string): Promise<string> {
+    async generate(prompt: string, system?: string, options: LLMCallOptions = {}): Promise<string> {
         try {
-            const response = await ollama.generate({
+            // The Ollama client has no per-request signal, an aborted call stops waiting for the response
+            const response = await abortable(ollama.generate({
                 model: this.model,
                 prompt: prompt,
                 system: system,
                 options: this.getOllamaOptions(),
-            });
+                ...(this.modelConfig?.jsonSchema && { format: this.modelConfig.jsonSchema }),
+            }), options.signal);
+            recordUsage(this.usage, response.prompt_eval_count, response.eval_count);
             return response.response;
         } catch (error) {
+            options.signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             return `Error: Ollama provider error - ${errorMessage}`;
         }
@@ -78,22 +93,75 @@ export class OllamaProvider implements OllamaProviderInterface {
     /**
      * Chat with the Ollama model
      * @param messages - Array of messages for the conversation
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response
      */
-    async chat(messages: Array<{ role: string; content: string }>): Promise<string> {
+    async chat(messages: LLMMessage[], options: LLMCallOptions = {}): Promise<string> {
         try {
-            const response = await ollama.chat({
+            const response = await abortable(ollama.chat({
                 model: this.model,
-                messages: messages,
+                messages: await toOllamaMessages(messages, options.signal),
                 options: this.getOllamaOptions(),
-            });
+                ...(this.modelConfig?.jsonSchema && { format: this.modelConfig.jsonSchema }),
+            }), options.signal);
+            recordUsage(this.usage, response.prompt_eval_count, response.eval_count);
             return response.message.content;
         } catch (error) {
+            options.signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             return `Error: Ollama provider error - ${errorMessage}`;
         }
     }
 
+    /**
+     * Stream the response as text deltas and tool events
+     * @param messages - Array of messages for the conversation
+     * @param tools - Optional array of tool definitions, tool calls are executed between rounds
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Async iterable of text deltas and tool events
+     */
+    stream(
+        messages: LLMMessage[],
+        tools?: Tool[],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options?: LLMCallOptions,
+    ): AsyncIterable<LLMStreamEvent> {
+        return this.toolUse.stream(messages, tools, logger, agent, options);
+    }
+
+    /**
+     * Create embeddings with the Ollama model, e.g. nomic-embed-text
+     * @param input - The texts to embed
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with one embedding per input text
+     * @throws {Error} If Ollama fails to create the embeddings
+     */
+    async embed(input: string[], options: LLMCallOptions = {}): Promise<number[][]> {
+        try {
+            const response = await abortable(ollama.embed({
+                model: this.model,
+                input,
+                options: this.getOllamaOptions(),
+            }), options.signal);
+            recordUsage(this.usage, response.prompt_eval_count, 0);
+            return response.embeddings;
+        } catch (error) {
+            options.signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`Ollama provider error - ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Get the token usage of all calls made by this provider instance, tool rounds included
+     */
+    getUsage(): TokenUsage {
+        return mergeUsage(this.usage, this.toolUse.getUsage());
+    }
+
     /**
      * Get the current model name
      */
@@ -106,6 +174,7 @@ export class OllamaProvider implements OllamaProviderInterface {
      */
     setModel(model: string): void {
         this.model = model;
+        this.usage = this.getUsage();
         this.toolUse = new OllamaToolUse(model, this.modelConfig);
     }
 
@@ -116,10 +185,11 @@ export class OllamaProvider implements OllamaProviderInterface {
      * @param system - Optional system prompt
      * @param logger - Optional logger for debugging
      * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response after tool execution
      */
-    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: any): Promise<string> {
-        return this.toolUse.generateWithTools(prompt, tools, system, logger, agent);
+    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string> {
+        return this.toolUse.generateWithTools(prompt, tools, system, logger, agent, options);
     }
 
     /**
@@ -128,14 +198,16 @@ export class OllamaProvider implements OllamaProviderInterface {
      * @param tools - Array of tool definitions
      * @param logger - Optional logger for debugging
      * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response after tool execution
      */
     async chatWithTools(
-        messages: Array<{ role: string; content: string }>,
+        messages: LLMMessage[],
         tools: Tool[],
         logger?: AgentForceLogger,
-        agent?: any,
+        agent?: AgentForceAgent,
+        options?: LLMCallOptions,
     ): Promise<string> {
-        return this.toolUse.chatWithTools(messages, tools, logger, agent);
+        return this.toolUse.chatWithTools(messages, tools, logger, agent, options);
     }
 }
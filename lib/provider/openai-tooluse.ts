@@ -0,0 +1,342 @@
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam, ChatCompletionTool } from "openai/resources/chat/completions";
+import type { LLMCallOptions, TokenUsage, Tool } from "../types";
+import { executeTool } from "../agent/functions/tools";
+import { isDeferredToolCall } from "../utils/deferred";
+import { createEmptyUsage, recordUsage } from "./usage";
+import type { AgentForceLogger, ModelConfig } from "../types";
+import { truncate } from "../utils/truncate";
+import { sanitizeToolResultForContext } from "../utils/sanitize";
+import { sleep } from "../utils/abort";
+import type { AgentForceAgent } from "../agent";
+
+/**
+ * Interface for OpenAI tool use functionality
+ * @interface OpenAIToolUseInterface
+ * @property {function} generateWithTools - Generate response with tool support using a prompt
+ * @property {function} chatWithTools - Chat with tool support using message history
+ * @property {function} getUsage - Get the token usage of all tool rounds
+ */
+export interface OpenAIToolUseInterface {
+    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools(messages: Array<{ role: string; content: string }>, tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    getUsage(): TokenUsage;
+}
+
+// Re-export types for convenience
+export type { Tool, AgentForceLogger, ModelConfig };
+
+/**
+ * OpenAI tool use functionality for the AgentForce SDK
+ * Handles tool execution with OpenAI models and any OpenAI-compatible endpoint (vLLM, LM Studio, gateways)
+ */
+export class OpenAIToolUse implements OpenAIToolUseInterface {
+    private model: string;
+    private modelConfig?: ModelConfig;
+    private client: OpenAI;
+    private usage: TokenUsage = createEmptyUsage();
+
+    constructor(model: string, modelConfig?: ModelConfig) {
+        this.model = model;
+        this.modelConfig = modelConfig;
+
+        const baseURL = modelConfig?.baseUrl || process.env.OPENAI_BASE_URL;
+        const apiKey = process.env.OPENAI_API_KEY;
+        if (!apiKey && !baseURL) {
+            throw new Error("OPENAI_API_KEY environment variable is required");
+        }
+
+        this.client = new OpenAI({
+            // Self-hosted OpenAI-compatible servers usually don't check the key
+            apiKey: apiKey || "not-needed",
+            ...(baseURL && { baseURL }),
+        });
+    }
+
+    /**
+     * Get the token usage of all requests made by this instance
+     */
+    getUsage(): TokenUsage {
+        return { ...this.usage };
+    }
+
+    /**
+     * Convert AgentForce Tool format to OpenAI ChatCompletionTool format
+     * @param tools - Array of AgentForce tool definitions
+     * @returns Array of OpenAI-compatible tool definitions
+     */
+    private convertToolsToOpenAIFormat(tools: Tool[]): ChatCompletionTool[] {
+        return tools.map(tool => ({
+            type: "function",
+            function: {
+                name: tool.function.name,
+                description: tool.function.description,
+                parameters: tool.function.parameters,
+            },
+        }));
+    }
+
+    /**
+     * Get the options for OpenAI API calls
+     * Merges default options with user-provided ModelConfig
+     */
+    private getOpenAIOptions(): { temperature?: number; max_tokens?: number } {
+        const options: { temperature?: number; max_tokens?: number } = {};
+
+        if (!this.modelConfig) {
+            return options;
+        }
+
+        if (this.modelConfig.temperature !== undefined) {
+            options.temperature = this.modelConfig.temperature;
+        }
+        if (this.modelConfig.maxTokens !== undefined) {
+            options.max_tokens = this.modelConfig.maxTokens;
+        }
+
+        return options;
+    }
+
+    /**
+     * Apply request delay if configured
+     * Helps prevent rate limiting by spacing out API calls
+     */
+    private async applyRequestDelay(logger?: AgentForceLogger, signal?: AbortSignal): Promise<void> {
+        if (this.modelConfig?.requestDelay && this.modelConfig.requestDelay > 0) {
+            const delayMs = this.modelConfig.requestDelay * 1000; // Convert seconds to milliseconds
+
+            if (logger) {
+                logger.debug("Applying request delay", {
+                    delaySeconds: this.modelConfig.requestDelay,
+                    delayMs,
+                    provider: "openai",
+                    model: this.model,
+                });
+            }
+
+            await sleep(delayMs, signal);
+        }
+    }
+
+    /**
+     * Generate response with tool support using the OpenAI model
+     * @param prompt - The user prompt to send to the model
+     * @param tools - Array of tool definitions
+     * @param system - Optional system prompt
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string> {
+        const messages: Array<{ role: string; content: string }> = [
+            ...(system ? [{ role: "system", content: system }] : []),
+            { role: "user", content: prompt },
+        ];
+
+        return this.chatWithTools(messages, tools, logger, agent, options);
+    }
+
+    /**
+     * Chat with tool support
+     * @param messages - Array of messages for the conversation
+     * @param tools - Array of tool definitions
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async chatWithTools(
+        messages: Array<{ role: string; content: string }>,
+        tools: Tool[],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options: LLMCallOptions = {},
+    ): Promise<string> {
+        const { signal } = options;
+        try {
+            if (logger) {
+                logger.debug("Initial OpenAI chat call with tools", {
+                    model: this.model,
+                    toolsAvailable: tools.map(t => t.function.name),
+                    messageCount: messages.length,
+                });
+            }
+
+            // Tool messages need a tool_call_id we don't have for incoming history, so they are dropped
+            const convo: ChatCompletionMessageParam[] = messages
+                .filter(msg => msg.role !== "tool")
+                .map(msg => ({
+                    role: msg.role as "system" | "user" | "assistant",
+                    content: msg.content,
+                }));
+
+            const maxRounds = this.modelConfig?.maxToolRounds ?? 20;
+            let lastToolResults: string[] = [];
+
+            // Convert tools to OpenAI format
+            const openAITools = this.convertToolsToOpenAIFormat(tools);
+
+            for (let round = 0; round < maxRounds; round++) {
+                // Apply delay before each API call to prevent rate limiting
+                if (round > 0) { // Skip delay on first call
+                    await this.applyRequestDelay(logger, signal);
+                }
+
+                const completion = await this.client.chat.completions.create({
+                    model: this.model,
+                    messages: convo,
+                    tools: openAITools,
+                    tool_choice: "auto",
+                    ...this.getOpenAIOptions(),
+                }, { signal });
+                recordUsage(this.usage, completion.usage?.prompt_tokens, completion.usage?.completion_tokens);
+
+                const response = completion.choices[0]?.message;
+                if (!response) {
+                    if (logger) {
+                        logger.error("No response from OpenAI API");
+                    }
+                    return "Error: No response from OpenAI API";
+                }
+
+                const toolCalls = (response.tool_calls || []).filter(tc => tc.type === "function");
+
+                // Check if model wants to use tools
+                if (toolCalls.length > 0) {
+                    if (logger) {
+                        logger.debug("Model requested tool calls", {
+                            toolCalls: toolCalls.map(tc => ({
+                                id: tc.id,
+                                tool: tc.function.name,
+                                args: truncate(tc.function.arguments || "{}", 200),
+                            })),
+                        });
+                    }
+
+                    const toolResults: string[] = [];
+                    let deferred = false;
+
+                    // The assistant message with tool calls must precede the tool results
+                    convo.push(response);
+
+                    // Execute each tool call
+                    for (const toolCall of toolCalls) {
+                        const toolName = toolCall.function.name;
+                        const rawArgs = toolCall.function.arguments || "{}";
+
+                        if (logger) {
+                            logger.debug("Executing tool", {
+                                toolId: toolCall.id,
+                                tool: toolName,
+                                args: truncate(rawArgs, 200),
+                            });
+                        }
+
+                        try {
+                            const args = JSON.parse(rawArgs) as Record<string, unknown>;
+                            const result = await executeTool(toolName, args, agent, logger, signal);
+                            deferred ||= isDeferredToolCall(result);
+
+                            if (logger) {
+                                logger.debug("Tool executed successfully", {
+                                    toolId: toolCall.id,
+                                    tool: toolName,
+                                    result: truncate(JSON.stringify(result), 200),
+                                });
+                            }
+
+                            toolResults.push(
+                                `Tool ${toolName} (${toolCall.id}) args: ${JSON.stringify(args)}\nResult: ${JSON.stringify(result, null, 2)}`,
+                            );
+
+                            // Add tool result message to conversation (exclude large data like screenshots)
+                            convo.push({
+                                role: "tool",
+                                tool_call_id: toolCall.id,
+                                content: JSON.stringify(sanitizeToolResultForContext(result)),
+                            });
+
+                        } catch (error) {
+                            signal?.throwIfAborted();
+                            const errorMessage = error instanceof Error ? error.message : String(error);
+                            if (logger) {
+                                logger.error("Tool execution failed", {
+                                    toolId: toolCall.id,
+                                    tool: toolName,
+                                    args: rawArgs,
+                                    error: errorMessage,
+                                });
+                            }
+
+                            toolResults.push(`Tool ${toolName} (${toolCall.id}) args: ${rawArgs}\nError: ${errorMessage}`);
+
+                            // Add error as tool result
+                            convo.push({
+                                role: "tool",
+                                tool_call_id: toolCall.id,
+                                content: `Error: ${errorMessage}`,
+                            });
+                        }
+                    }
+
+                    lastToolResults = toolResults;
+
+                    // Calls of tools the agent does not execute go back to its caller instead of the model
+                    if (deferred) {
+                        if (logger) {
+                            logger.debug("Returning deferred tool calls to the caller", { round: round + 1 });
+                        }
+                        return response.content || "";
+                    }
+
+                    if (logger) {
+                        logger.debug("Sending tool results back to LLM for follow-up", { round: round + 1 });
+                    }
+
+                    // Continue to next round
+                    continue;
+                }
+
+                // No tool calls -> final answer
+                if (logger) {
+                    logger.debug("Final response generated after tool execution", {
+                        round: round + 1,
+                        contentPreview: response.content?.substring(0, 200),
+                        finishReason: completion.choices[0]?.finish_reason,
+                    });
+                }
+
+                const finalContent = response.content || "";
+                if (this.modelConfig?.appendToolResults && lastToolResults.length > 0) {
+                    return `${finalContent}\n\n---\nRaw tool results:\n${lastToolResults.join("\n\n")}`;
+                }
+                return finalContent;
+            }
+
+            if (logger) {
+                logger.debug("Max tool rounds reached, returning last attempt content");
+            }
+
+            // Final attempt with tool calls disabled so the model has to answer with what it has
+            await this.applyRequestDelay(logger, signal);
+            const lastAttempt = await this.client.chat.completions.create({
+                model: this.model,
+                messages: convo,
+                tools: openAITools,
+                tool_choice: "none",
+                ...this.getOpenAIOptions(),
+            }, { signal });
+            recordUsage(this.usage, lastAttempt.usage?.prompt_tokens, lastAttempt.usage?.completion_tokens);
+
+            return lastAttempt.choices[0]?.message?.content || "";
+        } catch (error) {
+            signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (logger) {
+                logger.error(`OpenAI provider error: ${errorMessage}`);
+            }
+            return `Error: OpenAI provider error - ${errorMessage}`;
+        }
+    }
+}
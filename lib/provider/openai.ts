@@ -0,0 +1,213 @@
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { LLMCallOptions, TokenUsage, Tool } from "../types";
+import { OpenAIToolUse } from "./openai-tooluse";
+import { createEmptyUsage, mergeUsage, recordUsage } from "./usage";
+import type { AgentForceLogger, ModelConfig } from "../types";
+import type { AgentForceAgent } from "../agent";
+
+/**
+ * Interface for OpenAI provider functionality
+ * @interface OpenAIProviderInterface
+ * @property {function} generate - Generate response from prompt without tools
+ * @property {function} generateWithTools - Generate response with tool support
+ * @property {function} chatWithTools - Chat with tool support using message history
+ * @property {function} chat - Chat without tool support using message history
+ * @property {function} embed - Create one embedding per input text
+ * @property {function} getUsage - Get the token usage of all calls, tool rounds included
+ * @property {function} getModel - Get current model name
+ * @property {function} setModel - Set model name
+ */
+export interface OpenAIProviderInterface {
+    generate(prompt: string, system?: string, options?: LLMCallOptions): Promise<string>;
+    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools(messages: Array<{ role: string; content: string }>, tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chat(messages: Array<{ role: string; content: string }>, options?: LLMCallOptions): Promise<string>;
+    embed(input: string[], options?: LLMCallOptions): Promise<number[][]>;
+    getUsage(): TokenUsage;
+    getModel(): string;
+    setModel(model: string): void;
+    cleanup(): void;
+}
+
+/**
+ * OpenAI provider implementation for the AgentForce SDK
+ * Handles communication with the OpenAI API or any OpenAI-compatible endpoint.
+ * The endpoint is taken from `modelConfig.baseUrl`, then the OPENAI_BASE_URL environment variable.
+ *
+ * @example Pointing an agent at a local vLLM server
+ * ```ts
+ * const agent = new AgentForceAgent({ name: "LocalAgent" })
+ *   .useLLM("openai", "Qwen/Qwen2.5-7B-Instruct", { baseUrl: "http://localhost:8000/v1" });
+ * ```
+ */
+export class OpenAIProvider implements OpenAIProviderInterface {
+    private model: string;
+    private modelConfig?: ModelConfig;
+    private client: OpenAI;
+    private toolUse: OpenAIToolUse;
+    private usage: TokenUsage = createEmptyUsage();
+
+    constructor(model: string, modelConfig?: ModelConfig) {
+        this.model = model;
+        this.modelConfig = modelConfig;
+
+        const baseURL = modelConfig?.baseUrl || process.env.OPENAI_BASE_URL;
+        const apiKey = process.env.OPENAI_API_KEY;
+        if (!apiKey && !baseURL) {
+            throw new Error("OPENAI_API_KEY environment variable is required");
+        }
+
+        this.client = new OpenAI({
+            // Self-hosted OpenAI-compatible servers usually don't check the key
+            apiKey: apiKey || "not-needed",
+            ...(baseURL && { baseURL }),
+        });
+
+        this.toolUse = new OpenAIToolUse(model, modelConfig);
+    }
+
+    /**
+     * Generate response using the OpenAI model
+     * @param prompt - The user prompt to send to the model
+     * @param system - Optional system prompt to override the model's default
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response
+     */
+    async generate(prompt: string, system?: string, options: LLMCallOptions = {}): Promise<string> {
+        const messages: Array<{ role: string; content: string }> = [];
+
+        if (system) {
+            messages.push({ role: "system", content: system });
+        }
+
+        messages.push({ role: "user", content: prompt });
+
+        return this.chat(messages, options);
+    }
+
+    /**
+     * Chat with the OpenAI model
+     * @param messages - Array of messages for the conversation
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response
+     */
+    async chat(messages: Array<{ role: string; content: string }>, options: LLMCallOptions = {}): Promise<string> {
+        try {
+            // Convert messages to OpenAI format
+            const openAIMessages: ChatCompletionMessageParam[] = messages.map(msg => ({
+                role: msg.role as "system" | "user" | "assistant",
+                content: msg.content,
+            }));
+
+            const completion = await this.client.chat.completions.create({
+                model: this.model,
+                messages: openAIMessages,
+                ...(this.modelConfig?.temperature !== undefined && { temperature: this.modelConfig.temperature }),
+                ...(this.modelConfig?.maxTokens !== undefined && { max_tokens: this.modelConfig.maxTokens }),
+                ...(this.modelConfig?.jsonSchema && {
+                    response_format: { type: "json_schema", json_schema: { name: "response", schema: this.modelConfig.jsonSchema } },
+                }),
+            }, { signal: options.signal });
+            recordUsage(this.usage, completion.usage?.prompt_tokens, completion.usage?.completion_tokens);
+
+            return completion.choices[0]?.message?.content || "";
+        } catch (error) {
+            options.signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return `Error: OpenAI provider error - ${errorMessage}`;
+        }
+    }
+
+    /**
+     * Create embeddings with the OpenAI embeddings API, e.g. text-embedding-3-small
+     * @param input - The texts to embed
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with one embedding per input text
+     * @throws {Error} If the API fails to create the embeddings
+     */
+    async embed(input: string[], options: LLMCallOptions = {}): Promise<number[][]> {
+        try {
+            const response = await this.client.embeddings.create({
+                model: this.model,
+                input,
+                encoding_format: "float",
+            }, { signal: options.signal });
+            recordUsage(this.usage, response.usage?.prompt_tokens, 0);
+            // The API may return the embeddings in any order
+            return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+        } catch (error) {
+            options.signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`OpenAI provider error - ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Get the token usage of all calls made by this provider instance, tool rounds included
+     */
+    getUsage(): TokenUsage {
+        return mergeUsage(this.usage, this.toolUse.getUsage());
+    }
+
+    /**
+     * Get the current model name
+     */
+    getModel(): string {
+        return this.model;
+    }
+
+    /**
+     * Set a new model
+     */
+    setModel(model: string): void {
+        this.model = model;
+        this.usage = this.getUsage();
+        this.toolUse = new OpenAIToolUse(model, this.modelConfig);
+    }
+
+    /**
+     * Generate response with tool support using the OpenAI model
+     * @param prompt - The user prompt to send to the model
+     * @param tools - Array of tool definitions
+     * @param system - Optional system prompt
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string> {
+        return this.toolUse.generateWithTools(prompt, tools, system, logger, agent, options);
+    }
+
+    /**
+     * Chat with tool support
+     * @param messages - Array of messages for the conversation
+     * @param tools - Array of tool definitions
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with the model's response after tool execution
+     */
+    async chatWithTools(
+        messages: Array<{ role: string; content: string }>,
+        tools: Tool[],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options?: LLMCallOptions,
+    ): Promise<string> {
+        return this.toolUse.chatWithTools(messages, tools, logger, agent, options);
+    }
+
+    /**
+     * Cleanup HTTP connections to allow process to exit cleanly
+     */
+    cleanup(): void {
+        // Force close any HTTP connections
+        // The SDK keeps its HTTP agent in a private field
+        const httpAgent = (this.client as unknown as { _httpAgent?: { destroy?: unknown } })._httpAgent;
+        if (httpAgent && typeof httpAgent.destroy === "function") {
+            httpAgent.destroy();
+        }
+    }
+}
@@ -1,26 +1,52 @@
 import OpenAI from "openai";
-import type { ChatCompletionMessageParam, ChatCompletionTool } from "openai/resources/chat/completions";
-import type { Tool } from "../types";
+import type { ChatCompletionMessageParam, ChatCompletionMessageFunctionToolCall, ChatCompletionTool } from "openai/resources/chat/completions";
+import type { LLMMessage, LLMStreamEvent, TokenUsage, Tool } from "../types";
 import { executeTool } from "../agent/functions/tools";
-import type { AgentForceLogger, ModelConfig } from "../types";
-import { writeFileSync, mkdirSync } from "fs";
-import { resolve, dirname } from "path";
+import { isDeferredToolCall } from "../utils/deferred";
+import { createEmptyUsage, recordUsage } from "./usage";
+import type { AgentForceLogger, LLMCallOptions, ModelConfig } from "../types";
 import { truncate } from "../utils/truncate";
+import { sleep } from "../utils/abort";
+import { sanitizeToolResultForContext } from "../utils/sanitize";
+import { toImageUrl } from "../utils/images";
+import type { AgentForceAgent } from "../agent";
 
 /**
  * Interface for OpenRouter tool use functionality
  * @interface OpenRouterToolUseInterface  
  * @property {function} generateWithTools - Generate response with tool support using a prompt
  * @property {function} chatWithTools - Chat with tool support using message history
+ * @property {function} stream - Stream the response with tool support using message history
+ * @property {function} getUsage - Get the token usage of all tool rounds
  */
 export interface OpenRouterToolUseInterface {
-    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: any): Promise<string>;
-    chatWithTools(messages: Array<{ role: string; content: string }>, tools: Tool[], logger?: AgentForceLogger, agent?: any): Promise<string>;
+    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools(messages: LLMMessage[], tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    stream(messages: LLMMessage[], tools?: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): AsyncGenerator<LLMStreamEvent>;
+    getUsage(): TokenUsage;
 }
 
 // Re-export types for convenience
 export type { Tool, AgentForceLogger, ModelConfig };
 
+/**
+ * Convert messages to OpenAI chat messages, images of user messages are sent as image_url content parts
+ * @param messages - The messages to send
+ * @returns The OpenAI messages
+ */
+export async function toOpenRouterMessages(messages: LLMMessage[]): Promise<ChatCompletionMessageParam[]> {
+    return Promise.all(messages.map(async (msg): Promise<ChatCompletionMessageParam> => {
+        if (msg.role !== "user" || !msg.images?.length) {
+            return { role: msg.role as "system" | "user" | "assistant", content: msg.content } as ChatCompletionMessageParam;
+        }
+        const imageParts = await Promise.all(msg.images.map(async image => ({
+            type: "image_url" as const,
+            image_url: { url: await toImageUrl(image) },
+        })));
+        return { role: "user", content: [{ type: "text", text: msg.content }, ...imageParts] };
+    }));
+}
+
 /**
  * OpenRouter tool use functionality for the AgentForce SDK
  * Handles tool execution with OpenRouter models via OpenAI-compatible interface
@@ -29,6 +55,7 @@ export class OpenRouterToolUse implements OpenRouterToolUseInterface {
     private model: string;
     private modelConfig?: ModelConfig;
     private client: OpenAI;
+    private usage: TokenUsage = createEmptyUsage();
 
     constructor(model: string, modelConfig?: ModelConfig) {
         this.model = model;
@@ -49,6 +76,13 @@ export class OpenRouterToolUse implements OpenRouterToolUseInterface {
         });
     }
 
+    /**
+     * Get the token usage of all requests made by this instance
+     */
+    getUsage(): TokenUsage {
+        return { ...this.usage };
+    }
+
     /**
      * Convert AgentForce Tool format to OpenAI ChatCompletionTool format
      * @param tools - Array of AgentForce tool definitions
@@ -90,7 +124,7 @@ export class OpenRouterToolUse implements OpenRouterToolUseInterface {
      * Apply request delay if configured
      * Helps prevent rate limiting by spacing out API calls
      */
-    private async applyRequestDelay(logger?: AgentForceLogger): Promise<void> {
+    private async applyRequestDelay(logger?: AgentForceLogger, signal?: AbortSignal): Promise<void> {
         if (this.modelConfig?.requestDelay && this.modelConfig.requestDelay > 0) {
             const delayMs = this.modelConfig.requestDelay * 1000; // Convert seconds to milliseconds
             
@@ -103,115 +137,8 @@ export class OpenRouterToolUse implements OpenRouterToolUseInterface {
                 });
             }
             
-            await new Promise(resolve => setTimeout(resolve, delayMs));
-        }
-    }
-
-    /**
-     * Sanitize tool results for LLM context by removing large binary data
-     * This prevents context overflow while preserving useful metadata
-     * Auto-saves screenshots and provides file paths
-     */
-    private sanitizeToolResultForContext(result: any): any {
-        if (typeof result !== "object" || result === null) {
-            return result;
-        }
-
-        const sanitized = { ...result };
-
-        // Helper function to detect base64 image data
-        const isBase64Image = (str: string): boolean => {
-            if (typeof str !== "string" || str.length < 100) return false;
-            // Check for base64 image patterns
-            return /^[A-Za-z0-9+/]{100,}={0,2}$/.test(str) || 
-                   /^data:image\/[^;]+;base64,/.test(str);
-        };
-
-        // Helper function to save binary data to file
-        const saveBinaryToFile = (data: string, prefix: string = "binary"): string => {
-            try {
-                const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-                const urlPart = sanitized.url ? 
-                    sanitized.url.replace(/[^a-zA-Z0-9]/g, "_").substring(0, 20) : 
-                    "unknown";
-                
-                // Determine file extension from data
-                let extension = "bin";
-                if (data.startsWith("data:image/png") || isBase64Image(data)) {
-                    extension = "png";
-                } else if (data.startsWith("data:image/jpeg") || data.startsWith("data:image/jpg")) {
-                    extension = "jpg";
-                } else if (data.startsWith("data:image/gif")) {
-                    extension = "gif";
-                }
-                
-                const filename = `${prefix}_${urlPart}_${timestamp}.${extension}`;
-                const absolutePath = resolve(process.cwd(), filename);
-                const dirPath = dirname(absolutePath);
-                mkdirSync(dirPath, { recursive: true });
-                
-                // Clean base64 data (remove data URL prefix if present)
-                let cleanData = data;
-                if (data.startsWith("data:")) {
-                    cleanData = data.split(",")[1] || data;
-                }
-                
-                const originalLength = cleanData.length;
-                writeFileSync(absolutePath, cleanData, "base64");
-                
-                return `[BINARY_SAVED_TO: ${filename}, SIZE: ${Math.round(originalLength * 0.75)} bytes]`;
-            } catch (error: any) {
-                return `[BINARY_SAVE_FAILED: ${error.message}]`;
-            }
-        };
-
-        // Auto-save screenshot data and replace with file path info
-        if (sanitized.screenshot && typeof sanitized.screenshot === "string") {
-            if (isBase64Image(sanitized.screenshot)) {
-                sanitized.screenshot = saveBinaryToFile(sanitized.screenshot, "screenshot");
-                sanitized.screenshotSaved = true;
-            }
-        }
-
-        // Handle other common binary data fields
-        const binaryFields = ["image", "photo", "picture", "screenshotData", "imageData"];
-        for (const field of binaryFields) {
-            if (sanitized[field] && typeof sanitized[field] === "string" && isBase64Image(sanitized[field])) {
-                sanitized[field] = saveBinaryToFile(sanitized[field], field);
-                sanitized[`${field}Saved`] = true;
-            }
-        }
-
-        // Recursively check nested objects for binary data
-        for (const [key, value] of Object.entries(sanitized)) {
-            if (typeof value === "object" && value !== null) {
-                sanitized[key] = this.sanitizeToolResultForContext(value);
-            }
-        }
-
-        // Truncate other potentially large text data
-        if (sanitized.html && typeof sanitized.html === "string" && sanitized.html.length > 10000) {
-            sanitized.html = sanitized.html.substring(0, 2000) + "...[truncated]";
-        }
-
-        if (sanitized.content && typeof sanitized.content === "string" && sanitized.content.length > 10000) {
-            sanitized.content = sanitized.content.substring(0, 3000) + "...[truncated]";
-        }
-
-        // Handle very large strings that might be binary data
-        for (const [key, value] of Object.entries(sanitized)) {
-            if (typeof value === "string" && value.length > 5000) {
-                if (isBase64Image(value)) {
-                    sanitized[key] = saveBinaryToFile(value, key);
-                    sanitized[`${key}Saved`] = true;
-                } else if (value.length > 15000) {
-                    // Truncate very large non-binary strings
-                    sanitized[key] = value.substring(0, 3000) + "...[truncated]";
-                }
-            }
+            await sleep(delayMs, signal);
         }
-
-        return sanitized;
     }
 
     /**
@@ -221,9 +148,11 @@ export class OpenRouterToolUse implements OpenRouterToolUseInterface {
      * @param system - Optional system prompt
      * @param logger - Optional logger for debugging
      * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response after tool execution
      */
-    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: any): Promise<string> {
+    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options: LLMCallOptions = {}): Promise<string> {
+        const { signal } = options;
         try {
             if (logger) {
                 logger.debug("Initial OpenRouter LLM call with tools", {
@@ -248,7 +177,7 @@ export class OpenRouterToolUse implements OpenRouterToolUseInterface {
             for (let round = 0; round < maxRounds; round++) {
                 // Apply delay before each API call to prevent rate limiting
                 if (round > 0) { // Skip delay on first call
-                    await this.applyRequestDelay(logger);
+                    await this.applyRequestDelay(logger, signal);
                 }
 
                 const completion = await this.client.chat.completions.create({
@@ -257,7 +186,8 @@ export class OpenRouterToolUse implements OpenRouterToolUseInterface {
                     tools: openAITools,
                     tool_choice: "auto", // Let model decide when to use tools
                     ...this.getOpenRouterOptions(),
-                });
+                }, { signal });
+                recordUsage(this.usage, completion.usage?.prompt_tokens, completion.usage?.completion_tokens);
 
                 const response = completion.choices[0]?.message;
                 if (!response) {
@@ -305,6 +235,7 @@ export class OpenRouterToolUse implements OpenRouterToolUseInterface {
                     }
 
                     const toolResults: string[] = [];
+                    let deferred = false;
 
                     // Execute each tool call
                     for (const toolCall of response.tool_calls) {
@@ -328,7 +259,9 @@ export class OpenRouterToolUse implements OpenRouterToolUseInterface {
                                 args as unknown as Record<string, any>,
                                 agent,
                                 logger,
+                                signal,
                             );
+                            deferred ||= isDeferredToolCall(result);
                             
                             if (logger) {
                                 logger.debug("Tool executed successfully", { 
@@ -344,7 +277,7 @@ Result: ${JSON.stringify(result, null, 2)}`,
                             );
 
                             // Add tool result message for OpenRouter (exclude large data like screenshots)
-                            const contextResult = this.sanitizeToolResultForContext(result);
+                            const contextResult = sanitizeToolResultForContext(result);
                             messages.push({
                                 role: "tool" as const,
                                 tool_call_id: toolCall.id,
@@ -352,6 +285,7 @@ Result: ${JSON.stringify(result, null, 2)}`,
                             });
 
                         } catch (error: any) {
+                            signal?.throwIfAborted();
                             if (logger) {
                                 logger.error("Tool execution failed", { 
                                     toolId: toolCall.id,
@@ -377,6 +311,14 @@ Error: ${error.message}`,
 
                     lastToolResults = toolResults;
 
+                    // Calls of tools the agent does not execute go back to its caller instead of the model
+                    if (deferred) {
+                        if (logger) {
+                            logger.debug("Returning deferred tool calls to the caller", { round: round + 1 });
+                        }
+                        return response.content || "";
+                    }
+
                     if (logger) {
                         logger.debug("Sending tool results back to LLM for follow-up", { round: round + 1 });
                     }
@@ -415,15 +357,17 @@ ${lastToolResults.join("\n\n")}`;
             
             // Remove tool-related messages and try basic generation
             const basicMessages = messages.filter(m => m.role !== "tool");
-            await this.applyRequestDelay(logger); // Apply delay before fallback call
+            await this.applyRequestDelay(logger, signal); // Apply delay before fallback call
             const fallbackCompletion = await this.client.chat.completions.create({
                 model: this.model,
                 messages: basicMessages,
                 ...this.getOpenRouterOptions(),
-            });
+            }, { signal });
+            recordUsage(this.usage, fallbackCompletion.usage?.prompt_tokens, fallbackCompletion.usage?.completion_tokens);
 
             return fallbackCompletion.choices[0]?.message?.content || "";
         } catch (error) {
+            signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             if (logger) {
                 logger.error(`OpenRouter provider error: ${errorMessage}`);
@@ -438,14 +382,17 @@ ${lastToolResults.join("\n\n")}`;
      * @param tools - Array of tool definitions
      * @param logger - Optional logger for debugging
      * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response after tool execution
      */
     async chatWithTools(
-        messages: Array<{ role: string; content: string }>,
+        messages: LLMMessage[],
         tools: Tool[],
         logger?: AgentForceLogger,
-        agent?: any,
+        agent?: AgentForceAgent,
+        options: LLMCallOptions = {},
     ): Promise<string> {
+        const { signal } = options;
         try {
             if (logger) {
                 logger.debug("Initial OpenRouter chat call with tools", {
@@ -455,22 +402,8 @@ ${lastToolResults.join("\n\n")}`;
                 });
             }
 
-            // Convert messages to OpenAI format
-            const convo: ChatCompletionMessageParam[] = messages.map(msg => {
-                const baseMsg = {
-                    role: msg.role as "system" | "user" | "assistant" | "tool",
-                    content: msg.content,
-                };
-                
-                // Tool messages need tool_call_id, but we don't have it from input messages
-                // So we filter out any tool messages from the initial conversion
-                if (msg.role === "tool") {
-                    // Skip tool messages in initial conversion - they'll be added during tool execution
-                    return null;
-                }
-                
-                return baseMsg;
-            }).filter(msg => msg !== null) as ChatCompletionMessageParam[];
+            // Tool messages need a tool_call_id we don't have for incoming history, so they are dropped
+            const convo = await toOpenRouterMessages(messages.filter(msg => msg.role !== "tool"));
 
             const maxRounds = this.modelConfig?.maxToolRounds ?? 20;
             let lastToolResults: string[] = [];
@@ -481,7 +414,7 @@ ${lastToolResults.join("\n\n")}`;
             for (let round = 0; round < maxRounds; round++) {
                 // Apply delay before each API call to prevent rate limiting
                 if (round > 0) { // Skip delay on first call
-                    await this.applyRequestDelay(logger);
+                    await this.applyRequestDelay(logger, signal);
                 }
 
                 const completion = await this.client.chat.completions.create({
@@ -490,7 +423,8 @@ ${lastToolResults.join("\n\n")}`;
                     tools: openAITools,
                     tool_choice: "auto",
                     ...this.getOpenRouterOptions(),
-                });
+                }, { signal });
+                recordUsage(this.usage, completion.usage?.prompt_tokens, completion.usage?.completion_tokens);
 
                 const response = completion.choices[0]?.message;
                 if (!response) {
@@ -513,6 +447,7 @@ ${lastToolResults.join("\n\n")}`;
                     }
 
                     const toolResults: string[] = [];
+                    let deferred = false;
 
                     // Add assistant message with tool calls first
                     convo.push(response);
@@ -539,7 +474,9 @@ ${lastToolResults.join("\n\n")}`;
                                 args as unknown as Record<string, any>,
                                 agent,
                                 logger,
+                                signal,
                             );
+                            deferred ||= isDeferredToolCall(result);
                             
                             if (logger) {
                                 logger.debug("Tool executed successfully", { 
@@ -555,7 +492,7 @@ Result: ${JSON.stringify(result, null, 2)}`,
                             );
 
                             // Add tool result message to conversation (exclude large data like screenshots)
-                            const contextResult = this.sanitizeToolResultForContext(result);
+                            const contextResult = sanitizeToolResultForContext(result);
                             convo.push({
                                 role: "tool" as const,
                                 tool_call_id: toolCall.id,
@@ -563,6 +500,7 @@ Result: ${JSON.stringify(result, null, 2)}`,
                             });
 
                         } catch (error: any) {
+                            signal?.throwIfAborted();
                             if (logger) {
                                 logger.error("Tool execution failed", { 
                                     toolId: toolCall.id,
@@ -588,6 +526,14 @@ Error: ${error.message}`,
 
                     lastToolResults = toolResults;
 
+                    // Calls of tools the agent does not execute go back to its caller instead of the model
+                    if (deferred) {
+                        if (logger) {
+                            logger.debug("Returning deferred tool calls to the caller", { round: round + 1 });
+                        }
+                        return response.content || "";
+                    }
+
                     // Continue to next round
                     continue;
                 }
@@ -618,15 +564,17 @@ ${lastToolResults.join("\n\n")}`;
             
             // Remove tool messages and try basic chat
             const basicMessages = convo.filter(m => m.role !== "tool");
-            await this.applyRequestDelay(logger); // Apply delay before final attempt
+            await this.applyRequestDelay(logger, signal); // Apply delay before final attempt
             const lastAttempt = await this.client.chat.completions.create({ 
                 model: this.model, 
                 messages: basicMessages, 
                 ...this.getOpenRouterOptions(), 
-            });
+            }, { signal });
+            recordUsage(this.usage, lastAttempt.usage?.prompt_tokens, lastAttempt.usage?.completion_tokens);
             
             return lastAttempt.choices[0]?.message?.content || "";
         } catch (error) {
+            signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             if (logger) {
                 logger.error(`OpenRouter provider error: ${errorMessage}`);
@@ -634,4 +582,182 @@ ${lastToolResults.join("\n\n")}`;
             return `Error: OpenRouter provider error - ${errorMessage}`;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Stream the response as text deltas, running tool calls between rounds
+     * @param messages - Array of messages for the conversation
+     * @param tools - Optional array of tool definitions
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Async generator of text deltas and tool events
+     */
+    async *stream(
+        messages: LLMMessage[],
+        tools: Tool[] = [],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options: LLMCallOptions = {},
+    ): AsyncGenerator<LLMStreamEvent> {
+        const { signal } = options;
+        try {
+            if (logger) {
+                logger.debug("Initial OpenRouter streaming call", {
+                    model: this.model,
+                    toolsAvailable: tools.map(t => t.function.name),
+                    messageCount: messages.length,
+                });
+            }
+
+            // Tool messages need a tool_call_id we don't have for incoming history, so they are dropped
+            const convo = await toOpenRouterMessages(messages.filter(msg => msg.role !== "tool"));
+
+            const maxRounds = this.modelConfig?.maxToolRounds ?? 20;
+            const openAITools = tools.length > 0 ? this.convertToolsToOpenAIFormat(tools) : undefined;
+            let lastToolResults: string[] = [];
+
+            for (let round = 0; round <= maxRounds; round++) {
+                // Apply delay before each API call to prevent rate limiting
+                if (round > 0) { // Skip delay on first call
+                    await this.applyRequestDelay(logger, signal);
+                }
+
+                // After maxRounds the model has to answer with what it has
+                const toolChoice = round < maxRounds ? "auto" : "none";
+
+                const chunks = await this.client.chat.completions.create({
+                    model: this.model,
+                    messages: convo,
+                    ...(openAITools && { tools: openAITools, tool_choice: toolChoice }),
+                    ...this.getOpenRouterOptions(),
+                    stream: true,
+                    stream_options: { include_usage: true },
+                }, { signal });
+
+                let content = "";
+                // Tool call fragments arrive spread over several chunks, keyed by index
+                const toolCalls: ChatCompletionMessageFunctionToolCall[] = [];
+
+                for await (const chunk of chunks) {
+                    // The last chunk carries the token counts of the round and no choices
+                    if (chunk.usage) {
+                        recordUsage(this.usage, chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+                    }
+
+                    const delta = chunk.choices[0]?.delta;
+                    if (!delta) {
+                        continue;
+                    }
+
+                    if (delta.content) {
+                        content += delta.content;
+                        yield { type: "text", text: delta.content };
+                    }
+
+                    for (const fragment of delta.tool_calls ?? []) {
+                        const toolCall = toolCalls[fragment.index] ??= {
+                            id: "",
+                            type: "function",
+                            function: { name: "", arguments: "" },
+                        };
+                        toolCall.id += fragment.id ?? "";
+                        toolCall.function.name += fragment.function?.name ?? "";
+                        toolCall.function.arguments += fragment.function?.arguments ?? "";
+                    }
+                }
+
+                const requestedCalls = toolCalls.filter(Boolean);
+
+                // No tool calls -> final answer
+                if (requestedCalls.length === 0) {
+                    if (logger) {
+                        logger.debug("Final streamed response generated", {
+                            round: round + 1,
+                            contentPreview: content.substring(0, 200),
+                        });
+                    }
+
+                    if (this.modelConfig?.appendToolResults && lastToolResults.length > 0) {
+                        yield { type: "text", text: `\n\n---\nRaw tool results:\n${lastToolResults.join("\n\n")}` };
+                    }
+                    return;
+                }
+
+                // The assistant message with tool calls must precede the tool results
+                convo.push({ role: "assistant", content: content || null, tool_calls: requestedCalls });
+
+                const toolResults: string[] = [];
+                let deferred = false;
+
+                // Execute each tool call
+                for (const toolCall of requestedCalls) {
+                    const toolName = toolCall.function.name;
+                    const rawArgs = toolCall.function.arguments || "{}";
+
+                    try {
+                        const args = JSON.parse(rawArgs) as Record<string, any>;
+                        yield { type: "tool_call", name: toolName, args };
+
+                        const result = await executeTool(toolName, args, agent, logger, signal);
+                        deferred ||= isDeferredToolCall(result);
+
+                        if (logger) {
+                            logger.debug("Tool executed successfully", {
+                                toolId: toolCall.id,
+                                tool: toolName,
+                                result: truncate(JSON.stringify(result), 200),
+                            });
+                        }
+
+                        toolResults.push(`Tool ${toolName} (${toolCall.id}) args: ${rawArgs}\nResult: ${JSON.stringify(result, null, 2)}`);
+                        yield { type: "tool_result", name: toolName, result };
+
+                        // Add tool result message to conversation (exclude large data like screenshots)
+                        convo.push({
+                            role: "tool",
+                            tool_call_id: toolCall.id,
+                            content: JSON.stringify(sanitizeToolResultForContext(result)),
+                        });
+                    } catch (error: any) {
+                        signal?.throwIfAborted();
+                        if (logger) {
+                            logger.error("Tool execution failed", {
+                                toolId: toolCall.id,
+                                tool: toolName,
+                                args: rawArgs,
+                                error: error.message,
+                            });
+                        }
+
+                        toolResults.push(`Tool ${toolName} (${toolCall.id}) args: ${rawArgs}\nError: ${error.message}`);
+                        yield { type: "tool_result", name: toolName, error: error.message };
+
+                        // Add error as tool result
+                        convo.push({
+                            role: "tool",
+                            tool_call_id: toolCall.id,
+                            content: `Error: ${error.message}`,
+                        });
+                    }
+                }
+
+                lastToolResults = toolResults;
+
+                // Calls of tools the agent does not execute go back to its caller instead of the model
+                if (deferred) {
+                    if (logger) {
+                        logger.debug("Returning deferred tool calls to the caller", { round: round + 1 });
+                    }
+                    return;
+                }
+            }
+        } catch (error) {
+            signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            if (logger) {
+                logger.error(`OpenRouter provider error: ${errorMessage}`);
+            }
+            yield { type: "text", text: `Error: OpenRouter provider error - ${errorMessage}` };
+        }
+    }
+}
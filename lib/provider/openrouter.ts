@@ -1,8 +1,10 @@
 import OpenAI from "openai";
 import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
-import type { Tool } from "../types";
-import { OpenRouterToolUse } from "./openrouter-tooluse";
+import type { LLMCallOptions, LLMMessage, LLMStreamEvent, TokenUsage, Tool } from "../types";
+import { OpenRouterToolUse, toOpenRouterMessages } from "./openrouter-tooluse";
+import { createEmptyUsage, mergeUsage, recordUsage } from "./usage";
 import type { AgentForceLogger, ModelConfig } from "../types";
+import type { AgentForceAgent } from "../agent";
 
 /**
  * Interface for OpenRouter provider functionality
@@ -11,14 +13,20 @@ import type { AgentForceLogger, ModelConfig } from "../types";
  * @property {function} generateWithTools - Generate response with tool support
  * @property {function} chatWithTools - Chat with tool support using message history
  * @property {function} chat - Chat without tool support using message history
+ * @property {function} stream - Stream the response as text deltas and tool events
+ * @property {function} embed - Create one embedding per input text
+ * @property {function} getUsage - Get the token usage of all calls, tool rounds included
  * @property {function} getModel - Get current model name
  * @property {function} setModel - Set model name
  */
 export interface OpenRouterProviderInterface {
-    generate(prompt: string, system?: string): Promise<string>;
-    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: any): Promise<string>;
-    chatWithTools(messages: Array<{ role: string; content: string }>, tools: Tool[], logger?: AgentForceLogger, agent?: any): Promise<string>;
-    chat(messages: Array<{ role: string; content: string }>): Promise<string>;
+    generate(prompt: string, system?: string, options?: LLMCallOptions): Promise<string>;
+    generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools(messages: LLMMessage[], tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chat(messages: LLMMessage[], options?: LLMCallOptions): Promise<string>;
+    stream(messages: LLMMessage[], tools?: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): AsyncIterable<LLMStreamEvent>;
+    embed(input: string[], options?: LLMCallOptions): Promise<number[][]>;
+    getUsage(): TokenUsage;
     getModel(): string;
     setModel(model: string): void;
     cleanup(): void;
@@ -33,6 +41,7 @@ export class OpenRouterProvider implements OpenRouterProviderInterface {
     private modelConfig?: ModelConfig;
     private client: OpenAI;
     private toolUse: OpenRouterToolUse;
+    private usage: TokenUsage = createEmptyUsage();
 
     constructor(model: string, modelConfig?: ModelConfig) {
         this.model = model;
@@ -59,9 +68,10 @@ export class OpenRouterProvider implements OpenRouterProviderInterface {
      * Generate response using the OpenRouter model
      * @param prompt - The user prompt to send to the model
      * @param system - Optional system prompt to override the model's default
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response
      */
-    async generate(prompt: string, system?: string): Promise<string> {
+    async generate(prompt: string, system?: string, options: LLMCallOptions = {}): Promise<string> {
         try {
             const messages: ChatCompletionMessageParam[] = [];
             
@@ -76,10 +86,15 @@ export class OpenRouterProvider implements OpenRouterProviderInterface {
                 messages: messages,
                 ...(this.modelConfig?.temperature !== undefined && { temperature: this.modelConfig.temperature }),
                 ...(this.modelConfig?.maxTokens !== undefined && { max_tokens: this.modelConfig.maxTokens }),
-            });
+                ...(this.modelConfig?.jsonSchema && {
+                    response_format: { type: "json_schema", json_schema: { name: "response", schema: this.modelConfig.jsonSchema } },
+                }),
+            }, { signal: options.signal });
+            recordUsage(this.usage, completion.usage?.prompt_tokens, completion.usage?.completion_tokens);
 
             return completion.choices[0]?.message?.content || "";
         } catch (error) {
+            options.signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             return `Error: OpenRouter provider error - ${errorMessage}`;
         }
@@ -88,30 +103,83 @@ export class OpenRouterProvider implements OpenRouterProviderInterface {
     /**
      * Chat with the OpenRouter model
      * @param messages - Array of messages for the conversation
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response
      */
-    async chat(messages: Array<{ role: string; content: string }>): Promise<string> {
+    async chat(messages: LLMMessage[], options: LLMCallOptions = {}): Promise<string> {
         try {
             // Convert messages to OpenAI format
-            const openAIMessages: ChatCompletionMessageParam[] = messages.map(msg => ({
-                role: msg.role as "system" | "user" | "assistant",
-                content: msg.content,
-            }));
+            const openAIMessages = await toOpenRouterMessages(messages);
 
             const completion = await this.client.chat.completions.create({
                 model: this.model,
                 messages: openAIMessages,
                 ...(this.modelConfig?.temperature !== undefined && { temperature: this.modelConfig.temperature }),
                 ...(this.modelConfig?.maxTokens !== undefined && { max_tokens: this.modelConfig.maxTokens }),
-            });
+                ...(this.modelConfig?.jsonSchema && {
+                    response_format: { type: "json_schema", json_schema: { name: "response", schema: this.modelConfig.jsonSchema } },
+                }),
+            }, { signal: options.signal });
+            recordUsage(this.usage, completion.usage?.prompt_tokens, completion.usage?.completion_tokens);
 
             return completion.choices[0]?.message?.content || "";
         } catch (error) {
+            options.signal?.throwIfAborted();
             const errorMessage = error instanceof Error ? error.message : String(error);
             return `Error: OpenRouter provider error - ${errorMessage}`;
         }
     }
 
+    /**
+     * Stream the response as text deltas and tool events
+     * @param messages - Array of messages for the conversation
+     * @param tools - Optional array of tool definitions, tool calls are executed between rounds
+     * @param logger - Optional logger for debugging
+     * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Async iterable of text deltas and tool events
+     */
+    stream(
+        messages: LLMMessage[],
+        tools?: Tool[],
+        logger?: AgentForceLogger,
+        agent?: AgentForceAgent,
+        options?: LLMCallOptions,
+    ): AsyncIterable<LLMStreamEvent> {
+        return this.toolUse.stream(messages, tools, logger, agent, options);
+    }
+
+    /**
+     * Create embeddings with the OpenRouter embeddings API, e.g. openai/text-embedding-3-small
+     * @param input - The texts to embed
+     * @param options - Optional call options, e.g. an abort signal
+     * @returns Promise with one embedding per input text
+     * @throws {Error} If the API fails to create the embeddings
+     */
+    async embed(input: string[], options: LLMCallOptions = {}): Promise<number[][]> {
+        try {
+            const response = await this.client.embeddings.create({
+                model: this.model,
+                input,
+                encoding_format: "float",
+            }, { signal: options.signal });
+            recordUsage(this.usage, response.usage?.prompt_tokens, 0);
+            // The API may return the embeddings in any order
+            return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+        } catch (error) {
+            options.signal?.throwIfAborted();
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            throw new Error(`OpenRouter provider error - ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Get the token usage of all calls made by this provider instance, tool rounds included
+     */
+    getUsage(): TokenUsage {
+        return mergeUsage(this.usage, this.toolUse.getUsage());
+    }
+
     /**
      * Get the current model name
      */
@@ -124,6 +192,7 @@ export class OpenRouterProvider implements OpenRouterProviderInterface {
      */
     setModel(model: string): void {
         this.model = model;
+        this.usage = this.getUsage();
         this.toolUse = new OpenRouterToolUse(model, this.modelConfig);
     }
 
@@ -134,10 +203,11 @@ export class OpenRouterProvider implements OpenRouterProviderInterface {
      * @param system - Optional system prompt
      * @param logger - Optional logger for debugging
      * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response after tool execution
      */
-    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: any): Promise<string> {
-        return this.toolUse.generateWithTools(prompt, tools, system, logger, agent);
+    async generateWithTools(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string> {
+        return this.toolUse.generateWithTools(prompt, tools, system, logger, agent, options);
     }
 
     /**
@@ -146,15 +216,17 @@ export class OpenRouterProvider implements OpenRouterProviderInterface {
      * @param tools - Array of tool definitions
      * @param logger - Optional logger for debugging
      * @param agent - Optional agent instance for MCP tool execution
+     * @param options - Optional call options, e.g. an abort signal
      * @returns Promise with the model's response after tool execution
      */
     async chatWithTools(
-        messages: Array<{ role: string; content: string }>,
+        messages: LLMMessage[],
         tools: Tool[],
         logger?: AgentForceLogger,
-        agent?: any,
+        agent?: AgentForceAgent,
+        options?: LLMCallOptions,
     ): Promise<string> {
-        return this.toolUse.chatWithTools(messages, tools, logger, agent);
+        return this.toolUse.chatWithTools(messages, tools, logger, agent, options);
     }
 
     /**
@@ -0,0 +1,87 @@
+import type { LLMProvider, LLMProviderFactory, ModelConfig, ProviderRegistry } from "../types";
+import { OllamaProvider } from "./ollama";
+import { OpenRouterProvider } from "./openrouter";
+import { GoogleProvider } from "./google";
+import { OpenAIProvider } from "./openai";
+import { AnthropicProvider } from "./anthropic";
+
+/**
+ * Central registry for LLM providers
+ * Maps lower-case provider names to their factories, pre-populated with the built-in providers
+ */
+export const providerRegistry: ProviderRegistry = {
+    ollama: (model, modelConfig) => new OllamaProvider(model, modelConfig),
+    openrouter: (model, modelConfig) => new OpenRouterProvider(model, modelConfig),
+    google: (model, modelConfig) => new GoogleProvider(model, modelConfig),
+    openai: (model, modelConfig) => new OpenAIProvider(model, modelConfig),
+    anthropic: (model, modelConfig) => new AnthropicProvider(model, modelConfig),
+};
+
+/**
+ * Register a provider factory so agents can use it with `useLLM(name, model)`
+ * Registering an existing name replaces that provider, built-in providers included.
+ * @param name - The provider name (case-insensitive)
+ * @param factory - Function creating a provider instance for a model and model config
+ *
+ * @example
+ * ```ts
+ * registerProvider("fake", () => ({
+ *   generate: async () => "fixed answer",
+ *   chat: async () => "fixed answer",
+ * }));
+ *
+ * const agent = new AgentForceAgent({ name: "TestAgent" }).useLLM("fake", "any-model");
+ * ```
+ */
+export function registerProvider(name: string, factory: LLMProviderFactory): void {
+    if (!name || typeof name !== "string" || !name.trim()) {
+        throw new Error("Provider name must be a non-empty string");
+    }
+    if (typeof factory !== "function") {
+        throw new Error(`Provider factory for "${name}" must be a function`);
+    }
+    providerRegistry[name.trim().toLowerCase()] = factory;
+}
+
+/**
+ * Remove a provider from the registry
+ * @param name - The provider name (case-insensitive)
+ */
+export function unregisterProvider(name: string): void {
+    delete providerRegistry[name.trim().toLowerCase()];
+}
+
+/**
+ * Check if a provider is registered
+ * @param name - The provider name (case-insensitive)
+ * @returns true if the provider is registered
+ */
+export function hasProvider(name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(providerRegistry, name.trim().toLowerCase());
+}
+
+/**
+ * Get all registered provider names
+ * @returns Array of provider names
+ */
+export function getRegisteredProviders(): string[] {
+    return Object.keys(providerRegistry);
+}
+
+/**
+ * Create a provider instance through the registry
+ * @param name - The provider name (case-insensitive)
+ * @param model - The model name
+ * @param modelConfig - Optional model configuration
+ * @returns The provider instance
+ * @throws Error if no provider is registered under the name
+ */
+export function createProvider(name: string, model: string, modelConfig?: ModelConfig): LLMProvider {
+    const factory = hasProvider(name) ? providerRegistry[name.trim().toLowerCase()] : undefined;
+    if (!factory) {
+        throw new Error(
+            `Unknown provider: "${name}". Registered providers: ${getRegisteredProviders().join(", ")}. Use registerProvider() to add a custom provider.`,
+        );
+    }
+    return factory(model, modelConfig);
+}
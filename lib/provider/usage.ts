@@ -0,0 +1,107 @@
+import type { ModelPricing, TokenUsage } from "../types";
+
+/**
+ * Price table in USD per million tokens
+ * Keys are "provider/model" or a bare model name matching any provider
+ */
+const modelPricing: Record<string, ModelPricing> = {};
+
+/**
+ * Create an empty usage record
+ * @returns {TokenUsage} Usage with all counts at zero
+ */
+export function createEmptyUsage(): TokenUsage {
+    return { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+/**
+ * Add token counts reported by a provider response to a usage record
+ * Missing counts (providers that do not report usage) are treated as zero.
+ * @param usage - The usage record to update in place
+ * @param promptTokens - Prompt (input) tokens of the response
+ * @param completionTokens - Completion (output) tokens of the response
+ */
+export function recordUsage(usage: TokenUsage, promptTokens?: number | null, completionTokens?: number | null): void {
+    usage.promptTokens += promptTokens ?? 0;
+    usage.completionTokens += completionTokens ?? 0;
+    usage.totalTokens = usage.promptTokens + usage.completionTokens;
+}
+
+/**
+ * Sum several usage records into a new one
+ * Costs are summed when at least one record has a cost.
+ * @param usages - The usage records to sum
+ * @returns {TokenUsage} The combined usage
+ */
+export function mergeUsage(...usages: TokenUsage[]): TokenUsage {
+    const total = createEmptyUsage();
+    for (const usage of usages) {
+        recordUsage(total, usage.promptTokens, usage.completionTokens);
+        if (usage.cost !== undefined) {
+            total.cost = (total.cost ?? 0) + usage.cost;
+        }
+    }
+    return total;
+}
+
+/**
+ * Register model prices used to estimate the cost of executions
+ * Registering an existing model replaces its price.
+ * @param table - Prices in USD per million tokens keyed by "provider/model" or model name
+ *
+ * @example
+ * ```ts
+ * registerModelPricing({
+ *   "openai/gpt-4o-mini": { input: 0.15, output: 0.6 },
+ *   "claude-3-5-haiku-latest": { input: 0.8, output: 4 },
+ * });
+ *
+ * await agent.useLLM("openai", "gpt-4o-mini").prompt("Hello").run();
+ * console.log(agent.getUsage().cost);
+ * ```
+ */
+export function registerModelPricing(table: Record<string, ModelPricing>): void {
+    for (const [model, pricing] of Object.entries(table)) {
+        if (!pricing || typeof pricing.input !== "number" || typeof pricing.output !== "number" || pricing.input < 0 || pricing.output < 0) {
+            throw new Error(`Pricing for "${model}" must have non-negative "input" and "output" prices per million tokens`);
+        }
+        modelPricing[model] = { input: pricing.input, output: pricing.output };
+    }
+}
+
+/**
+ * Remove all registered model prices
+ */
+export function clearModelPricing(): void {
+    for (const model of Object.keys(modelPricing)) {
+        delete modelPricing[model];
+    }
+}
+
+/**
+ * Look up the price of a model, "provider/model" entries take precedence over bare model names
+ * @param provider - The provider name
+ * @param model - The model name
+ * @returns {ModelPricing | undefined} The registered price or undefined
+ */
+export function getModelPricing(provider: string, model: string): ModelPricing | undefined {
+    return modelPricing[`${provider.toLowerCase()}/${model}`] ?? modelPricing[model];
+}
+
+/**
+ * Add the estimated cost to a usage record if a price is registered for the model
+ * @param usage - The usage record
+ * @param provider - The provider name
+ * @param model - The model name
+ * @returns {TokenUsage} A copy of the usage, with `cost` in USD when the model has a price
+ */
+export function withCost(usage: TokenUsage, provider: string, model: string): TokenUsage {
+    const pricing = getModelPricing(provider, model);
+    if (!pricing) {
+        return { ...usage };
+    }
+    return {
+        ...usage,
+        cost: (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000,
+    };
+}
@@ -6,15 +6,20 @@ import {
     addWorkflowTrigger,
     useOpenAICompatibleRouting,
     useOllamaCompatibleRouting,
+    useOpenAIResponsesRouting,
+    useOpenAIEmbeddingsRouting,
     type RouteAgent,
     type StaticRoute,
     type RouteAgentSchema,
+    type OpenAICompatibleRoutingOptions,
+    type SystemMessagePolicy,
+    type ModelAgents,
 } from "./server/mod";
 
 import type { AgentForceAgent } from "./agent";
 import type { ServerConfig, AgentForceLogger } from "./types";
 import { defaultLogger } from "./logger";
-export type { ServerConfig, RouteAgentSchema };
+export type { ServerConfig, RouteAgentSchema, OpenAICompatibleRoutingOptions, SystemMessagePolicy, ModelAgents };
 
 /**
  * Represents a server instance within the AgentForce framework.
@@ -130,8 +135,10 @@ export class AgentForceServer {
     addRoute: (method: string, path: string, responseData: any) => AgentForceServer = addRoute.bind(this);
     addFormTrigger: (formName: string, htmlFilePath: string, agent: AgentForceAgent, schema?: RouteAgentSchema) => AgentForceServer = addFormTrigger.bind(this);
     addWorkflowTrigger: (method: string, path: string, workflowFilePath: string) => AgentForceServer = addWorkflowTrigger.bind(this);
-    useOpenAICompatibleRouting: (agent: AgentForceAgent) => AgentForceServer = useOpenAICompatibleRouting.bind(this);
-    useOllamaCompatibleRouting: (agent: AgentForceAgent) => AgentForceServer = useOllamaCompatibleRouting.bind(this);
+    useOpenAICompatibleRouting: (agents: AgentForceAgent | ModelAgents, options?: OpenAICompatibleRoutingOptions) => AgentForceServer = useOpenAICompatibleRouting.bind(this);
+    useOllamaCompatibleRouting: (agents: AgentForceAgent | ModelAgents) => AgentForceServer = useOllamaCompatibleRouting.bind(this);
+    useOpenAIResponsesRouting: (agents: AgentForceAgent | ModelAgents, options?: OpenAICompatibleRoutingOptions) => AgentForceServer = useOpenAIResponsesRouting.bind(this);
+    useOpenAIEmbeddingsRouting: (agents: AgentForceAgent | ModelAgents) => AgentForceServer = useOpenAIEmbeddingsRouting.bind(this);
 
     // Terminal/Non-chainable methods
     serve: (host?: string, port?: number) => Promise<void> = serve.bind(this);
@@ -1,6 +1,7 @@
 import type { AgentForceServer } from "../../server";
 import type { AgentForceAgent } from "../../agent";
 import type { Context } from "hono";
+import type { SystemMessagePolicy } from "./useOpenAICompatibleRouting";
 
 /**
  * Schema configuration for route agent input and output validation
@@ -13,6 +14,15 @@ export interface RouteAgentSchema {
     output?: string[];
 }
 
+/**
+ * Agents served as models on the OpenAI and Ollama-compatible routes, keyed by the model name that selects them
+ * @example
+ * ```ts
+ * const models: ModelAgents = { "support-bot": supportAgent, "sql-helper": sqlAgent };
+ * ```
+ */
+export type ModelAgents = Record<string, AgentForceAgent>;
+
 /**
  * Configuration for HTTP route handled by an agent
  * @interface RouteAgent
@@ -20,12 +30,16 @@ export interface RouteAgentSchema {
  * @property {string} path - URL path for the route
  * @property {AgentForceAgent} agent - Agent instance to handle requests
  * @property {RouteAgentSchema} [schema] - Optional validation schema
+ * @property {SystemMessagePolicy} [systemMessages] - How client system messages are combined with the agent system prompt on OpenAI-compatible routes
+ * @property {ModelAgents} [models] - Agents selected by the "model" field of the request on OpenAI and Ollama-compatible routes
  */
 export interface RouteAgent {
     method: string;
     path: string;
     agent: AgentForceAgent;
     schema?: RouteAgentSchema;
+    systemMessages?: SystemMessagePolicy;
+    models?: ModelAgents;
 }
 
 /**
@@ -275,9 +289,10 @@ export function createAgentRouteHandler(
             let response: string;
             try {
                 console.log("🚀 Executing Agent with Prompt:", prompt);
+                // The agent stops when the client disconnects
                 response = await agent
                     .prompt(prompt)
-                    .getResponse();
+                    .getResponse({ signal: c.req.raw.signal });
                 console.log("✅ Agent Response Received:", response.substring(0, 100) + (response.length > 100 ? "..." : ""));
             } catch (error) {
                 console.error("❌ Error executing agent:", error);
@@ -2,13 +2,18 @@ import type { AgentForceServer } from "../../server";
 import type { Context } from "hono";
 import { validateHttpMethod, normalizePath } from "../handler/validationHandler";
 
+/**
+ * Workflow definition files run in the server process, other files run in a subprocess
+ */
+const WORKFLOW_DEFINITION_FILE = /\.(ya?ml|json)$/i;
+
 /**
  * Adds a workflow trigger that executes a workflow file when the route is called (chainable method)
  * 
  * @param this - The AgentForceServer instance (bound context)
  * @param method - HTTP method (typically "GET")
  * @param path - The route path (e.g., "/trigger-workflow")
- * @param workflowFilePath - Path to the workflow TypeScript file to execute
+ * @param workflowFilePath - Path to the workflow TypeScript file to execute, or to a YAML or JSON workflow definition file
  * @returns {AgentForceServer} The server instance for method chaining
  */
 export function addWorkflowTrigger(
@@ -84,12 +89,18 @@ export function createWorkflowTriggerHandler(
             
             let workflowResult: any;
             
-            if (typeof globalThis.Bun !== "undefined") {
+            if (WORKFLOW_DEFINITION_FILE.test(workflowFilePath)) {
+                // Definition files are loaded on every call so changes apply without a restart
+                const { AgentForceWorkflow } = await import("../../workflow");
+                workflowResult = await AgentForceWorkflow.fromFile(absolutePath).run({ signal: c.req.raw.signal });
+            } else if (typeof globalThis.Bun !== "undefined") {
                 // Bun runtime - execute the file using Bun subprocess to avoid dynamic import issues
                 try {
+                    // The workflow process is killed when the client disconnects
                     const proc = Bun.spawn(["bun", "run", absolutePath], {
                         stdout: "pipe",
                         stderr: "pipe",
+                        signal: c.req.raw.signal,
                     });
                     
                     const output = await new Response(proc.stdout).text();
@@ -132,7 +143,7 @@ export function createWorkflowTriggerHandler(
                 const execAsync = promisify(exec);
                 
                 try {
-                    const { stdout, stderr } = await execAsync(`node ${absolutePath}`);
+                    const { stdout, stderr } = await execAsync(`node ${absolutePath}`, { signal: c.req.raw.signal });
                     
                     if (stderr && stderr.trim() !== "") {
                         console.warn(`⚠️ Workflow stderr: ${stderr}`);
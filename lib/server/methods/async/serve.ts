@@ -5,6 +5,10 @@ import { createAgentRouteHandler } from "../addRouteAgent";
 import { createStaticRouteHandler } from "../addRoute";
 import { createOpenAICompatibleRouteHandler } from "../useOpenAICompatibleRouting";
 import { createOllamaGenerateRouteHandler, createOllamaChatRouteHandler } from "../useOllamaCompatibleRouting";
+import { createOpenAIResponsesRouteHandler } from "../useOpenAIResponsesRouting";
+import { createOpenAIEmbeddingsRouteHandler } from "../useOpenAIEmbeddingsRouting";
+import { createModelAgentsRoute } from "../../routes/v1/models";
+import type { ModelAgents } from "../addRouteAgent";
 
 /**
  * Starts an HTTP server for the AgentForceServer (terminal method)
@@ -97,8 +101,12 @@ export async function serve(this: AgentForceServer, host: string = "0.0.0.0", po
         action: "registering_route_agents",
     }, `Registering ${routeAgents.length} route agents`);
 
+    // Agents served as models by the OpenAI and Ollama-compatible routes, listed on /v1/models
+    const modelAgents: ModelAgents = {};
+
     routeAgents.forEach(routeAgent => {
-        const { method, path, agent, schema } = routeAgent;
+        const { method, path, agent, schema, systemMessages, models } = routeAgent;
+        Object.assign(modelAgents, models);
         
         // Determine route type and create appropriate handler
         let handler;
@@ -106,15 +114,23 @@ export async function serve(this: AgentForceServer, host: string = "0.0.0.0", po
         
         if (path === "/v1/chat/completions") {
             // OpenAI-compatible route
-            handler = createOpenAICompatibleRouteHandler(agent, path);
+            handler = createOpenAICompatibleRouteHandler(agent, path, { systemMessages }, models);
             routeType = "OpenAI-compatible";
+        } else if (path === "/v1/responses") {
+            // OpenAI Responses API route
+            handler = createOpenAIResponsesRouteHandler(agent, path, { systemMessages }, models);
+            routeType = "OpenAI-compatible (responses)";
+        } else if (path === "/v1/embeddings") {
+            // OpenAI embeddings route
+            handler = createOpenAIEmbeddingsRouteHandler(agent, path, models);
+            routeType = "OpenAI-compatible (embeddings)";
         } else if (path === "/api/generate") {
             // Ollama Generate route
-            handler = createOllamaGenerateRouteHandler(agent, path);
+            handler = createOllamaGenerateRouteHandler(agent, path, models);
             routeType = "Ollama-compatible (generate)";
         } else if (path === "/api/chat") {
             // Ollama Chat route
-            handler = createOllamaChatRouteHandler(agent, path);
+            handler = createOllamaChatRouteHandler(agent, path, models);
             routeType = "Ollama-compatible (chat)";
         } else {
             // Legacy route with schema support
@@ -170,6 +186,18 @@ export async function serve(this: AgentForceServer, host: string = "0.0.0.0", po
         }, `Registered ${routeType} route: ${method} ${path}`);
     });
 
+    // Models route listing the served agents (only if not overridden by static route)
+    const modelNames = Object.keys(modelAgents);
+    if (modelNames.length > 0 && !existingRoutes.has("GET:/v1/models")) {
+        app.route("/v1", createModelAgentsRoute(modelAgents, serverName, log));
+
+        log.info({
+            serverName,
+            models: modelNames,
+            action: "route_registered",
+        }, `Registered models route: GET /v1/models (${modelNames.join(", ")})`);
+    }
+
     // Add static routes
     log.info({
         serverName,
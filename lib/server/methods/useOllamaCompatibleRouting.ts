@@ -1,6 +1,10 @@
 import type { AgentForceServer } from "../../server";
 import type { AgentForceAgent } from "../../agent";
 import type { Context } from "hono";
+import { stream } from "hono/streaming";
+import { detectImageMimeType } from "../../utils/images";
+import type { ModelAgents } from "./addRouteAgent";
+import { findModelAgent, formatUnknownModelMessage, resolveModelAgents } from "../routes/v1/models";
 
 /**
  * Ollama generate request format
@@ -8,6 +12,7 @@ import type { Context } from "hono";
 export interface OllamaGenerateRequest {
     model: string;
     prompt: string;
+    images?: string[];
     format?: string;
     options?: Record<string, unknown>;
     system?: string;
@@ -41,22 +46,23 @@ export interface OllamaChatRequest {
 
 /**
  * Adds Ollama-compatible agents that respond to "/api/generate" and "/api/chat" endpoints (chainable method)
+ *
+ * Like Ollama itself, both routes stream newline-delimited JSON chunks unless the request sets `"stream": false`.
+ * The stream ends with a `done: true` object carrying the timing fields.
+ * Pass a map of agents to serve each of them as a model selected by the "model" field of the request.
  * @param this - The AgentForceServer instance (bound context)
- * @param agent - The AgentForce agent instance to handle Ollama-compatible requests
+ * @param agents - The AgentForce agent instance to handle Ollama-compatible requests, or agents keyed by model name
  * @returns {AgentForceServer} The server instance for method chaining
  */
 export function useOllamaCompatibleRouting(
     this: AgentForceServer,
-    agent: AgentForceAgent,
+    agents: AgentForceAgent | ModelAgents,
 ): AgentForceServer {
-    if (!agent) {
+    if (!agents) {
         throw new Error("Agent instance is required");
     }
 
-    // Validate that the agent has the required methods using bracket notation
-    if (typeof agent["getName"] !== "function") {
-        throw new Error("Agent instance is required");
-    }
+    const { agent, models } = resolveModelAgents(agents);
 
     const log = this.getLogger();
     const serverName = this.getName();
@@ -70,6 +76,7 @@ export function useOllamaCompatibleRouting(
         method: generateMethod,
         path: generatePath,
         agentName: agent["getName"](),
+        ...(models && { models: Object.keys(models) }),
         action: "ollama_compatible_agent_added",
     }, `Adding Ollama-compatible agent: ${generateMethod} ${generatePath}`);
 
@@ -77,6 +84,7 @@ export function useOllamaCompatibleRouting(
         method: generateMethod,
         path: generatePath,
         agent,
+        ...(models && { models }),
     };
 
     this.addToRouteAgents(generateRouteAgent);
@@ -90,6 +98,7 @@ export function useOllamaCompatibleRouting(
         method: chatMethod,
         path: chatPath,
         agentName: agent["getName"](),
+        ...(models && { models: Object.keys(models) }),
         action: "ollama_compatible_agent_added",
     }, `Adding Ollama-compatible agent: ${chatMethod} ${chatPath}`);
 
@@ -97,6 +106,7 @@ export function useOllamaCompatibleRouting(
         method: chatMethod,
         path: chatPath,
         agent,
+        ...(models && { models }),
     };
 
     this.addToRouteAgents(chatRouteAgent);
@@ -147,6 +157,10 @@ function validateOllamaGenerateRequest(data: any): data is OllamaGenerateRequest
         throw new Error("Invalid \"context\" field. Must be an array if provided");
     }
 
+    if (data.images !== undefined && !isBase64Array(data.images)) {
+        throw new Error("Invalid \"images\" field. Must be an array of base64 encoded images if provided");
+    }
+
     return true;
 }
 
@@ -196,6 +210,9 @@ function validateOllamaChatRequest(data: any): data is OllamaChatRequest {
         if (message.images !== undefined && !Array.isArray(message.images)) {
             throw new Error(`Message at index ${i} has invalid "images" field. Must be an array if provided`);
         }
+        if (message.images !== undefined && !isBase64Array(message.images)) {
+            throw new Error(`Message at index ${i} has invalid "images" field. Every image must be a base64 encoded string`);
+        }
     }
 
     // Validate optional fields
@@ -210,6 +227,28 @@ function validateOllamaChatRequest(data: any): data is OllamaChatRequest {
     return true;
 }
 
+/**
+ * Checks that a value is an array of base64 strings, like the images of Ollama requests
+ * @param value - The value to check
+ * @returns {boolean} True if every entry is a non-empty base64 string
+ */
+function isBase64Array(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(image => typeof image === "string" && /^[A-Za-z0-9+/\s]+={0,2}$/.test(image));
+}
+
+/**
+ * Converts the base64 images of an Ollama request to data URLs the agent takes
+ * Only base64 data is accepted from clients, so requests cannot make the server read files.
+ * @param images - The base64 encoded images
+ * @returns {string[]} The images as data URLs
+ */
+function toImageDataUrls(images: string[] = []): string[] {
+    return images.map(image => {
+        const data = image.replace(/\s/g, "");
+        return `data:${detectImageMimeType(data)};base64,${data}`;
+    });
+}
+
 /**
  * Converts Ollama chat messages to a conversation context string
  * @param messages - Array of Ollama chat messages
@@ -269,13 +308,109 @@ function parseOllamaModelParameter(modelParam: string): { provider: "ollama"; mo
     return { provider: "ollama", model: modelParam.trim() };
 }
 
+/**
+ * Selects the agent that handles an Ollama request
+ * Each request runs on a copy of the agent, so the model, system prompt and images of one request do not leak into another.
+ * @param agent - The agent of the route
+ * @param models - The agents served as models, if any
+ * @param model - The "model" field of the request
+ * @returns {AgentForceAgent | undefined} The copy of the agent, undefined if the model is not served
+ */
+function selectOllamaAgent(agent: AgentForceAgent, models: ModelAgents | undefined, model: string): AgentForceAgent | undefined {
+    return models ? findModelAgent(models, model)?.clone() : agent.clone();
+}
+
+/**
+ * Converts milliseconds from performance.now() to the nanoseconds used by Ollama timing fields
+ * @param ms - Duration in milliseconds
+ * @returns {number} Duration in nanoseconds
+ */
+function toNanoseconds(ms: number): number {
+    return Math.round(ms * 1_000_000);
+}
+
+/**
+ * Streams the agent response as Ollama newline-delimited JSON chunks
+ * @param c - The Hono context
+ * @param agent - The AgentForce agent to stream from
+ * @param prompt - The prompt for the agent
+ * @param images - The images attached to the prompt, as data URLs
+ * @param model - The model name from the request
+ * @param endpoint - "generate" emits `response` fields, "chat" emits assistant `message` objects
+ * @returns {Response} The application/x-ndjson response
+ */
+function streamOllamaResponse(c: Context, agent: AgentForceAgent, prompt: string, images: string[], model: string, endpoint: "generate" | "chat"): Response {
+    const startedAt = performance.now();
+
+    const chunk = (content: string): Record<string, unknown> => ({
+        model,
+        created_at: new Date().toISOString(),
+        ...(endpoint === "generate" ? { response: content } : { message: { role: "assistant", content } }),
+    });
+
+    c.header("Content-Type", "application/x-ndjson");
+
+    return stream(c, async (ndjson) => {
+        let response = "";
+        let firstTokenAt: number | undefined;
+
+        // Stop generating once the client has gone away, running provider requests and tool calls included
+        const controller = new AbortController();
+        ndjson.onAbort(() => controller.abort());
+
+        try {
+            agent["getLogger"]().debug("Streaming agent response", { prompt });
+            for await (const event of agent.prompt(prompt, { images }).stream({ signal: controller.signal })) {
+                if (ndjson.aborted) {
+                    break;
+                }
+
+                if (event.type === "text" && event.text) {
+                    firstTokenAt ??= performance.now();
+                    response += event.text;
+                    await ndjson.writeln(JSON.stringify({ ...chunk(event.text), done: false }));
+                }
+            }
+        } catch (error) {
+            if (ndjson.aborted) {
+                return;
+            }
+            agent["getLogger"]().error("Error streaming agent response:", error);
+            await ndjson.writeln(JSON.stringify({
+                error: error instanceof Error ? error.message : "Unknown execution error",
+            }));
+            return;
+        }
+
+        const finishedAt = performance.now();
+        firstTokenAt ??= finishedAt;
+
+        // Token counts come from the provider, or are estimated at about 4 characters per token
+        const usage = agent.getUsage();
+        const hasUsage = usage.totalTokens > 0;
+        await ndjson.writeln(JSON.stringify({
+            ...chunk(""),
+            done: true,
+            done_reason: "stop",
+            ...(endpoint === "generate" ? { context: [] } : {}),
+            total_duration: toNanoseconds(finishedAt - startedAt),
+            load_duration: 0,
+            prompt_eval_count: hasUsage ? usage.promptTokens : Math.ceil(prompt.length / 4),
+            prompt_eval_duration: toNanoseconds(firstTokenAt - startedAt),
+            eval_count: hasUsage ? usage.completionTokens : Math.ceil(response.length / 4),
+            eval_duration: toNanoseconds(finishedAt - firstTokenAt),
+        }));
+    });
+}
+
 /**
  * Creates a Hono route handler for Ollama generate endpoint
  * @param agent - The AgentForce agent to handle the request
  * @param path - Route path for logging purposes
+ * @param models - Agents selected by the "model" field of the request instead of `agent`
  * @returns Hono route handler function
  */
-export function createOllamaGenerateRouteHandler(agent: AgentForceAgent, path: string): (c: Context) => Promise<Response> {
+export function createOllamaGenerateRouteHandler(agent: AgentForceAgent, path: string, models?: ModelAgents): (c: Context) => Promise<Response> {
     return async (c: Context): Promise<Response> => {
         try {
             let requestData: Record<string, unknown> = {};
@@ -309,18 +444,30 @@ export function createOllamaGenerateRouteHandler(agent: AgentForceAgent, path: s
                 const ollamaRequest = requestData as unknown as OllamaGenerateRequest;
                 console.log("🤖 Ollama Model:", ollamaRequest.model);
                 console.log("💬 Ollama Prompt:", ollamaRequest.prompt);
+                const images = toImageDataUrls(ollamaRequest.images);
                 
-                // Parse and set provider/model from the request
+                const requestAgent = selectOllamaAgent(agent, models, ollamaRequest.model);
+                if (!requestAgent) {
+                    agent["getLogger"]().debug("Unknown model", { model: ollamaRequest.model });
+                    return c.json({
+                        error: "Model not found",
+                        message: formatUnknownModelMessage(models as ModelAgents, ollamaRequest.model),
+                    }, 404);
+                }
+                
+                // Parse and set provider/model from the request, unless the model names a served agent
                 try {
-                    const { provider, model } = parseOllamaModelParameter(ollamaRequest.model);
-                    console.log(`🔧 Setting agent to use provider: ${provider}, model: ${model}`);
-                    
-                    // Configure the agent with the requested model
-                    agent.useLLM(provider, model);
+                    if (!models) {
+                        const { provider, model } = parseOllamaModelParameter(ollamaRequest.model);
+                        requestAgent["getLogger"]().debug("Setting agent provider and model", { provider, model });
+                        
+                        // Configure the agent with the requested model
+                        requestAgent.useLLM(provider, model);
+                    }
                     
                     // Set system prompt if provided
                     if (ollamaRequest.system) {
-                        agent.systemPrompt(ollamaRequest.system);
+                        requestAgent.systemPrompt(ollamaRequest.system);
                     }
                     
                 } catch (parseError) {
@@ -331,11 +478,17 @@ export function createOllamaGenerateRouteHandler(agent: AgentForceAgent, path: s
                     }, 400);
                 }
 
+                // Ollama streams unless the client explicitly disables it
+                if (ollamaRequest.stream !== false) {
+                    console.log("📤 Returning Ollama-compatible generate stream");
+                    return streamOllamaResponse(c, requestAgent, ollamaRequest.prompt, images, ollamaRequest.model, "generate");
+                }
+
                 // Execute the agent with the prompt
                 let response: string;
                 try {
                     console.log("🤖 Executing agent with prompt...");
-                    response = await agent.prompt(ollamaRequest.prompt).getResponse();
+                    response = await requestAgent.prompt(ollamaRequest.prompt, { images }).getResponse({ signal: c.req.raw.signal });
                     console.log("✅ Agent execution completed");
                     console.log("📤 Agent response:", response);
                 } catch (error) {
@@ -357,9 +510,9 @@ export function createOllamaGenerateRouteHandler(agent: AgentForceAgent, path: s
                     context: [], // Could be implemented to track conversation context
                     total_duration: 0, // Could be implemented to track timing
                     load_duration: 0,
-                    prompt_eval_count: 0,
+                    prompt_eval_count: requestAgent.getUsage().promptTokens,
                     prompt_eval_duration: 0,
-                    eval_count: 0,
+                    eval_count: requestAgent.getUsage().completionTokens,
                     eval_duration: 0,
                 };
 
@@ -389,9 +542,10 @@ export function createOllamaGenerateRouteHandler(agent: AgentForceAgent, path: s
  * Creates a Hono route handler for Ollama chat endpoint
  * @param agent - The AgentForce agent to handle the request
  * @param path - Route path for logging purposes
+ * @param models - Agents selected by the "model" field of the request instead of `agent`
  * @returns Hono route handler function
  */
-export function createOllamaChatRouteHandler(agent: AgentForceAgent, path: string): (c: Context) => Promise<Response> {
+export function createOllamaChatRouteHandler(agent: AgentForceAgent, path: string, models?: ModelAgents): (c: Context) => Promise<Response> {
     return async (c: Context): Promise<Response> => {
         try {
             let requestData: Record<string, unknown> = {};
@@ -428,19 +582,33 @@ export function createOllamaChatRouteHandler(agent: AgentForceAgent, path: strin
                 
                 const prompt = formatOllamaChatContext(ollamaRequest.messages);
                 console.log("💬 Formatted Conversation Context:", prompt);
+
+                // The conversation is sent as one prompt, so it carries the images of every user message
+                const images = toImageDataUrls(ollamaRequest.messages.flatMap(msg => msg.role === "user" ? msg.images ?? [] : []));
                 
-                // Parse and set provider/model from the request
+                const requestAgent = selectOllamaAgent(agent, models, ollamaRequest.model);
+                if (!requestAgent) {
+                    agent["getLogger"]().debug("Unknown model", { model: ollamaRequest.model });
+                    return c.json({
+                        error: "Model not found",
+                        message: formatUnknownModelMessage(models as ModelAgents, ollamaRequest.model),
+                    }, 404);
+                }
+                
+                // Parse and set provider/model from the request, unless the model names a served agent
                 try {
-                    const { provider, model } = parseOllamaModelParameter(ollamaRequest.model);
-                    console.log(`🔧 Setting agent to use provider: ${provider}, model: ${model}`);
-                    
-                    // Configure the agent with the requested model
-                    agent.useLLM(provider, model);
+                    if (!models) {
+                        const { provider, model } = parseOllamaModelParameter(ollamaRequest.model);
+                        requestAgent["getLogger"]().debug("Setting agent provider and model", { provider, model });
+                        
+                        // Configure the agent with the requested model
+                        requestAgent.useLLM(provider, model);
+                    }
                     
                     // Set system prompt from messages if present
                     const systemMessage = ollamaRequest.messages.find(msg => msg.role === "system");
                     if (systemMessage) {
-                        agent.systemPrompt(systemMessage.content);
+                        requestAgent.systemPrompt(systemMessage.content);
                     }
                     
                 } catch (parseError) {
@@ -451,11 +619,17 @@ export function createOllamaChatRouteHandler(agent: AgentForceAgent, path: strin
                     }, 400);
                 }
 
+                // Ollama streams unless the client explicitly disables it
+                if (ollamaRequest.stream !== false) {
+                    console.log("📤 Returning Ollama-compatible chat stream");
+                    return streamOllamaResponse(c, requestAgent, prompt, images, ollamaRequest.model, "chat");
+                }
+
                 // Execute the agent with the formatted conversation
                 let response: string;
                 try {
                     console.log("🤖 Executing agent with conversation...");
-                    response = await agent.prompt(prompt).getResponse();
+                    response = await requestAgent.prompt(prompt, { images }).getResponse({ signal: c.req.raw.signal });
                     console.log("✅ Agent execution completed");
                     console.log("📤 Agent response:", response);
                 } catch (error) {
@@ -479,9 +653,9 @@ export function createOllamaChatRouteHandler(agent: AgentForceAgent, path: strin
                     done: true,
                     total_duration: 0, // Could be implemented to track timing
                     load_duration: 0,
-                    prompt_eval_count: 0,
+                    prompt_eval_count: requestAgent.getUsage().promptTokens,
                     prompt_eval_duration: 0,
-                    eval_count: 0,
+                    eval_count: requestAgent.getUsage().completionTokens,
                     eval_duration: 0,
                 };
 
@@ -1,6 +1,12 @@
 import type { AgentForceServer } from "../../server";
 import type { AgentForceAgent } from "../../agent";
+import type { ChatMessage, Tool } from "../../types";
 import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { randomUUID } from "crypto";
+import { DeferredToolCall } from "../../utils/deferred";
+import type { ModelAgents } from "./addRouteAgent";
+import { findModelAgent, formatUnknownModelMessage, resolveModelAgents } from "../routes/v1/models";
 
 /**
  * OpenAI content object for multimodal messages
@@ -14,21 +20,26 @@ export interface OpenAIContentObject {
     };
 }
 
+/**
+ * OpenAI tool call of an assistant message
+ */
+export interface OpenAIToolCall {
+    id: string;
+    type: "function";
+    function: {
+        name: string;
+        arguments: string;
+    };
+}
+
 /**
  * OpenAI-compatible message format with flexible content
  */
 export interface OpenAIMessage {
     role: "system" | "user" | "assistant" | "tool";
-    content: string | OpenAIContentObject[];
+    content: string | OpenAIContentObject[] | null;
     name?: string;
-    tool_calls?: Array<{
-        id: string;
-        type: "function";
-        function: {
-            name: string;
-            arguments: string;
-        };
-    }>;
+    tool_calls?: OpenAIToolCall[];
     tool_call_id?: string;
 }
 
@@ -69,11 +80,29 @@ export interface OpenAIChatCompletionRequest {
     logit_bias?: Record<string, number>;
     user?: string;
     tools?: OpenAITool[];
-    tool_choice?: "none" | "auto" | { type: "function"; function: { name: string } };
+    tool_choice?: "none" | "auto" | "required" | { type: "function"; function: { name: string } };
     response_format?: { type: "text" | "json_object" };
     seed?: number;
 }
 
+/**
+ * How system messages of the client are combined with the system prompt of the agent
+ * - "append": the client system message follows the agent system prompt (default)
+ * - "prepend": the client system message comes before the agent system prompt
+ * - "replace": the client system message replaces the agent system prompt
+ * - "ignore": client system messages are dropped
+ */
+export type SystemMessagePolicy = "append" | "prepend" | "replace" | "ignore";
+
+/**
+ * Options of the OpenAI-compatible route
+ */
+export interface OpenAICompatibleRoutingOptions {
+    systemMessages?: SystemMessagePolicy;
+}
+
+export const SYSTEM_MESSAGE_POLICIES: SystemMessagePolicy[] = ["append", "prepend", "replace", "ignore"];
+
 /**
  * OpenAI-compatible agent route configuration
  */
@@ -84,23 +113,42 @@ export interface OpenAICompatibleRouteAgent {
 
 /**
  * Adds an OpenAI-compatible agent that responds to "/v1/chat/completions" endpoint (chainable method)
+ *
+ * Requests with `"stream": true` receive `chat.completion.chunk` server-sent events terminated by `data: [DONE]`,
+ * followed by a usage chunk before the terminator when `stream_options.include_usage` is set.
+ * Every request runs on a clone of the agent: earlier messages become its history, the last message its prompt,
+ * and client system messages are combined with its system prompt as set by `options.systemMessages`.
+ * Tools sent by the client are offered next to the tools of the agent; calls to them are returned as `tool_calls`
+ * with `finish_reason: "tool_calls"` and the client sends the results back as `tool` messages.
+ *
+ * Pass a map of agents to serve each of them as a model: the "model" field of the request selects the agent by its key,
+ * which runs with its own provider and model, and `GET /v1/models` lists exactly those agents.
  * @param this - The AgentForceServer instance (bound context)
- * @param agent - The AgentForce agent instance to handle OpenAI-compatible requests
+ * @param agent - The AgentForce agent instance to handle OpenAI-compatible requests, or agents keyed by model name
+ * @param options - Options of the route
  * @returns {AgentForceServer} The server instance for method chaining
+ *
+ * @example
+ * ```ts
+ * server.useOpenAICompatibleRouting({ "support-bot": supportAgent, "sql-helper": sqlAgent });
+ * // POST /v1/chat/completions {"model": "sql-helper", "messages": [...]}
+ * ```
  */
 export function useOpenAICompatibleRouting(
     this: AgentForceServer,
-    agent: AgentForceAgent,
+    agents: AgentForceAgent | ModelAgents,
+    options: OpenAICompatibleRoutingOptions = {},
 ): AgentForceServer {
-    if (!agent) {
+    if (!agents) {
         throw new Error("Agent instance is required");
     }
 
-    // Validate that the agent has the required methods using bracket notation
-    if (typeof agent["getName"] !== "function") {
-        throw new Error("Agent instance is required");
+    if (options.systemMessages !== undefined && !SYSTEM_MESSAGE_POLICIES.includes(options.systemMessages)) {
+        throw new Error(`Invalid system message policy "${options.systemMessages}". Must be one of ${SYSTEM_MESSAGE_POLICIES.join(", ")}`);
     }
 
+    const { agent, models } = resolveModelAgents(agents);
+
     const path = "/v1/chat/completions";
     const method = "POST";
 
@@ -112,6 +160,7 @@ export function useOpenAICompatibleRouting(
         method,
         path,
         agentName: agent["getName"](),
+        ...(models && { models: Object.keys(models) }),
         action: "openai_compatible_agent_added",
     }, `Adding OpenAI-compatible agent: ${method} ${path}`);
 
@@ -120,6 +169,8 @@ export function useOpenAICompatibleRouting(
         method,
         path,
         agent,
+        ...(options.systemMessages && { systemMessages: options.systemMessages }),
+        ...(models && { models }),
     };
 
     // Add to the server's route agents collection
@@ -173,6 +224,10 @@ function validateOpenAIContent(content: any, messageIndex: number): boolean {
                 if (!contentObj.image_url.url || typeof contentObj.image_url.url !== "string") {
                     throw new Error(`Message at index ${messageIndex}, content object at index ${j} with type "image_url" must have a valid "url" in image_url object`);
                 }
+                // Only URLs are accepted from clients, so requests cannot make the server read files
+                if (!/^(https?:\/\/|data:)/i.test(contentObj.image_url.url)) {
+                    throw new Error(`Message at index ${messageIndex}, content object at index ${j} with type "image_url" must have an http(s) or data URL`);
+                }
             }
         }
         return true;
@@ -219,11 +274,17 @@ function validateOpenAIChatCompletionRequest(data: any): data is OpenAIChatCompl
             throw new Error(`Message at index ${i} has invalid role "${message.role}". Must be "system", "user", "assistant", or "tool"`);
         }
 
-        if (message.content === undefined || message.content === null) {
+        // Assistant messages calling tools may come without content
+        const callsTools = message.role === "assistant" && Array.isArray(message.tool_calls) && message.tool_calls.length > 0;
+        if (!callsTools && (message.content === undefined || message.content === null)) {
             throw new Error(`Message at index ${i} missing "content" field`);
         }
 
-        validateOpenAIContent(message.content, i);
+        // Tools may return empty results and assistant turns may be empty
+        const emptyText = message.content === "" && (message.role === "tool" || message.role === "assistant");
+        if (!emptyText && (!callsTools || (message.content !== null && message.content !== undefined))) {
+            validateOpenAIContent(message.content, i);
+        }
 
         // Optional field validations
         if (message.name !== undefined && typeof message.name !== "string") {
@@ -238,7 +299,12 @@ function validateOpenAIChatCompletionRequest(data: any): data is OpenAIChatCompl
             if (!Array.isArray(message.tool_calls)) {
                 throw new Error(`Message at index ${i} has invalid "tool_calls" field. Must be an array if provided`);
             }
-            // Additional tool_calls validation could be added here
+            for (let j = 0; j < message.tool_calls.length; j++) {
+                const toolCall = message.tool_calls[j];
+                if (!toolCall || typeof toolCall !== "object" || !toolCall.function || typeof toolCall.function.name !== "string") {
+                    throw new Error(`Message at index ${i}, tool call at index ${j} must have a "function" object with a "name"`);
+                }
+            }
         }
     }
 
@@ -263,6 +329,15 @@ function validateOpenAIChatCompletionRequest(data: any): data is OpenAIChatCompl
         throw new Error("Invalid \"stream\" field. Must be a boolean if provided");
     }
 
+    if (data.stream_options !== undefined) {
+        if (!data.stream_options || typeof data.stream_options !== "object" || Array.isArray(data.stream_options)) {
+            throw new Error("Invalid \"stream_options\" field. Must be an object if provided");
+        }
+        if (data.stream_options.include_usage !== undefined && typeof data.stream_options.include_usage !== "boolean") {
+            throw new Error("Invalid \"stream_options.include_usage\" field. Must be a boolean if provided");
+        }
+    }
+
     if (data.presence_penalty !== undefined && (typeof data.presence_penalty !== "number" || data.presence_penalty < -2 || data.presence_penalty > 2)) {
         throw new Error("Invalid \"presence_penalty\" field. Must be a number between -2 and 2 if provided");
     }
@@ -275,15 +350,62 @@ function validateOpenAIChatCompletionRequest(data: any): data is OpenAIChatCompl
         throw new Error("Invalid \"user\" field. Must be a string if provided");
     }
 
+    validateOpenAITools(data.tools, data.tool_choice);
+
+    return true;
+}
+
+/**
+ * Validates the tools and tool_choice of an OpenAI request
+ * @param tools - The tools field of the request
+ * @param toolChoice - The tool_choice field of the request
+ * @returns {boolean} True if valid, throws error if invalid
+ */
+function validateOpenAITools(tools: unknown, toolChoice: unknown): boolean {
+    if (tools !== undefined) {
+        if (!Array.isArray(tools)) {
+            throw new Error("Invalid \"tools\" field. Must be an array if provided");
+        }
+        tools.forEach((tool, i) => {
+            if (!tool || typeof tool !== "object" || tool.type !== "function" || !tool.function || typeof tool.function.name !== "string") {
+                throw new Error(`Tool at index ${i} must have type "function" and a "function" object with a "name"`);
+            }
+            if (tool.function.description !== undefined && typeof tool.function.description !== "string") {
+                throw new Error(`Tool at index ${i} has invalid "description" field. Must be a string if provided`);
+            }
+            if (tool.function.parameters !== undefined && (!tool.function.parameters || typeof tool.function.parameters !== "object" || Array.isArray(tool.function.parameters))) {
+                throw new Error(`Tool at index ${i} has invalid "parameters" field. Must be a JSON Schema object if provided`);
+            }
+        });
+    }
+
+    if (toolChoice === undefined || toolChoice === "none" || toolChoice === "auto") {
+        return true;
+    }
+    if (toolChoice === "required") {
+        if (!Array.isArray(tools) || tools.length === 0) {
+            throw new Error("Invalid \"tool_choice\" field. \"required\" needs at least one tool in the tools of the request");
+        }
+        return true;
+    }
+    const choice = toolChoice as { type?: unknown; function?: { name?: unknown } } | null;
+    const name = choice?.function?.name;
+    if (choice?.type !== "function" || typeof name !== "string") {
+        throw new Error("Invalid \"tool_choice\" field. Must be \"none\", \"auto\", \"required\" or a function object if provided");
+    }
+    if (!Array.isArray(tools) || !tools.some(tool => tool.function.name === name)) {
+        throw new Error(`Invalid "tool_choice" field. Tool "${name}" is not in the tools of the request`);
+    }
     return true;
 }
 
 /**
  * Extracts text content from OpenAI message content (string or array)
+ * Image parts are left out, see extractImages.
  * @param content - The content field from an OpenAI message
  * @returns {string} The extracted text content
  */
-function extractTextContent(content: string | OpenAIContentObject[]): string {
+function extractTextContent(content: string | OpenAIContentObject[] | null): string {
     if (typeof content === "string") {
         return content;
     }
@@ -295,9 +417,6 @@ function extractTextContent(content: string | OpenAIContentObject[]): string {
         for (const contentObj of content) {
             if (contentObj.type === "text" && contentObj.text) {
                 textParts.push(contentObj.text);
-            } else if (contentObj.type === "image_url") {
-                // For image content, add a placeholder or description
-                textParts.push("[Image provided]");
             }
         }
         
@@ -308,52 +427,188 @@ function extractTextContent(content: string | OpenAIContentObject[]): string {
 }
 
 /**
- * Converts OpenAI messages format to a conversation context string
+ * Extracts the image URLs from OpenAI message content
+ * @param content - The content field from an OpenAI message
+ * @returns {string[]} The http(s) or data URLs of the image_url parts
+ */
+function extractImages(content: string | OpenAIContentObject[] | null): string[] {
+    if (!Array.isArray(content)) {
+        return [];
+    }
+    return content.flatMap(contentObj => contentObj.type === "image_url" && contentObj.image_url ? [contentObj.image_url.url] : []);
+}
+
+/**
+ * Conversation of a request in the form the agent takes it
+ */
+export interface AgentConversation {
+    systemPrompt: string;
+    history: ChatMessage[];
+    prompt: string;
+    images: string[];
+}
+
+/**
+ * Converts the text of a message to the user or assistant turn the agent understands
+ * Tool calls and results of earlier turns are described in text, so every provider can take them.
+ * Images of user and tool messages are kept, images of assistant messages are dropped.
+ * @param message - The OpenAI message
+ * @returns {ChatMessage} The chat message
+ */
+function toChatMessage(message: OpenAIMessage): ChatMessage {
+    const text = extractTextContent(message.content);
+    const images = extractImages(message.content);
+
+    if (message.role === "tool") {
+        const toolCall = message.tool_call_id ? ` ${message.tool_call_id}` : "";
+        return { role: "user", content: `Result of tool call${toolCall}${message.name ? ` (${message.name})` : ""}:\n${text}`, ...(images.length > 0 && { images }) };
+    }
+
+    if (message.role === "assistant") {
+        const toolCalls = (message.tool_calls ?? []).map(toolCall =>
+            `Called tool ${toolCall.function.name}${toolCall.id ? ` (${toolCall.id})` : ""} with arguments ${toolCall.function.arguments ?? "{}"}`,
+        );
+        return { role: "assistant", content: [text, ...toolCalls].filter(Boolean).join("\n") };
+    }
+
+    return { role: "user", content: text, ...(images.length > 0 && { images }) };
+}
+
+/**
+ * Combines the system prompt of the agent with the system messages of the client
+ * @param agentSystemPrompt - The system prompt of the agent
+ * @param clientSystemPrompt - The system messages of the client, joined
+ * @param policy - How to combine them
+ * @returns {string} The system prompt of the request
+ */
+function mergeSystemPrompts(agentSystemPrompt: string, clientSystemPrompt: string, policy: SystemMessagePolicy): string {
+    if (!clientSystemPrompt || policy === "ignore") {
+        return agentSystemPrompt;
+    }
+
+    switch (policy) {
+        case "replace":
+            return clientSystemPrompt;
+        case "prepend":
+            return [clientSystemPrompt, agentSystemPrompt].filter(Boolean).join("\n\n");
+        default:
+            return [agentSystemPrompt, clientSystemPrompt].filter(Boolean).join("\n\n");
+    }
+}
+
+/**
+ * Converts OpenAI messages to the system prompt, history and prompt of the agent
+ * The last message is the prompt, the messages before it the history.
  * @param messages - Array of OpenAI messages
- * @returns {string} The full conversation formatted for the model
+ * @param agentSystemPrompt - The system prompt of the agent
+ * @param policy - How client system messages are combined with the agent system prompt
+ * @returns {AgentConversation} The conversation for the agent
  */
-function formatConversationContext(messages: OpenAIMessage[]): string {
+export function toAgentConversation(messages: OpenAIMessage[], agentSystemPrompt: string, policy: SystemMessagePolicy): AgentConversation {
     if (messages.length === 0) {
         throw new Error("Messages array cannot be empty");
     }
 
-    // Find the last user message for validation
-    const userMessages = messages.filter(msg => msg.role === "user");
-    if (userMessages.length === 0) {
+    if (!messages.some(msg => msg.role === "user")) {
         throw new Error("No user message found in messages array");
     }
 
-    // If only one user message and no assistant messages, return just the user content
-    if (messages.length === 1 && messages[0]?.role === "user") {
-        return extractTextContent(messages[0].content);
+    const systemMessages = messages.filter(msg => msg.role === "system");
+    const turns = messages.filter(msg => msg.role !== "system");
+    const lastTurn = turns[turns.length - 1];
+    if (!lastTurn || lastTurn.role === "assistant") {
+        throw new Error("The last message must be a user or tool message");
     }
 
-    // Format the full conversation for context
-    const conversationLines: string[] = [];
-    
-    for (const message of messages) {
-        const textContent = extractTextContent(message.content);
-        
-        switch (message.role) {
-            case "system":
-                conversationLines.push(`System: ${textContent}`);
-                break;
-            case "user":
-                conversationLines.push(`Human: ${textContent}`);
-                break;
-            case "assistant":
-                conversationLines.push(`Assistant: ${textContent}`);
-                break;
-            case "tool":
-                conversationLines.push(`Tool: ${textContent}`);
-                break;
-        }
+    const clientSystemPrompt = systemMessages.map(msg => extractTextContent(msg.content)).join("\n\n");
+    const promptMessage = toChatMessage(lastTurn);
+    return {
+        systemPrompt: mergeSystemPrompts(agentSystemPrompt, clientSystemPrompt, policy),
+        history: turns.slice(0, -1).map(toChatMessage),
+        prompt: promptMessage.content,
+        images: promptMessage.images ?? [],
+    };
+}
+
+/**
+ * Tools of the client offered to the agent for one request
+ */
+export interface ClientTools {
+    calls: OpenAIToolCall[];
+}
+
+/**
+ * Adds the tools of the client to the agent of a request
+ * The model sees them next to the tools of the agent, but their calls are not executed on the server: once the
+ * model calls one, the tool loop ends after that model turn and the calls are returned to the client, which sends the results back as
+ * tool messages. "none" offers none of them. "required" instructs the model to call one of them, and a named
+ * tool_choice offers only that tool, without the tools and MCP servers of the agent, and instructs the model to call it.
+ * @param agent - The agent of the request
+ * @param request - The tools and tool_choice of the validated request
+ * @returns {ClientTools} The recorded calls
+ */
+export function addClientTools(agent: AgentForceAgent, request: Pick<OpenAIChatCompletionRequest, "tools" | "tool_choice">): ClientTools {
+    const clientTools: ClientTools = { calls: [] };
+    const toolChoice = request.tool_choice;
+    if (!request.tools || toolChoice === "none") {
+        return clientTools;
     }
 
-    // Add the current context instruction
-    conversationLines.push("\nPlease respond as the Assistant, taking into account the full conversation history above.");
+    const tools = typeof toolChoice === "object"
+        ? request.tools.filter(tool => tool.function.name === toolChoice.function.name)
+        : request.tools;
 
-    return conversationLines.join("\n");
+    // Providers take no tool_choice, so the choice is enforced through the offered tools and the system prompt
+    if (typeof toolChoice === "object") {
+        agent["setTools"]([]);
+        agent["setMCPs"]([]);
+    }
+    if (toolChoice === "required" || typeof toolChoice === "object") {
+        const names = tools.map(tool => `"${tool.function.name}"`).join(", ");
+        const instruction = typeof toolChoice === "object"
+            ? `You must call the tool ${names} to answer.`
+            : `You must call at least one of the tools ${names} to answer.`;
+        const systemPrompt = agent["getSystemPrompt"]();
+        agent["setSystemPrompt"](systemPrompt ? `${systemPrompt}\n\n${instruction}` : instruction);
+    }
+
+    for (const tool of tools) {
+        const definition = {
+            type: "function" as const,
+            function: {
+                name: tool.function.name,
+                description: tool.function.description ?? "",
+                parameters: (tool.function.parameters ?? { type: "object", properties: {} }) as Tool["function"]["parameters"],
+            },
+        };
+        agent.addTool(definition, async (args) => {
+            clientTools.calls.push({
+                id: `call_${randomUUID().replace(/-/g, "")}`,
+                type: "function",
+                function: { name: tool.function.name, arguments: JSON.stringify(args ?? {}) },
+            });
+            // The tool loop ends after the calls of this model turn, they go back to the client
+            return new DeferredToolCall("The client runs this tool");
+        });
+    }
+    return clientTools;
+}
+
+/**
+ * Applies the sampling fields of a request to the model config of the agent of the request
+ * @param agent - The agent of the request
+ * @param temperature - The temperature of the request, if any
+ * @param maxTokens - The maximum number of tokens to generate, if any
+ */
+export function applyRequestModelConfig(agent: AgentForceAgent, temperature?: number, maxTokens?: number): void {
+    if (temperature === undefined && maxTokens === undefined) {
+        return;
+    }
+    agent["setModelConfig"]({
+        ...agent["getModelConfig"](),
+        ...(temperature !== undefined && { temperature }),
+        ...(maxTokens !== undefined && { maxTokens }),
+    });
 }
 
 /**
@@ -361,7 +616,7 @@ function formatConversationContext(messages: OpenAIMessage[]): string {
  * @param modelParam - The model parameter from OpenAI request (e.g., "ollama/gemma3:12b")
  * @returns {object} Object containing provider and model
  */
-function parseModelParameter(modelParam: string): { provider: string; model: string } {
+export function parseModelParameter(modelParam: string): { provider: string; model: string } {
     if (!modelParam || typeof modelParam !== "string") {
         throw new Error("Model parameter must be a non-empty string");
     }
@@ -383,13 +638,129 @@ function parseModelParameter(modelParam: string): { provider: string; model: str
     return { provider: "ollama", model: modelParam.trim() };
 }
 
+/**
+ * Builds the OpenAI usage object from the token usage reported by the agent's provider
+ * Falls back to a rough estimate (about 4 characters per token) when the provider reports no usage.
+ * @param agent - The agent that handled the request
+ * @param prompt - The prompt sent to the agent
+ * @param response - The response returned by the agent
+ * @returns {object} OpenAI usage object
+ */
+export function getCompletionUsage(agent: AgentForceAgent, prompt: string, response: string): { prompt_tokens: number; completion_tokens: number; total_tokens: number } {
+    const usage = agent.getUsage();
+    if (usage.totalTokens > 0) {
+        return {
+            prompt_tokens: usage.promptTokens,
+            completion_tokens: usage.completionTokens,
+            total_tokens: usage.totalTokens,
+        };
+    }
+
+    const promptTokens = Math.ceil(prompt.length / 4);
+    const completionTokens = Math.ceil(response.length / 4);
+    return {
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: promptTokens + completionTokens,
+    };
+}
+
+/**
+ * Streams the agent response as OpenAI chat.completion.chunk server-sent events terminated by [DONE]
+ * @param c - The Hono context
+ * @param agent - The AgentForce agent to stream from
+ * @param prompt - The formatted conversation prompt
+ * @param images - The images attached to the prompt
+ * @param request - The validated OpenAI chat completion request
+ * @param clientTools - The tools of the client, their calls end the stream with finish_reason "tool_calls"
+ * @returns {Response} The text/event-stream response
+ */
+function streamChatCompletion(c: Context, agent: AgentForceAgent, prompt: string, images: string[], request: OpenAIChatCompletionRequest, clientTools: ClientTools): Response {
+    const id = `chatcmpl-${Date.now()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const includeUsage = request.stream_options?.include_usage === true;
+
+    // When usage is requested, every chunk carries "usage": null and the totals follow in a final chunk
+    const chunk = (delta: Record<string, unknown>, finishReason: string | null = null): string => JSON.stringify({
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model: request.model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+        ...(includeUsage ? { usage: null } : {}),
+    });
+
+    return streamSSE(c, async (stream) => {
+        let response = "";
+
+        // Stop generating once the client has gone away, running provider requests and tool calls included
+        const controller = new AbortController();
+        stream.onAbort(() => controller.abort());
+
+        try {
+            agent["getLogger"]().debug("Streaming agent response", { prompt });
+            await stream.writeSSE({ data: chunk({ role: "assistant", content: "" }) });
+
+            for await (const event of agent.prompt(prompt, { images }).stream({ signal: controller.signal })) {
+                if (stream.aborted) {
+                    break;
+                }
+
+                // Server-side tool calls are executed by the agent and not exposed to the client
+                if (event.type === "text" && event.text) {
+                    response += event.text;
+                    await stream.writeSSE({ data: chunk({ content: event.text }) });
+                }
+            }
+        } catch (error) {
+            if (stream.aborted) {
+                return;
+            }
+            agent["getLogger"]().error("Error streaming agent response:", error);
+            await stream.writeSSE({
+                data: JSON.stringify({
+                    error: {
+                        message: error instanceof Error ? error.message : "Unknown error occurred",
+                        type: "server_error",
+                    },
+                }),
+            });
+            return;
+        }
+
+        if (clientTools.calls.length > 0) {
+            agent["getLogger"]().debug("Returning client tool calls", { tools: clientTools.calls.map(call => call.function.name) });
+            const toolCalls = clientTools.calls.map((call, index) => ({ index, ...call }));
+            await stream.writeSSE({ data: chunk({ tool_calls: toolCalls }) });
+        }
+        await stream.writeSSE({ data: chunk({}, clientTools.calls.length > 0 ? "tool_calls" : "stop") });
+
+        if (includeUsage) {
+            await stream.writeSSE({
+                data: JSON.stringify({
+                    id,
+                    object: "chat.completion.chunk",
+                    created,
+                    model: request.model,
+                    choices: [],
+                    usage: getCompletionUsage(agent, prompt, response),
+                }),
+            });
+        }
+
+        await stream.writeSSE({ data: "[DONE]" });
+    });
+}
+
 /**
  * Creates a Hono route handler for OpenAI-compatible endpoints
  * @param agent - The AgentForce agent to handle the request
  * @param path - Route path for logging purposes
+ * @param options - Options of the route
+ * @param models - Agents selected by the "model" field of the request instead of `agent`
  * @returns Hono route handler function
  */
-export function createOpenAICompatibleRouteHandler(agent: AgentForceAgent, path: string): (c: Context) => Promise<Response> {
+export function createOpenAICompatibleRouteHandler(agent: AgentForceAgent, path: string, options: OpenAICompatibleRoutingOptions = {}, models?: ModelAgents): (c: Context) => Promise<Response> {
     return async (c: Context): Promise<Response> => {
         try {
             let requestData: Record<string, unknown> = {};
@@ -426,41 +797,71 @@ export function createOpenAICompatibleRouteHandler(agent: AgentForceAgent, path:
                 const openAIRequest = requestData as unknown as OpenAIChatCompletionRequest;
                 console.log("📧 OpenAI Messages:", JSON.stringify(openAIRequest.messages, null, 2));
                 console.log("🤖 OpenAI Model:", openAIRequest.model);
+
+                // Served models select their agent, which keeps its own provider and model
+                const modelAgent = models ? findModelAgent(models, openAIRequest.model) : agent;
+                if (!modelAgent) {
+                    console.log("❌ Unknown model:", openAIRequest.model);
+                    return c.json({
+                        error: "Model not found",
+                        message: formatUnknownModelMessage(models as ModelAgents, openAIRequest.model),
+                    }, 404);
+                }
                 
-                const prompt = formatConversationContext(openAIRequest.messages);
-                console.log("💬 Formatted Conversation Context:", prompt);
+                const conversation = toAgentConversation(
+                    openAIRequest.messages,
+                    modelAgent["getSystemPrompt"](),
+                    options.systemMessages ?? "append",
+                );
+                const prompt = conversation.prompt;
+                modelAgent["getLogger"]().debug("Conversation", { history: conversation.history.length, images: conversation.images.length, prompt });
+
+                // Each request runs on its own copy so concurrent conversations do not mix
+                const requestAgent = modelAgent.clone();
+                requestAgent["setSystemPrompt"](conversation.systemPrompt);
+                requestAgent.withHistory(conversation.history);
+                const clientTools = addClientTools(requestAgent, openAIRequest);
+                applyRequestModelConfig(requestAgent, openAIRequest.temperature, openAIRequest.max_tokens);
                 
-                // Parse and set provider/model from the request
-                try {
-                    const { provider, model } = parseModelParameter(openAIRequest.model);
-                    agent["setProvider"](provider);
-                    agent["setModel"](model);
-                } catch (parseError) {
-                    console.log("❌ Model Parameter Parse Error:", parseError);
-                    console.log("Failed Model Parameter:", openAIRequest.model);
+                // Parse and set provider/model from the request, unless the model names a served agent
+                if (!models) {
+                    try {
+                        const { provider, model } = parseModelParameter(openAIRequest.model);
+                        requestAgent["setProvider"](provider);
+                        requestAgent["setModel"](model);
+                    } catch (parseError) {
+                        console.log("❌ Model Parameter Parse Error:", parseError);
+                        console.log("Failed Model Parameter:", openAIRequest.model);
                     
-                    return c.json({
-                        error: "Invalid model parameter",
-                        message: parseError instanceof Error ? parseError.message : "Unable to parse model parameter",
-                        example: {
-                            model: "ollama/gemma3:12b",
-                            messages: [
-                                {
-                                    role: "user",
-                                    content: "what llm are you",
-                                },
-                            ],
-                        },
-                    }, 400);
+                        return c.json({
+                            error: "Invalid model parameter",
+                            message: parseError instanceof Error ? parseError.message : "Unable to parse model parameter",
+                            example: {
+                                model: "ollama/gemma3:12b",
+                                messages: [
+                                    {
+                                        role: "user",
+                                        content: "what llm are you",
+                                    },
+                                ],
+                            },
+                        }, 400);
+                    }
+                }
+
+                if (openAIRequest.stream) {
+                    console.log("📤 Returning OpenAI-compatible event stream");
+                    return streamChatCompletion(c, requestAgent, prompt, conversation.images, openAIRequest, clientTools);
                 }
 
                 // Execute the agent with the extracted prompt
                 let response: string;
                 try {
                     console.log("🚀 Executing Agent with Prompt:", prompt);
-                    response = await agent
-                        .prompt(prompt)
-                        .getResponse();
+                    // The agent stops when the client disconnects
+                    response = await requestAgent
+                        .prompt(prompt, { images: conversation.images })
+                        .getResponse({ signal: c.req.raw.signal });
                     console.log("✅ Agent Response Received:", response.substring(0, 100) + (response.length > 100 ? "..." : ""));
                 } catch (error) {
                     console.error("❌ Error executing agent:", error);
@@ -470,6 +871,28 @@ export function createOpenAICompatibleRouteHandler(agent: AgentForceAgent, path:
                     }, 500);
                 }
 
+                if (clientTools.calls.length > 0) {
+                    requestAgent["getLogger"]().debug("Returning client tool calls", { tools: clientTools.calls.map(call => call.function.name) });
+                    return c.json({
+                        id: `chatcmpl-${Date.now()}`,
+                        object: "chat.completion",
+                        created: Math.floor(Date.now() / 1000),
+                        model: openAIRequest.model,
+                        choices: [
+                            {
+                                index: 0,
+                                message: {
+                                    role: "assistant",
+                                    content: null,
+                                    tool_calls: clientTools.calls,
+                                },
+                                finish_reason: "tool_calls",
+                            },
+                        ],
+                        usage: getCompletionUsage(requestAgent, prompt, response),
+                    });
+                }
+
                 // Return OpenAI-compatible response
                 console.log("📤 Returning OpenAI-compatible response");
                 const openAIResponse = {
@@ -487,11 +910,7 @@ export function createOpenAICompatibleRouteHandler(agent: AgentForceAgent, path:
                             finish_reason: "stop",
                         },
                     ],
-                    usage: {
-                        prompt_tokens: prompt.length / 4, // Rough estimate
-                        completion_tokens: response.length / 4, // Rough estimate
-                        total_tokens: (prompt.length + response.length) / 4,
-                    },
+                    usage: getCompletionUsage(requestAgent, prompt, response),
                 };
                 console.log("Response JSON:", JSON.stringify(openAIResponse, null, 2));
                 return c.json(openAIResponse);
@@ -0,0 +1,216 @@
+import type { AgentForceServer } from "../../server";
+import type { AgentForceAgent } from "../../agent";
+import type { Context } from "hono";
+import type { ModelAgents } from "./addRouteAgent";
+import { findModelAgent, formatUnknownModelMessage, resolveModelAgents } from "../routes/v1/models";
+import { parseModelParameter } from "./useOpenAICompatibleRouting";
+import { getRegisteredProviders, hasProvider } from "../../provider/registry";
+
+/**
+ * OpenAI embeddings request format
+ */
+export interface OpenAIEmbeddingsRequest {
+    model: string;
+    input: string | string[];
+    encoding_format?: "float" | "base64";
+    user?: string;
+}
+
+/**
+ * Adds an OpenAI-compatible agent that responds to the "/v1/embeddings" endpoint (chainable method)
+ *
+ * The embeddings are created by the provider of the agent: Ollama `embed`, or the OpenRouter and OpenAI embeddings APIs.
+ * Like `/v1/chat/completions`, the `model` of the request selects the provider and embedding model, e.g. `ollama/nomic-embed-text`,
+ * or the agent when a map of agents is passed.
+ * @param this - The AgentForceServer instance (bound context)
+ * @param agents - The AgentForce agent instance to create the embeddings, or agents keyed by model name
+ * @returns {AgentForceServer} The server instance for method chaining
+ *
+ * @example
+ * ```ts
+ * server.useOpenAIEmbeddingsRouting(new AgentForceAgent({ name: "Embedder" }));
+ * // POST /v1/embeddings {"model": "ollama/nomic-embed-text", "input": ["first text", "second text"]}
+ * ```
+ */
+export function useOpenAIEmbeddingsRouting(
+    this: AgentForceServer,
+    agents: AgentForceAgent | ModelAgents,
+): AgentForceServer {
+    if (!agents) {
+        throw new Error("Agent instance is required");
+    }
+
+    const { agent, models } = resolveModelAgents(agents);
+
+    const path = "/v1/embeddings";
+    const method = "POST";
+
+    const log = this.getLogger();
+    const serverName = this.getName();
+
+    log.info({
+        serverName,
+        method,
+        path,
+        agentName: agent["getName"](),
+        ...(models && { models: Object.keys(models) }),
+        action: "openai_embeddings_agent_added",
+    }, `Adding OpenAI embeddings agent: ${method} ${path}`);
+
+    this.addToRouteAgents({
+        method,
+        path,
+        agent,
+        ...(models && { models }),
+    });
+
+    return this;
+}
+
+/**
+ * Validates OpenAI embeddings request format
+ * @param data - The request data to validate
+ * @returns {boolean} True if valid, throws error if invalid
+ */
+function validateOpenAIEmbeddingsRequest(data: any): data is OpenAIEmbeddingsRequest {
+    if (!data || typeof data !== "object") {
+        throw new Error("Request body must be a valid JSON object");
+    }
+
+    if (!data.model || typeof data.model !== "string") {
+        throw new Error("Missing or invalid \"model\" field. Must be a non-empty string");
+    }
+
+    const validInput = typeof data.input === "string"
+        || (Array.isArray(data.input) && data.input.length > 0 && data.input.every((text: unknown) => typeof text === "string"));
+    if (!validInput) {
+        throw new Error("Missing or invalid \"input\" field. Must be a string or a non-empty array of strings");
+    }
+
+    if (data.encoding_format !== undefined && data.encoding_format !== "float" && data.encoding_format !== "base64") {
+        throw new Error("Invalid \"encoding_format\" field. Must be \"float\" or \"base64\" if provided");
+    }
+
+    if (data.user !== undefined && typeof data.user !== "string") {
+        throw new Error("Invalid \"user\" field. Must be a string if provided");
+    }
+
+    return true;
+}
+
+/**
+ * Encodes an embedding as base64 string of little-endian 32-bit floats, the format of `encoding_format: "base64"`
+ * @param embedding - The embedding
+ * @returns {string} The base64 encoded embedding
+ */
+function toBase64Embedding(embedding: number[]): string {
+    return Buffer.from(new Float32Array(embedding).buffer).toString("base64");
+}
+
+/**
+ * Creates a Hono route handler for the OpenAI embeddings endpoint
+ * @param agent - The AgentForce agent to create the embeddings
+ * @param path - Route path for logging purposes
+ * @param models - Agents selected by the "model" field of the request instead of `agent`
+ * @returns Hono route handler function
+ */
+export function createOpenAIEmbeddingsRouteHandler(agent: AgentForceAgent, path: string, models?: ModelAgents): (c: Context) => Promise<Response> {
+    return async (c: Context): Promise<Response> => {
+        const logger = agent["getLogger"]();
+        try {
+            let requestData: Record<string, unknown> = {};
+
+            try {
+                requestData = await c.req.json();
+                logger.debug("OpenAI embeddings request", { path, url: c.req.url, model: requestData.model });
+            } catch (jsonError) {
+                logger.debug("Invalid JSON in OpenAI embeddings request:", jsonError);
+                return c.json({
+                    error: "Invalid JSON in request body",
+                    message: "Please provide valid JSON data",
+                }, 400);
+            }
+
+            let requestAgent: AgentForceAgent;
+            let embeddingsRequest: OpenAIEmbeddingsRequest;
+            try {
+                validateOpenAIEmbeddingsRequest(requestData);
+                embeddingsRequest = requestData as unknown as OpenAIEmbeddingsRequest;
+
+                // Served models select their agent, which keeps its own provider and model
+                const modelAgent = models ? findModelAgent(models, embeddingsRequest.model) : agent;
+                if (!modelAgent) {
+                    logger.debug("Unknown model", { model: embeddingsRequest.model });
+                    return c.json({
+                        error: "Model not found",
+                        message: formatUnknownModelMessage(models as ModelAgents, embeddingsRequest.model),
+                    }, 404);
+                }
+
+                // Each request runs on its own copy so the requested model does not stay on the agent
+                requestAgent = modelAgent.clone();
+                if (!models) {
+                    const { provider, model } = parseModelParameter(embeddingsRequest.model);
+                    if (!hasProvider(provider)) {
+                        logger.debug("Unknown provider", { provider });
+                        return c.json({
+                            error: "Invalid model parameter",
+                            message: `Unknown provider "${provider}". Registered providers: ${getRegisteredProviders().join(", ")}`,
+                        }, 400);
+                    }
+                    requestAgent["setProvider"](provider);
+                    requestAgent["setModel"](model);
+                }
+            } catch (error) {
+                logger.debug("Invalid OpenAI embeddings request:", error);
+
+                return c.json({
+                    error: "Invalid OpenAI embeddings format",
+                    message: error instanceof Error ? error.message : "Unknown validation error",
+                    example: {
+                        model: "ollama/nomic-embed-text",
+                        input: ["first text", "second text"],
+                    },
+                }, 400);
+            }
+
+            const input = typeof embeddingsRequest.input === "string" ? [embeddingsRequest.input] : embeddingsRequest.input;
+            let embeddings: number[][];
+            try {
+                embeddings = await requestAgent.embed(input, { signal: c.req.raw.signal });
+            } catch (error) {
+                logger.error("Error creating embeddings:", error);
+                return c.json({
+                    error: "Embedding failed",
+                    message: error instanceof Error ? error.message : "Unknown error occurred",
+                }, 500);
+            }
+
+            // Providers that report no usage get a rough estimate of about 4 characters per token
+            const usage = requestAgent.getUsage();
+            const promptTokens = usage.promptTokens > 0 ? usage.promptTokens : Math.ceil(input.join("").length / 4);
+
+            return c.json({
+                object: "list",
+                data: embeddings.map((embedding, index) => ({
+                    object: "embedding",
+                    index,
+                    embedding: embeddingsRequest.encoding_format === "base64" ? toBase64Embedding(embedding) : embedding,
+                })),
+                model: embeddingsRequest.model,
+                usage: {
+                    prompt_tokens: promptTokens,
+                    total_tokens: promptTokens,
+                },
+            });
+
+        } catch (error) {
+            logger.error(`Error in OpenAI embeddings route ${path}:`, error);
+
+            return c.json({
+                error: "Internal server error",
+                message: error instanceof Error ? error.message : "Unknown error occurred",
+            }, 500);
+        }
+    };
+}
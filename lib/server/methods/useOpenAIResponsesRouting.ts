@@ -0,0 +1,646 @@
+import type { AgentForceServer } from "../../server";
+import type { AgentForceAgent } from "../../agent";
+import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { randomUUID } from "crypto";
+import type { ModelAgents } from "./addRouteAgent";
+import { findModelAgent, formatUnknownModelMessage, resolveModelAgents } from "../routes/v1/models";
+import {
+    addClientTools,
+    applyRequestModelConfig,
+    getCompletionUsage,
+    parseModelParameter,
+    toAgentConversation,
+    SYSTEM_MESSAGE_POLICIES,
+    type ClientTools,
+    type OpenAICompatibleRoutingOptions,
+    type OpenAIChatCompletionRequest,
+    type OpenAIContentObject,
+    type OpenAIMessage,
+} from "./useOpenAICompatibleRouting";
+
+/**
+ * Content part of a Responses API input message
+ */
+export interface OpenAIResponsesContentPart {
+    type: "input_text" | "output_text" | "input_image";
+    text?: string;
+    image_url?: string;
+    detail?: "auto" | "low" | "high";
+}
+
+/**
+ * Item of the Responses API input: a message, a function call of the model or the output of a function call
+ */
+export interface OpenAIResponsesInputItem {
+    type?: "message" | "function_call" | "function_call_output";
+    role?: "system" | "developer" | "user" | "assistant";
+    content?: string | OpenAIResponsesContentPart[];
+    call_id?: string;
+    name?: string;
+    arguments?: string;
+    output?: string;
+}
+
+/**
+ * Function tool of a Responses API request
+ */
+export interface OpenAIResponsesTool {
+    type: "function";
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+    strict?: boolean;
+}
+
+/**
+ * OpenAI Responses API request format
+ */
+export interface OpenAIResponsesRequest {
+    model: string;
+    input: string | OpenAIResponsesInputItem[];
+    instructions?: string;
+    stream?: boolean;
+    temperature?: number;
+    max_output_tokens?: number;
+    tools?: OpenAIResponsesTool[];
+    tool_choice?: "none" | "auto" | "required" | { type: "function"; name: string };
+    store?: boolean;
+    metadata?: Record<string, string>;
+    user?: string;
+}
+
+/**
+ * Adds an OpenAI-compatible agent that responds to the "/v1/responses" endpoint of the Responses API (chainable method)
+ *
+ * The input becomes the conversation of the agent like the messages of `/v1/chat/completions`: earlier items its history,
+ * the last item its prompt, and `instructions` are combined with its system prompt as set by `options.systemMessages`.
+ * Requests with `"stream": true` receive the Responses server-sent events, from `response.created` to `response.completed`.
+ * Function tools of the client are returned as `function_call` output items; responses are not stored, so clients send
+ * the whole conversation instead of a `previous_response_id`.
+ * @param this - The AgentForceServer instance (bound context)
+ * @param agents - The AgentForce agent instance to handle Responses API requests, or agents keyed by model name
+ * @param options - Options of the route
+ * @returns {AgentForceServer} The server instance for method chaining
+ *
+ * @example
+ * ```ts
+ * server.useOpenAIResponsesRouting(supportAgent);
+ * // POST /v1/responses {"model": "ollama/gemma3:12b", "input": "Where is my order?"}
+ * ```
+ */
+export function useOpenAIResponsesRouting(
+    this: AgentForceServer,
+    agents: AgentForceAgent | ModelAgents,
+    options: OpenAICompatibleRoutingOptions = {},
+): AgentForceServer {
+    if (!agents) {
+        throw new Error("Agent instance is required");
+    }
+
+    if (options.systemMessages !== undefined && !SYSTEM_MESSAGE_POLICIES.includes(options.systemMessages)) {
+        throw new Error(`Invalid system message policy "${options.systemMessages}". Must be one of ${SYSTEM_MESSAGE_POLICIES.join(", ")}`);
+    }
+
+    const { agent, models } = resolveModelAgents(agents);
+
+    const path = "/v1/responses";
+    const method = "POST";
+
+    const log = this.getLogger();
+    const serverName = this.getName();
+
+    log.info({
+        serverName,
+        method,
+        path,
+        agentName: agent["getName"](),
+        ...(models && { models: Object.keys(models) }),
+        action: "openai_responses_agent_added",
+    }, `Adding OpenAI Responses agent: ${method} ${path}`);
+
+    this.addToRouteAgents({
+        method,
+        path,
+        agent,
+        ...(options.systemMessages && { systemMessages: options.systemMessages }),
+        ...(models && { models }),
+    });
+
+    return this;
+}
+
+/**
+ * Validates a content part of a Responses API input message
+ * @param part - The content part to validate
+ * @param itemIndex - Index of the input item for error reporting
+ * @param partIndex - Index of the content part for error reporting
+ * @returns {boolean} True if valid, throws error if invalid
+ */
+function validateResponsesContentPart(part: any, itemIndex: number, partIndex: number): boolean {
+    if (!part || typeof part !== "object") {
+        throw new Error(`Input item at index ${itemIndex}, content part at index ${partIndex} must be a valid object`);
+    }
+
+    if (part.type === "input_text" || part.type === "output_text") {
+        if (typeof part.text !== "string") {
+            throw new Error(`Input item at index ${itemIndex}, content part at index ${partIndex} must have a "text" string`);
+        }
+        return true;
+    }
+
+    if (part.type === "input_image") {
+        // Only URLs are accepted, so clients cannot make the server read its own files
+        if (typeof part.image_url !== "string" || !/^(https?:\/\/|data:)/i.test(part.image_url)) {
+            throw new Error(`Input item at index ${itemIndex}, content part at index ${partIndex} must have an http(s) or data URL as "image_url"`);
+        }
+        return true;
+    }
+
+    throw new Error(`Input item at index ${itemIndex}, content part at index ${partIndex} has unsupported type "${part.type}". Must be "input_text", "output_text" or "input_image"`);
+}
+
+/**
+ * Validates an item of the Responses API input
+ * @param item - The input item to validate
+ * @param index - Index of the input item for error reporting
+ * @returns {boolean} True if valid, throws error if invalid
+ */
+function validateResponsesInputItem(item: any, index: number): boolean {
+    if (!item || typeof item !== "object") {
+        throw new Error(`Input item at index ${index} must be a valid object`);
+    }
+
+    if (item.type === "function_call") {
+        if (typeof item.call_id !== "string" || typeof item.name !== "string" || typeof item.arguments !== "string") {
+            throw new Error(`Input item at index ${index} must have "call_id", "name" and "arguments" strings`);
+        }
+        return true;
+    }
+
+    if (item.type === "function_call_output") {
+        if (typeof item.call_id !== "string" || typeof item.output !== "string") {
+            throw new Error(`Input item at index ${index} must have "call_id" and "output" strings`);
+        }
+        return true;
+    }
+
+    if (item.type !== undefined && item.type !== "message") {
+        throw new Error(`Input item at index ${index} has unsupported type "${item.type}". Must be "message", "function_call" or "function_call_output"`);
+    }
+
+    if (!["system", "developer", "user", "assistant"].includes(item.role)) {
+        throw new Error(`Input item at index ${index} has invalid role "${item.role}". Must be "system", "developer", "user" or "assistant"`);
+    }
+
+    if (typeof item.content === "string") {
+        return true;
+    }
+
+    if (!Array.isArray(item.content)) {
+        throw new Error(`Input item at index ${index} must have "content" as a string or an array of content parts`);
+    }
+    item.content.forEach((part: unknown, partIndex: number) => validateResponsesContentPart(part, index, partIndex));
+    return true;
+}
+
+/**
+ * Validates the tools and tool_choice of a Responses API request
+ * @param tools - The tools field of the request
+ * @param toolChoice - The tool_choice field of the request
+ * @returns {boolean} True if valid, throws error if invalid
+ */
+function validateResponsesTools(tools: unknown, toolChoice: unknown): boolean {
+    if (tools !== undefined) {
+        if (!Array.isArray(tools)) {
+            throw new Error("Invalid \"tools\" field. Must be an array if provided");
+        }
+        tools.forEach((tool, i) => {
+            if (!tool || typeof tool !== "object" || tool.type !== "function") {
+                throw new Error(`Tool at index ${i} has unsupported type "${tool?.type}". Only "function" tools are supported`);
+            }
+            if (typeof tool.name !== "string" || !tool.name) {
+                throw new Error(`Tool at index ${i} must have a "name"`);
+            }
+            if (tool.description !== undefined && typeof tool.description !== "string") {
+                throw new Error(`Tool at index ${i} has invalid "description" field. Must be a string if provided`);
+            }
+            if (tool.parameters !== undefined && (!tool.parameters || typeof tool.parameters !== "object" || Array.isArray(tool.parameters))) {
+                throw new Error(`Tool at index ${i} has invalid "parameters" field. Must be a JSON Schema object if provided`);
+            }
+        });
+    }
+
+    if (toolChoice === undefined || toolChoice === "none" || toolChoice === "auto") {
+        return true;
+    }
+    if (toolChoice === "required") {
+        if (!Array.isArray(tools) || tools.length === 0) {
+            throw new Error("Invalid \"tool_choice\" field. \"required\" needs at least one tool in the tools of the request");
+        }
+        return true;
+    }
+    const choice = toolChoice as { type?: unknown; name?: unknown } | null;
+    if (choice?.type !== "function" || typeof choice.name !== "string") {
+        throw new Error("Invalid \"tool_choice\" field. Must be \"none\", \"auto\", \"required\" or a function object if provided");
+    }
+    if (!Array.isArray(tools) || !tools.some(tool => tool.name === choice.name)) {
+        throw new Error(`Invalid "tool_choice" field. Tool "${choice.name}" is not in the tools of the request`);
+    }
+    return true;
+}
+
+/**
+ * Validates OpenAI Responses API request format
+ * @param data - The request data to validate
+ * @returns {boolean} True if valid, throws error if invalid
+ */
+function validateOpenAIResponsesRequest(data: any): data is OpenAIResponsesRequest {
+    if (!data || typeof data !== "object") {
+        throw new Error("Request body must be a valid JSON object");
+    }
+
+    if (!data.model || typeof data.model !== "string") {
+        throw new Error("Missing or invalid \"model\" field. Must be a non-empty string");
+    }
+
+    if (typeof data.input === "string") {
+        if (!data.input.trim()) {
+            throw new Error("Invalid \"input\" field. Must not be empty");
+        }
+    } else if (Array.isArray(data.input)) {
+        if (data.input.length === 0) {
+            throw new Error("Invalid \"input\" field. Must not be empty");
+        }
+        data.input.forEach((item: unknown, i: number) => validateResponsesInputItem(item, i));
+    } else {
+        throw new Error("Missing or invalid \"input\" field. Must be a string or an array of input items");
+    }
+
+    if (data.instructions !== undefined && data.instructions !== null && typeof data.instructions !== "string") {
+        throw new Error("Invalid \"instructions\" field. Must be a string if provided");
+    }
+
+    if (data.previous_response_id !== undefined && data.previous_response_id !== null) {
+        throw new Error("Invalid \"previous_response_id\" field. Responses are not stored, send the whole conversation as \"input\"");
+    }
+
+    if (data.stream !== undefined && typeof data.stream !== "boolean") {
+        throw new Error("Invalid \"stream\" field. Must be a boolean if provided");
+    }
+
+    if (data.temperature !== undefined && (typeof data.temperature !== "number" || data.temperature < 0 || data.temperature > 2)) {
+        throw new Error("Invalid \"temperature\" field. Must be a number between 0 and 2 if provided");
+    }
+
+    if (data.max_output_tokens !== undefined && (typeof data.max_output_tokens !== "number" || data.max_output_tokens < 1)) {
+        throw new Error("Invalid \"max_output_tokens\" field. Must be a positive number if provided");
+    }
+
+    validateResponsesTools(data.tools, data.tool_choice);
+
+    return true;
+}
+
+/**
+ * Converts the content of a Responses API input message to the content of a chat message
+ * @param content - The content of the input item
+ * @returns The text or the text and image_url parts
+ */
+function toChatContent(content: string | OpenAIResponsesContentPart[] = ""): string | OpenAIContentObject[] {
+    if (typeof content === "string") {
+        return content;
+    }
+    return content.map(part => part.type === "input_image"
+        ? { type: "image_url" as const, image_url: { url: part.image_url as string, ...(part.detail && { detail: part.detail }) } }
+        : { type: "text" as const, text: part.text ?? "" });
+}
+
+/**
+ * Converts the instructions and input of a Responses API request to chat messages
+ * Developer messages count as system messages, function calls and their outputs as tool calls and tool messages.
+ * @param request - The validated Responses API request
+ * @returns {OpenAIMessage[]} The chat messages
+ */
+function toChatMessages(request: OpenAIResponsesRequest): OpenAIMessage[] {
+    const messages: OpenAIMessage[] = request.instructions ? [{ role: "system", content: request.instructions }] : [];
+    if (typeof request.input === "string") {
+        return [...messages, { role: "user", content: request.input }];
+    }
+
+    for (const item of request.input) {
+        if (item.type === "function_call") {
+            messages.push({
+                role: "assistant",
+                content: null,
+                tool_calls: [{ id: item.call_id as string, type: "function", function: { name: item.name as string, arguments: item.arguments as string } }],
+            });
+        } else if (item.type === "function_call_output") {
+            messages.push({ role: "tool", tool_call_id: item.call_id, content: item.output as string });
+        } else {
+            const role = item.role === "developer" ? "system" : item.role as OpenAIMessage["role"];
+            messages.push({ role, content: toChatContent(item.content) });
+        }
+    }
+    return messages;
+}
+
+/**
+ * Converts the tools and tool_choice of a Responses API request to their chat completion format
+ * @param request - The validated Responses API request
+ * @returns The tools and tool_choice in chat completion format
+ */
+function toChatTools(request: OpenAIResponsesRequest): Pick<OpenAIChatCompletionRequest, "tools" | "tool_choice"> {
+    const toolChoice = request.tool_choice;
+    return {
+        tools: request.tools?.map(tool => ({
+            type: "function" as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+        })),
+        tool_choice: typeof toolChoice === "object" ? { type: "function", function: { name: toolChoice.name } } : toolChoice,
+    };
+}
+
+/**
+ * Builds the output items of a response
+ * @param messageId - The id of the message item
+ * @param text - The text of the agent response
+ * @param clientTools - The tools of the client, their calls become function_call items
+ * @returns The message item, if there is text or no function call, followed by the function_call items
+ */
+function toOutputItems(messageId: string, text: string, clientTools: ClientTools): Record<string, unknown>[] {
+    const functionCalls = clientTools.calls.map(call => toFunctionCallItem(call));
+    if (!text && functionCalls.length > 0) {
+        return functionCalls;
+    }
+    return [toMessageItem(messageId, text, "completed"), ...functionCalls];
+}
+
+/**
+ * Builds the assistant message item of a response
+ * @param id - The id of the item
+ * @param text - The text of the message
+ * @param status - Status of the item
+ * @returns The message output item
+ */
+function toMessageItem(id: string, text: string, status: "in_progress" | "completed"): Record<string, unknown> {
+    return {
+        id,
+        type: "message",
+        status,
+        role: "assistant",
+        content: status === "completed" ? [{ type: "output_text", text, annotations: [] }] : [],
+    };
+}
+
+/**
+ * Builds the function_call item of a tool call of the client
+ * @param call - The recorded tool call
+ * @returns The function_call output item
+ */
+function toFunctionCallItem(call: ClientTools["calls"][number]): Record<string, unknown> {
+    return {
+        id: `fc_${call.id.replace(/^call_/, "")}`,
+        type: "function_call",
+        status: "completed",
+        call_id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+    };
+}
+
+/**
+ * Builds the Responses API usage object from the token usage of the agent
+ * @param agent - The agent that handled the request
+ * @param prompt - The prompt sent to the agent
+ * @param response - The response returned by the agent
+ * @returns {object} Responses API usage object
+ */
+function getResponseUsage(agent: AgentForceAgent, prompt: string, response: string): { input_tokens: number; output_tokens: number; total_tokens: number } {
+    const usage = getCompletionUsage(agent, prompt, response);
+    return {
+        input_tokens: usage.prompt_tokens,
+        output_tokens: usage.completion_tokens,
+        total_tokens: usage.total_tokens,
+    };
+}
+
+/**
+ * Streams the agent response as Responses API server-sent events
+ * The message item is opened with the first text delta; calls to client tools follow as function_call items.
+ * @param c - The Hono context
+ * @param agent - The AgentForce agent to stream from
+ * @param prompt - The prompt of the conversation
+ * @param images - The images attached to the prompt
+ * @param request - The validated Responses API request
+ * @param clientTools - The tools of the client, their calls end the response with function_call items
+ * @returns {Response} The text/event-stream response
+ */
+function streamResponse(c: Context, agent: AgentForceAgent, prompt: string, images: string[], request: OpenAIResponsesRequest, clientTools: ClientTools): Response {
+    const id = `resp_${randomUUID().replace(/-/g, "")}`;
+    const messageId = `msg_${randomUUID().replace(/-/g, "")}`;
+    const createdAt = Math.floor(Date.now() / 1000);
+
+    const response = (status: string, fields: Record<string, unknown> = {}): Record<string, unknown> => ({
+        id,
+        object: "response",
+        created_at: createdAt,
+        status,
+        model: request.model,
+        instructions: request.instructions ?? null,
+        output: [],
+        error: null,
+        usage: null,
+        ...fields,
+    });
+
+    return streamSSE(c, async (stream) => {
+        let sequenceNumber = 0;
+        let text = "";
+        let messageOpened = false;
+
+        const send = (type: string, data: Record<string, unknown>): Promise<void> => stream.writeSSE({
+            event: type,
+            data: JSON.stringify({ type, sequence_number: sequenceNumber++, ...data }),
+        });
+        const part = { item_id: messageId, output_index: 0, content_index: 0 };
+
+        // Stop generating once the client has gone away, running provider requests and tool calls included
+        const controller = new AbortController();
+        stream.onAbort(() => controller.abort());
+
+        await send("response.created", { response: response("in_progress") });
+        await send("response.in_progress", { response: response("in_progress") });
+
+        const openMessage = async (): Promise<void> => {
+            messageOpened = true;
+            await send("response.output_item.added", { output_index: 0, item: toMessageItem(messageId, "", "in_progress") });
+            await send("response.content_part.added", { ...part, part: { type: "output_text", text: "", annotations: [] } });
+        };
+
+        try {
+            agent["getLogger"]().debug("Streaming agent response", { prompt });
+            for await (const event of agent.prompt(prompt, { images }).stream({ signal: controller.signal })) {
+                if (stream.aborted) {
+                    break;
+                }
+
+                // Server-side tool calls are executed by the agent and not exposed to the client
+                if (event.type === "text" && event.text) {
+                    if (!messageOpened) {
+                        await openMessage();
+                    }
+                    text += event.text;
+                    await send("response.output_text.delta", { ...part, delta: event.text });
+                }
+            }
+        } catch (error) {
+            if (stream.aborted) {
+                return;
+            }
+            agent["getLogger"]().error("Error streaming agent response:", error);
+            await send("response.failed", {
+                response: response("failed", {
+                    error: { code: "server_error", message: error instanceof Error ? error.message : "Unknown error occurred" },
+                }),
+            });
+            return;
+        }
+
+        if (!messageOpened && clientTools.calls.length === 0) {
+            await openMessage();
+        }
+        if (messageOpened) {
+            await send("response.output_text.done", { ...part, text });
+            await send("response.content_part.done", { ...part, part: { type: "output_text", text, annotations: [] } });
+            await send("response.output_item.done", { output_index: 0, item: toMessageItem(messageId, text, "completed") });
+        }
+
+        const output = toOutputItems(messageId, text, clientTools);
+        const firstCallIndex = output.length - clientTools.calls.length;
+        for (const [index, item] of output.slice(firstCallIndex).entries()) {
+            await send("response.output_item.added", { output_index: firstCallIndex + index, item });
+            await send("response.output_item.done", { output_index: firstCallIndex + index, item });
+        }
+
+        await send("response.completed", {
+            response: response("completed", { output, usage: getResponseUsage(agent, prompt, text) }),
+        });
+    });
+}
+
+/**
+ * Creates a Hono route handler for the OpenAI Responses API endpoint
+ * @param agent - The AgentForce agent to handle the request
+ * @param path - Route path for logging purposes
+ * @param options - Options of the route
+ * @param models - Agents selected by the "model" field of the request instead of `agent`
+ * @returns Hono route handler function
+ */
+export function createOpenAIResponsesRouteHandler(agent: AgentForceAgent, path: string, options: OpenAICompatibleRoutingOptions = {}, models?: ModelAgents): (c: Context) => Promise<Response> {
+    return async (c: Context): Promise<Response> => {
+        const logger = agent["getLogger"]();
+        try {
+            let requestData: Record<string, unknown> = {};
+
+            try {
+                requestData = await c.req.json();
+                logger.debug("OpenAI Responses request", { path, url: c.req.url, body: requestData });
+            } catch (jsonError) {
+                logger.debug("Invalid JSON in OpenAI Responses request:", jsonError);
+                return c.json({
+                    error: "Invalid JSON in request body",
+                    message: "Please provide valid JSON data",
+                }, 400);
+            }
+
+            try {
+                validateOpenAIResponsesRequest(requestData);
+                const responsesRequest = requestData as unknown as OpenAIResponsesRequest;
+
+                // Served models select their agent, which keeps its own provider and model
+                const modelAgent = models ? findModelAgent(models, responsesRequest.model) : agent;
+                if (!modelAgent) {
+                    logger.debug("Unknown model", { model: responsesRequest.model });
+                    return c.json({
+                        error: "Model not found",
+                        message: formatUnknownModelMessage(models as ModelAgents, responsesRequest.model),
+                    }, 404);
+                }
+
+                const conversation = toAgentConversation(
+                    toChatMessages(responsesRequest),
+                    modelAgent["getSystemPrompt"](),
+                    options.systemMessages ?? "append",
+                );
+                const prompt = conversation.prompt;
+                logger.debug("Conversation", { history: conversation.history.length, images: conversation.images.length, prompt });
+
+                // Each request runs on its own copy so concurrent conversations do not mix
+                const requestAgent = modelAgent.clone();
+                requestAgent["setSystemPrompt"](conversation.systemPrompt);
+                requestAgent.withHistory(conversation.history);
+                const clientTools = addClientTools(requestAgent, toChatTools(responsesRequest));
+                applyRequestModelConfig(requestAgent, responsesRequest.temperature, responsesRequest.max_output_tokens);
+
+                // Parse and set provider/model from the request, unless the model names a served agent
+                if (!models) {
+                    const { provider, model } = parseModelParameter(responsesRequest.model);
+                    requestAgent["setProvider"](provider);
+                    requestAgent["setModel"](model);
+                }
+
+                if (responsesRequest.stream) {
+                    return streamResponse(c, requestAgent, prompt, conversation.images, responsesRequest, clientTools);
+                }
+
+                let response: string;
+                try {
+                    logger.debug("Executing agent", { prompt });
+                    // The agent stops when the client disconnects
+                    response = await requestAgent
+                        .prompt(prompt, { images: conversation.images })
+                        .getResponse({ signal: c.req.raw.signal });
+                } catch (error) {
+                    logger.error("Error executing agent:", error);
+                    return c.json({
+                        error: "Agent execution failed",
+                        message: error instanceof Error ? error.message : "Unknown error occurred",
+                    }, 500);
+                }
+
+                return c.json({
+                    id: `resp_${randomUUID().replace(/-/g, "")}`,
+                    object: "response",
+                    created_at: Math.floor(Date.now() / 1000),
+                    status: "completed",
+                    model: responsesRequest.model,
+                    instructions: responsesRequest.instructions ?? null,
+                    output: toOutputItems(`msg_${randomUUID().replace(/-/g, "")}`, response, clientTools),
+                    error: null,
+                    usage: getResponseUsage(requestAgent, prompt, response),
+                });
+
+            } catch (error) {
+                logger.debug("Invalid OpenAI Responses request:", error);
+
+                return c.json({
+                    error: "Invalid OpenAI responses format",
+                    message: error instanceof Error ? error.message : "Unknown validation error",
+                    example: {
+                        model: "ollama/gemma3:12b",
+                        input: "what llm are you",
+                    },
+                }, 400);
+            }
+
+        } catch (error) {
+            logger.error(`Error in OpenAI Responses route ${path}:`, error);
+
+            return c.json({
+                error: "Internal server error",
+                message: error instanceof Error ? error.message : "Unknown error occurred",
+            }, 500);
+        }
+    };
+}
@@ -7,6 +7,8 @@ export * from "./methods/addFormTrigger";
 export * from "./methods/addWorkflowTrigger";
 export * from "./methods/useOpenAICompatibleRouting";
 export * from "./methods/useOllamaCompatibleRouting";
+export * from "./methods/useOpenAIResponsesRouting";
+export * from "./methods/useOpenAIEmbeddingsRouting";
 
 // Server methods
 export * from "./methods/async/serve";
@@ -1,6 +1,66 @@
 import { Hono } from "hono";
 import type { Context } from "hono";
 import ollama from "ollama";
+import type { AgentForceAgent } from "../../../agent";
+import type { ModelAgents } from "../../methods/addRouteAgent";
+import type { AgentForceLogger } from "../../../types";
+
+/**
+ * Validates the agents served as models
+ * @param models - The agents keyed by model name
+ * @throws {Error} If no model is given, a model name is empty or does not map to an agent instance
+ */
+export function validateModelAgents(models: ModelAgents): void {
+    if (!models || typeof models !== "object" || Array.isArray(models) || Object.keys(models).length === 0) {
+        throw new Error("Model agents must map at least one model name to an agent instance");
+    }
+
+    for (const [name, agent] of Object.entries(models)) {
+        if (!name.trim()) {
+            throw new Error("Model names must be non-empty strings");
+        }
+        if (!agent || typeof agent["getName"] !== "function") {
+            throw new Error(`Model "${name}" must map to an agent instance`);
+        }
+    }
+}
+
+/**
+ * Resolves the agent argument of the OpenAI and Ollama-compatible routings
+ * A map of agents serves each agent as a model; its first agent stands for the route in logs.
+ * @param agents - One agent, or the agents keyed by model name
+ * @returns The agent of the route and the agents served as models, if any
+ * @throws {Error} If the map of agents is invalid
+ */
+export function resolveModelAgents(agents: AgentForceAgent | ModelAgents): { agent: AgentForceAgent; models?: ModelAgents } {
+    if (typeof (agents as AgentForceAgent)["getName"] === "function") {
+        return { agent: agents as AgentForceAgent };
+    }
+
+    const models = agents as ModelAgents;
+    validateModelAgents(models);
+    return { agent: Object.values(models)[0] as AgentForceAgent, models: { ...models } };
+}
+
+/**
+ * Finds the agent served as the requested model
+ * @param models - The agents keyed by model name
+ * @param model - The "model" field of the request
+ * @returns The agent, undefined if no agent is served under that name
+ */
+export function findModelAgent(models: ModelAgents, model: string): AgentForceAgent | undefined {
+    return Object.prototype.hasOwnProperty.call(models, model) ? models[model] : undefined;
+}
+
+/**
+ * Message of the error returned for models that are not served
+ * @param models - The agents keyed by model name
+ * @param model - The "model" field of the request
+ * @returns The error message listing the available models
+ */
+export function formatUnknownModelMessage(models: ModelAgents, model: string): string {
+    return `Model "${model}" is not available. Available models: ${Object.keys(models).join(", ")}`;
+}
 
 /**
  * Models route handler for /v1/models endpoints
@@ -242,3 +302,58 @@ export function createModelsRoute(currentModel: string | null, currentProvider:
 
     return app;
 }
+
+/**
+ * Models route handler for /v1/models endpoints of servers that serve agents as models
+ * Lists exactly the served agents in OpenAI-compatible format, with the provider, model and tools of each agent.
+ *
+ * Endpoints:
+ * - GET /models - List the agents served as models
+ * - GET /models/{model} - Get the model of one agent by its name
+ *
+ * @param models - The agents keyed by model name
+ * @param owner - Value of the "owned_by" field, the server name
+ * @param logger - Logger of the server, unknown models are logged at debug level
+ * @returns Hono app with /models and /models/{model} endpoints
+ */
+export function createModelAgentsRoute(models: ModelAgents, owner: string, logger: AgentForceLogger): Hono {
+    const app = new Hono();
+    const created = Math.floor(Date.now() / 1000);
+
+    const toModel = (name: string, agent: AgentForceAgent): Record<string, unknown> => ({
+        id: name,
+        object: "model",
+        created,
+        owned_by: owner,
+        permission: [],
+        root: agent["getModel"](),
+        parent: null,
+        agent: {
+            name: agent["getName"](),
+            provider: agent["getProvider"](),
+            model: agent["getModel"](),
+            tools: [...agent["getTools"](), ...Object.keys(agent["getCustomTools"]())],
+        },
+    });
+
+    app.get("/models", (c: Context) => {
+        return c.json({
+            object: "list",
+            data: Object.entries(models).map(([name, agent]) => toModel(name, agent)),
+        });
+    });
+
+    app.get("/models/:model", (c: Context) => {
+        const modelId = c.req.param("model") ?? "";
+        const agent = findModelAgent(models, modelId);
+
+        if (!agent) {
+            logger.debug("Model not found", { model: modelId });
+            return c.json({ error: `Model '${modelId}' not found` }, 404);
+        }
+
+        return c.json(toModel(modelId, agent));
+    });
+
+    return app;
+}
@@ -1,6 +1,6 @@
 import type { ToolImplementation } from "../types";
 import puppeteer from "puppeteer";
-import type { Browser, Page } from "puppeteer";
+import type { Browser, KeyInput, Page } from "puppeteer";
 import { spawn } from "child_process";
 import { existsSync } from "fs";
 import { platform } from "os";
@@ -194,13 +194,10 @@ class BrowserManager {
                 try {
                     // Test connection health with a simple operation
                     const pages = await this.browser.pages();
-                    if (pages.length > 0) {
-                        this.currentPage = pages[0];
-                    } else {
-                        this.currentPage = await this.browser.newPage();
-                    }
+                    const page = pages[0] ?? await this.browser.newPage();
+                    this.currentPage = page;
                     // Connection is healthy, reuse it
-                    return { browser: this.browser, page: this.currentPage };
+                    return { browser: this.browser, page };
                 } catch (connectionError) {
                     // Connection is stale, reset and reconnect
                     console.log("🔄 Existing connection stale, reconnecting...");
@@ -220,15 +217,12 @@ class BrowserManager {
                 });
 
                 const pages = await this.browser.pages();
-                if (pages.length > 0) {
-                    this.currentPage = pages[0];
-                } else {
-                    this.currentPage = await this.browser.newPage();
-                }
+                const page = pages[0] ?? await this.browser.newPage();
+                this.currentPage = page;
 
                 console.log(`🔌 Connected to existing browser on port ${port}`);
                 this.sessionActive = true; // Mark session as active
-                return { browser: this.browser, page: this.currentPage };
+                return { browser: this.browser, page };
             } catch (connectionError) {
                 // No browser running, try to start one
                 console.log(`🔍 No browser found on port ${port}, attempting auto-startup...`);
@@ -240,12 +234,12 @@ class BrowserManager {
 
                 // Detect available browsers
                 const availableBrowsers = await BrowserDetector.detectBrowsers();
-                if (availableBrowsers.length === 0) {
-                    throw new Error("No supported browsers found. Please install Chrome, Brave, or Chromium and try again.");
-                }
 
                 // Start the first available browser
                 const selectedBrowser = availableBrowsers[0];
+                if (!selectedBrowser) {
+                    throw new Error("No supported browsers found. Please install Chrome, Brave, or Chromium and try again.");
+                }
                 console.log(`🎯 Starting ${selectedBrowser.name}...`);
                 
                 const started = await BrowserDetector.startBrowser(selectedBrowser.command, port);
@@ -263,15 +257,12 @@ class BrowserManager {
                 });
 
                 const pages = await this.browser.pages();
-                if (pages.length > 0) {
-                    this.currentPage = pages[0];
-                } else {
-                    this.currentPage = await this.browser.newPage();
-                }
+                const page = pages[0] ?? await this.browser.newPage();
+                this.currentPage = page;
 
                 console.log(`✅ Successfully started and connected to ${selectedBrowser.name} on port ${port}`);
                 this.sessionActive = true; // Mark session as active
-                return { browser: this.browser, page: this.currentPage };
+                return { browser: this.browser, page };
             }
         } catch (error: any) {
             throw new Error(`Browser connection failed: ${error.message}`);
@@ -517,7 +508,7 @@ export const browser_use: ToolImplementation = {
                             content = await page.$eval(selector, (el, attr) => el.getAttribute(attr), attributeName);
                             break;
                         case "value":
-                            content = await page.$eval(selector, el => (el as HTMLInputElement).value || "");
+                            content = await page.$eval(selector, el => (el as unknown as { value?: string }).value || "");
                             break;
                         default:
                             content = await page.$eval(selector, el => el.textContent?.trim() || "");
@@ -600,7 +591,7 @@ export const browser_use: ToolImplementation = {
                     }
 
                     if (/^\d+$/.test(waitFor)) {
-                        await page.waitForTimeout(parseInt(waitFor));
+                        await new Promise(resolve => setTimeout(resolve, parseInt(waitFor)));
                     } else {
                         await page.waitForSelector(waitFor, { timeout });
                     }
@@ -617,9 +608,7 @@ export const browser_use: ToolImplementation = {
                     const scrollX = Number(args.scrollX) || 0;
                     const scrollY = Number(args.scrollY) || 0;
 
-                    await page.evaluate((x, y) => {
-                        window.scrollTo(x, y);
-                    }, scrollX, scrollY);
+                    await page.evaluate(`window.scrollTo(${scrollX}, ${scrollY})`);
 
                     return {
                         success: true,
@@ -682,7 +671,7 @@ export const browser_use: ToolImplementation = {
                         };
                     }
 
-                    await page.keyboard.press(key);
+                    await page.keyboard.press(key as KeyInput);
 
                     return {
                         success: true,
@@ -78,8 +78,7 @@ function buildTree(dirPath: string, rootPath: string, excludes: string[], maxDep
 function treeToAscii(nodes: TreeNode[], prefix = "", _isLast = true): string {
     let result = "";
 
-    for (let i = 0; i < nodes.length; i++) {
-        const node = nodes[i];
+    for (const [i, node] of nodes.entries()) {
         const isLastItem = i === nodes.length - 1;
         const connector = isLastItem ? "└── " : "├── ";
         const childPrefix = prefix + (isLastItem ? "    " : "│   ");
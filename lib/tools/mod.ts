@@ -18,4 +18,5 @@ export { os_exec } from "./os_exec";
 export { api_fetch } from "./api_fetch";
 export { web_fetch } from "./web_fetch";
 export { fs_get_file_tree } from "./fs_get_file_tree";
-export { browser_use } from "./browser_use";
\ No newline at end of file
+export { browser_use } from "./browser_use";
+export { store_set, createStoreSetTool } from "./store_set";
\ No newline at end of file
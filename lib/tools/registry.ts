@@ -14,10 +14,11 @@ import { web_fetch } from "./web_fetch";
 import { fs_get_file_tree } from "./fs_get_file_tree";
 import { filter_content } from "./filter_content";
 import { browser_use } from "./browser_use";
+import { store_set } from "./store_set";
 
 /**
  * Central registry for all available tools
- * Maps tool names to their implementations
+ * Maps tool names to their implementations, pre-populated with the built-in tools
  */
 export const toolRegistry: ToolRegistry = {
     fs_list_dir: fs_list_dir,
@@ -35,15 +36,86 @@ export const toolRegistry: ToolRegistry = {
     fs_get_file_tree: fs_get_file_tree,
     filter_content: filter_content,
     browser_use: browser_use,
+    store_set: store_set,
 };
 
+/**
+ * Names of the tools shipped with AgentForce, these cannot be replaced or removed
+ */
+const builtInTools: ReadonlySet<string> = new Set(Object.keys(toolRegistry));
+
+/**
+ * Validate a tool implementation before it is registered
+ * @param impl - The tool implementation
+ * @returns The tool name
+ * @throws Error if the definition or execute function is invalid
+ */
+export function validateToolImplementation(impl: ToolImplementation): string {
+    const name = impl?.definition?.function?.name;
+    if (impl?.definition?.type !== "function" || typeof name !== "string" || !/^[a-zA-Z0-9_-]{1,64}$/.test(name)) {
+        throw new Error("Tool definition must have type \"function\" and a function name of up to 64 letters, digits, underscores or dashes");
+    }
+    if (name.startsWith("mcp_")) {
+        throw new Error(`Tool name "${name}" is invalid, the "mcp_" prefix is reserved for MCP tools`);
+    }
+    if (typeof impl.definition.function.description !== "string" || !impl.definition.function.parameters) {
+        throw new Error(`Tool "${name}" must have a description and parameters`);
+    }
+    if (typeof impl.execute !== "function") {
+        throw new Error(`Tool "${name}" must have an execute function`);
+    }
+    return name;
+}
+
+/**
+ * Register a custom tool so agents can use it by name in their `tools` config
+ * @param impl - The tool definition and its execute function
+ * @throws Error if the tool is invalid or a tool with the same name is already registered
+ *
+ * @example
+ * ```ts
+ * registerTool({
+ *   definition: {
+ *     type: "function",
+ *     function: {
+ *       name: "get_time",
+ *       description: "Get the current time",
+ *       parameters: { type: "object", properties: {}, required: [] },
+ *     },
+ *   },
+ *   execute: async () => ({ time: new Date().toISOString() }),
+ * });
+ *
+ * const agent = new AgentForceAgent({ name: "Clock", tools: ["get_time"] });
+ * ```
+ */
+export function registerTool(impl: ToolImplementation): void {
+    const name = validateToolImplementation(impl);
+    if (hasTool(name)) {
+        throw new Error(`Tool "${name}" is already registered${builtInTools.has(name) ? " as a built-in tool" : ""}`);
+    }
+    toolRegistry[name] = impl;
+}
+
+/**
+ * Remove a custom tool from the registry
+ * @param name - The name of the tool
+ * @throws Error if the tool is a built-in tool
+ */
+export function unregisterTool(name: string): void {
+    if (builtInTools.has(name)) {
+        throw new Error(`Built-in tool "${name}" cannot be unregistered`);
+    }
+    delete toolRegistry[name];
+}
+
 /**
  * Get a tool implementation by name
  * @param name - The name of the tool
  * @returns The tool implementation or undefined if not found
  */
 export function getTool(name: string): ToolImplementation | undefined {
-    return toolRegistry[name];
+    return hasTool(name) ? toolRegistry[name] : undefined;
 }
 
 /**
@@ -60,5 +132,5 @@ export function getAvailableTools(): string[] {
  * @returns true if the tool exists
  */
 export function hasTool(name: string): boolean {
-    return name in toolRegistry;
+    return Object.prototype.hasOwnProperty.call(toolRegistry, name);
 }
\ No newline at end of file
@@ -0,0 +1,17 @@
+import type { ToolImplementation } from "../types";
+import { createStoreSetTool, storeSetDefinition } from "../workflow/functions/store";
+
+export { createStoreSetTool };
+
+/**
+ * Workflow shared store tool
+ * Agents running in a workflow get an implementation bound to the store of the run, see createStoreSetTool
+ */
+export const store_set: ToolImplementation = {
+    definition: storeSetDefinition,
+    execute: async (args: Record<string, unknown>) => ({
+        success: false,
+        error: "store_set is only available to agents running in a workflow",
+        key: args.key,
+    }),
+};
@@ -18,6 +18,8 @@
  * @module
  */
 
+import type { AgentForceAgent } from "./agent";
+
 /**
  * Log format types for different output destinations
  */
@@ -86,13 +88,14 @@ export type ServerConfig = {
 export type OutputType = "text" | "json" | "md" | "yaml" | "html";
 
 /**
- * Type definition for supported AI providers
+ * Type definition for AI providers
+ * The built-in providers are listed for autocompletion, any name added with `registerProvider` is accepted as well
  */
-export type ProviderType = "ollama" | "openai" | "anthropic" | "google" | "openrouter";
+export type ProviderType = "ollama" | "openai" | "anthropic" | "google" | "openrouter" | (string & {});
 
 /**
  * Union type for all available tool types
- * Based on tools available in the tools registry
+ * The built-in tools are listed for autocompletion, any name added with `registerTool` or `agent.addTool` is accepted as well
  */
 export type ToolType = 
     | "fs_list_dir"
@@ -109,7 +112,9 @@ export type ToolType =
     | "web_fetch"
     | "fs_get_file_tree"
     | "filter_content"
-    | "browser_use";
+    | "browser_use"
+    | "store_set"
+    | (string & {});
 
 /**
  * Configuration for model parameters
@@ -119,6 +124,8 @@ export type ToolType =
  * @property {number} [maxToolRounds] - Maximum number of tool-execution rounds per request (default 10)
  * @property {boolean} [appendToolResults] - If true, append raw tool results after the final model response
  * @property {number} [requestDelay] - Delay in seconds between API requests to prevent rate limiting (default 0)
+ * @property {string} [baseUrl] - Override the provider API base URL, e.g. a vLLM, LM Studio or gateway endpoint (OpenAI, Anthropic and Google providers, OpenAI and Anthropic fall back to OPENAI_BASE_URL / ANTHROPIC_BASE_URL)
+ * @property {JSONSchema} [jsonSchema] - Constrain responses to JSON matching this schema with the provider's native JSON mode, set by outputSchema() (not applied during tool rounds, Anthropic has no native mode)
  */
 export type ModelConfig = {
     temperature?: number;
@@ -126,8 +133,172 @@ export type ModelConfig = {
     maxToolRounds?: number;
     appendToolResults?: boolean;
     requestDelay?: number;
+    baseUrl?: string;
+    jsonSchema?: JSONSchema;
 };
 
+/**
+ * JSON Schema object describing structured output
+ * @typedef {Object} JSONSchema
+ */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * Options for structured output
+ * @typedef {Object} OutputSchemaOptions
+ * @property {number} [maxRetries] - How often the model is re-prompted with the validation errors before failing (default 2)
+ */
+export type OutputSchemaOptions = {
+    maxRetries?: number;
+};
+
+/**
+ * Validation issue of a structured output response
+ * @typedef {Object} StructuredOutputIssue
+ * @property {string} path - JSON pointer of the invalid value, empty for the whole response
+ * @property {string} message - Description of the problem
+ */
+export type StructuredOutputIssue = {
+    path: string;
+    message: string;
+};
+
+/**
+ * Token usage of an execution
+ * @typedef {Object} TokenUsage
+ * @property {number} promptTokens - Prompt (input) tokens, summed across tool rounds and tasks
+ * @property {number} completionTokens - Completion (output) tokens, summed across tool rounds and tasks
+ * @property {number} totalTokens - Sum of prompt and completion tokens
+ * @property {number} [cost] - Estimated cost in USD, only set when a price is registered for the model
+ */
+export type TokenUsage = {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cost?: number;
+};
+
+/**
+ * Price of a model used for cost estimates
+ * @typedef {Object} ModelPricing
+ * @property {number} input - USD per million prompt tokens
+ * @property {number} output - USD per million completion tokens
+ */
+export type ModelPricing = {
+    input: number;
+    output: number;
+};
+
+/**
+ * Options of a single provider call
+ * @typedef {Object} LLMCallOptions
+ * @property {AbortSignal} [signal] - Cancels the request and running tool calls, the call rejects with the abort reason
+ */
+export type LLMCallOptions = {
+    signal?: AbortSignal;
+};
+
+/**
+ * Options of an agent execution (`run()`, `getResponse()`, `getObject()`, `output()` and `stream()`)
+ * @typedef {Object} AgentRunOptions
+ * @property {AbortSignal} [signal] - Cancels the execution, provider requests, tool calls and MCP calls included
+ * @property {number} [timeoutMs] - Aborts the execution with a TimeoutError after this many milliseconds
+ */
+export type AgentRunOptions = {
+    signal?: AbortSignal;
+    timeoutMs?: number;
+};
+
+/**
+ * Options of a user prompt, see `agent.prompt()`
+ * @typedef {Object} PromptOptions
+ * @property {string[]} [images] - Images sent with the prompt to vision models, as file paths, http(s) URLs, data URLs or base64 strings
+ */
+export type PromptOptions = {
+    images?: string[];
+};
+
+/**
+ * Message of an earlier turn of a conversation, see `agent.withHistory()`
+ * @typedef {Object} ChatMessage
+ * @property {"user" | "assistant"} role - Who wrote the message
+ * @property {string} content - The text of the message
+ * @property {string[]} [images] - Images attached to the message, same formats as {@link PromptOptions}
+ */
+export type ChatMessage = {
+    role: "user" | "assistant";
+    content: string;
+    images?: string[];
+};
+
+/**
+ * Message sent to a provider
+ * Providers convert the images to their own format, see `inlineImages()`.
+ * @typedef {Object} LLMMessage
+ * @property {string} role - Role of the message, e.g. system, user, assistant or tool
+ * @property {string} content - The text of the message
+ * @property {string[]} [images] - Images attached to the message
+ */
+export type LLMMessage = {
+    role: string;
+    content: string;
+    images?: string[];
+};
+
+/**
+ * Event emitted while streaming a provider response
+ * @typedef {Object} LLMStreamEvent
+ */
+export type LLMStreamEvent =
+    | { type: "text"; text: string }
+    | { type: "tool_call"; name: string; args: Record<string, any> }
+    | { type: "tool_result"; name: string; result?: any; error?: string };
+
+/**
+ * Common interface implemented by every LLM provider
+ * Only `generate` and `chat` are required, agents fall back to them when a provider has no tool support.
+ * Every method receives {@link LLMCallOptions} as last argument, providers should pass the signal to their requests and tool calls.
+ * @interface LLMProvider
+ * @property {function} generate - Generate response from prompt without tools
+ * @property {function} chat - Chat without tool support using message history
+ * @property {function} [generateWithTools] - Generate response with tool support
+ * @property {function} [chatWithTools] - Chat with tool support using message history
+ * @property {function} [stream] - Stream the response as text deltas and tool events
+ * @property {function} [embed] - Create one embedding per input text with the model of the provider
+ * @property {function} [getUsage] - Get the token usage accumulated by this provider instance across all calls and tool rounds
+ * @property {function} [getModel] - Get current model name
+ * @property {function} [setModel] - Set model name
+ * @property {function} [cleanup] - Release connections held by the provider
+ */
+export interface LLMProvider {
+    generate(prompt: string, system?: string, options?: LLMCallOptions): Promise<string>;
+    chat(messages: LLMMessage[], options?: LLMCallOptions): Promise<string>;
+    generateWithTools?(prompt: string, tools: Tool[], system?: string, logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    chatWithTools?(messages: LLMMessage[], tools: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): Promise<string>;
+    stream?(messages: LLMMessage[], tools?: Tool[], logger?: AgentForceLogger, agent?: AgentForceAgent, options?: LLMCallOptions): AsyncIterable<LLMStreamEvent>;
+    embed?(input: string[], options?: LLMCallOptions): Promise<number[][]>;
+    getUsage?(): TokenUsage;
+    getModel?(): string;
+    setModel?(model: string): void;
+    cleanup?(): void;
+}
+
+/**
+ * Factory creating a provider instance for a model
+ * @param model - The model name passed to `useLLM`
+ * @param modelConfig - Optional model configuration passed to `useLLM`
+ */
+export type LLMProviderFactory = (model: string, modelConfig?: ModelConfig) => LLMProvider;
+
+/**
+ * Registry for LLM providers
+ * Maps provider names to their factories
+ * @interface ProviderRegistry
+ */
+export interface ProviderRegistry {
+    [key: string]: LLMProviderFactory;
+}
+
 /**
  * Configuration object for creating an {@link AgentForceWorkflow}
  * @typedef {Object} WorkflowConfig
@@ -139,6 +310,48 @@ export type WorkflowConfig = {
     logger?: AgentForceLogger;
 };
 
+/**
+ * Retry policy of a workflow step or an agent running in a workflow
+ * The delay before retry n is `initialDelayMs * backoffFactor^(n-1)`, capped at `maxDelayMs`.
+ * With jitter, a random delay between half and the full value is used so parallel retries spread out.
+ * @typedef {Object} RetryPolicy
+ * @property {number} [maxAttempts] - Attempts including the first one (default 3)
+ * @property {number} [initialDelayMs] - Delay before the first retry in milliseconds (default 1000)
+ * @property {number} [maxDelayMs] - Upper bound of the delay in milliseconds (default 30000)
+ * @property {number} [backoffFactor] - Multiplier of the delay after every retry (default 2)
+ * @property {boolean} [jitter] - Randomize the delays (default true)
+ * @property {Function} [retryOn] - Decides whether an error is retried, every error is retried if not set
+ */
+export type RetryPolicy = {
+    maxAttempts?: number;
+    initialDelayMs?: number;
+    maxDelayMs?: number;
+    backoffFactor?: number;
+    jitter?: boolean;
+    retryOn?: (error: unknown, attempt: number) => boolean | Promise<boolean>;
+};
+
+/**
+ * A failed attempt that was retried, recorded in the workflow run result
+ * @typedef {Object} RetryAttempt
+ * @property {number} [step] - Number of the workflow step, starting at 1, not set for dispatched tasks
+ * @property {string} [agent] - Name of the agent when the agent policy retried, not set for step retries
+ * @property {string} [taskId] - Id of the dispatched task
+ * @property {number} attempt - The failed attempt, starting at 1
+ * @property {string} error - Error message of the attempt
+ * @property {number} delayMs - Delay before the next attempt in milliseconds
+ * @property {string} timestamp - ISO timestamp of the failure
+ */
+export type RetryAttempt = {
+    step?: number;
+    agent?: string;
+    taskId?: string;
+    attempt: number;
+    error: string;
+    delayMs: number;
+    timestamp: string;
+};
+
 /**
  * Tool definition types for AgentForce ADK
  * These types match the Ollama tool calling format
@@ -150,11 +363,13 @@ export type WorkflowConfig = {
  * @property {string} type - Parameter data type (e.g., "string", "number", "boolean")
  * @property {string} description - Human-readable description of the parameter
  * @property {string[]} [enum] - Optional array of allowed values for the parameter
+ * @property {unknown} [default] - Optional value used when the parameter is not given
  */
 export interface ToolParameter {
     type: string;
     description: string;
     enum?: string[];
+    default?: unknown;
 }
 
 /**
@@ -197,9 +412,15 @@ export interface ToolCall {
     };
 }
 
+/**
+ * A tool definition together with the function executing its calls
+ * @interface ToolImplementation
+ * @property {Tool} definition - The definition sent to the model
+ * @property {Function} execute - Receives the call arguments and the abort signal of the execution, the result is sent back to the model
+ */
 export interface ToolImplementation {
     definition: Tool;
-    execute: (args: Record<string, any>) => Promise<any>;
+    execute: (args: Record<string, any>, options?: { signal?: AbortSignal }) => Promise<any>;
 }
 
 export interface ToolRegistry {
@@ -295,7 +516,7 @@ export interface MCPClient {
     connect(): Promise<void>;
     disconnect(): Promise<void>;
     listTools(): Promise<MCPTool[]>;
-    callTool(name: string, arguments_: Record<string, any>): Promise<any>;
+    callTool(name: string, arguments_: Record<string, any>, options?: { signal?: AbortSignal }): Promise<any>;
     listResources(): Promise<MCPResource[]>;
     readResource(uri: string): Promise<{ contents: Array<{ type: string; text?: string; data?: string }> }>;
     listPrompts(): Promise<MCPPrompt[]>;
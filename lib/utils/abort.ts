@@ -0,0 +1,119 @@
+/**
+ * Error raised when an agent execution or a workflow step takes longer than its timeout
+ * The signal passed to providers, tools and MCP servers is aborted with this error as reason.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await agent.run({ timeoutMs: 30_000 });
+ * } catch (error) {
+ *   if (error instanceof TimeoutError) {
+ *     console.log(`Gave up after ${error.timeoutMs} ms`);
+ *   }
+ * }
+ * ```
+ */
+export class TimeoutError extends Error {
+    readonly timeoutMs: number;
+
+    constructor(message: string, timeoutMs: number) {
+        super(message);
+        this.name = "TimeoutError";
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Derive a signal that is aborted with the parent signal or with a {@link TimeoutError} once the timeout passes
+ * Call `clear()` when the work is done so the timer does not keep the process alive.
+ *
+ * @param signal - The parent signal, optional
+ * @param timeoutMs - The timeout in milliseconds, no timeout if not set
+ * @param label - What timed out, used in the error message
+ * @returns The derived signal, the parent signal itself when there is no timeout
+ */
+export function withTimeout(signal: AbortSignal | undefined, timeoutMs: number | undefined, label: string): { signal?: AbortSignal; clear: () => void } {
+    if (timeoutMs === undefined) {
+        return { signal, clear: (): void => {} };
+    }
+
+    const controller = new AbortController();
+    const abort = (): void => {
+        clearTimeout(timer);
+        controller.abort(signal!.reason);
+    };
+    const timer = setTimeout(() => controller.abort(new TimeoutError(`${label} timed out after ${timeoutMs} ms`, timeoutMs)), timeoutMs);
+
+    if (signal?.aborted) {
+        abort();
+    } else {
+        signal?.addEventListener("abort", abort, { once: true });
+    }
+
+    return {
+        signal: controller.signal,
+        clear: (): void => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", abort);
+        },
+    };
+}
+
+/**
+ * Settle with the promise, or reject with the abort reason as soon as the signal aborts
+ * Used for work that cannot be cancelled itself, like custom providers and tools ignoring the signal.
+ *
+ * @param promise - The work to wait for
+ * @param signal - The signal, the promise is returned as is if not set
+ * @returns The result of the promise
+ */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    if (signal.aborted) {
+        promise.catch(() => {});
+        return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = (): void => {
+            promise.catch(() => {});
+            reject(signal.reason);
+        };
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(
+            value => {
+                signal.removeEventListener("abort", onAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener("abort", onAbort);
+                reject(error);
+            },
+        );
+    });
+}
+
+/**
+ * Wait for a delay, rejecting with the abort reason when the signal aborts first
+ *
+ * @param delayMs - The delay in milliseconds
+ * @param signal - The signal, optional
+ */
+export function sleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+        return Promise.reject(signal.reason);
+    }
+    return new Promise<void>((resolve, reject) => {
+        const onAbort = (): void => {
+            clearTimeout(timer);
+            reject(signal!.reason);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, delayMs);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -0,0 +1,127 @@
+/**
+ * Limits how many operations run at the same time, the others wait in order of arrival
+ */
+export interface Limiter {
+    readonly limit: number;
+    /**
+     * Wait for a free slot
+     * @param signal - Stops waiting when aborted, rejecting with the abort reason
+     * @returns Function releasing the slot, call it exactly once
+     */
+    acquire(signal?: AbortSignal): Promise<() => void>;
+}
+
+/**
+ * Check that a concurrency limit is a positive integer
+ * @param concurrency - The limit to check
+ * @param name - Name of the option in the error message
+ * @throws {Error} If the limit is not a positive integer
+ */
+export function assertConcurrency(concurrency: number, name = "concurrency"): void {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+        throw new Error(`${name} must be a positive integer`);
+    }
+}
+
+/**
+ * Create a limiter that runs at most `limit` operations at the same time
+ * @param limit - The number of slots
+ * @returns The limiter
+ *
+ * @example
+ * ```ts
+ * const limiter = createLimiter(2);
+ * const release = await limiter.acquire();
+ * try {
+ *   await callModel();
+ * } finally {
+ *   release();
+ * }
+ * ```
+ */
+export function createLimiter(limit: number): Limiter {
+    assertConcurrency(limit);
+    let active = 0;
+    const waiting: Array<() => void> = [];
+
+    const release = (): void => {
+        const next = waiting.shift();
+        if (next) {
+            next();
+        } else {
+            active--;
+        }
+    };
+
+    // A slot is handed over to the next waiting operation without being freed in between
+    const createRelease = (): (() => void) => {
+        let released = false;
+        return () => {
+            if (!released) {
+                released = true;
+                release();
+            }
+        };
+    };
+
+    return {
+        limit,
+        acquire(signal?: AbortSignal): Promise<() => void> {
+            if (signal?.aborted) {
+                return Promise.reject(signal.reason);
+            }
+            if (active < limit) {
+                active++;
+                return Promise.resolve(createRelease());
+            }
+
+            return new Promise((resolve, reject) => {
+                const onAbort = (): void => {
+                    waiting.splice(waiting.indexOf(grant), 1);
+                    reject(signal!.reason);
+                };
+                const grant = (): void => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve(createRelease());
+                };
+                waiting.push(grant);
+                signal?.addEventListener("abort", onAbort, { once: true });
+            });
+        },
+    };
+}
+
+/**
+ * Map items with an async operation, running at most `concurrency` operations at the same time
+ * Results keep the order of the items. The first failure rejects and no further items are started.
+ *
+ * @param items - The items
+ * @param concurrency - The maximum number of running operations, all items at once if not set
+ * @param operation - The operation, called with the item and its index
+ * @returns The results in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number | undefined,
+    operation: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let nextIndex = 0;
+    let failed = false;
+
+    const worker = async (): Promise<void> => {
+        while (!failed && nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = await operation(items[index]!, index);
+            } catch (error) {
+                failed = true;
+                throw error;
+            }
+        }
+    };
+
+    const workerCount = Math.min(concurrency ?? items.length, items.length);
+    await Promise.all(Array.from({ length: workerCount }, worker));
+    return results;
+}
@@ -0,0 +1,31 @@
+/**
+ * Result of a tool call that the agent does not execute itself, e.g. a tool of an API client
+ * Tool loops end after a round with such a result and return the answer so far, so the caller can run the tool
+ * and send its result back with the next request.
+ *
+ * @example
+ * ```ts
+ * agent.addTool(definition, async () => {
+ *   calls.push(definition.function.name);
+ *   return new DeferredToolCall("The client runs this tool");
+ * });
+ * ```
+ */
+export class DeferredToolCall {
+    readonly status = "pending";
+    readonly message: string;
+
+    constructor(message: string) {
+        this.message = message;
+    }
+}
+
+/**
+ * Check if a tool result defers the call to the caller of the agent
+ *
+ * @param result - The result of a tool call
+ * @returns True for a {@link DeferredToolCall}
+ */
+export function isDeferredToolCall(result: unknown): result is DeferredToolCall {
+    return result instanceof DeferredToolCall;
+}
@@ -15,6 +15,27 @@ export function renderTemplate(templateContent: string, templateData?: Record<st
     return template(templateData || {});
 }
 
+/**
+ * Renders a Handlebars template for a prompt
+ * Values are inserted as they are, without the HTML escaping of renderTemplate
+ * @param templateContent - The Handlebars template content as a string
+ * @param templateData - Optional data to pass to the template
+ * @returns Rendered prompt text
+ */
+export function renderPromptTemplate(templateContent: string, templateData?: Record<string, unknown>): string {
+    const template = Handlebars.compile(templateContent, { noEscape: true });
+    return template(templateData || {});
+}
+
+/**
+ * Checks if a text contains Handlebars expressions like `{{name}}`
+ * @param text - Text to check
+ * @returns True if the text contains at least one expression
+ */
+export function hasTemplateExpressions(text: string): boolean {
+    return /\{\{[\s\S]*?\}\}/.test(text);
+}
+
 /**
  * Checks if a file path is a Handlebars template file
  * @param filePath - Path to check
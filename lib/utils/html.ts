@@ -58,7 +58,7 @@ export interface HtmlFilterConfig {
  * @param htmlString - The HTML string to parse
  * @returns Cheerio instance or null if invalid
  */
-export function safeParseHtml(htmlString: string): cheerio.CheerioAPI | null {
+export function safeParseHtml(htmlString: string): ReturnType<typeof cheerio.load> | null {
     try {
         const trimmed = htmlString.trim();
         if (!trimmed) return null;
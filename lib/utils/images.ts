@@ -0,0 +1,142 @@
+import { readFileSync } from "fs";
+
+/**
+ * Image loaded for a provider request
+ * @property mimeType - Media type of the image, e.g. image/png
+ * @property data - The image bytes as base64 string
+ */
+export type ImageData = {
+    mimeType: string;
+    data: string;
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    png: "image/png",
+    jpg: "image/jpeg",
+    jpeg: "image/jpeg",
+    gif: "image/gif",
+    webp: "image/webp",
+    bmp: "image/bmp",
+};
+
+// First characters of the base64 encoded file signatures
+const BASE64_SIGNATURES: Array<[string, string]> = [
+    ["iVBORw0KGgo", "image/png"],
+    ["/9j/", "image/jpeg"],
+    ["R0lGOD", "image/gif"],
+    ["UklGR", "image/webp"],
+    ["Qk", "image/bmp"],
+];
+
+const DATA_URL = /^data:([^;,]+)(?:;[^;,]+)*;base64,(.*)$/s;
+const HTTP_URL = /^https?:\/\//i;
+const IMAGE_FILE = /\.([a-z]+)$/i;
+const BASE64 = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Parse a base64 data URL
+ * @param url - The data URL, e.g. `data:image/png;base64,iVBORw0KGgo...`
+ * @returns The image, undefined if the URL is not a base64 data URL
+ */
+export function parseDataUrl(url: string): ImageData | undefined {
+    const match = DATA_URL.exec(url);
+    if (!match) {
+        return undefined;
+    }
+    return { mimeType: match[1] as string, data: match[2] as string };
+}
+
+/**
+ * Guess the media type of a base64 encoded image from its file signature
+ * @param data - The image as base64 string
+ * @returns The media type, image/png if the signature is unknown
+ */
+export function detectImageMimeType(data: string): string {
+    const signature = BASE64_SIGNATURES.find(([prefix]) => data.startsWith(prefix));
+    return signature ? signature[1] : "image/png";
+}
+
+/**
+ * Load an image attached to a prompt
+ * Accepts data URLs, http(s) URLs (fetched), paths of image files and base64 strings.
+ *
+ * @param image - The image reference
+ * @param signal - Cancels the download of http(s) images
+ * @returns The image as base64 string with its media type
+ * @throws {Error} If the image cannot be fetched or read, or the reference has an unknown format
+ */
+export async function loadImage(image: string, signal?: AbortSignal): Promise<ImageData> {
+    if (image.startsWith("data:")) {
+        const parsed = parseDataUrl(image);
+        if (!parsed) {
+            throw new Error("Invalid image data URL, expected data:<media type>;base64,<data>");
+        }
+        return parsed;
+    }
+
+    if (HTTP_URL.test(image)) {
+        const response = await fetch(image, { signal });
+        if (!response.ok) {
+            throw new Error(`Failed to fetch image ${image}: ${response.status} ${response.statusText}`);
+        }
+        const data = Buffer.from(await response.arrayBuffer()).toString("base64");
+        const contentType = response.headers.get("content-type")?.split(";")[0]?.trim();
+        return { mimeType: contentType?.startsWith("image/") ? contentType : detectImageMimeType(data), data };
+    }
+
+    const extension = IMAGE_FILE.exec(image)?.[1]?.toLowerCase();
+    const fileMimeType = extension ? IMAGE_EXTENSIONS[extension] : undefined;
+    if (fileMimeType) {
+        try {
+            return { mimeType: fileMimeType, data: readFileSync(image).toString("base64") };
+        } catch (error) {
+            throw new Error(`Failed to read image ${image}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    const data = image.replace(/\s/g, "");
+    if (!data || !BASE64.test(data)) {
+        throw new Error(`Unsupported image "${image.slice(0, 40)}", use a file path, an http(s) URL, a data URL or a base64 string`);
+    }
+    return { mimeType: detectImageMimeType(data), data };
+}
+
+/**
+ * Format an image as data URL
+ * @param image - The image reference, see {@link loadImage}
+ * @param signal - Cancels the download of http(s) images
+ * @returns The data URL
+ */
+export async function toDataUrl(image: string, signal?: AbortSignal): Promise<string> {
+    const { mimeType, data } = await loadImage(image, signal);
+    return `data:${mimeType};base64,${data}`;
+}
+
+/**
+ * Format an image as URL for APIs that download images themselves
+ * http(s) URLs are kept, other images become data URLs.
+ *
+ * @param image - The image reference, see {@link loadImage}
+ * @returns The URL
+ */
+export async function toImageUrl(image: string): Promise<string> {
+    return HTTP_URL.test(image) ? image : toDataUrl(image);
+}
+
+/**
+ * Replace the images of messages with data URLs, messages without images are returned as they are
+ * Used by providers that need the image bytes in the request.
+ *
+ * @param messages - The messages to send
+ * @param signal - Cancels the download of http(s) images
+ * @returns Copies of the messages with their images loaded
+ */
+export async function inlineImages<T extends { images?: string[] }>(messages: T[], signal?: AbortSignal): Promise<T[]> {
+    return Promise.all(messages.map(async message => {
+        if (!message.images?.length) {
+            return message;
+        }
+        const images = await Promise.all(message.images.map(image => toDataUrl(image, signal)));
+        return { ...message, images };
+    }));
+}
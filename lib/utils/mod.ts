@@ -1,9 +1,14 @@
 export { executeCommand, executeGitHubCLI } from "./exec";
 export { parseGitignore } from "./gitignore_parser";
 export { truncate } from "./truncate";
-export { renderTemplate, isHandlebarsTemplate, renderTemplateFile } from "./handlebars";
+export { resolveRetryPolicy, getRetryDelay, withRetry } from "./retry";
+export { TimeoutError, withTimeout, abortable, sleep } from "./abort";
+export { DeferredToolCall, isDeferredToolCall } from "./deferred";
+export { createLimiter, mapWithConcurrency, assertConcurrency, type Limiter } from "./concurrency";
+export { renderTemplate, renderPromptTemplate, hasTemplateExpressions, isHandlebarsTemplate, renderTemplateFile } from "./handlebars";
 export { ensureDirectoryExists, appendJsonLine, formatLogData, formatLogDataWithTruncation } from "./logging";
 export * from "./html";
 export * from "./json";
 export * from "./markdown";
-export * from "./yaml";
\ No newline at end of file
+export * from "./yaml";
+export * from "./images";
\ No newline at end of file
@@ -0,0 +1,106 @@
+import type { RetryPolicy } from "../types";
+import { sleep } from "./abort";
+
+/**
+ * Retry policy with all defaults applied
+ */
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, "retryOn">> & Pick<RetryPolicy, "retryOn">;
+
+/**
+ * Information about a failed attempt passed to the onRetry callback of {@link withRetry}
+ */
+export type RetryEvent = {
+    error: unknown;
+    attempt: number;
+    maxAttempts: number;
+    delayMs: number;
+};
+
+/**
+ * Validate a retry policy and apply the defaults
+ *
+ * @param policy - The retry policy
+ * @returns {ResolvedRetryPolicy} The policy with all defaults applied
+ * @throws Error if a value is out of range
+ */
+export function resolveRetryPolicy(policy: RetryPolicy = {}): ResolvedRetryPolicy {
+    const resolved: ResolvedRetryPolicy = {
+        maxAttempts: policy.maxAttempts ?? 3,
+        initialDelayMs: policy.initialDelayMs ?? 1000,
+        maxDelayMs: policy.maxDelayMs ?? 30_000,
+        backoffFactor: policy.backoffFactor ?? 2,
+        jitter: policy.jitter ?? true,
+        ...(policy.retryOn && { retryOn: policy.retryOn }),
+    };
+
+    if (!Number.isInteger(resolved.maxAttempts) || resolved.maxAttempts < 1) {
+        throw new Error("maxAttempts must be a positive integer");
+    }
+    for (const key of ["initialDelayMs", "maxDelayMs"] as const) {
+        if (typeof resolved[key] !== "number" || !Number.isFinite(resolved[key]) || resolved[key] < 0) {
+            throw new Error(`${key} must be a non-negative number`);
+        }
+    }
+    if (typeof resolved.backoffFactor !== "number" || !Number.isFinite(resolved.backoffFactor) || resolved.backoffFactor < 1) {
+        throw new Error("backoffFactor must be a number of at least 1");
+    }
+    if (policy.retryOn !== undefined && typeof policy.retryOn !== "function") {
+        throw new Error("retryOn must be a function");
+    }
+
+    return resolved;
+}
+
+/**
+ * Calculate the delay before the next attempt with exponential backoff
+ *
+ * @param policy - The resolved retry policy
+ * @param attempt - The failed attempt, starting at 1
+ * @param random - Source of randomness for the jitter
+ * @returns {number} The delay in milliseconds
+ *
+ * @example
+ * ```ts
+ * const policy = resolveRetryPolicy({ initialDelayMs: 500, jitter: false });
+ * getRetryDelay(policy, 1); // 500
+ * getRetryDelay(policy, 3); // 2000
+ * ```
+ */
+export function getRetryDelay(policy: ResolvedRetryPolicy, attempt: number, random: () => number = Math.random): number {
+    const delay = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.backoffFactor ** (attempt - 1));
+    return Math.round(policy.jitter ? delay / 2 + random() * delay / 2 : delay);
+}
+
+/**
+ * Run an operation and retry it according to a retry policy
+ * The error of the last attempt is thrown when all attempts fail or retryOn declines an error.
+ *
+ * @param operation - The operation, called with the attempt number starting at 1
+ * @param retryPolicy - The retry policy, the operation runs once if not set
+ * @param onRetry - Called before waiting for the next attempt
+ * @param signal - Stops retrying once aborted, the wait for the next attempt rejects with the abort reason
+ * @returns The result of the first successful attempt
+ */
+export async function withRetry<T>(
+    operation: (attempt: number) => Promise<T>,
+    retryPolicy: RetryPolicy | undefined,
+    onRetry?: (event: RetryEvent) => void,
+    signal?: AbortSignal,
+): Promise<T> {
+    const policy = retryPolicy && resolveRetryPolicy(retryPolicy);
+    const maxAttempts = policy?.maxAttempts ?? 1;
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            if (!policy || signal?.aborted || attempt >= maxAttempts || (policy.retryOn && !(await policy.retryOn(error, attempt)))) {
+                throw error;
+            }
+            const delayMs = getRetryDelay(policy, attempt);
+            onRetry?.({ error, attempt, maxAttempts, delayMs });
+            if (delayMs > 0) {
+                await sleep(delayMs, signal);
+            }
+        }
+    }
+}
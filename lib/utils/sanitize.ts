@@ -0,0 +1,117 @@
+/**
+ * Tool result sanitizing utilities for AgentForce ADK
+ * Keeps tool results small enough to be sent back to an LLM as context
+ */
+
+import { writeFileSync, mkdirSync } from "fs";
+import { resolve, dirname } from "path";
+
+/**
+ * Sanitize tool results for LLM context by removing large binary data
+ * This prevents context overflow while preserving useful metadata
+ * Auto-saves screenshots and provides file paths
+ */
+export function sanitizeToolResultForContext(result: unknown): unknown {
+    if (typeof result !== "object" || result === null) {
+        return result;
+    }
+
+    const sanitized: Record<string, unknown> = { ...result };
+
+    // Helper function to detect base64 image data
+    const isBase64Image = (str: string): boolean => {
+        if (typeof str !== "string" || str.length < 100) return false;
+        // Check for base64 image patterns
+        return /^[A-Za-z0-9+/]{100,}={0,2}$/.test(str) || 
+               /^data:image\/[^;]+;base64,/.test(str);
+    };
+
+    // Helper function to save binary data to file
+    const saveBinaryToFile = (data: string, prefix: string = "binary"): string => {
+        try {
+            const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+            const urlPart = typeof sanitized.url === "string" && sanitized.url ? 
+                sanitized.url.replace(/[^a-zA-Z0-9]/g, "_").substring(0, 20) : 
+                "unknown";
+
+            // Determine file extension from data
+            let extension = "bin";
+            if (data.startsWith("data:image/png") || isBase64Image(data)) {
+                extension = "png";
+            } else if (data.startsWith("data:image/jpeg") || data.startsWith("data:image/jpg")) {
+                extension = "jpg";
+            } else if (data.startsWith("data:image/gif")) {
+                extension = "gif";
+            }
+
+            const filename = `${prefix}_${urlPart}_${timestamp}.${extension}`;
+            const absolutePath = resolve(process.cwd(), filename);
+            const dirPath = dirname(absolutePath);
+            mkdirSync(dirPath, { recursive: true });
+
+            // Clean base64 data (remove data URL prefix if present)
+            let cleanData = data;
+            if (data.startsWith("data:")) {
+                cleanData = data.split(",")[1] || data;
+            }
+
+            const originalLength = cleanData.length;
+            writeFileSync(absolutePath, cleanData, "base64");
+
+            return `[BINARY_SAVED_TO: ${filename}, SIZE: ${Math.round(originalLength * 0.75)} bytes]`;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            return `[BINARY_SAVE_FAILED: ${errorMessage}]`;
+        }
+    };
+
+    // Auto-save screenshot data and replace with file path info
+    const screenshot = sanitized.screenshot;
+    if (screenshot && typeof screenshot === "string") {
+        if (isBase64Image(screenshot)) {
+            sanitized.screenshot = saveBinaryToFile(screenshot, "screenshot");
+            sanitized.screenshotSaved = true;
+        }
+    }
+
+    // Handle other common binary data fields
+    const binaryFields = ["image", "photo", "picture", "screenshotData", "imageData"];
+    for (const field of binaryFields) {
+        const value = sanitized[field];
+        if (value && typeof value === "string" && isBase64Image(value)) {
+            sanitized[field] = saveBinaryToFile(value, field);
+            sanitized[`${field}Saved`] = true;
+        }
+    }
+
+    // Recursively check nested objects for binary data
+    for (const [key, value] of Object.entries(sanitized)) {
+        if (typeof value === "object" && value !== null) {
+            sanitized[key] = sanitizeToolResultForContext(value);
+        }
+    }
+
+    // Truncate other potentially large text data
+    if (typeof sanitized.html === "string" && sanitized.html.length > 10000) {
+        sanitized.html = sanitized.html.substring(0, 2000) + "...[truncated]";
+    }
+
+    if (typeof sanitized.content === "string" && sanitized.content.length > 10000) {
+        sanitized.content = sanitized.content.substring(0, 3000) + "...[truncated]";
+    }
+
+    // Handle very large strings that might be binary data
+    for (const [key, value] of Object.entries(sanitized)) {
+        if (typeof value === "string" && value.length > 5000) {
+            if (isBase64Image(value)) {
+                sanitized[key] = saveBinaryToFile(value, key);
+                sanitized[`${key}Saved`] = true;
+            } else if (value.length > 15000) {
+                // Truncate very large non-binary strings
+                sanitized[key] = value.substring(0, 3000) + "...[truncated]";
+            }
+        }
+    }
+
+    return sanitized;
+}
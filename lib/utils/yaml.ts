@@ -20,6 +20,77 @@ export function parseYaml(yamlString: string): any {
     }
 }
 
+/**
+ * Location in a YAML document, line and column start at 1
+ */
+export interface YamlLocation {
+    line: number;
+    column: number;
+}
+
+/**
+ * A parsed YAML document that can find where its values are written
+ */
+export interface YamlDocumentWithLocations {
+    /** The parsed JavaScript value */
+    value: unknown;
+    /**
+     * Find the location of a value
+     * @param path - Keys and indexes from the root, e.g. ["steps", 2, "agents"]
+     * @returns The location of the value, or of its closest parent that exists
+     */
+    locate(path: Array<string | number>): YamlLocation | undefined;
+}
+
+/**
+ * Error of a YAML document that cannot be parsed
+ */
+export class YamlParseError extends Error {
+    /** Line of the problem, starting at 1 */
+    readonly line: number;
+    /** Column of the problem, starting at 1 */
+    readonly column: number;
+
+    constructor(message: string, location: YamlLocation) {
+        super(`Failed to parse YAML at line ${location.line}, column ${location.column}: ${message}`);
+        this.name = "YamlParseError";
+        this.line = location.line;
+        this.column = location.column;
+    }
+}
+
+/**
+ * Parse YAML and keep the locations of its values, e.g. to report validation errors of config files
+ * JSON is valid YAML, so JSON documents are parsed as well.
+ * @param yamlString - The YAML string to parse
+ * @returns The parsed document
+ * @throws {YamlParseError} If the YAML is invalid
+ */
+export function parseYamlWithLocations(yamlString: string): YamlDocumentWithLocations {
+    const lineCounter = new YAML.LineCounter();
+    const document = YAML.parseDocument(yamlString, { lineCounter, prettyErrors: false });
+
+    const [error] = document.errors;
+    if (error) {
+        const position = error.linePos?.[0] ?? lineCounter.linePos(error.pos[0]);
+        throw new YamlParseError(error.message, { line: position.line, column: position.col });
+    }
+
+    return {
+        value: document.toJS(),
+        locate(path: Array<string | number>): YamlLocation | undefined {
+            for (let length = path.length; length >= 0; length--) {
+                const node = length === 0 ? document.contents : document.getIn(path.slice(0, length), true);
+                if (YAML.isNode(node) && node.range) {
+                    const position = lineCounter.linePos(node.range[0]);
+                    return { line: position.line, column: position.col };
+                }
+            }
+            return undefined;
+        },
+    };
+}
+
 /**
  * Convert JavaScript object to YAML string
  * @param data - The data to convert to YAML
@@ -7,13 +7,22 @@ import {
     parallel,
     onSuccess,
     onFail,
+    retry,
+    timeout,
+    outputKey,
     iterate,
+    branch,
+    route,
+    repeatUntil,
+    checkpoint,
     run,
+    resume,
     loop,
     debug,
+    fromFile,
 } from "./workflow/mod";
 
-import type { WorkflowConfig, AgentForceLogger } from "./types";
+import type { WorkflowConfig, AgentForceLogger, RetryPolicy, RetryAttempt } from "./types";
 import type { AgentForceAgent } from "./agent";
 import { defaultLogger } from "./logger";
 
@@ -34,7 +43,90 @@ export interface AgentOutput {
  * Types of execution steps available in workflows
  * @typedef {string} ExecutionStepType
  */
-export type ExecutionStepType = "prompt" | "sequence" | "parallel" | "iterate";
+export type ExecutionStepType = "prompt" | "sequence" | "parallel" | "iterate" | "branch" | "route" | "repeatUntil";
+
+/**
+ * Condition of a branch step
+ * @typedef {Function} WorkflowPredicate
+ * @param output - The output of the previous step
+ * @param sharedStore - The current shared store values
+ * @returns true to run the then agents, false to run the else agents
+ */
+export type WorkflowPredicate = (output: unknown, sharedStore: Record<string, unknown>) => boolean | Promise<boolean>;
+
+/**
+ * Router of a route step, either a classifier agent answering with a label or a function returning a label
+ * @typedef {AgentForceAgent | Function} WorkflowRouter
+ */
+export type WorkflowRouter = AgentForceAgent | ((output: unknown, sharedStore: Record<string, unknown>) => string | Promise<string>);
+
+/**
+ * Exit condition of a repeatUntil step
+ * @typedef {Function} RepeatUntilCondition
+ * @param output - The output of the current iteration
+ * @param sharedStore - The current shared store values
+ * @param iteration - The iteration number, starting at 1
+ * @returns true to stop repeating
+ */
+export type RepeatUntilCondition = (output: unknown, sharedStore: Record<string, unknown>, iteration: number) => boolean | Promise<boolean>;
+
+/**
+ * Options of a repeatUntil step
+ * @interface RepeatUntilOptions
+ * @property {number} [maxIterations] - Maximum number of iterations (default 5), the last output is used when the condition is never met
+ */
+export interface RepeatUntilOptions {
+    maxIterations?: number;
+}
+
+/**
+ * Options of parallel and iterate steps
+ * @interface ParallelOptions
+ * @property {number} [concurrency] - Maximum number of agent executions running at the same time, all at once if not set
+ * @property {boolean} [settle] - Collect a {@link SettledOutput} per agent or item instead of failing the step on the first error
+ * @property {boolean} [isolate] - Run every execution on a clone of the agent with its own chat history (default true), false shares the agent instance
+ */
+export interface ParallelOptions {
+    concurrency?: number;
+    settle?: boolean;
+    isolate?: boolean;
+}
+
+/**
+ * Output of a single agent execution of a parallel or iterate step in settle mode
+ * @typedef {Object} SettledOutput
+ */
+export type SettledOutput =
+    | { status: "fulfilled"; output: string }
+    | { status: "rejected"; error: string };
+
+/**
+ * Options of {@link AgentForceWorkflow.loop}
+ * @interface WorkflowLoopOptions
+ * @property {number} [maxIterations] - Stop after this many workflow runs, runs until stop() is called if not set
+ */
+export interface WorkflowLoopOptions {
+    maxIterations?: number;
+}
+
+/**
+ * Handle of a running workflow loop
+ * @interface WorkflowLoopHandle
+ * @property {Function} stop - Stops the loop, a run in progress completes first
+ * @property {boolean} running - Whether the loop is still running
+ * @property {number} iterations - Number of completed workflow runs, failed runs included
+ * @property {unknown} lastResult - Result of the last successful run
+ * @property {unknown} lastError - Error of the last run, undefined if it succeeded
+ * @property {Promise<void>} done - Resolves when the loop has finished
+ */
+export interface WorkflowLoopHandle {
+    stop(): void;
+    readonly running: boolean;
+    readonly iterations: number;
+    readonly lastResult: unknown;
+    readonly lastError: unknown;
+    readonly done: Promise<void>;
+}
 
 /**
  * Represents a single step in workflow execution plan
@@ -45,6 +137,12 @@ export type ExecutionStepType = "prompt" | "sequence" | "parallel" | "iterate";
  * @property {any} payload - Data payload for the execution step
  * @property {AgentForceAgent} [onSuccess] - Optional {@link AgentForceAgent} to run on successful completion
  * @property {AgentForceAgent} [onFail] - Optional {@link AgentForceAgent} to run on failure
+ * @property {RetryPolicy} [retry] - Optional {@link RetryPolicy} of the step, applied before onFail
+ * @property {number} [timeoutMs] - Optional timeout of each attempt of the step in milliseconds
+ * @property {string} [outputKey] - Optional shared store key the output of the step is saved under
+ * @property {number} [concurrency] - Optional maximum number of concurrent agent executions of a parallel or iterate step
+ * @property {boolean} [settle] - Whether a parallel or iterate step collects per-agent errors instead of failing
+ * @property {boolean} [isolate] - Whether a parallel or iterate step runs its agents on clones, true when not set
  */
 export interface ExecutionStep {
     type: ExecutionStepType;
@@ -53,6 +151,115 @@ export interface ExecutionStep {
     payload: any;
     onSuccess?: AgentForceAgent;
     onFail?: AgentForceAgent;
+    retry?: RetryPolicy;
+    timeoutMs?: number;
+    outputKey?: string;
+    concurrency?: number;
+    settle?: boolean;
+    isolate?: boolean;
+}
+
+/**
+ * A task of the execution list planned by the dispatcher agent
+ * @interface DispatchedTask
+ * @property {string} taskId - The task id from the plan
+ * @property {string} description - What the assigned agent has to do
+ * @property {string} assignedAgent - Name of the registered agent executing the task
+ * @property {string} [difficulty] - Difficulty rating given by the dispatcher
+ * @property {string[]} predictedTools - Tools the dispatcher expects the task to need
+ * @property {string} [output] - The response of the assigned agent, set once the task ran
+ */
+export interface DispatchedTask {
+    taskId: string;
+    description: string;
+    assignedAgent: string;
+    difficulty?: string;
+    predictedTools: string[];
+    output?: string;
+}
+
+/**
+ * Saved state of a workflow run, written by a {@link CheckpointStore} after every completed step
+ * @interface WorkflowCheckpoint
+ * @property {string} runId - Id of the run
+ * @property {string} workflowName - Name of the workflow
+ * @property {string} status - "running", "completed" or "failed"
+ * @property {string} userPrompt - The user prompt of the run
+ * @property {number} stepCount - Number of steps in the execution plan
+ * @property {number} completedSteps - Number of completed steps, resume continues with the next one
+ * @property {unknown[]} stepOutputs - Output of every completed step
+ * @property {unknown} lastOutput - Output of the last completed step or dispatched task, the input of the next step
+ * @property {Record<string, unknown>} sharedStore - The shared store values
+ * @property {Record<string, Array<{timestamp: string, output: unknown}>>} agentOutputs - Outputs of the registered agents by agent name
+ * @property {DispatchedTask[]} [dispatchedTasks] - The dispatcher plan, tasks with an output are complete
+ * @property {RetryAttempt[]} [retries] - Failed attempts that were retried
+ * @property {string} [error] - Error message of a failed run
+ * @property {string} updatedAt - ISO timestamp of the last save
+ */
+export interface WorkflowCheckpoint {
+    runId: string;
+    workflowName: string;
+    status: "running" | "completed" | "failed";
+    userPrompt: string;
+    stepCount: number;
+    completedSteps: number;
+    stepOutputs: unknown[];
+    lastOutput: unknown;
+    sharedStore: Record<string, unknown>;
+    agentOutputs: Record<string, Array<{ timestamp: string; output: unknown }>>;
+    dispatchedTasks?: DispatchedTask[];
+    retries?: RetryAttempt[];
+    error?: string;
+    updatedAt: string;
+}
+
+/**
+ * Persistence for workflow checkpoints, see {@link FileCheckpointStore} and {@link SQLiteCheckpointStore}
+ * Values must be JSON serializable.
+ * @interface CheckpointStore
+ */
+export interface CheckpointStore {
+    /** Save the checkpoint of a run, replacing the previous one */
+    save(checkpoint: WorkflowCheckpoint): Promise<void>;
+    /** Load the checkpoint of a run, undefined if there is none */
+    load(runId: string): Promise<WorkflowCheckpoint | undefined>;
+}
+
+/**
+ * Options of {@link AgentForceWorkflow.run}
+ * @interface WorkflowRunOptions
+ * @property {string} [runId] - Id for the checkpoints of the run, a random UUID by default
+ * @property {AbortSignal} [signal] - Cancels the run, running agents included
+ */
+export interface WorkflowRunOptions {
+    runId?: string;
+    signal?: AbortSignal;
+}
+
+/**
+ * Result of {@link AgentForceWorkflow.run} and {@link AgentForceWorkflow.resume}
+ * @interface WorkflowRunResult
+ * @property {unknown} finalOutput - Output of the last step, or of the last dispatched task without an execution plan
+ * @property {Record<string, unknown>} sharedStore - The shared store values
+ * @property {DispatchedTask[]} [dispatchedTasks] - The dispatcher plan with the output of every task, when a dispatcher is set
+ * @property {RetryAttempt[]} [retries] - Failed attempts that were retried, when steps or agents were retried
+ * @property {string} [runId] - Id of the run, when checkpoints are enabled
+ */
+export interface WorkflowRunResult {
+    finalOutput: unknown;
+    sharedStore: Record<string, unknown>;
+    dispatchedTasks?: DispatchedTask[];
+    retries?: RetryAttempt[];
+    runId?: string;
+}
+
+/**
+ * Options of {@link AgentForceWorkflow.resume}
+ * @interface WorkflowResumeOptions
+ * @property {AbortSignal} [signal] - Cancels the resumed run, running agents included
+ */
+export interface WorkflowResumeOptions {
+    signal?: AbortSignal;
 }
 
 /**
@@ -73,6 +280,7 @@ export class AgentForceWorkflow {
     protected executionPlan: ExecutionStep[] = [];
     protected agentToolRegistry: Map<string, string[]> = new Map(); // Maps agent name to tool names
     protected internalSharedStore: Map<string, any> = new Map();
+    protected checkpointStore: CheckpointStore | null = null;
 
     /**
      * Constructs the AgentForceWorkflow class.
@@ -85,6 +293,16 @@ export class AgentForceWorkflow {
         this.logger = config.logger || defaultLogger;
     }
 
+    /**
+     * Creates a workflow from a YAML or JSON definition file.
+     * @param filePath - Path of the definition file
+     * @returns The new AgentForceWorkflow instance
+     * @throws {WorkflowDefinitionError} If the file cannot be read, parsed or is invalid
+     */
+    public static fromFile(filePath: string): AgentForceWorkflow {
+        return fromFile.call(this, filePath);
+    }
+
     // --- Getters & Setters ---
 
     /**
@@ -164,16 +382,24 @@ export class AgentForceWorkflow {
     public prompt: (userPrompt: string) => AgentForceWorkflow = prompt.bind(this);
     public dispatcher: (agent: AgentForceAgent) => AgentForceWorkflow = dispatcher.bind(this);
     public registerAgent: (agent: AgentForceAgent) => AgentForceWorkflow = registerAgent.bind(this);
-    public sharedStore: (key: string, value: any) => AgentForceWorkflow = sharedStore.bind(this);
+    public sharedStore: (key: string, value: unknown) => AgentForceWorkflow = sharedStore.bind(this);
     public sequence: (agents: AgentForceAgent[]) => AgentForceWorkflow = sequence.bind(this);
-    public parallel: (agents: AgentForceAgent[]) => AgentForceWorkflow = parallel.bind(this);
+    public parallel: (agents: AgentForceAgent[], options?: ParallelOptions) => AgentForceWorkflow = parallel.bind(this);
     public onSuccess: (agent: AgentForceAgent) => AgentForceWorkflow = onSuccess.bind(this);
     public onFail: (agent: AgentForceAgent) => AgentForceWorkflow = onFail.bind(this);
-    public iterate: (items: any[] | string, agent: AgentForceAgent) => AgentForceWorkflow = iterate.bind(this);
+    public retry: (policy?: RetryPolicy) => AgentForceWorkflow = retry.bind(this);
+    public timeout: (timeoutMs: number) => AgentForceWorkflow = timeout.bind(this);
+    public outputKey: (key: string) => AgentForceWorkflow = outputKey.bind(this);
+    public iterate: (items: unknown[] | string, agent: AgentForceAgent, options?: ParallelOptions) => AgentForceWorkflow = iterate.bind(this);
+    public branch: (predicate: WorkflowPredicate, thenAgents: AgentForceAgent[], elseAgents?: AgentForceAgent[]) => AgentForceWorkflow = branch.bind(this);
+    public route: (router: WorkflowRouter, routes: Record<string, AgentForceAgent[]>, fallback?: string) => AgentForceWorkflow = route.bind(this);
+    public repeatUntil: (agents: AgentForceAgent[], condition: RepeatUntilCondition, options?: RepeatUntilOptions) => AgentForceWorkflow = repeatUntil.bind(this);
+    public checkpoint: (store?: CheckpointStore) => AgentForceWorkflow = checkpoint.bind(this);
     public debug: () => AgentForceWorkflow = debug.bind(this);
     
     // --- Terminal Methods ---
-    public run: () => Promise<any> = run.bind(this);
-    public loop: (delayInMs?: number) => void = loop.bind(this);
+    public run: (options?: WorkflowRunOptions) => Promise<WorkflowRunResult> = run.bind(this);
+    public resume: (runId: string, options?: WorkflowResumeOptions) => Promise<WorkflowRunResult> = resume.bind(this);
+    public loop: (delayInMs?: number, options?: WorkflowLoopOptions) => WorkflowLoopHandle = loop.bind(this);
 
 }
@@ -0,0 +1,53 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { join } from "path";
+import type { CheckpointStore, WorkflowCheckpoint } from "../../workflow";
+import { assertValidRunId } from "./runId";
+
+/**
+ * Checkpoint store writing one JSON file per run
+ * Files are written to a temporary file first and renamed, so a crash never leaves a partial checkpoint.
+ *
+ * @example
+ * ```ts
+ * const workflow = new AgentForceWorkflow({ name: "Report" })
+ *   .checkpoint(new FileCheckpointStore("./checkpoints"))
+ *   .sequence([researcher, writer]);
+ * ```
+ */
+export class FileCheckpointStore implements CheckpointStore {
+    private directory: string;
+
+    /**
+     * @param directory - Directory for the checkpoint files, created on the first save (default ".agentforce/checkpoints")
+     */
+    constructor(directory: string = ".agentforce/checkpoints") {
+        this.directory = directory;
+    }
+
+    async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+        const path = this.getPath(checkpoint.runId);
+        await mkdir(this.directory, { recursive: true });
+        await writeFile(`${path}.tmp`, JSON.stringify(checkpoint, null, 2), "utf-8");
+        await rename(`${path}.tmp`, path);
+    }
+
+    async load(runId: string): Promise<WorkflowCheckpoint | undefined> {
+        try {
+            return JSON.parse(await readFile(this.getPath(runId), "utf-8")) as WorkflowCheckpoint;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return undefined;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Get the file path of a run
+     * @internal
+     */
+    private getPath(runId: string): string {
+        assertValidRunId(runId);
+        return join(this.directory, `${runId}.json`);
+    }
+}
@@ -0,0 +1,2 @@
+export * from "./fileCheckpointStore";
+export * from "./sqliteCheckpointStore";
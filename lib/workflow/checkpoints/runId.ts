@@ -0,0 +1,11 @@
+/**
+ * Check that a run id is safe to use as a file name or database key
+ * @internal
+ * @param runId - The run id
+ * @throws Error if the run id contains characters other than letters, digits, dots, underscores or dashes
+ */
+export function assertValidRunId(runId: string): void {
+    if (typeof runId !== "string" || !/^[\w.-]{1,128}$/.test(runId) || /^\.+$/.test(runId)) {
+        throw new Error(`Invalid run id "${runId}", use up to 128 letters, digits, dots, underscores or dashes`);
+    }
+}
@@ -0,0 +1,97 @@
+import type { CheckpointStore, WorkflowCheckpoint } from "../../workflow";
+import { assertValidRunId } from "./runId";
+
+/**
+ * The subset of the `bun:sqlite` and `node:sqlite` database APIs used by {@link SQLiteCheckpointStore}
+ * @interface SQLiteDatabase
+ */
+export interface SQLiteDatabase {
+    exec(sql: string): unknown;
+    prepare(sql: string): {
+        run(...params: unknown[]): unknown;
+        get(...params: unknown[]): unknown;
+    };
+}
+
+/**
+ * Checkpoint store keeping runs in a SQLite table
+ * Uses the built-in SQLite of the runtime: `bun:sqlite` on Bun, `node:sqlite` on Node.js 22.5+ and Deno.
+ *
+ * @example
+ * ```ts
+ * const workflow = new AgentForceWorkflow({ name: "Report" })
+ *   .checkpoint(new SQLiteCheckpointStore("./checkpoints.db"))
+ *   .sequence([researcher, writer]);
+ * ```
+ */
+export class SQLiteCheckpointStore implements CheckpointStore {
+    private source: string | SQLiteDatabase;
+    private database?: Promise<SQLiteDatabase>;
+
+    /**
+     * @param source - Path of the database file (default ".agentforce/checkpoints.db"), ":memory:", or an open database
+     */
+    constructor(source: string | SQLiteDatabase = ".agentforce/checkpoints.db") {
+        this.source = source;
+    }
+
+    async save(checkpoint: WorkflowCheckpoint): Promise<void> {
+        assertValidRunId(checkpoint.runId);
+        const database = await this.getDatabase();
+        database.prepare(
+            `INSERT INTO workflow_checkpoints (run_id, workflow_name, status, data, updated_at) VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT(run_id) DO UPDATE SET workflow_name = excluded.workflow_name, status = excluded.status, data = excluded.data, updated_at = excluded.updated_at`,
+        ).run(checkpoint.runId, checkpoint.workflowName, checkpoint.status, JSON.stringify(checkpoint), checkpoint.updatedAt);
+    }
+
+    async load(runId: string): Promise<WorkflowCheckpoint | undefined> {
+        assertValidRunId(runId);
+        const database = await this.getDatabase();
+        const row = database.prepare("SELECT data FROM workflow_checkpoints WHERE run_id = ?").get(runId) as { data: string } | null | undefined;
+        return row ? JSON.parse(row.data) as WorkflowCheckpoint : undefined;
+    }
+
+    /**
+     * Open the database and create the checkpoint table on first use
+     * @internal
+     */
+    private getDatabase(): Promise<SQLiteDatabase> {
+        this.database ??= (async (): Promise<SQLiteDatabase> => {
+            const database = typeof this.source === "string" ? await openDatabase(this.source) : this.source;
+            database.exec(`CREATE TABLE IF NOT EXISTS workflow_checkpoints (
+                run_id TEXT PRIMARY KEY,
+                workflow_name TEXT NOT NULL,
+                status TEXT NOT NULL,
+                data TEXT NOT NULL,
+                updated_at TEXT NOT NULL
+            )`);
+            return database;
+        })();
+        return this.database;
+    }
+}
+
+/**
+ * Open a database file with the SQLite module of the runtime
+ * @internal
+ */
+async function openDatabase(path: string): Promise<SQLiteDatabase> {
+    if (path !== ":memory:") {
+        const { mkdir } = await import("fs/promises");
+        const { dirname } = await import("path");
+        await mkdir(dirname(path), { recursive: true });
+    }
+
+    if (typeof Bun !== "undefined") {
+        const { Database } = await import("bun:sqlite");
+        return new Database(path) as unknown as SQLiteDatabase;
+    }
+
+    try {
+        const { DatabaseSync } = await import("node:sqlite");
+        return new DatabaseSync(path) as unknown as SQLiteDatabase;
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`SQLite checkpoints need Bun or Node.js 22.5+ with node:sqlite, or an open database passed to SQLiteCheckpointStore: ${errorMessage}`);
+    }
+}
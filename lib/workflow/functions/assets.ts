@@ -0,0 +1,11 @@
+import { readFileSync } from "fs";
+import { fileURLToPath } from "url";
+
+/**
+ * Read the dispatcher prompt template shipped with the package
+ * @internal
+ * @returns {string} The Handlebars template content
+ */
+export function loadDispatcherTemplate(): string {
+    return readFileSync(fileURLToPath(new URL("../../_assets/prompts/dispatcher.md.hbs", import.meta.url)), "utf-8");
+}
@@ -0,0 +1,386 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import type { ErrorObject } from "ajv";
+import type { JSONSchema, ModelConfig, ProviderType, RetryPolicy, ToolType } from "../../types";
+import { compileSchema } from "../../agent/functions/schema";
+import { hasProvider } from "../../provider/registry";
+import { hasTool } from "../../tools/registry";
+import { parseYamlWithLocations, YamlParseError, type YamlDocumentWithLocations } from "../../utils/yaml";
+
+/**
+ * Agent of a workflow definition file
+ * @interface WorkflowAgentDefinition
+ */
+export interface WorkflowAgentDefinition {
+    name: string;
+    provider?: ProviderType;
+    model?: string;
+    modelConfig?: ModelConfig;
+    tools?: ToolType[];
+    skills?: string[];
+    mcps?: string[];
+    assetPath?: string;
+    systemPrompt?: string;
+    prompt?: string;
+    retry?: Omit<RetryPolicy, "retryOn">;
+}
+
+/**
+ * Condition of a branch or repeatUntil step in a workflow definition file
+ * The value is the shared store entry named by `store`, or the step input when `store` is not set.
+ * Without `equals` or `contains` the condition is true when the value is truthy.
+ * @interface WorkflowConditionDefinition
+ */
+export interface WorkflowConditionDefinition {
+    store?: string;
+    equals?: unknown;
+    contains?: string;
+}
+
+/**
+ * Step of a workflow definition file, exactly one of the step kinds is set
+ * @interface WorkflowStepDefinition
+ */
+export interface WorkflowStepDefinition {
+    prompt?: string;
+    sequence?: string[];
+    parallel?: string[];
+    iterate?: { items: unknown[] | string; agent: string };
+    branch?: { if: WorkflowConditionDefinition; then: string[]; else?: string[] };
+    route?: { router: string; routes: Record<string, string[]>; fallback?: string };
+    repeatUntil?: { agents: string[]; until: WorkflowConditionDefinition; maxIterations?: number };
+    concurrency?: number;
+    settle?: boolean;
+    isolate?: boolean;
+    retry?: Omit<RetryPolicy, "retryOn">;
+    timeout?: number;
+    outputKey?: string;
+    onSuccess?: string;
+    onFail?: string;
+}
+
+/**
+ * Content of a workflow definition file
+ * @interface WorkflowDefinition
+ */
+export interface WorkflowDefinition {
+    name: string;
+    prompt?: string;
+    store?: Record<string, unknown>;
+    agents?: WorkflowAgentDefinition[];
+    steps: WorkflowStepDefinition[];
+}
+
+/**
+ * Problem of a workflow definition file
+ * @typedef {Object} WorkflowDefinitionIssue
+ * @property {string} path - JSON pointer of the invalid value, empty for the whole file
+ * @property {string} message - Description of the problem
+ * @property {number} [line] - Line of the invalid value, starting at 1
+ * @property {number} [column] - Column of the invalid value, starting at 1
+ */
+export type WorkflowDefinitionIssue = {
+    path: string;
+    message: string;
+    line?: number;
+    column?: number;
+};
+
+/**
+ * Error thrown when a workflow definition file cannot be parsed or is invalid
+ */
+export class WorkflowDefinitionError extends Error {
+    /** The file, or the source name of the definition */
+    readonly source: string;
+    /** Problems of the definition with their locations */
+    readonly issues: WorkflowDefinitionIssue[];
+
+    constructor(source: string, issues: WorkflowDefinitionIssue[]) {
+        super(`Invalid workflow definition in ${source}:\n${issues.map(issue => `  ${formatIssue(source, issue)}`).join("\n")}`);
+        this.name = "WorkflowDefinitionError";
+        this.source = source;
+        this.issues = issues;
+    }
+}
+
+/**
+ * Names of the step kinds, a step defines exactly one of them
+ */
+const stepKinds = ["prompt", "sequence", "parallel", "iterate", "branch", "route", "repeatUntil"] as const;
+
+const agentNames: JSONSchema = { type: "array", items: { type: "string", minLength: 1 }, minItems: 1 };
+const stringList: JSONSchema = { type: "array", items: { type: "string", minLength: 1 } };
+
+const retryPolicySchema: JSONSchema = {
+    type: "object",
+    properties: {
+        maxAttempts: { type: "integer", minimum: 1 },
+        initialDelayMs: { type: "number", minimum: 0 },
+        maxDelayMs: { type: "number", minimum: 0 },
+        backoffFactor: { type: "number", minimum: 1 },
+        jitter: { type: "boolean" },
+    },
+    additionalProperties: false,
+};
+
+const conditionSchema: JSONSchema = {
+    type: "object",
+    properties: {
+        store: { type: "string", minLength: 1 },
+        equals: {},
+        contains: { type: "string" },
+    },
+    additionalProperties: false,
+};
+
+/**
+ * JSON Schema of workflow definition files
+ */
+export const workflowDefinitionSchema: JSONSchema = {
+    type: "object",
+    properties: {
+        name: { type: "string", minLength: 1 },
+        prompt: { type: "string" },
+        store: { type: "object" },
+        agents: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    name: { type: "string", minLength: 1 },
+                    provider: { type: "string", minLength: 1 },
+                    model: { type: "string", minLength: 1 },
+                    modelConfig: { type: "object" },
+                    tools: stringList,
+                    skills: stringList,
+                    mcps: stringList,
+                    assetPath: { type: "string" },
+                    systemPrompt: { type: "string" },
+                    prompt: { type: "string" },
+                    retry: retryPolicySchema,
+                },
+                required: ["name"],
+                additionalProperties: false,
+            },
+        },
+        steps: {
+            type: "array",
+            minItems: 1,
+            items: {
+                type: "object",
+                properties: {
+                    prompt: { type: "string" },
+                    sequence: agentNames,
+                    parallel: agentNames,
+                    iterate: {
+                        type: "object",
+                        properties: {
+                            items: { type: ["array", "string"] },
+                            agent: { type: "string", minLength: 1 },
+                        },
+                        required: ["items", "agent"],
+                        additionalProperties: false,
+                    },
+                    branch: {
+                        type: "object",
+                        properties: { if: conditionSchema, then: agentNames, else: stringList },
+                        required: ["if", "then"],
+                        additionalProperties: false,
+                    },
+                    route: {
+                        type: "object",
+                        properties: {
+                            router: { type: "string", minLength: 1 },
+                            routes: { type: "object", additionalProperties: agentNames, minProperties: 1 },
+                            fallback: { type: "string", minLength: 1 },
+                        },
+                        required: ["router", "routes"],
+                        additionalProperties: false,
+                    },
+                    repeatUntil: {
+                        type: "object",
+                        properties: { agents: agentNames, until: conditionSchema, maxIterations: { type: "integer", minimum: 1 } },
+                        required: ["agents", "until"],
+                        additionalProperties: false,
+                    },
+                    concurrency: { type: "integer", minimum: 1 },
+                    settle: { type: "boolean" },
+                    isolate: { type: "boolean" },
+                    retry: retryPolicySchema,
+                    timeout: { type: "number", exclusiveMinimum: 0 },
+                    outputKey: { type: "string", minLength: 1 },
+                    onSuccess: { type: "string", minLength: 1 },
+                    onFail: { type: "string", minLength: 1 },
+                },
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ["name", "steps"],
+    additionalProperties: false,
+};
+
+/**
+ * Read and validate a workflow definition file
+ * YAML (.yaml, .yml) and JSON files are supported, JSON is parsed as YAML so errors have line numbers in both.
+ * @param filePath - Path of the file, relative to the current working directory
+ * @returns {WorkflowDefinition} The validated definition
+ * @throws {WorkflowDefinitionError} If the file cannot be read, parsed or is invalid
+ */
+export function readWorkflowDefinition(filePath: string): WorkflowDefinition {
+    let content: string;
+    try {
+        content = readFileSync(resolve(filePath), "utf-8");
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new WorkflowDefinitionError(filePath, [{ path: "", message: `Cannot read the file: ${errorMessage}` }]);
+    }
+    return parseWorkflowDefinition(content, filePath);
+}
+
+/**
+ * Parse and validate the content of a workflow definition file
+ * @param content - The YAML or JSON content
+ * @param source - Name of the file used in error messages
+ * @returns {WorkflowDefinition} The validated definition
+ * @throws {WorkflowDefinitionError} If the content cannot be parsed or is invalid
+ */
+export function parseWorkflowDefinition(content: string, source: string): WorkflowDefinition {
+    let document: YamlDocumentWithLocations;
+    try {
+        document = parseYamlWithLocations(content);
+    } catch (error) {
+        if (error instanceof YamlParseError) {
+            throw new WorkflowDefinitionError(source, [{ path: "", message: error.message, line: error.line, column: error.column }]);
+        }
+        throw error;
+    }
+
+    const validate = compileSchema(workflowDefinitionSchema);
+    const issues = validate(document.value)
+        ? checkReferences(document.value as WorkflowDefinition)
+        : (validate.errors ?? []).map(toIssue);
+
+    if (issues.length > 0) {
+        throw new WorkflowDefinitionError(source, issues.map(issue => ({ ...issue, ...document.locate(toPathSegments(issue.path)) })));
+    }
+    return document.value as WorkflowDefinition;
+}
+
+/**
+ * Check what the schema cannot: one kind per step, agent references, providers and tools
+ * @internal
+ */
+function checkReferences(definition: WorkflowDefinition): WorkflowDefinitionIssue[] {
+    const issues: WorkflowDefinitionIssue[] = [];
+    const agentNames = new Set<string>();
+
+    definition.agents?.forEach((agent, index) => {
+        if (agentNames.has(agent.name)) {
+            issues.push({ path: `/agents/${index}/name`, message: `duplicate agent name "${agent.name}"` });
+        }
+        agentNames.add(agent.name);
+        if (agent.provider && !hasProvider(agent.provider)) {
+            issues.push({ path: `/agents/${index}/provider`, message: `unknown provider "${agent.provider}"` });
+        }
+        agent.tools?.forEach((tool, toolIndex) => {
+            if (!hasTool(tool)) {
+                issues.push({ path: `/agents/${index}/tools/${toolIndex}`, message: `unknown tool "${tool}"` });
+            }
+        });
+    });
+
+    const checkAgent = (name: string, path: string): void => {
+        if (!agentNames.has(name)) {
+            issues.push({ path, message: `unknown agent "${name}", define it under agents` });
+        }
+    };
+    const checkAgents = (names: string[] | undefined, path: string): void => {
+        names?.forEach((name, index) => checkAgent(name, `${path}/${index}`));
+    };
+
+    definition.steps.forEach((step, index) => {
+        const path = `/steps/${index}`;
+        const kinds = stepKinds.filter(kind => step[kind] !== undefined);
+        if (kinds.length !== 1) {
+            issues.push({ path, message: `must define exactly one of ${stepKinds.join(", ")}${kinds.length > 1 ? `, found ${kinds.join(" and ")}` : ""}` });
+        }
+
+        const isConcurrent = step.parallel !== undefined || step.iterate !== undefined;
+        for (const option of ["concurrency", "settle", "isolate"] as const) {
+            if (step[option] !== undefined && !isConcurrent) {
+                issues.push({ path: `${path}/${option}`, message: "is only allowed on parallel and iterate steps" });
+            }
+        }
+
+        checkAgents(step.sequence, `${path}/sequence`);
+        checkAgents(step.parallel, `${path}/parallel`);
+        if (step.iterate) {
+            checkAgent(step.iterate.agent, `${path}/iterate/agent`);
+        }
+        if (step.branch) {
+            checkAgents(step.branch.then, `${path}/branch/then`);
+            checkAgents(step.branch.else, `${path}/branch/else`);
+        }
+        if (step.route) {
+            checkAgent(step.route.router, `${path}/route/router`);
+            for (const [label, names] of Object.entries(step.route.routes)) {
+                checkAgents(names, `${path}/route/routes/${escapePointer(label)}`);
+            }
+            if (step.route.fallback !== undefined && !(step.route.fallback in step.route.routes)) {
+                issues.push({ path: `${path}/route/fallback`, message: `unknown route label "${step.route.fallback}"` });
+            }
+        }
+        if (step.repeatUntil) {
+            checkAgents(step.repeatUntil.agents, `${path}/repeatUntil/agents`);
+        }
+        if (step.onSuccess !== undefined) {
+            checkAgent(step.onSuccess, `${path}/onSuccess`);
+        }
+        if (step.onFail !== undefined) {
+            checkAgent(step.onFail, `${path}/onFail`);
+        }
+    });
+
+    return issues;
+}
+
+/**
+ * Convert an ajv error to an issue
+ * @internal
+ */
+function toIssue(error: ErrorObject): WorkflowDefinitionIssue {
+    // Report the missing or unknown property itself rather than its parent object
+    if (error.keyword === "required" && typeof error.params.missingProperty === "string") {
+        return { path: `${error.instancePath}/${escapePointer(error.params.missingProperty)}`, message: "is required" };
+    }
+    if (error.keyword === "additionalProperties" && typeof error.params.additionalProperty === "string") {
+        return { path: `${error.instancePath}/${escapePointer(error.params.additionalProperty)}`, message: "is not allowed" };
+    }
+    return { path: error.instancePath, message: error.message ?? "is invalid" };
+}
+
+/**
+ * Format an issue as "source:line:column path message"
+ * @internal
+ */
+function formatIssue(source: string, issue: WorkflowDefinitionIssue): string {
+    const location = issue.line !== undefined ? `${source}:${issue.line}:${issue.column}` : source;
+    return `${location} ${issue.path || "/"} ${issue.message}`;
+}
+
+/**
+ * Split a JSON pointer into keys
+ * @internal
+ */
+function toPathSegments(pointer: string): string[] {
+    return pointer.split("/").slice(1).map(segment => segment.replace(/~1/g, "/").replace(/~0/g, "~"));
+}
+
+/**
+ * Escape a key for a JSON pointer
+ * @internal
+ */
+function escapePointer(key: string): string {
+    return key.replace(/~/g, "~0").replace(/\//g, "~1");
+}
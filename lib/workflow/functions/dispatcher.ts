@@ -0,0 +1,105 @@
+import type { DispatchedTask } from "../../workflow";
+import { renderTemplate } from "../../utils/handlebars";
+import { formatResponseAsYaml, parseYaml } from "../../utils/yaml";
+import { truncate } from "../../utils/truncate";
+import { loadDispatcherTemplate } from "./assets";
+
+/**
+ * Registered agent as described to the dispatcher
+ * @internal
+ */
+export interface DispatcherTeamMember {
+    name: string;
+    systemPrompt: string;
+    tools: string[];
+}
+
+/**
+ * Render the dispatcher system prompt with the registered agents and their tools
+ * @internal
+ * @param team - The registered agents
+ * @returns {string} The rendered dispatcher prompt
+ */
+export function buildDispatcherPrompt(team: DispatcherTeamMember[]): string {
+    const agents = team.map(member => ({
+        name: member.name,
+        // The system prompt describes the agent, a single line keeps the team list readable
+        description: truncate(member.systemPrompt.replace(/\s+/g, " ").trim(), 300),
+        tools: member.tools,
+    }));
+    const tools = [...new Set(team.flatMap(member => member.tools))];
+
+    return renderTemplate(loadDispatcherTemplate(), { agents, tools });
+}
+
+/**
+ * Parse the YAML execution list returned by the dispatcher
+ * Agent names are matched case-insensitively and replaced by the registered name.
+ * @internal
+ * @param response - The dispatcher response
+ * @param agentNames - Names of the registered agents
+ * @returns {DispatchedTask[]} The planned tasks in execution order
+ * @throws Error if the response is not a valid execution list or assigns an unknown agent
+ */
+export function parseExecutionList(response: string, agentNames: string[]): DispatchedTask[] {
+    let plan: unknown;
+    try {
+        plan = parseYaml(formatResponseAsYaml(response));
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new Error(`Dispatcher did not return a valid execution list: ${errorMessage}`);
+    }
+
+    const items = plan !== null && typeof plan === "object" ? (plan as Record<string, unknown>).execution_list : undefined;
+    if (!Array.isArray(items) || items.length === 0) {
+        throw new Error("Dispatcher did not return a valid execution list: expected a non-empty \"execution_list\" array");
+    }
+
+    return items.map((entry: unknown, index: number) => {
+        const item = entry !== null && typeof entry === "object" ? entry as Record<string, unknown> : {};
+        const taskId = item.task_id ? String(item.task_id) : `task-${String(index + 1).padStart(3, "0")}`;
+        const description = item.description;
+        if (typeof description !== "string" || !description.trim()) {
+            throw new Error(`Dispatcher task "${taskId}" has no description`);
+        }
+
+        const requestedAgent = String(item.assigned_agent ?? "").trim();
+        const assignedAgent = agentNames.find(name => name === requestedAgent)
+            ?? agentNames.find(name => name.toLowerCase() === requestedAgent.toLowerCase());
+        if (!assignedAgent) {
+            throw new Error(`Dispatcher assigned task "${taskId}" to unknown agent "${requestedAgent}". Registered agents: ${agentNames.join(", ")}`);
+        }
+
+        return {
+            taskId,
+            description: description.trim(),
+            assignedAgent,
+            ...(item.difficulty !== undefined && { difficulty: String(item.difficulty) }),
+            predictedTools: Array.isArray(item.predicted_tool_group) ? item.predicted_tool_group.map(String) : [],
+        };
+    });
+}
+
+/**
+ * Build the prompt for a dispatched task, including the results of the tasks before it
+ * @internal
+ * @param userPrompt - The original user prompt of the workflow
+ * @param task - The task to execute
+ * @param completedTasks - The tasks that already ran, in execution order
+ * @returns {string} The prompt for the assigned agent
+ */
+export function buildTaskPrompt(userPrompt: string, task: DispatchedTask, completedTasks: DispatchedTask[]): string {
+    const sections = [
+        `## Original request\n${userPrompt}`,
+        `## Your task (${task.taskId})\n${task.description}`,
+    ];
+
+    if (completedTasks.length > 0) {
+        const results = completedTasks.map(completed =>
+            `### ${completed.taskId} - ${completed.assignedAgent}: ${completed.description}\n${completed.output ?? ""}`,
+        );
+        sections.push(`## Results of previous tasks\n${results.join("\n\n")}`);
+    }
+
+    return sections.join("\n\n");
+}
@@ -0,0 +1,38 @@
+/**
+ * Build the prompt asking a router agent to classify the previous output
+ * @internal
+ * @param input - The output of the previous step
+ * @param labels - The route labels
+ * @returns {string} The classification prompt
+ */
+export function buildRouterPrompt(input: unknown, labels: string[]): string {
+    const text = typeof input === "string" ? input : JSON.stringify(input, null, 2);
+    return `${text ?? ""}\n\nClassify the input above. Respond with exactly one of these labels and nothing else: ${labels.join(", ")}`;
+}
+
+/**
+ * Match a router answer to a route label
+ * Labels are compared case-insensitively; an answer mentioning exactly one label as a word also matches.
+ * @internal
+ * @param answer - The router answer
+ * @param labels - The route labels
+ * @returns {string | undefined} The matched label or undefined
+ */
+export function matchRouteLabel(answer: string, labels: string[]): string | undefined {
+    const normalized = answer.trim().replace(/^["'`*\s]+|["'`*.!\s]+$/g, "").toLowerCase();
+    const exact = labels.find(label => label.toLowerCase() === normalized);
+    if (exact) {
+        return exact;
+    }
+
+    const mentioned = labels.filter(label => new RegExp(`\\b${escapeRegExp(label.toLowerCase())}\\b`).test(normalized));
+    return mentioned.length === 1 ? mentioned[0] : undefined;
+}
+
+/**
+ * Escape a string for use in a regular expression
+ * @internal
+ */
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,138 @@
+import type { AgentForceAgent } from "../../agent";
+import type { Tool, ToolImplementation } from "../../types";
+
+/**
+ * Store template expressions, `{{store.key}}` or `{{store.key.nested}}` and `{{input}}`
+ * Other `{{...}}` text of a prompt, e.g. JSON or code examples, is not a store template and stays as it is.
+ */
+const STORE_EXPRESSION = /\{\{\s*(input|store(?:\.[\w-]+)+)\s*\}\}/g;
+
+/**
+ * Definition of the shared store tool
+ */
+export const storeSetDefinition: Tool = {
+    type: "function",
+    function: {
+        name: "store_set",
+        description: "Save a value in the shared store of the workflow so later steps can read it, e.g. with {{store.key}} in their prompts",
+        parameters: {
+            type: "object",
+            properties: {
+                key: {
+                    type: "string",
+                    description: "The key to save the value under, an existing value is replaced",
+                },
+                value: {
+                    type: "string",
+                    description: "The value to save, JSON objects, arrays, numbers and booleans are stored parsed",
+                },
+            },
+            required: ["key", "value"],
+        },
+    },
+};
+
+/**
+ * Check if a prompt has store template expressions
+ * @internal
+ * @param text - The prompt
+ * @returns {boolean} True if the prompt reads the shared store or the step input
+ */
+export function hasStoreTemplate(text: string): boolean {
+    return new RegExp(STORE_EXPRESSION.source).test(text);
+}
+
+/**
+ * Render the store templates of a prompt
+ * `{{store.key}}` reads a value of the shared store and `{{input}}` the input of the step. Strings are inserted as
+ * they are, other values as JSON, and missing values as empty text.
+ * @internal
+ * @param text - The prompt
+ * @param store - The shared store of the workflow
+ * @param input - The input of the step
+ * @returns {string} The rendered prompt, the prompt itself when it has no store templates
+ */
+export function renderStoreTemplate(text: string, store: Map<string, unknown>, input: unknown): string {
+    return text.replace(STORE_EXPRESSION, (_expression, path: string) => {
+        const [root, ...keys] = path.split(".");
+        let value: unknown = root === "input" ? input : Object.fromEntries(store.entries());
+        for (const key of keys) {
+            value = value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined;
+        }
+        return formatValue(value);
+    });
+}
+
+/**
+ * Prepare an agent to run in a workflow step
+ * Agents with store templates in their prompts or with the store_set tool run on a clone that has the rendered
+ * prompts and the tool bound to the shared store; other agents run as they are.
+ * @internal
+ * @param agent - The agent of the step
+ * @param store - The shared store of the workflow
+ * @param input - The input of the agent
+ * @returns {AgentForceAgent} The agent to execute
+ */
+export function prepareAgent(agent: AgentForceAgent, store: Map<string, unknown>, input: unknown): AgentForceAgent {
+    const systemPrompt = agent["getSystemPrompt"]?.() ?? "";
+    const userPrompt = agent["getUserPrompt"]?.() ?? "";
+    const usesStoreTool = agent["getTools"]?.().includes("store_set") ?? false;
+
+    if (!usesStoreTool && !hasStoreTemplate(systemPrompt) && !hasStoreTemplate(userPrompt)) {
+        return agent;
+    }
+
+    const copy = agent.clone();
+    copy["setSystemPrompt"](renderStoreTemplate(systemPrompt, store, input));
+    copy["setUserPrompt"](renderStoreTemplate(userPrompt, store, input));
+    if (usesStoreTool) {
+        copy["getCustomTools"]().store_set = createStoreSetTool(store);
+    }
+    return copy;
+}
+
+/**
+ * Create the store_set tool for a workflow store
+ * @param store - The shared store of the workflow, updated in place
+ * @returns The tool implementation
+ */
+export function createStoreSetTool(store: Map<string, unknown>): ToolImplementation {
+    return {
+        definition: storeSetDefinition,
+        execute: async (args: Record<string, unknown>): Promise<Record<string, unknown>> => {
+            const key = args.key;
+            if (typeof key !== "string" || !key.trim()) {
+                return { success: false, error: "The key must be a non-empty string" };
+            }
+
+            store.set(key, parseValue(args.value));
+            return { success: true, key };
+        },
+    };
+}
+
+/**
+ * Format a value for a prompt
+ * @internal
+ */
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null) {
+        return "";
+    }
+    return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+/**
+ * Parse JSON values sent as strings, other text is stored as it is
+ * @internal
+ */
+function parseValue(value: unknown): unknown {
+    if (typeof value !== "string") {
+        return value;
+    }
+    try {
+        return JSON.parse(value);
+    } catch {
+        return value;
+    }
+}
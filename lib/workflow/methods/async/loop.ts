@@ -1,21 +1,82 @@
-import type { AgentForceWorkflow } from "../../../workflow";
+import type { AgentForceWorkflow, WorkflowLoopHandle, WorkflowLoopOptions } from "../../../workflow";
 
 /**
- * Runs the entire workflow in an infinite loop.
+ * Runs the entire workflow in a loop until it is stopped or maxIterations is reached.
  *
  * @param this - The AgentForceWorkflow instance.
  * @param delayInMs - The delay between loop iterations.
+ * @param options - Loop options, without maxIterations the loop runs until stop() is called.
+ * @returns A handle to stop the loop and inspect the iteration count and the last result.
  */
-export function loop(this: AgentForceWorkflow, delayInMs: number = 0): void {
+export function loop(this: AgentForceWorkflow, delayInMs: number = 0, options: WorkflowLoopOptions = {}): WorkflowLoopHandle {
     const logger = this.getLogger();
+    const { maxIterations } = options;
+    if (maxIterations !== undefined && (!Number.isInteger(maxIterations) || maxIterations < 1)) {
+        throw new Error("maxIterations must be a positive integer");
+    }
+
     logger.info(`Starting workflow loop with delay: ${delayInMs}ms`);
-    const runLoop = async () => {
+
+    let stopped = false;
+    let iterations = 0;
+    let lastResult: unknown;
+    let lastError: unknown;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let resolveDone: () => void = () => {};
+    const done = new Promise<void>(resolve => {
+        resolveDone = resolve;
+    });
+
+    const finish = (): void => {
+        stopped = true;
+        logger.info(`Workflow loop finished after ${iterations} iteration(s)`);
+        resolveDone();
+    };
+
+    const runLoop = async (): Promise<void> => {
+        timer = undefined;
         try {
-            await this.run();
+            lastResult = await this.run();
+            lastError = undefined;
         } catch (error) {
+            lastError = error;
             logger.error({ message: "Workflow loop iteration failed.", error: (error as Error).message });
         }
-        setTimeout(runLoop, delayInMs);
+        iterations++;
+
+        // stop() during a run finishes the loop once the run settles
+        if (stopped || (maxIterations !== undefined && iterations >= maxIterations)) {
+            finish();
+            return;
+        }
+        timer = setTimeout(runLoop, delayInMs);
     };
     runLoop();
-}
\ No newline at end of file
+
+    return {
+        stop: (): void => {
+            if (stopped) {
+                return;
+            }
+            stopped = true;
+            if (timer !== undefined) {
+                clearTimeout(timer);
+                timer = undefined;
+                finish();
+            }
+        },
+        get running(): boolean {
+            return !stopped;
+        },
+        get iterations(): number {
+            return iterations;
+        },
+        get lastResult(): unknown {
+            return lastResult;
+        },
+        get lastError(): unknown {
+            return lastError;
+        },
+        done,
+    };
+}
@@ -0,0 +1,51 @@
+import type { AgentForceWorkflow, WorkflowResumeOptions, WorkflowRunResult } from "../../../workflow";
+import { buildRunResult, executeRun } from "./run";
+
+/**
+ * Continues a failed or interrupted workflow run from its last checkpoint.
+ * The shared store, agent outputs and dispatcher plan are restored, completed steps and dispatched tasks are skipped.
+ * The workflow must be built with the same steps as the checkpointed run.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param runId - The id of the run to resume, as returned by `run()` and logged when it started.
+ * @param options - Resume options, e.g. a signal to cancel the run.
+ * @returns The result of the run, see `run()`.
+ */
+export async function resume(this: AgentForceWorkflow, runId: string, options: WorkflowResumeOptions = {}): Promise<WorkflowRunResult> {
+    const logger = this.getLogger();
+    const store = this.checkpointStore;
+    if (!store) {
+        throw new Error("resume() needs a checkpoint store, call checkpoint() first");
+    }
+
+    const state = await store.load(runId);
+    if (!state) {
+        throw new Error(`No checkpoint found for run "${runId}"`);
+    }
+
+    const stepCount = this.executionPlan.length;
+    if (state.stepCount !== stepCount) {
+        throw new Error(`Checkpoint of run "${runId}" has ${state.stepCount} steps, but the workflow has ${stepCount}`);
+    }
+
+    // Restore the state the completed steps left behind
+    this.setUserPrompt(state.userPrompt);
+    this.internalSharedStore.clear();
+    for (const [key, value] of Object.entries(state.sharedStore)) {
+        this.internalSharedStore.set(key, value);
+    }
+    for (const entry of this.agents) {
+        const outputs = state.agentOutputs[entry.name] ?? [];
+        entry.outputs.splice(0, entry.outputs.length, ...outputs.map(saved => ({ timestamp: new Date(saved.timestamp), output: saved.output })));
+    }
+
+    if (state.status === "completed") {
+        logger.info({ message: "Workflow run is already completed.", runId });
+        return buildRunResult.call(this, state);
+    }
+
+    logger.info({ message: `Resuming workflow run at step ${state.completedSteps + 1} of ${stepCount}.`, runId, completedSteps: state.completedSteps });
+    state.status = "running";
+    delete state.error;
+    return executeRun.call(this, state, options.signal);
+}
@@ -1,5 +1,179 @@
-import type { AgentForceWorkflow, ExecutionStep } from "../../../workflow";
+import { randomUUID } from "crypto";
+import type { AgentForceWorkflow, DispatchedTask, ExecutionStep, SettledOutput, WorkflowCheckpoint, WorkflowRouter, WorkflowRunOptions, WorkflowRunResult } from "../../../workflow";
 import type { AgentForceAgent } from "../../../agent";
+import type { RetryAttempt } from "../../../types";
+import { withRetry, type RetryEvent } from "../../../utils/retry";
+import { abortable, withTimeout } from "../../../utils/abort";
+import { mapWithConcurrency } from "../../../utils/concurrency";
+import { buildDispatcherPrompt, buildTaskPrompt, parseExecutionList } from "../../functions/dispatcher";
+import { buildRouterPrompt, matchRouteLabel } from "../../functions/router";
+import { prepareAgent, renderStoreTemplate } from "../../functions/store";
+
+/**
+ * Where the retries of the current step or dispatched task are recorded, and the signal that cancels it.
+ */
+interface RetryContext {
+    retries: RetryAttempt[];
+    step?: number;
+    taskId?: string;
+    signal?: AbortSignal;
+    /** Whether the step has a retry policy, its agents then fail the attempt on provider error answers */
+    stepRetry?: boolean;
+}
+
+/**
+ * Records a failed attempt that is retried and logs it.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param context - The retry context of the step or task.
+ * @param event - The failed attempt.
+ * @param agent - The name of the agent whose retry policy applies, not set for step retries.
+ */
+function recordRetry(this: AgentForceWorkflow, context: RetryContext, event: RetryEvent, agent?: string): void {
+    const attempt: RetryAttempt = {
+        ...(context.step !== undefined && { step: context.step }),
+        ...(agent && { agent }),
+        ...(context.taskId && { taskId: context.taskId }),
+        attempt: event.attempt,
+        error: event.error instanceof Error ? event.error.message : String(event.error),
+        delayMs: event.delayMs,
+        timestamp: new Date().toISOString(),
+    };
+    context.retries.push(attempt);
+
+    const target = agent ? `Agent '${agent}'` : `Step ${context.step}`;
+    this.getLogger().warn({ message: `${target} failed on attempt ${event.attempt} of ${event.maxAttempts}, retrying in ${event.delayMs} ms.`, ...attempt });
+}
+
+/**
+ * Providers answer with `Error: <Provider> provider error - <message>` instead of throwing when a call fails.
+ */
+const PROVIDER_ERROR_ANSWER = /^Error: (\w[\w ]* provider error - [\s\S]*)$/;
+
+/**
+ * Runs an agent execution with the retry policy of the agent.
+ * When the agent or the step has a retry policy, provider error answers are thrown, so they are retried and reach
+ * onFail like other errors. Without a retry policy they are passed on as the output of the agent.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param agent - The agent.
+ * @param context - The retry context of the step or task.
+ * @param operation - The execution of the agent.
+ * @returns The output of the agent.
+ */
+function executeAgent(this: AgentForceWorkflow, agent: AgentForceAgent, context: RetryContext, operation: () => Promise<string>): Promise<string> {
+    const policy = agent["getRetryPolicy"]?.();
+    const failOnProviderError = policy !== undefined || context.stepRetry === true;
+    const attempt = async (): Promise<string> => {
+        const output = await operation();
+        const providerError = failOnProviderError && typeof output === "string" ? PROVIDER_ERROR_ANSWER.exec(output) : null;
+        if (providerError) {
+            throw new Error(providerError[1]);
+        }
+        return output;
+    };
+    return withRetry(attempt, policy, event => recordRetry.call(this, context, event, agent["getName"]()), context.signal);
+}
+
+/**
+ * Executes an agent with the output of the previous step as input.
+ * Agents run on their own prompts, the input is passed on as it is, e.g. the outputs of a parallel step.
+ *
+ * @param agent - The agent.
+ * @param input - The input of the agent.
+ * @param signal - Cancels the execution.
+ * @returns The output of the agent.
+ */
+function executeWithInput(agent: AgentForceAgent, input: unknown, signal: AbortSignal | undefined): Promise<string> {
+    return agent["execute"](input as string, { signal });
+}
+
+/**
+ * Executes agents one after another, passing each output to the next agent.
+ * This is a helper function for sequence, branch, route and repeatUntil steps.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param agents - The agents to execute.
+ * @param input - The input for the first agent.
+ * @param context - The retry context of the step.
+ * @returns The output of the last agent, or the input when there are no agents.
+ */
+async function executeAgents(this: AgentForceWorkflow, agents: AgentForceAgent[], input: unknown, context: RetryContext): Promise<unknown> {
+    const logger = this.getLogger();
+    let sequenceInput = input;
+    for (const agent of agents) {
+        logger.info({ message: `Executing agent '${agent["getName"]()}' in sequence.` });
+        const agentInput = sequenceInput;
+        sequenceInput = await executeAgent.call(this, agent, context, () => executeWithInput(prepareAgent(agent, this.internalSharedStore, agentInput), agentInput, context.signal));
+    }
+    return sequenceInput;
+}
+
+/**
+ * Executes an agent for each input within the concurrency limit of the step.
+ * Every attempt runs on a clone of the agent unless the step disables isolation, so concurrent executions do not share chat history.
+ * In settle mode every failure is collected as a rejected output, unless the step was cancelled.
+ * This is a helper function for parallel and iterate steps.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param step - The parallel or iterate step.
+ * @param runs - The agent and input of each execution.
+ * @param context - The retry context of the step.
+ * @returns The outputs in the order of the executions.
+ */
+function executeConcurrently(
+    this: AgentForceWorkflow,
+    step: ExecutionStep,
+    runs: Array<{ agent: AgentForceAgent; input: unknown }>,
+    context: RetryContext,
+): Promise<Array<string | SettledOutput>> {
+    return mapWithConcurrency(runs, step.concurrency, async ({ agent, input }): Promise<string | SettledOutput> => {
+        const executionAgent = (): AgentForceAgent => prepareAgent(step.isolate === false ? agent : agent.clone?.() ?? agent, this.internalSharedStore, input);
+        const execution = executeAgent.call(this, agent, context, () => executeWithInput(executionAgent(), input, context.signal));
+        if (!step.settle) {
+            return execution;
+        }
+        let settled: SettledOutput;
+        try {
+            settled = { status: "fulfilled", output: await execution };
+        } catch (error) {
+            if (context.signal?.aborted) {
+                throw error;
+            }
+            this.getLogger().warn({ message: `Agent '${agent["getName"]()}' failed, continuing with the other agents of the step.`, error: String(error) });
+            settled = { status: "rejected", error: error instanceof Error ? error.message : String(error) };
+        }
+        return settled;
+    });
+}
+
+/**
+ * Asks the router of a route step for a label.
+ * This is a helper function for route steps.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param router - The router agent or function.
+ * @param labels - The route labels.
+ * @param fallback - The label to use when the router answer matches no label.
+ * @param input - The output of the previous step.
+ * @param context - The retry context of the step.
+ * @returns The selected label.
+ */
+async function selectRoute(this: AgentForceWorkflow, router: WorkflowRouter, labels: string[], fallback: string | undefined, input: unknown, context: RetryContext): Promise<string> {
+    let answer: string;
+    if (typeof router === "function") {
+        answer = String(await router(input, Object.fromEntries(this.internalSharedStore.entries())));
+    } else {
+        router.prompt(buildRouterPrompt(input, labels));
+        answer = await executeAgent.call(this, router, context, () => router["execute"](undefined, { signal: context.signal }));
+    }
+
+    const label = matchRouteLabel(answer, labels) ?? fallback;
+    if (!label) {
+        throw new Error(`Router returned unknown label "${answer}". Expected one of: ${labels.join(", ")}`);
+    }
+    return label;
+}
 
 /**
  * Executes a single step in the workflow's execution plan.
@@ -8,66 +182,28 @@ import type { AgentForceAgent } from "../../../agent";
  * @param this - The AgentForceWorkflow instance.
  * @param step - The execution step to process.
  * @param input - The input for the current step, often the output of the previous step.
+ * @param context - The retry context of the step.
  * @returns The output of the executed step.
  */
-async function executeStep(this: AgentForceWorkflow, step: ExecutionStep, input: any): Promise<any> {
+async function executeStep(this: AgentForceWorkflow, step: ExecutionStep, input: unknown, context: RetryContext): Promise<unknown> {
     const logger = this.getLogger();
     logger.debug({ message: `Executing step: ${step.type}`, input });
-    let output: any;
+    let output: unknown;
     let success = true;
 
     try {
-        switch (step.type) {
-            case "prompt":
-                this.setUserPrompt(step.payload);
-                output = step.payload; // Pass the prompt content as output
-                break;
-
-            case "sequence":
-                let sequenceInput = input;
-                const sequenceAgents = step.payload as AgentForceAgent[];
-                for (const agent of sequenceAgents) {
-                    logger.info({ message: `Executing agent '${agent["getName"]()}' in sequence.` });
-                    sequenceInput = await agent["execute"](sequenceInput);
-                }
-                output = sequenceInput;
-                break;
-
-            case "parallel":
-                const parallelAgents = step.payload as AgentForceAgent[];
-                logger.info({ message: `Executing ${parallelAgents.length} agents in parallel.` });
-                const parallelPromises = parallelAgents.map(agent => agent["execute"](input));
-                output = await Promise.all(parallelPromises);
-                break;
-
-            case "iterate":
-                const { items, agent } = step.payload;
-                let itemList: any[] = [];
-
-                if (typeof items === "string") {
-                    itemList = this.getSharedStoreItem(items);
-                    if (!Array.isArray(itemList)) {
-                        logger.error(`Shared store key "${items}" for iteration does not contain an array.`);
-                        return `Error: Shared store key "${items}" for iteration does not contain an array.`;
-                    }
-                } else {
-                    itemList = items;
-                }
-                
-                logger.info({ message: `Iterating over ${itemList.length} items with agent '${agent["getName"]()}'.` });
-                const iterationPromises = itemList.map(item => agent["execute"](item));
-                output = await Promise.all(iterationPromises);
-                break;
-        }
+        output = await withRetry(() => runStepAttempt.call(this, step, input, { ...context, stepRetry: step.retry !== undefined }), step.retry, event => recordRetry.call(this, context, event), context.signal);
     } catch (error) {
         success = false;
         output = error;
         logger.error({ message: `Step ${step.type} failed`, error: (error as Error).message, stack: (error as Error).stack });
         
-        if (step.onFail) {
+        // A cancelled run stops without running the onFail handler
+        if (step.onFail && !context.signal?.aborted) {
             logger.warn({ message: `Executing onFail handler for step: ${step.type}` });
             // The input to the onFail handler is the error message
-            return await step.onFail["execute"]((error as Error).message);
+            const failInput = (error as Error).message;
+            return await executeWithInput(prepareAgent(step.onFail, this.internalSharedStore, failInput), failInput, context.signal);
         } else {
             // Re-throw if there's no onFail handler to stop the workflow
             throw error;
@@ -77,37 +213,333 @@ async function executeStep(this: AgentForceWorkflow, step: ExecutionStep, input:
     if (success && step.onSuccess) {
         logger.info({ message: `Executing onSuccess handler for step: ${step.type}` });
         // The input to the onSuccess handler is the output of the successful step
-        return await step.onSuccess["execute"](output);
+        return await executeWithInput(prepareAgent(step.onSuccess, this.internalSharedStore, output), output, context.signal);
+    }
+
+    return output;
+}
+
+/**
+ * Runs a single attempt of a step within the timeout of the step.
+ * Agents of the step are aborted with a {@link TimeoutError} when the attempt takes longer.
+ * This is a helper function for `executeStep`.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param step - The execution step to process.
+ * @param input - The input for the current step.
+ * @param context - The retry context of the step.
+ * @returns The output of the step.
+ */
+async function runStepAttempt(this: AgentForceWorkflow, step: ExecutionStep, input: unknown, context: RetryContext): Promise<unknown> {
+    const { signal, clear } = withTimeout(context.signal, step.timeoutMs, `Step ${context.step ?? step.type}`);
+    try {
+        return await abortable(runStep.call(this, step, input, { ...context, signal }), signal);
+    } finally {
+        clear();
+    }
+}
+
+/**
+ * Runs a single attempt of a step.
+ * This is a helper function for `runStepAttempt`.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param step - The execution step to process.
+ * @param input - The input for the current step.
+ * @param context - The retry context of the step.
+ * @returns The output of the step.
+ */
+async function runStep(this: AgentForceWorkflow, step: ExecutionStep, input: unknown, context: RetryContext): Promise<unknown> {
+    const logger = this.getLogger();
+    let output: unknown;
+
+    switch (step.type) {
+        case "prompt": {
+            // Store templates like {{store.topic}} are rendered when the step runs
+            const promptText = renderStoreTemplate(step.payload, this.internalSharedStore, input);
+            this.setUserPrompt(promptText);
+            output = promptText; // Pass the prompt content as output
+            break;
+        }
+
+        case "sequence":
+            output = await executeAgents.call(this, step.payload as AgentForceAgent[], input, context);
+            break;
+
+        case "parallel":
+            const parallelAgents = step.payload as AgentForceAgent[];
+            logger.info({ message: `Executing ${parallelAgents.length} agents in parallel.`, ...(step.concurrency && { concurrency: step.concurrency }) });
+            output = await executeConcurrently.call(this, step, parallelAgents.map(agent => ({ agent, input })), context);
+            break;
+
+        case "iterate":
+            const { items, agent } = step.payload;
+            let itemList: unknown[] = [];
+
+            if (typeof items === "string") {
+                itemList = this.getSharedStoreItem(items);
+                if (!Array.isArray(itemList)) {
+                    logger.error(`Shared store key "${items}" for iteration does not contain an array.`);
+                    return `Error: Shared store key "${items}" for iteration does not contain an array.`;
+                }
+            } else {
+                itemList = items;
+            }
+                
+            logger.info({ message: `Iterating over ${itemList.length} items with agent '${agent["getName"]()}'.`, ...(step.concurrency && { concurrency: step.concurrency }) });
+            output = await executeConcurrently.call(this, step, itemList.map(item => ({ agent, input: item })), context);
+            break;
+
+        case "branch": {
+            const { predicate, thenAgents, elseAgents } = step.payload;
+            const condition = await predicate(input, Object.fromEntries(this.internalSharedStore.entries()));
+            const branchAgents: AgentForceAgent[] = condition ? thenAgents : elseAgents;
+            logger.info({ message: `Branch condition is ${Boolean(condition)}, executing ${branchAgents.length} agent(s).` });
+            output = await executeAgents.call(this, branchAgents, input, context);
+            break;
+        }
+
+        case "repeatUntil": {
+            const { agents, condition, maxIterations } = step.payload;
+            let iterationOutput = input;
+            let iteration = 0;
+            let conditionMet = false;
+            while (!conditionMet && iteration < maxIterations) {
+                iteration++;
+                logger.info({ message: `Repeat iteration ${iteration} of at most ${maxIterations}.` });
+                iterationOutput = await executeAgents.call(this, agents, iterationOutput, context);
+                conditionMet = Boolean(await condition(iterationOutput, Object.fromEntries(this.internalSharedStore.entries()), iteration));
+            }
+            if (!conditionMet) {
+                logger.warn({ message: `Repeat condition not met after ${maxIterations} iterations, continuing with the last output.` });
+            }
+            output = iterationOutput;
+            break;
+        }
+
+        case "route": {
+            const { router, routes, fallback } = step.payload;
+            const label = await selectRoute.call(this, router, Object.keys(routes), fallback, input, context);
+            logger.info({ message: `Routing to '${label}'.` });
+            output = await executeAgents.call(this, routes[label], input, context);
+            break;
+        }
     }
 
     return output;
 }
 
+/**
+ * Lets the dispatcher agent plan the user prompt and runs each planned task on its assigned agent.
+ * Tasks planned by an earlier attempt of the run are not planned again, and tasks with an output are skipped.
+ * This is a helper function for the main `run` function.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param dispatcherAgent - The dispatcher agent.
+ * @param userPrompt - The user prompt to plan.
+ * @param plannedTasks - The tasks of an earlier attempt of the run, if any.
+ * @param retries - Where the retries of the dispatcher and the assigned agents are recorded.
+ * @param signal - Cancels the planning and the running task.
+ * @param onProgress - Called with the tasks after planning and after every completed task.
+ * @returns The planned tasks with the output of their agents.
+ */
+async function dispatch(
+    this: AgentForceWorkflow,
+    dispatcherAgent: AgentForceAgent,
+    userPrompt: string,
+    plannedTasks: DispatchedTask[] | undefined,
+    retries: RetryAttempt[],
+    signal: AbortSignal | undefined,
+    onProgress: (tasks: DispatchedTask[]) => Promise<void>,
+): Promise<DispatchedTask[]> {
+    const logger = this.getLogger();
+
+    if (this.agents.length === 0) {
+        throw new Error("The dispatcher needs registered agents to plan the work, call registerAgent() first");
+    }
+
+    let tasks = plannedTasks;
+    if (!tasks) {
+        const team = this.agents.map(entry => ({
+            name: entry.name,
+            systemPrompt: entry.agent["getSystemPrompt"](),
+            tools: this.agentToolRegistry.get(entry.name) ?? entry.tools,
+        }));
+        // The planning prompts go to a clone, so the registered dispatcher keeps its own prompts across runs
+        const planner = dispatcherAgent.clone();
+        planner["setSystemPrompt"](buildDispatcherPrompt(team));
+        planner.prompt(userPrompt);
+
+        logger.info({ message: `Dispatcher '${dispatcherAgent["getName"]()}' is planning the workflow.` });
+        const plan = await executeAgent.call(this, planner, { retries, signal }, () => planner["execute"](undefined, { signal }));
+        tasks = parseExecutionList(plan, team.map(member => member.name));
+        logger.info({
+            message: `Dispatcher planned ${tasks.length} task(s).`,
+            tasks: tasks.map(task => ({ taskId: task.taskId, assignedAgent: task.assignedAgent })),
+        });
+        await onProgress(tasks);
+    }
+
+    const completedTasks = tasks.filter(task => task.output !== undefined);
+    for (const task of tasks) {
+        if (task.output !== undefined) {
+            continue;
+        }
+
+        const entry = this.agents.find(registered => registered.name === task.assignedAgent);
+        if (!entry) {
+            throw new Error(`Dispatched task "${task.taskId}" is assigned to agent "${task.assignedAgent}", which is not registered`);
+        }
+        logger.info({ message: `Executing task '${task.taskId}' with agent '${entry.name}'.` });
+
+        // Each agent sees the original request and the results of the tasks before it
+        entry.agent.prompt(buildTaskPrompt(userPrompt, task, completedTasks));
+        task.output = await executeAgent.call(this, entry.agent, { retries, taskId: task.taskId, signal }, () => entry.agent["execute"](undefined, { signal }));
+        entry.outputs.push({ timestamp: new Date(), output: task.output });
+        completedTasks.push(task);
+        await onProgress(tasks);
+    }
+
+    return tasks;
+}
+
+/**
+ * Builds the result of a workflow run.
+ *
+ * @internal
+ * @param this - The AgentForceWorkflow instance.
+ * @param state - The run state.
+ * @returns An object containing the final output and the state of the shared store, plus the dispatched tasks, the retried attempts and the run id when set.
+ */
+export function buildRunResult(this: AgentForceWorkflow, state: WorkflowCheckpoint): WorkflowRunResult {
+    return {
+        finalOutput: state.lastOutput,
+        sharedStore: Object.fromEntries(this.internalSharedStore.entries()),
+        ...(state.dispatchedTasks && { dispatchedTasks: state.dispatchedTasks }),
+        ...(state.retries && state.retries.length > 0 && { retries: state.retries }),
+        ...(this.checkpointStore && { runId: state.runId }),
+    };
+}
+
+/**
+ * Executes a workflow run from its state, skipping the dispatched tasks and steps it already completed.
+ * With a checkpoint store, the state is saved after planning, after every task and step, and when the run ends.
+ *
+ * @internal
+ * @param this - The AgentForceWorkflow instance.
+ * @param state - The run state, a new one or a checkpoint to resume.
+ * @param signal - Cancels the run, the run is saved as failed and can be resumed.
+ * @returns The result of the run, see {@link run}.
+ */
+export async function executeRun(this: AgentForceWorkflow, state: WorkflowCheckpoint, signal?: AbortSignal): Promise<WorkflowRunResult> {
+    const logger = this.getLogger();
+    const store = this.checkpointStore;
+    const dispatcherAgent = this.dispatcherAgent;
+    const executionPlan = this.executionPlan ?? [];
+
+    const saveCheckpoint = async (): Promise<void> => {
+        if (!store) {
+            return;
+        }
+        state.sharedStore = Object.fromEntries(this.internalSharedStore.entries());
+        state.agentOutputs = Object.fromEntries(this.agents.map(entry => [
+            entry.name,
+            entry.outputs.map(agentOutput => ({ timestamp: agentOutput.timestamp.toISOString(), output: agentOutput.output })),
+        ]));
+        state.updatedAt = new Date().toISOString();
+        await store.save(state);
+        logger.debug({ message: "Workflow checkpoint saved.", runId: state.runId, status: state.status, completedSteps: state.completedSteps });
+    };
+
+    const retries = state.retries ??= [];
+    let lastOutput: unknown = state.lastOutput;
+    try {
+        signal?.throwIfAborted();
+        await saveCheckpoint();
+
+        if (dispatcherAgent) {
+            state.dispatchedTasks = await dispatch.call(this, dispatcherAgent, state.userPrompt, state.dispatchedTasks, retries, signal, async tasks => {
+                state.dispatchedTasks = tasks;
+                if (state.completedSteps === 0) {
+                    state.lastOutput = tasks.filter(task => task.output !== undefined).at(-1)?.output;
+                }
+                await saveCheckpoint();
+            });
+            if (state.completedSteps === 0) {
+                lastOutput = state.dispatchedTasks.at(-1)?.output;
+            }
+        }
+
+        for (let index = state.completedSteps; index < executionPlan.length; index++) {
+            signal?.throwIfAborted();
+            const step = executionPlan[index]!;
+            lastOutput = await executeStep.call(this, step, lastOutput, { retries, step: index + 1, signal });
+            if (step.outputKey) {
+                this.internalSharedStore.set(step.outputKey, lastOutput);
+            }
+            state.stepOutputs[index] = lastOutput;
+            state.completedSteps = index + 1;
+            state.lastOutput = lastOutput;
+            await saveCheckpoint();
+        }
+    } catch (error) {
+        state.status = "failed";
+        state.error = error instanceof Error ? error.message : String(error);
+        await saveCheckpoint();
+        throw error;
+    }
+
+    state.status = "completed";
+    state.lastOutput = lastOutput;
+    delete state.error;
+    await saveCheckpoint();
+
+    logger.info({ message: "Workflow execution finished." });
+
+    return buildRunResult.call(this, state);
+}
+
 /**
  * Executes the workflow by processing the execution plan step by step.
+ * When a dispatcher is set, it first plans the user prompt into tasks for the registered agents and runs them;
+ * the output of the last task is the input of the execution plan.
+ * With a checkpoint store, progress is saved under the run id so a failed run can continue with `resume(runId)`.
  *
  * @param this - The AgentForceWorkflow instance.
- * @returns An object containing the final output and the state of the shared store.
+ * @param options - Run options, e.g. a custom run id for checkpoints or a signal to cancel the run.
+ * @returns An object containing the final output and the state of the shared store, plus the dispatched tasks when a dispatcher is set,
+ * the retried attempts when steps or agents were retried and the run id when checkpoints are enabled.
  */
-export async function run(this: AgentForceWorkflow): Promise<any> {
+export async function run(this: AgentForceWorkflow, options: WorkflowRunOptions = {}): Promise<WorkflowRunResult> {
     const logger = this.getLogger();
     logger.info({ message: "Running workflow...", name: this.getName() });
 
-    if (!this.executionPlan || this.executionPlan.length === 0) {
+    const hasExecutionPlan = !!this.executionPlan && this.executionPlan.length > 0;
+
+    if (!hasExecutionPlan && !this.dispatcherAgent) {
         logger.warn({ message: "Execution plan is empty. Nothing to run." });
         return { finalOutput: undefined, sharedStore: Object.fromEntries(this.internalSharedStore.entries()) };
     }
 
-    let lastOutput: any = this.getUserPrompt();
+    const userPrompt = this.getUserPrompt();
+    const state: WorkflowCheckpoint = {
+        runId: options.runId ?? randomUUID(),
+        workflowName: this.getName(),
+        status: "running",
+        userPrompt,
+        stepCount: this.executionPlan?.length ?? 0,
+        completedSteps: 0,
+        stepOutputs: [],
+        lastOutput: userPrompt,
+        sharedStore: {},
+        agentOutputs: {},
+        retries: [],
+        updatedAt: new Date().toISOString(),
+    };
 
-    for (const step of this.executionPlan) {
-        lastOutput = await executeStep.call(this, step, lastOutput);
+    if (this.checkpointStore) {
+        logger.info({ message: "Saving workflow checkpoints.", runId: state.runId });
     }
 
-    logger.info({ message: "Workflow execution finished." });
-
-    return { 
-        finalOutput: lastOutput, 
-        sharedStore: Object.fromEntries(this.internalSharedStore.entries()), 
-    };
+    return executeRun.call(this, state, options.signal);
 }
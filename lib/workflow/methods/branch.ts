@@ -0,0 +1,25 @@
+import type { AgentForceWorkflow, WorkflowPredicate } from "../../workflow";
+import type { AgentForceAgent } from "../../agent";
+
+/**
+ * Adds a 'branch' step to the execution plan.
+ * The predicate decides which agents run in sequence; without else agents the input passes through unchanged.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param predicate - Function of the previous output and the shared store.
+ * @param thenAgents - The agents to execute in sequence when the predicate is true.
+ * @param elseAgents - The agents to execute in sequence when the predicate is false.
+ * @returns The AgentForceWorkflow instance for method chaining.
+ */
+export function branch(
+    this: AgentForceWorkflow,
+    predicate: WorkflowPredicate,
+    thenAgents: AgentForceAgent[],
+    elseAgents: AgentForceAgent[] = [],
+): AgentForceWorkflow {
+    if (typeof predicate !== "function") {
+        throw new Error("Branch predicate must be a function");
+    }
+    this.executionPlan.push({ type: "branch", description: "Execute agents based on a condition", payload: { predicate, thenAgents, elseAgents } });
+    return this;
+}
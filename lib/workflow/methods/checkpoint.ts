@@ -0,0 +1,18 @@
+import type { AgentForceWorkflow, CheckpointStore } from "../../workflow";
+import { FileCheckpointStore } from "../checkpoints/fileCheckpointStore";
+
+/**
+ * Enables durable checkpoints for the workflow.
+ * Every run saves its progress after each step, so a failed or interrupted run can continue with `resume(runId)`.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param store - The checkpoint store, a {@link FileCheckpointStore} in ".agentforce/checkpoints" by default.
+ * @returns The AgentForceWorkflow instance for method chaining.
+ */
+export function checkpoint(this: AgentForceWorkflow, store: CheckpointStore = new FileCheckpointStore()): AgentForceWorkflow {
+    if (typeof store?.save !== "function" || typeof store.load !== "function") {
+        throw new Error("Checkpoint store must implement save() and load()");
+    }
+    this.checkpointStore = store;
+    return this;
+}
@@ -0,0 +1,165 @@
+import { isDeepStrictEqual } from "util";
+import type { AgentForceWorkflow, WorkflowPredicate } from "../../workflow";
+import { AgentForceAgent } from "../../agent";
+import type { AgentForceLogger } from "../../types";
+import {
+    readWorkflowDefinition,
+    type WorkflowAgentDefinition,
+    type WorkflowConditionDefinition,
+    type WorkflowStepDefinition,
+} from "../functions/definition";
+
+/**
+ * Creates a workflow from a YAML or JSON definition file.
+ * The file defines the agents by name and the steps that run them; the definition is validated before
+ * anything is built, and errors list every problem with its line and column.
+ *
+ * @param this - The AgentForceWorkflow class.
+ * @param filePath - Path of the definition file, relative to the current working directory.
+ * @returns The new AgentForceWorkflow instance.
+ * @throws {WorkflowDefinitionError} If the file cannot be read, parsed or is invalid.
+ *
+ * @example
+ * ```yaml
+ * name: SupportFlow
+ * store:
+ *   tone: friendly
+ * agents:
+ *   - name: Classifier
+ *     provider: ollama
+ *     model: gemma3:4b
+ *     systemPrompt: Answer with one word, billing or technical
+ *   - name: Billing
+ *     systemPrompt: "Answer billing questions in a {{store.tone}} tone"
+ * steps:
+ *   - prompt: "{{input}}"
+ *   - route:
+ *       router: Classifier
+ *       routes:
+ *         billing: [Billing]
+ * ```
+ *
+ * ```ts
+ * const workflow = AgentForceWorkflow.fromFile("flows/support.yaml");
+ * await workflow.run();
+ * ```
+ */
+export function fromFile(this: typeof AgentForceWorkflow, filePath: string): AgentForceWorkflow {
+    const definition = readWorkflowDefinition(filePath);
+    const workflow = new this({ name: definition.name });
+    const logger = workflow.getLogger();
+
+    const agents = new Map<string, AgentForceAgent>();
+    for (const agentDefinition of definition.agents ?? []) {
+        agents.set(agentDefinition.name, createAgent(agentDefinition, logger));
+    }
+    // Names are checked during validation
+    const pick = (names: string[] = []): AgentForceAgent[] => names.map(name => agents.get(name) as AgentForceAgent);
+
+    if (definition.prompt !== undefined) {
+        workflow.prompt(definition.prompt);
+    }
+    for (const [key, value] of Object.entries(definition.store ?? {})) {
+        workflow.sharedStore(key, value);
+    }
+    for (const step of definition.steps) {
+        addStep(workflow, step, pick);
+    }
+
+    logger.info({ message: `Loaded workflow '${definition.name}' from ${filePath}`, agents: agents.size, steps: definition.steps.length });
+    return workflow;
+}
+
+/**
+ * Create an agent of a definition file
+ * @internal
+ */
+function createAgent(definition: WorkflowAgentDefinition, logger: AgentForceLogger): AgentForceAgent {
+    const agent = new AgentForceAgent({
+        name: definition.name,
+        tools: definition.tools,
+        skills: definition.skills,
+        mcps: definition.mcps,
+        assetPath: definition.assetPath,
+        logger,
+    });
+
+    if (definition.provider !== undefined || definition.model !== undefined || definition.modelConfig !== undefined) {
+        agent.useLLM(definition.provider, definition.model, definition.modelConfig);
+    }
+    if (definition.systemPrompt !== undefined) {
+        agent.systemPrompt(definition.systemPrompt);
+    }
+    if (definition.prompt !== undefined) {
+        agent.prompt(definition.prompt);
+    }
+    if (definition.retry !== undefined) {
+        agent.retry(definition.retry);
+    }
+    return agent;
+}
+
+/**
+ * Add a step of a definition file and its modifiers to the workflow
+ * @internal
+ */
+function addStep(workflow: AgentForceWorkflow, step: WorkflowStepDefinition, pick: (names?: string[]) => AgentForceAgent[]): void {
+    const options = {
+        ...(step.concurrency !== undefined && { concurrency: step.concurrency }),
+        ...(step.settle !== undefined && { settle: step.settle }),
+        ...(step.isolate !== undefined && { isolate: step.isolate }),
+    };
+
+    if (step.prompt !== undefined) {
+        workflow["executionPlan"].push({ type: "prompt", description: "Set the prompt", payload: step.prompt });
+    } else if (step.sequence) {
+        workflow.sequence(pick(step.sequence));
+    } else if (step.parallel) {
+        workflow.parallel(pick(step.parallel), options);
+    } else if (step.iterate) {
+        const [agent] = pick([step.iterate.agent]);
+        workflow.iterate(step.iterate.items, agent as AgentForceAgent, options);
+    } else if (step.branch) {
+        workflow.branch(toPredicate(step.branch.if), pick(step.branch.then), pick(step.branch.else));
+    } else if (step.route) {
+        const routes = Object.fromEntries(Object.entries(step.route.routes).map(([label, names]) => [label, pick(names)]));
+        const [router] = pick([step.route.router]);
+        workflow.route(router as AgentForceAgent, routes, step.route.fallback);
+    } else if (step.repeatUntil) {
+        const condition = toPredicate(step.repeatUntil.until);
+        workflow.repeatUntil(pick(step.repeatUntil.agents), condition, { maxIterations: step.repeatUntil.maxIterations });
+    }
+
+    if (step.retry !== undefined) {
+        workflow.retry(step.retry);
+    }
+    if (step.timeout !== undefined) {
+        workflow.timeout(step.timeout);
+    }
+    if (step.outputKey !== undefined) {
+        workflow.outputKey(step.outputKey);
+    }
+    if (step.onSuccess !== undefined) {
+        workflow.onSuccess(pick([step.onSuccess])[0] as AgentForceAgent);
+    }
+    if (step.onFail !== undefined) {
+        workflow.onFail(pick([step.onFail])[0] as AgentForceAgent);
+    }
+}
+
+/**
+ * Turn a condition of a definition file into a predicate
+ * @internal
+ */
+function toPredicate(condition: WorkflowConditionDefinition): WorkflowPredicate {
+    return (output: unknown, sharedStore: Record<string, unknown>): boolean => {
+        const value = condition.store !== undefined ? sharedStore[condition.store] : output;
+        if ("equals" in condition) {
+            return isDeepStrictEqual(value, condition.equals);
+        }
+        if (condition.contains !== undefined) {
+            return String(value ?? "").includes(condition.contains);
+        }
+        return Boolean(value);
+    };
+}
\ No newline at end of file
@@ -1,5 +1,6 @@
-import type { AgentForceWorkflow } from "../../workflow";
+import type { AgentForceWorkflow, ParallelOptions } from "../../workflow";
 import type { AgentForceAgent } from "../../agent";
+import { assertConcurrency } from "../../utils/concurrency";
 
 /**
  * Adds an 'iterate' step to the execution plan.
@@ -7,9 +8,20 @@ import type { AgentForceAgent } from "../../agent";
  * @param this - The AgentForceWorkflow instance.
  * @param items - An array of items or a key to a list in the sharedStore.
  * @param agent - The agent to execute for each item.
+ * @param options - Concurrency limit, settle mode and agent isolation, all items run at once on clones of the agent and the first error fails the step by default.
  * @returns The AgentForceWorkflow instance for method chaining.
  */
-export function iterate(this: AgentForceWorkflow, items: any[] | string, agent: AgentForceAgent): AgentForceWorkflow {
-    this.executionPlan.push({ type: "iterate", description: "Iterate over items with agent", payload: { items, agent } });
+export function iterate(this: AgentForceWorkflow, items: unknown[] | string, agent: AgentForceAgent, options: ParallelOptions = {}): AgentForceWorkflow {
+    if (options.concurrency !== undefined) {
+        assertConcurrency(options.concurrency);
+    }
+    this.executionPlan.push({
+        type: "iterate",
+        description: "Iterate over items with agent",
+        payload: { items, agent },
+        ...(options.concurrency !== undefined && { concurrency: options.concurrency }),
+        ...(options.settle && { settle: true }),
+        ...(options.isolate === false && { isolate: false }),
+    });
     return this;
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+import type { AgentForceWorkflow } from "../../workflow";
+
+/**
+ * Saves the output of the last step in the execution plan to the shared store.
+ * Later steps read the value with `{{store.key}}` in their prompts, it is also part of the shared store of the run result.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param key - The shared store key to save the output under, an existing value is replaced.
+ * @returns The AgentForceWorkflow instance for method chaining.
+ */
+export function outputKey(this: AgentForceWorkflow, key: string): AgentForceWorkflow {
+    if (typeof key !== "string" || !key.trim()) {
+        throw new Error("Output key must be a non-empty string");
+    }
+
+    const lastStep = this.executionPlan[this.executionPlan.length - 1];
+    if (lastStep) {
+        lastStep.outputKey = key;
+    } else {
+        const logger = this.getLogger();
+        logger.warn("Cannot call .outputKey() before defining a step.");
+    }
+    return this;
+}
\ No newline at end of file
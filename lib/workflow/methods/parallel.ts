@@ -1,14 +1,26 @@
-import type { AgentForceWorkflow } from "../../workflow";
+import type { AgentForceWorkflow, ParallelOptions } from "../../workflow";
 import type { AgentForceAgent } from "../../agent";
+import { assertConcurrency } from "../../utils/concurrency";
 
 /**
  * Adds a 'parallel' step to the execution plan.
  *
  * @param this - The AgentForceWorkflow instance.
  * @param agents - An array of agents to execute in parallel.
+ * @param options - Concurrency limit, settle mode and agent isolation, all agents run at once on clones of the agents and the first error fails the step by default.
  * @returns The AgentForceWorkflow instance for method chaining.
  */
-export function parallel(this: AgentForceWorkflow, agents: AgentForceAgent[]): AgentForceWorkflow {
-    this.executionPlan.push({ type: "parallel", description: "Execute agents in parallel", payload: agents });
+export function parallel(this: AgentForceWorkflow, agents: AgentForceAgent[], options: ParallelOptions = {}): AgentForceWorkflow {
+    if (options.concurrency !== undefined) {
+        assertConcurrency(options.concurrency);
+    }
+    this.executionPlan.push({
+        type: "parallel",
+        description: "Execute agents in parallel",
+        payload: agents,
+        ...(options.concurrency !== undefined && { concurrency: options.concurrency }),
+        ...(options.settle && { settle: true }),
+        ...(options.isolate === false && { isolate: false }),
+    });
     return this;
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+import type { AgentForceWorkflow, RepeatUntilCondition, RepeatUntilOptions } from "../../workflow";
+import type { AgentForceAgent } from "../../agent";
+
+/**
+ * Adds a 'repeatUntil' step to the execution plan.
+ * The agents run in sequence, each iteration receiving the output of the previous one, until the condition is true
+ * or maxIterations is reached; the step then outputs the last result.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param agents - The agents to execute in sequence on every iteration, e.g. a writer and a critic.
+ * @param condition - Function of the iteration output, the shared store and the iteration number (starting at 1).
+ * @param options - Loop options, maxIterations defaults to 5.
+ * @returns The AgentForceWorkflow instance for method chaining.
+ */
+export function repeatUntil(
+    this: AgentForceWorkflow,
+    agents: AgentForceAgent[],
+    condition: RepeatUntilCondition,
+    options: RepeatUntilOptions = {},
+): AgentForceWorkflow {
+    const maxIterations = options.maxIterations ?? 5;
+    if (typeof condition !== "function") {
+        throw new Error("repeatUntil condition must be a function");
+    }
+    if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+        throw new Error("maxIterations must be a positive integer");
+    }
+    this.executionPlan.push({
+        type: "repeatUntil",
+        description: `Repeat agents until the condition is met (max ${maxIterations} iterations)`,
+        payload: { agents, condition, maxIterations },
+    });
+    return this;
+}
@@ -0,0 +1,24 @@
+import type { AgentForceWorkflow } from "../../workflow";
+import type { RetryPolicy } from "../../types";
+import { resolveRetryPolicy } from "../../utils/retry";
+
+/**
+ * Attaches a retry policy to the last step in the execution plan.
+ * A failed step is run again with exponential backoff until it succeeds or the attempts are used up,
+ * only then the onFail handler runs or the workflow fails.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param policy - The retry policy, 3 attempts starting with a 1 second delay by default.
+ * @returns The AgentForceWorkflow instance for method chaining.
+ */
+export function retry(this: AgentForceWorkflow, policy: RetryPolicy = {}): AgentForceWorkflow {
+    const resolvedPolicy = resolveRetryPolicy(policy);
+    const lastStep = this.executionPlan[this.executionPlan.length - 1];
+    if (lastStep) {
+        lastStep.retry = resolvedPolicy;
+    } else {
+        const logger = this.getLogger();
+        logger.warn("Cannot call .retry() before defining a step.");
+    }
+    return this;
+}
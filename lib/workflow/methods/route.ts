@@ -0,0 +1,30 @@
+import type { AgentForceWorkflow, WorkflowRouter } from "../../workflow";
+import type { AgentForceAgent } from "../../agent";
+
+/**
+ * Adds a 'route' step to the execution plan.
+ * The router picks a label and the agents of that label run in sequence.
+ * A router agent classifies the previous output and must answer with one of the labels.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param router - An agent acting as classifier, or a function of the previous output and the shared store returning a label.
+ * @param routes - The agents to execute in sequence for each label.
+ * @param fallback - Optional label used when the router returns an unknown label, otherwise the step fails.
+ * @returns The AgentForceWorkflow instance for method chaining.
+ */
+export function route(
+    this: AgentForceWorkflow,
+    router: WorkflowRouter,
+    routes: Record<string, AgentForceAgent[]>,
+    fallback?: string,
+): AgentForceWorkflow {
+    const labels = Object.keys(routes ?? {});
+    if (labels.length === 0) {
+        throw new Error("Route needs at least one label with agents");
+    }
+    if (fallback !== undefined && !labels.includes(fallback)) {
+        throw new Error(`Fallback label "${fallback}" is not one of the route labels: ${labels.join(", ")}`);
+    }
+    this.executionPlan.push({ type: "route", description: `Route to one of: ${labels.join(", ")}`, payload: { router, routes, fallback } });
+    return this;
+}
@@ -9,7 +9,7 @@ import type { AgentForceWorkflow } from "../../workflow";
  * @param value - The value to store.
  * @returns The AgentForceWorkflow instance for method chaining.
  */
-export function sharedStore(this: AgentForceWorkflow, key: string, value: any): AgentForceWorkflow {
+export function sharedStore(this: AgentForceWorkflow, key: string, value: unknown): AgentForceWorkflow {
     this.setSharedStoreItem(key, value);
     const logger = this.getLogger();
     logger.info({ message: `Set shared store key '${key}'` });
@@ -0,0 +1,25 @@
+import type { AgentForceWorkflow } from "../../workflow";
+
+/**
+ * Attaches a timeout to the last step in the execution plan.
+ * An attempt of the step that takes longer is aborted with a `TimeoutError`,
+ * the timeout applies to every attempt when the step has a retry policy.
+ *
+ * @param this - The AgentForceWorkflow instance.
+ * @param timeoutMs - The timeout of an attempt in milliseconds.
+ * @returns The AgentForceWorkflow instance for method chaining.
+ */
+export function timeout(this: AgentForceWorkflow, timeoutMs: number): AgentForceWorkflow {
+    if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+        throw new Error("Timeout must be a positive number of milliseconds");
+    }
+
+    const lastStep = this.executionPlan[this.executionPlan.length - 1];
+    if (lastStep) {
+        lastStep.timeoutMs = timeoutMs;
+    } else {
+        const logger = this.getLogger();
+        logger.warn("Cannot call .timeout() before defining a step.");
+    }
+    return this;
+}
@@ -7,8 +7,17 @@ export * from "./methods/sequence";
 export * from "./methods/parallel";
 export * from "./methods/onSuccess";
 export * from "./methods/onFail";
+export * from "./methods/retry";
+export * from "./methods/timeout";
+export * from "./methods/outputKey";
 export * from "./methods/iterate";
+export * from "./methods/branch";
+export * from "./methods/route";
+export * from "./methods/repeatUntil";
+export * from "./methods/checkpoint";
 export * from "./methods/debug";
+export * from "./methods/fromFile";
 
 export * from "./methods/async/loop";
+export * from "./methods/async/resume";
 export * from "./methods/async/run";
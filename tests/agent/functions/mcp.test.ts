@@ -345,7 +345,7 @@ describe("MCP Functions", () => {
             // Assert
             expect(result).toEqual(expectedResult);
             expect(mockMCPRegistry.getMCPClient).toHaveBeenCalledWith("test-server");
-            expect(mockMCPClient.callTool).toHaveBeenCalledWith("read_file", args);
+            expect(mockMCPClient.callTool).toHaveBeenCalledWith("read_file", args, { signal: undefined });
             expect(mockLogger.debug).toHaveBeenCalledWith(
                 "Executing MCP tool",
                 { serverName: "test-server", mcpToolName: "read_file", args }
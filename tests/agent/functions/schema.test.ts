@@ -0,0 +1,55 @@
+import { describe, expect, test } from "@jest/globals";
+import { buildRepairPrompt, compileSchema, StructuredOutputError, validateStructuredResponse } from "../../../lib/agent/functions/schema";
+
+describe("Structured output schema functions", () => {
+    const schema = {
+        type: "object",
+        properties: {
+            name: { type: "string" },
+            age: { type: "integer", minimum: 0 },
+        },
+        required: ["name", "age"],
+    };
+
+    test("should parse a valid response", () => {
+        expect(validateStructuredResponse("{\"name\":\"Ada\",\"age\":36}", schema)).toEqual({ value: { name: "Ada", age: 36 } });
+    });
+
+    test("should extract JSON from code blocks and surrounding text", () => {
+        expect(validateStructuredResponse("```json\n{\"name\":\"Ada\",\"age\":36}\n```", schema).value).toEqual({ name: "Ada", age: 36 });
+        expect(validateStructuredResponse("Here you go: {\"name\":\"Ada\",\"age\":36}. Done", schema).value).toEqual({ name: "Ada", age: 36 });
+    });
+
+    test("should report every schema violation with its path", () => {
+        const result = validateStructuredResponse("{\"age\":-1}", schema);
+
+        expect(result.issues).toEqual([
+            { path: "/name", message: "is required" },
+            { path: "/age", message: "must be >= 0" },
+        ]);
+    });
+
+    test("should report responses that are not JSON", () => {
+        const result = validateStructuredResponse("I cannot answer that", schema);
+
+        expect(result.issues).toHaveLength(1);
+        expect(result.issues![0]!.message).toMatch(/^Response is not valid JSON: /);
+    });
+
+    test("should reject invalid schemas", () => {
+        expect(() => compileSchema({ type: "nothing" })).toThrow("Invalid output schema:");
+    });
+
+    test("should list the issues in the repair prompt and error", () => {
+        const issues = [{ path: "/name", message: "is required" }];
+
+        expect(buildRepairPrompt(issues)).toContain("/name is required");
+
+        const error = new StructuredOutputError(issues, "{}", 3);
+        expect(error).toBeInstanceOf(Error);
+        expect(error.name).toBe("StructuredOutputError");
+        expect(error.message).toBe("Structured output does not match the schema after 3 attempt(s): /name is required");
+        expect(error.attempts).toBe(3);
+        expect(error.response).toBe("{}");
+    });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, test, afterEach, jest } from "@jest/globals";
+import { AgentForceAgent } from "../../../lib/agent";
+import { getAvailableTools, hasTool, registerTool, unregisterTool } from "../../../lib/tools/registry";
+import type { Tool, ToolImplementation } from "../../../lib/types";
+
+// The global setup mocks loadTools, this suite exercises the real implementation
+const { loadTools, executeTool } = jest.requireActual("../../../lib/agent/functions/tools") as typeof import("../../../lib/agent/functions/tools");
+
+describe("Custom tools", () => {
+    const definition = (name: string): Tool => ({
+        type: "function",
+        function: {
+            name,
+            description: `The ${name} tool`,
+            parameters: { type: "object", properties: { city: { type: "string", description: "City" } }, required: ["city"] },
+        },
+    });
+
+    const tool = (name: string, execute: ToolImplementation["execute"] = () => Promise.resolve("ok")): ToolImplementation => ({
+        definition: definition(name),
+        execute,
+    });
+
+    afterEach(() => {
+        unregisterTool("get_weather");
+    });
+
+    test("should register a tool that agents load and execute by name", async () => {
+        const execute = jest.fn((args: Record<string, any>, _options?: { signal?: AbortSignal }) => Promise.resolve({ forecast: `Sunny in ${args.city}` }));
+        registerTool(tool("get_weather", execute));
+
+        const agent = new AgentForceAgent({ name: "WeatherAgent", tools: ["get_weather", "fs_read_file"] });
+
+        expect(hasTool("get_weather")).toBe(true);
+        expect(getAvailableTools()).toContain("get_weather");
+        expect(loadTools(agent).map(loaded => loaded.function.name)).toEqual(["get_weather", "fs_read_file"]);
+        await expect(executeTool("get_weather", { city: "Oslo" }, agent)).resolves.toEqual({ forecast: "Sunny in Oslo" });
+        expect(execute).toHaveBeenCalledWith({ city: "Oslo" }, { signal: undefined });
+    });
+
+    test("should detect name collisions with built-in and registered tools", () => {
+        registerTool(tool("get_weather"));
+
+        expect(() => registerTool(tool("get_weather"))).toThrow("Tool \"get_weather\" is already registered");
+        expect(() => registerTool(tool("web_fetch"))).toThrow("Tool \"web_fetch\" is already registered as a built-in tool");
+        expect(() => unregisterTool("web_fetch")).toThrow("Built-in tool \"web_fetch\" cannot be unregistered");
+    });
+
+    test("should reject invalid tools and the reserved MCP prefix", () => {
+        expect(() => registerTool(tool("mcp_weather"))).toThrow("the \"mcp_\" prefix is reserved for MCP tools");
+        expect(() => registerTool(tool("get weather"))).toThrow("Tool definition must have type \"function\"");
+        expect(() => registerTool({ definition: definition("get_weather") } as any)).toThrow("Tool \"get_weather\" must have an execute function");
+        expect(hasTool("get_weather")).toBe(false);
+    });
+
+    test("should execute agent tools and return errors thrown by them", async () => {
+        const agent = new AgentForceAgent({ name: "WeatherAgent" })
+            .addTool(definition("get_forecast"), () => Promise.reject(new Error("Service down")));
+
+        expect(loadTools(agent).map(loaded => loaded.function.name)).toEqual(["get_forecast"]);
+        await expect(executeTool("get_forecast", { city: "Oslo" }, agent)).resolves.toEqual({
+            error: "Tool execution failed for get_forecast: Service down",
+        });
+        await expect(executeTool("get_forecast", { city: "Oslo" })).resolves.toEqual({
+            error: "Tool get_forecast not found in registry",
+        });
+    });
+
+    test("should pass the signal to tools and reject with its reason once aborted", async () => {
+        const controller = new AbortController();
+        let toolSignal: AbortSignal | undefined;
+        const agent = new AgentForceAgent({ name: "WeatherAgent" })
+            .addTool(definition("get_forecast"), (_args, options) => {
+                toolSignal = options?.signal;
+                controller.abort(new Error("Run cancelled"));
+                return Promise.reject(new Error("Request aborted"));
+            });
+
+        await expect(executeTool("get_forecast", { city: "Oslo" }, agent, undefined, controller.signal)).rejects.toThrow("Run cancelled");
+        expect(toolSignal).toBe(controller.signal);
+        await expect(executeTool("get_forecast", { city: "Oslo" }, agent, undefined, controller.signal)).rejects.toThrow("Run cancelled");
+    });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, test, beforeEach } from "@jest/globals";
+import { AgentForceAgent } from "../../../lib/agent";
+import type { AgentConfig, Tool } from "../../../lib/types";
+
+describe("AgentForceAgent addTool Method Tests", () => {
+    let agent: AgentForceAgent;
+    const testConfig: AgentConfig = {
+        name: "TestAgent",
+        tools: ["web_fetch"],
+    };
+
+    const definition = (name: string): Tool => ({
+        type: "function",
+        function: {
+            name,
+            description: "Look up an order",
+            parameters: { type: "object", properties: { orderId: { type: "string", description: "Order id" } }, required: ["orderId"] },
+        },
+    });
+
+    beforeEach(() => {
+        agent = new AgentForceAgent(testConfig);
+    });
+
+    test("should return agent instance for method chaining", () => {
+        expect(agent.addTool(definition("lookup_order"), async () => "shipped")).toBe(agent);
+    });
+
+    test("should add the tool to the agent tools without changing the config", () => {
+        agent.addTool(definition("lookup_order"), async () => "shipped");
+
+        expect(agent["getTools"]()).toEqual(["web_fetch", "lookup_order"]);
+        expect(Object.keys(agent["getCustomTools"]())).toEqual(["lookup_order"]);
+        expect(testConfig.tools).toEqual(["web_fetch"]);
+    });
+
+    test("should keep tools isolated between agents", () => {
+        agent.addTool(definition("lookup_order"), async () => "shipped");
+
+        const otherAgent = new AgentForceAgent({ name: "OtherAgent" });
+
+        expect(otherAgent["getCustomTools"]()).toEqual({});
+        expect(() => otherAgent.addTool(definition("lookup_order"), async () => "pending")).not.toThrow();
+    });
+
+    test("should throw on name collisions", () => {
+        agent.addTool(definition("lookup_order"), async () => "shipped");
+
+        expect(() => agent.addTool(definition("lookup_order"), async () => "shipped")).toThrow("Tool \"lookup_order\" was already added to agent \"TestAgent\"");
+        expect(() => agent.addTool(definition("fs_read_file"), async () => "content")).toThrow("Tool \"fs_read_file\" is already registered");
+    });
+
+    test("should throw for invalid tools", () => {
+        expect(() => agent.addTool(definition("mcp_lookup"), async () => "shipped")).toThrow("reserved for MCP tools");
+        expect(() => agent.addTool(definition("lookup_order"), "not a function" as any)).toThrow("must have an execute function");
+    });
+});
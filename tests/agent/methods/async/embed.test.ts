@@ -0,0 +1,63 @@
+import { describe, expect, test, beforeEach, afterEach } from "@jest/globals";
+import { AgentForceAgent } from "../../../../lib/agent";
+import { registerProvider, unregisterProvider } from "../../../../lib/provider/registry";
+import type { LLMCallOptions } from "../../../../lib/types";
+
+describe("AgentForceAgent embed Method Tests", () => {
+    let agent: AgentForceAgent;
+    let calls: Array<{ model: string; input: string[]; options?: LLMCallOptions }>;
+
+    beforeEach(() => {
+        calls = [];
+        registerProvider("embed-test", (model: string) => ({
+            generate: () => Promise.resolve("unused"),
+            chat: () => Promise.resolve("unused"),
+            embed: (input: string[], options?: LLMCallOptions) => {
+                calls.push({ model, input, options });
+                return Promise.resolve(input.map(text => [text.length, 0.5]));
+            },
+            getUsage: () => ({ promptTokens: 6, completionTokens: 0, totalTokens: 6 }),
+        }));
+        registerProvider("chat-only", () => ({
+            generate: () => Promise.resolve("unused"),
+            chat: () => Promise.resolve("unused"),
+        }));
+        agent = new AgentForceAgent({ name: "Embedder" }).useLLM("embed-test", "embed-model");
+    });
+
+    afterEach(() => {
+        unregisterProvider("embed-test");
+        unregisterProvider("chat-only");
+    });
+
+    test("should return one embedding per text with the model of the agent", async () => {
+        const embeddings = await agent.embed(["one", "three"]);
+
+        expect(embeddings).toEqual([[3, 0.5], [5, 0.5]]);
+        expect(calls).toEqual([{ model: "embed-model", input: ["one", "three"], options: { signal: undefined } }]);
+    });
+
+    test("should embed a single text and record the usage", async () => {
+        expect(await agent.embed("hello")).toEqual([[5, 0.5]]);
+        expect(agent.getUsage()).toEqual({ promptTokens: 6, completionTokens: 0, totalTokens: 6 });
+    });
+
+    test("should pass the abort signal to the provider", async () => {
+        const controller = new AbortController();
+
+        await agent.embed("hello", { signal: controller.signal });
+
+        expect(calls[0]?.options?.signal).toBe(controller.signal);
+    });
+
+    test("should reject empty input", async () => {
+        await expect(agent.embed([])).rejects.toThrow("Embedding input must be a string or a non-empty array of strings");
+        await expect(agent.embed([1 as any])).rejects.toThrow("Embedding input must be a string or a non-empty array of strings");
+    });
+
+    test("should reject providers without embeddings support", async () => {
+        agent.useLLM("chat-only", "chat-model");
+
+        await expect(agent.embed("hello")).rejects.toThrow("Provider \"chat-only\" does not support embeddings");
+    });
+});
@@ -1,5 +1,7 @@
-import { describe, expect, test, beforeEach, jest } from "@jest/globals";
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
 import { AgentForceAgent } from "../../../../lib/agent";
+import { registerProvider, unregisterProvider } from "../../../../lib/provider/registry";
+import { TimeoutError } from "../../../../lib/utils/abort";
 import type { AgentConfig } from "../../../../lib/types";
 
 describe("AgentForceAgent execute Method Tests (via getResponse)", () => {
@@ -147,32 +149,53 @@ describe("AgentForceAgent execute Method Tests (via getResponse)", () => {
         expect(result).toContain("Error:");
     });
 
-    test("should execute with openai provider (not implemented)", async () => {
+    test("should execute with openai provider", async () => {
+        const mockProvider = {
+            generate: jest.fn().mockImplementation(() => Promise.resolve("OpenAI response")),
+            generateWithTools: jest.fn(),
+        };
+
+        const { OpenAIProvider } = await import("../../../../lib/provider/openai");
+        (OpenAIProvider as any).mockImplementation(() => mockProvider);
+
         agent
-            .useLLM("openai", "gpt-4")
+            .systemPrompt("You are a helpful AI assistant")
+            .useLLM("openai", "gpt-4", { baseUrl: "http://localhost:8000/v1" })
             .prompt("Test openai");
 
         const result = await agent.getResponse();
         
-        expect(typeof result).toBe("string");
-        expect(result).toBe("OpenAI integration not implemented yet.");
+        expect(result).toBe("OpenAI response");
+        expect(OpenAIProvider).toHaveBeenCalledWith("gpt-4", { baseUrl: "http://localhost:8000/v1" });
+        expect(mockProvider.generate).toHaveBeenCalledWith("Test openai", "You are a helpful AI assistant", { signal: undefined });
+        expect(mockProvider.generateWithTools).not.toHaveBeenCalled();
     });
 
-    test("should execute with anthropic provider (not implemented)", async () => {
+    test("should execute with anthropic provider", async () => {
+        const mockProvider = {
+            generate: jest.fn().mockImplementation(() => Promise.resolve("Anthropic response")),
+            generateWithTools: jest.fn(),
+        };
+
+        const { AnthropicProvider } = await import("../../../../lib/provider/anthropic");
+        (AnthropicProvider as any).mockImplementation(() => mockProvider);
+
         agent
-            .useLLM("anthropic", "claude-3")
+            .systemPrompt("You are a helpful AI assistant")
+            .useLLM("anthropic", "claude-sonnet-4-20250514", { maxTokens: 1024 })
             .prompt("Test anthropic");
 
         const result = await agent.getResponse();
         
-        expect(typeof result).toBe("string");
-        expect(result).toBe("Anthropic integration not implemented yet.");
+        expect(result).toBe("Anthropic response");
+        expect(AnthropicProvider).toHaveBeenCalledWith("claude-sonnet-4-20250514", { maxTokens: 1024 });
+        expect(mockProvider.generate).toHaveBeenCalledWith("Test anthropic", "You are a helpful AI assistant", { signal: undefined });
+        expect(mockProvider.generateWithTools).not.toHaveBeenCalled();
     });
 
-    test("should handle unknown provider", async () => {
-        agent
-            .useLLM("unknown" as any, "unknown-model")
-            .prompt("Test unknown provider");
+    test("should handle unknown provider set outside of useLLM", async () => {
+        agent["setProvider"]("unknown");
+        agent.prompt("Test unknown provider");
 
         const result = await agent.getResponse();
         
@@ -349,4 +372,59 @@ describe("AgentForceAgent execute Method Tests (via getResponse)", () => {
             expect(hasSystemMessage).toBe(false); // Should not have system message when systemPrompt is empty
         }
     });
-});
\ No newline at end of file
+
+    describe("cancellation", () => {
+        let signals: Array<AbortSignal | undefined>;
+
+        // Waits for the signal like a provider request that is still in flight
+        const waitForAbort = (_prompt: string, _system?: string, options?: { signal?: AbortSignal }): Promise<string> => {
+            signals.push(options?.signal);
+            return new Promise<string>((_resolve, reject) => {
+                options?.signal?.addEventListener("abort", () => reject(new Error("Request aborted")));
+            });
+        };
+
+        beforeEach(() => {
+            signals = [];
+            registerProvider("slow", () => ({ generate: waitForAbort, chat: () => Promise.resolve("Chat answer") }));
+        });
+
+        afterEach(() => {
+            unregisterProvider("slow");
+        });
+
+        test("should abort the provider call and throw a TimeoutError after timeoutMs", async () => {
+            agent.useLLM("slow", "slow-model").prompt("Take your time");
+
+            const error = await agent.run({ timeoutMs: 20 }).catch((error: unknown) => error);
+
+            expect(error).toBeInstanceOf(TimeoutError);
+            expect(error).toMatchObject({ message: "Agent \"TestAgent\" timed out after 20 ms", timeoutMs: 20 });
+            expect(signals[0]!.aborted).toBe(true);
+            expect(agent["getChatHistory"]().at(-1)).toEqual({ role: "assistant", content: "Error: TimeoutError: Agent \"TestAgent\" timed out after 20 ms" });
+        });
+
+        test("should reject getResponse with the abort reason instead of returning an error string", async () => {
+            const controller = new AbortController();
+            agent.useLLM("slow", "slow-model").prompt("Take your time");
+
+            const response = agent.getResponse({ signal: controller.signal });
+            controller.abort(new Error("Client disconnected"));
+
+            await expect(response).rejects.toThrow("Client disconnected");
+        });
+
+        test("should not start the next task once the signal is aborted", async () => {
+            const controller = new AbortController();
+            const chat = jest.fn(() => {
+                controller.abort(new Error("Stopped"));
+                return Promise.resolve("First answer");
+            });
+            registerProvider("slow", () => ({ generate: waitForAbort, chat }));
+            agent.useLLM("slow", "slow-model").task("First task").task("Second task");
+
+            await expect(agent.run({ signal: controller.signal })).rejects.toThrow("Stopped");
+            expect(chat).toHaveBeenCalledTimes(1);
+        });
+    });
+});
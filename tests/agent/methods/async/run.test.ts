@@ -161,7 +161,7 @@ describe("AgentForceAgent run Method Tests", () => {
         expect(result).toBe(agent);
     });
 
-    test("should work with openai provider (not implemented)", async () => {
+    test("should work with openai provider", async () => {
         const result = await agent
             .useLLM("openai", "gpt-4")
             .prompt("Test openai")
@@ -170,7 +170,7 @@ describe("AgentForceAgent run Method Tests", () => {
         expect(result).toBe(agent);
     });
 
-    test("should work with anthropic provider (not implemented)", async () => {
+    test("should work with anthropic provider", async () => {
         const result = await agent
             .useLLM("anthropic", "claude-3")
             .prompt("Test anthropic")
@@ -179,13 +179,8 @@ describe("AgentForceAgent run Method Tests", () => {
         expect(result).toBe(agent);
     });
 
-    test("should work with unknown provider", async () => {
-        const result = await agent
-            .useLLM("unknown" as any, "unknown-model")
-            .prompt("Test unknown provider")
-            .run();
-
-        expect(result).toBe(agent);
+    test("should reject unknown provider before running", () => {
+        expect(() => agent.useLLM("unknown", "unknown-model")).toThrow("Unknown provider: \"unknown\"");
     });
 
     test("should handle errors gracefully (not re-throw)", async () => {
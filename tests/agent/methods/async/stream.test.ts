@@ -0,0 +1,95 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+import { AgentForceAgent } from "../../../../lib/agent";
+import { registerProvider, unregisterProvider } from "../../../../lib/provider/registry";
+import type { AgentConfig, LLMCallOptions, LLMMessage, LLMProvider, LLMStreamEvent } from "../../../../lib/types";
+
+describe("AgentForceAgent stream Method Tests", () => {
+    let agent: AgentForceAgent;
+    const testConfig: AgentConfig = {
+        name: "StreamAgent",
+    };
+
+    const collect = async (iterable: AsyncIterable<LLMStreamEvent>): Promise<LLMStreamEvent[]> => {
+        const events: LLMStreamEvent[] = [];
+        for await (const event of iterable) {
+            events.push(event);
+        }
+        return events;
+    };
+
+    const streamingProvider = (events: LLMStreamEvent[], calls: any[][] = []): LLMProvider => ({
+        generate: () => Promise.resolve("unused"),
+        chat: () => Promise.resolve("unused"),
+        async *stream(...args: any[]) {
+            calls.push(args);
+            yield* events;
+        },
+    });
+
+    beforeEach(() => {
+        agent = new AgentForceAgent(testConfig);
+    });
+
+    afterEach(() => {
+        unregisterProvider("stream-test");
+    });
+
+    test("should yield provider events and store the full response in chat history", async () => {
+        const calls: any[][] = [];
+        registerProvider("stream-test", () => streamingProvider([
+            { type: "tool_call", name: "web_fetch", args: { url: "https://example.com" } },
+            { type: "tool_result", name: "web_fetch", result: "page" },
+            { type: "text", text: "Hello" },
+            { type: "text", text: " world" },
+        ], calls));
+
+        agent
+            .useLLM("stream-test", "test-model")
+            .systemPrompt("You are helpful")
+            .prompt("Say hello");
+
+        const events = await collect(agent.stream());
+
+        expect(events.map(event => event.type)).toEqual(["tool_call", "tool_result", "text", "text"]);
+        expect(calls[0]![0]).toEqual([
+            { role: "system", content: "You are helpful" },
+            { role: "user", content: "Say hello" },
+        ]);
+        expect(agent["getChatHistory"]()).toEqual([
+            { role: "user", content: "Say hello" },
+            { role: "assistant", content: "Hello world" },
+        ]);
+    });
+
+    test("should yield the complete response when the provider cannot stream", async () => {
+        const chat = jest.fn((_messages: LLMMessage[], _options?: LLMCallOptions) => Promise.resolve("Complete answer"));
+        registerProvider("stream-test", () => ({ generate: jest.fn(() => Promise.resolve("unused")), chat }));
+
+        const events = await collect(agent.useLLM("stream-test", "test-model").systemPrompt("Be brief").prompt("Question").stream());
+
+        expect(events).toEqual([{ type: "text", text: "Complete answer" }]);
+        expect(chat).toHaveBeenCalledWith([{ role: "system", content: "Be brief" }, { role: "user", content: "Question" }], { signal: undefined });
+    });
+
+    test("should keep the partial response when the consumer stops early", async () => {
+        registerProvider("stream-test", () => streamingProvider([
+            { type: "text", text: "First" },
+            { type: "text", text: "Second" },
+        ]));
+
+        agent.useLLM("stream-test", "test-model").prompt("Count");
+
+        for await (const event of agent.stream()) {
+            expect(event).toEqual({ type: "text", text: "First" });
+            break;
+        }
+
+        expect(agent["getChatHistory"]().at(-1)).toEqual({ role: "assistant", content: "First" });
+    });
+
+    test("should reject task lists", async () => {
+        agent.useLLM("ollama", "gemma3:4b").task("First task");
+
+        await expect(collect(agent.stream())).rejects.toThrow("stream() does not support task lists");
+    });
+});
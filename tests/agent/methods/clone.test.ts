@@ -0,0 +1,85 @@
+import { describe, expect, test, beforeEach } from "@jest/globals";
+import { AgentForceAgent } from "../../../lib/agent";
+import type { Tool } from "../../../lib/types";
+
+describe("AgentForceAgent clone Method Tests", () => {
+    let agent: AgentForceAgent;
+
+    const lookupOrder: Tool = {
+        type: "function",
+        function: {
+            name: "lookup_order",
+            description: "Look up an order",
+            parameters: { type: "object", properties: { orderId: { type: "string", description: "Order id" } }, required: ["orderId"] },
+        },
+    };
+
+    beforeEach(() => {
+        agent = new AgentForceAgent({ name: "Translator", tools: ["web_fetch"], skills: ["translation.md"], assetPath: "./assets" })
+            .useLLM("openai", "gpt-4o-mini", { temperature: 0.2 })
+            .systemPrompt("Translate the text to German")
+            .prompt("Good morning", { images: ["./sign.png"] })
+            .addTool(lookupOrder, async () => "shipped")
+            .outputSchema({ type: "object", properties: { text: { type: "string" } } })
+            .retry({ maxAttempts: 2 })
+            .withHistory([{ role: "user", content: "Translate: Hi" }, { role: "assistant", content: "Hallo" }])
+            .task("Translate the greeting");
+        agent["pushToChatHistory"]("user", "Hello");
+    });
+
+    test("should return a new agent instance", () => {
+        const copy = agent.clone();
+
+        expect(copy).toBeInstanceOf(AgentForceAgent);
+        expect(copy).not.toBe(agent);
+    });
+
+    test("should copy the configuration of the agent", () => {
+        const copy = agent.clone();
+
+        expect(copy["getName"]()).toBe("Translator");
+        expect(copy["getProvider"]()).toBe("openai");
+        expect(copy["getModel"]()).toBe("gpt-4o-mini");
+        expect(copy["getModelConfig"]()).toEqual({ temperature: 0.2 });
+        expect(copy["getSystemPrompt"]()).toBe("Translate the text to German");
+        expect(copy["getUserPrompt"]()).toBe("Good morning");
+        expect(copy["getImages"]()).toEqual(["./sign.png"]);
+        expect(copy["getTools"]()).toEqual(["web_fetch", "lookup_order"]);
+        expect(copy["getCustomTools"]()).toEqual(agent["getCustomTools"]());
+        expect(copy["getSkills"]()).toEqual(["translation.md"]);
+        expect(copy["getAssetPath"]()).toBe("./assets");
+        expect(copy["getOutputSchema"]()).toEqual(agent["getOutputSchema"]());
+        expect(copy["getRetryPolicy"]()).toEqual(agent["getRetryPolicy"]());
+        expect(copy["getTaskList"]()).toEqual([{ description: "Translate the greeting", result: null }]);
+        expect(copy["getHistory"]()).toEqual([{ role: "user", content: "Translate: Hi" }, { role: "assistant", content: "Hallo" }]);
+        expect(copy["getHistory"]()).not.toBe(agent["getHistory"]());
+        expect(copy["getLogger"]()).toBe(agent["getLogger"]());
+    });
+
+    test("should start with a snapshot of the chat history that is not shared", () => {
+        const copy = agent.clone();
+
+        copy["pushToChatHistory"]("assistant", "Hallo");
+        agent["pushToChatHistory"]("assistant", "Hi");
+
+        expect(copy["getChatHistory"]()).toEqual([{ role: "user", content: "Hello" }, { role: "assistant", content: "Hallo" }]);
+        expect(agent["getChatHistory"]()).toEqual([{ role: "user", content: "Hello" }, { role: "assistant", content: "Hi" }]);
+    });
+
+    test("should keep prompts, tools and tasks of the copy separate", () => {
+        const copy = agent.clone().prompt("Good night").task("Check the spelling");
+        copy["getTaskList"]()[0]!.result = "Gute Nacht";
+        copy.addTool({ ...lookupOrder, function: { ...lookupOrder.function, name: "cancel_order" } }, async () => "cancelled");
+
+        expect(agent["getUserPrompt"]()).toBe("Good morning");
+        expect(agent["getTaskList"]()).toEqual([{ description: "Translate the greeting", result: null }]);
+        expect(agent["getTools"]()).toEqual(["web_fetch", "lookup_order"]);
+        expect(Object.keys(agent["getCustomTools"]())).toEqual(["lookup_order"]);
+    });
+
+    test("should keep the class of subclassed agents", () => {
+        class ReviewerAgent extends AgentForceAgent {}
+
+        expect(new ReviewerAgent({ name: "Reviewer" }).clone()).toBeInstanceOf(ReviewerAgent);
+    });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+import { AgentForceAgent } from "../../../lib/agent";
+import { registerProvider, unregisterProvider } from "../../../lib/provider/registry";
+import { clearModelPricing, registerModelPricing } from "../../../lib/provider/usage";
+import type { AgentConfig, LLMProvider } from "../../../lib/types";
+
+describe("AgentForceAgent getUsage Method Tests", () => {
+    let agent: AgentForceAgent;
+    const testConfig: AgentConfig = {
+        name: "UsageAgent",
+    };
+
+    // Each provider instance reports 100 prompt and 20 completion tokens per call
+    const meteredProvider = (): LLMProvider => {
+        let calls = 0;
+        return {
+            generate: () => Promise.resolve(`answer ${++calls}`),
+            chat: () => Promise.resolve(`answer ${++calls}`),
+            async *stream() {
+                calls++;
+                yield { type: "text" as const, text: "streamed" };
+            },
+            getUsage: () => ({ promptTokens: 100 * calls, completionTokens: 20 * calls, totalTokens: 120 * calls }),
+        };
+    };
+
+    beforeEach(() => {
+        agent = new AgentForceAgent(testConfig);
+        registerProvider("metered", meteredProvider);
+    });
+
+    afterEach(() => {
+        unregisterProvider("metered");
+        clearModelPricing();
+    });
+
+    test("should return empty usage before the first execution", () => {
+        expect(agent.getUsage()).toEqual({ promptTokens: 0, completionTokens: 0, totalTokens: 0 });
+    });
+
+    test("should report the usage of the last execution", async () => {
+        agent.useLLM("metered", "test-model").prompt("Hello");
+
+        await agent.getResponse();
+        expect(agent.getUsage()).toEqual({ promptTokens: 100, completionTokens: 20, totalTokens: 120 });
+
+        // A new execution starts counting from zero
+        await agent.prompt("Again").getResponse();
+        expect(agent.getUsage().totalTokens).toBe(120);
+    });
+
+    test("should sum usage across task lists", async () => {
+        await agent
+            .useLLM("metered", "test-model")
+            .task("First task")
+            .task("Second task")
+            .task("Third task")
+            .run();
+
+        expect(agent.getUsage()).toEqual({ promptTokens: 300, completionTokens: 60, totalTokens: 360 });
+    });
+
+    test("should add the estimated cost when the model has a price", async () => {
+        registerModelPricing({ "metered/test-model": { input: 2, output: 10 } });
+
+        await agent.useLLM("metered", "test-model").prompt("Hello").getResponse();
+
+        expect(agent.getUsage().cost).toBeCloseTo((100 * 2 + 20 * 10) / 1_000_000);
+    });
+
+    test("should include usage in the execution completed log entry", async () => {
+        const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        const loggedAgent = new AgentForceAgent({ name: "LoggedAgent", logger });
+
+        await loggedAgent.useLLM("metered", "test-model").prompt("Hello").getResponse();
+
+        expect(logger.info).toHaveBeenCalledWith("Execution completed", expect.objectContaining({
+            usage: { promptTokens: 100, completionTokens: 20, totalTokens: 120 },
+        }));
+    });
+
+    test("should report usage of streamed executions", async () => {
+        for await (const event of agent.useLLM("metered", "test-model").prompt("Hello").stream()) {
+            expect(event.type).toBe("text");
+        }
+
+        expect(agent.getUsage().totalTokens).toBe(120);
+    });
+});
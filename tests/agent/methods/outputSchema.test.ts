@@ -0,0 +1,104 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+import { AgentForceAgent } from "../../../lib/agent";
+import { StructuredOutputError } from "../../../lib/agent/functions/schema";
+import { registerProvider, unregisterProvider } from "../../../lib/provider/registry";
+import type { AgentConfig } from "../../../lib/types";
+
+describe("AgentForceAgent outputSchema Method Tests", () => {
+    let agent: AgentForceAgent;
+    let responses: string[];
+    let generate: jest.Mock<any>;
+    let chat: jest.Mock<any>;
+    let factory: jest.Mock<any>;
+    const testConfig: AgentConfig = {
+        name: "StructuredAgent",
+    };
+
+    const schema = {
+        type: "object",
+        properties: {
+            name: { type: "string" },
+            age: { type: "integer" },
+        },
+        required: ["name", "age"],
+    };
+
+    beforeEach(() => {
+        responses = [];
+        generate = jest.fn(() => Promise.resolve(responses.shift() ?? ""));
+        chat = jest.fn(() => Promise.resolve(responses.shift() ?? ""));
+        factory = jest.fn(() => ({ generate, chat }));
+        registerProvider("schema-test", factory as any);
+
+        agent = new AgentForceAgent(testConfig)
+            .useLLM("schema-test", "test-model")
+            .systemPrompt("Extract the person")
+            .prompt("Ada Lovelace, 36 years old");
+    });
+
+    afterEach(() => {
+        unregisterProvider("schema-test");
+    });
+
+    test("should return agent instance for method chaining", () => {
+        expect(agent.outputSchema(schema)).toBe(agent);
+    });
+
+    test("should return the typed object when the first response is valid", async () => {
+        responses.push("{\"name\":\"Ada\",\"age\":36}");
+
+        const person = await agent.outputSchema(schema).getObject<{ name: string; age: number }>();
+
+        expect(person).toEqual({ name: "Ada", age: 36 });
+        expect(chat).not.toHaveBeenCalled();
+        expect(factory).toHaveBeenCalledWith("test-model", { jsonSchema: schema });
+        expect(generate.mock.calls[0]![1]).toContain("Respond only with a JSON value that matches the following JSON Schema");
+    });
+
+    test("should re-prompt with the validation errors until the response is valid", async () => {
+        responses.push("{\"name\":\"Ada\"}", "{\"name\":\"Ada\",\"age\":36}");
+
+        const result = await agent.outputSchema(schema).output("json");
+
+        expect(result).toEqual({ name: "Ada", age: 36 });
+        const messages = chat.mock.calls[0]![0] as Array<{ role: string; content: string }>;
+        expect(messages.slice(-2)).toEqual([
+            { role: "assistant", content: "{\"name\":\"Ada\"}" },
+            { role: "user", content: expect.stringContaining("/age is required") },
+        ]);
+        expect(agent["getChatHistory"]().at(-1)).toEqual({ role: "assistant", content: "{\"name\":\"Ada\",\"age\":36}" });
+    });
+
+    test("should throw a StructuredOutputError after the retries are used up", async () => {
+        responses.push("not json", "{\"name\":1}", "{\"name\":\"Ada\"}");
+
+        const error = await agent.outputSchema(schema, { maxRetries: 1 }).run().catch(caught => caught);
+
+        expect(error).toBeInstanceOf(StructuredOutputError);
+        expect(error.attempts).toBe(2);
+        expect(error.response).toBe("{\"name\":1}");
+        expect(error.issues).toEqual([
+            { path: "/age", message: "is required" },
+            { path: "/name", message: "must be string" },
+        ]);
+        expect(chat).toHaveBeenCalledTimes(1);
+    });
+
+    test("should validate the last task of a task list", async () => {
+        responses.push("Ada is a mathematician", "{\"name\":\"Ada\",\"age\":36}");
+
+        const person = await agent.outputSchema(schema).task("Describe the person").task("Extract the person").getObject();
+
+        expect(person).toEqual({ name: "Ada", age: 36 });
+    });
+
+    test("should reject invalid schemas and options", () => {
+        expect(() => agent.outputSchema({ type: "nothing" })).toThrow("Invalid output schema:");
+        expect(() => agent.outputSchema(null as any)).toThrow();
+        expect(() => agent.outputSchema(schema, { maxRetries: -1 })).toThrow();
+    });
+
+    test("should require an output schema for getObject", async () => {
+        await expect(agent.getObject()).rejects.toThrow("getObject() requires an output schema");
+    });
+});
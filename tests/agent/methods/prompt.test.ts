@@ -1,6 +1,7 @@
-import { describe, expect, test, beforeEach } from "@jest/globals";
+import { describe, expect, test, beforeEach, afterEach } from "@jest/globals";
 import { AgentForceAgent } from "../../../lib/agent";
-import type { AgentConfig } from "../../../lib/types";
+import { registerProvider, unregisterProvider } from "../../../lib/provider/registry";
+import type { AgentConfig, LLMMessage } from "../../../lib/types";
 
 describe("AgentForceAgent prompt Method Tests", () => {
     let agent: AgentForceAgent;
@@ -66,4 +67,77 @@ describe("AgentForceAgent prompt Method Tests", () => {
         expect(() => agent.prompt([] as any)).toThrow("User prompt must be a string");
         expect(() => agent.prompt(true as any)).toThrow("User prompt must be a string");
     });
-});
\ No newline at end of file
+
+    describe("images", () => {
+        let chatCalls: LLMMessage[][];
+        let generateCalls: string[];
+
+        beforeEach(() => {
+            chatCalls = [];
+            generateCalls = [];
+            registerProvider("vision-test", () => ({
+                generate: async (prompt: string) => {
+                    generateCalls.push(prompt);
+                    return "generated";
+                },
+                chat: async (messages: LLMMessage[]) => {
+                    chatCalls.push(messages);
+                    return "A cat";
+                },
+                async *stream(messages: LLMMessage[]) {
+                    chatCalls.push(messages);
+                    yield { type: "text" as const, text: "A cat" };
+                },
+            }));
+        });
+
+        afterEach(() => {
+            unregisterProvider("vision-test");
+        });
+
+        test("should store a copy of the images and remove them on the next prompt", () => {
+            const images = ["./cat.jpg"];
+            agent.prompt("What is this?", { images });
+            images.push("./dog.jpg");
+
+            expect(agent["getImages"]()).toEqual(["./cat.jpg"]);
+            expect(agent.prompt("Hello")["getImages"]()).toEqual([]);
+        });
+
+        test("should reject images that are not non-empty strings", () => {
+            expect(() => agent.prompt("What is this?", { images: "./cat.jpg" as any })).toThrow("Prompt images must be an array of non-empty strings");
+            expect(() => agent.prompt("What is this?", { images: [""] })).toThrow("Prompt images must be an array of non-empty strings");
+        });
+
+        test("should send the images with the user message", async () => {
+            const response = await agent
+                .useLLM("vision-test", "llava")
+                .systemPrompt("Describe images")
+                .prompt("What is this?", { images: ["data:image/png;base64,iVBORw0KGgo="] })
+                .getResponse();
+
+            expect(response).toBe("A cat");
+            expect(generateCalls).toEqual([]);
+            expect(chatCalls[0]).toEqual([
+                { role: "system", content: "Describe images" },
+                { role: "user", content: "What is this?", images: ["data:image/png;base64,iVBORw0KGgo="] },
+            ]);
+        });
+
+        test("should send the images when streaming", async () => {
+            const stream = agent.useLLM("vision-test", "llava").prompt("What is this?", { images: ["./cat.jpg"] }).stream();
+            for await (const event of stream) {
+                expect(event).toEqual({ type: "text", text: "A cat" });
+            }
+
+            expect(chatCalls[0]?.at(-1)).toEqual({ role: "user", content: "What is this?", images: ["./cat.jpg"] });
+        });
+
+        test("should keep using generate without images", async () => {
+            await agent.useLLM("vision-test", "llava").prompt("Hello").getResponse();
+
+            expect(generateCalls).toEqual(["Hello"]);
+            expect(chatCalls).toEqual([]);
+        });
+    });
+});
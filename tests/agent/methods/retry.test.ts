@@ -0,0 +1,28 @@
+import { describe, expect, test, beforeEach } from "@jest/globals";
+import { AgentForceAgent } from "../../../lib/agent";
+
+describe("AgentForceAgent retry Method Tests", () => {
+    let agent: AgentForceAgent;
+
+    beforeEach(() => {
+        agent = new AgentForceAgent({ name: "RetryAgent" });
+    });
+
+    test("should return the agent for method chaining", () => {
+        expect(agent.retry()).toBe(agent);
+    });
+
+    test("should store the policy with defaults", () => {
+        agent.retry({ maxAttempts: 4, jitter: false });
+
+        expect(agent["getRetryPolicy"]()).toEqual({ maxAttempts: 4, initialDelayMs: 1000, maxDelayMs: 30_000, backoffFactor: 2, jitter: false });
+    });
+
+    test("should have no policy by default", () => {
+        expect(agent["getRetryPolicy"]()).toBeUndefined();
+    });
+
+    test("should reject invalid policies", () => {
+        expect(() => agent.retry({ initialDelayMs: -5 })).toThrow("initialDelayMs must be a non-negative number");
+    });
+});
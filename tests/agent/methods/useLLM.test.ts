@@ -69,18 +69,20 @@ describe("AgentForceAgent useLLM Method Tests", () => {
         expect(result).toBe(agent);
     });
 
-    test("should handle openai provider (not implemented)", () => {
+    test("should work with openai provider", () => {
         const result = agent.useLLM("openai", "gpt-3.5-turbo");
         expect(result).toBe(agent);
     });
 
-    test("should handle anthropic provider (not implemented)", () => {
+    test("should work with anthropic provider", () => {
         const result = agent.useLLM("anthropic", "claude-3");
         expect(result).toBe(agent);
     });
 
-    test("should handle unknown provider", () => {
-        const result = agent.useLLM("unknown-provider" as any, "some-model");
-        expect(result).toBe(agent);
+    test("should reject unknown provider with the registered provider names", () => {
+        expect(() => agent.useLLM("unknown-provider", "some-model")).toThrow(
+            /Unknown provider: "unknown-provider"\. Registered providers: ollama, openrouter, google, openai, anthropic/,
+        );
+        expect(agent["getProvider"]()).toBe("ollama");
     });
 });
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { describe, expect, test, beforeEach, afterEach } from "@jest/globals";
+import { AgentForceAgent } from "../../../lib/agent";
+import { registerProvider, unregisterProvider } from "../../../lib/provider/registry";
+import type { ChatMessage } from "../../../lib/types";
+
+describe("AgentForceAgent withHistory Method Tests", () => {
+    let chatCalls: Array<Array<{ role: string; content: string }>>;
+    let generateCalls: string[];
+
+    const history: ChatMessage[] = [
+        { role: "user", content: "My name is Ada" },
+        { role: "assistant", content: "Nice to meet you, Ada!" },
+    ];
+
+    beforeEach(() => {
+        chatCalls = [];
+        generateCalls = [];
+        registerProvider("history-test", () => ({
+            generate: async (prompt: string) => {
+                generateCalls.push(prompt);
+                return "generated";
+            },
+            chat: async (messages: Array<{ role: string; content: string }>) => {
+                chatCalls.push(messages);
+                return "Your name is Ada";
+            },
+            async *stream(messages: Array<{ role: string; content: string }>) {
+                chatCalls.push(messages);
+                yield { type: "text" as const, text: "Your name is Ada" };
+            },
+        }));
+    });
+
+    afterEach(() => {
+        unregisterProvider("history-test");
+    });
+
+    test("should return the agent instance for method chaining", () => {
+        const agent = new AgentForceAgent({ name: "Assistant" });
+
+        expect(agent.withHistory(history)).toBe(agent);
+    });
+
+    test("should store a copy of the messages and replace earlier history", () => {
+        const agent = new AgentForceAgent({ name: "Assistant" }).withHistory([{ role: "user", content: "Hello" }]);
+        const messages = [...history];
+
+        agent.withHistory(messages);
+        messages.push({ role: "user", content: "Later" });
+
+        expect(agent["getHistory"]()).toEqual(history);
+    });
+
+    test("should reject messages with other roles or without text", () => {
+        const agent = new AgentForceAgent({ name: "Assistant" });
+
+        expect(() => agent.withHistory("Hello" as any)).toThrow("History must be an array of messages");
+        expect(() => agent.withHistory([{ role: "system", content: "Be brief" } as any]))
+            .toThrow("History message at index 0 must have the role \"user\" or \"assistant\"");
+        expect(() => agent.withHistory([history[0]!, { role: "assistant", content: null } as any]))
+            .toThrow("History message at index 1 must have string content");
+        expect(agent["getHistory"]()).toEqual([]);
+    });
+
+    test("should keep the images of messages and reject invalid ones", () => {
+        const agent = new AgentForceAgent({ name: "Assistant" })
+            .withHistory([{ role: "user", content: "What is this?", images: ["./cat.jpg"] }, { role: "assistant", content: "A cat", images: [] }]);
+
+        expect(agent["getHistory"]()).toEqual([{ role: "user", content: "What is this?", images: ["./cat.jpg"] }, { role: "assistant", content: "A cat" }]);
+        expect(() => agent.withHistory([{ role: "user", content: "What is this?", images: "./cat.jpg" } as any]))
+            .toThrow("History message at index 0 must have images as an array of non-empty strings");
+    });
+
+    test("should send the history between the system prompt and the prompt", async () => {
+        const response = await new AgentForceAgent({ name: "Assistant" })
+            .useLLM("history-test", "test-model")
+            .systemPrompt("You are friendly")
+            .withHistory(history)
+            .prompt("What is my name?")
+            .getResponse();
+
+        expect(response).toBe("Your name is Ada");
+        expect(generateCalls).toEqual([]);
+        expect(chatCalls[0]).toEqual([
+            { role: "system", content: expect.stringContaining("You are friendly") },
+            ...history,
+            { role: "user", content: "What is my name?" },
+        ]);
+    });
+
+    test("should send the history when streaming", async () => {
+        const agent = new AgentForceAgent({ name: "Assistant" })
+            .useLLM("history-test", "test-model")
+            .withHistory(history)
+            .prompt("What is my name?");
+
+        for await (const event of agent.stream()) {
+            expect(event).toEqual({ type: "text", text: "Your name is Ada" });
+        }
+
+        expect(chatCalls[0]?.slice(1)).toEqual([...history, { role: "user", content: "What is my name?" }]);
+    });
+
+    test("should keep generating from the prompt alone without history", async () => {
+        await new AgentForceAgent({ name: "Assistant" })
+            .useLLM("history-test", "test-model")
+            .prompt("Hello")
+            .getResponse();
+
+        expect(generateCalls).toEqual(["Hello"]);
+        expect(chatCalls).toEqual([]);
+    });
+});
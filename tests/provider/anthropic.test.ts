@@ -0,0 +1,187 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, jest } from "@jest/globals";
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+// The global setup mocks the provider, this suite exercises the real implementation
+const { AnthropicProvider } = jest.requireActual("../../lib/provider/anthropic") as typeof import("../../lib/provider/anthropic");
+
+jest.mock("../../lib/agent/functions/tools", () => ({
+    executeTool: jest.fn(),
+}));
+
+describe("AnthropicProvider against a local Messages API server", () => {
+    let server: Server;
+    let baseUrl: string;
+    let requests: any[] = [];
+    let replies: any[] = [];
+
+    const message = (content: Record<string, unknown>[], stopReason = "end_turn"): Record<string, unknown> => ({
+        id: "msg_test",
+        type: "message",
+        role: "assistant",
+        model: "claude-test",
+        content,
+        stop_reason: stopReason,
+        stop_sequence: null,
+        usage: { input_tokens: 1, output_tokens: 1 },
+    });
+
+    const tools = [{
+        type: "function" as const,
+        function: {
+            name: "get_weather",
+            description: "Get the weather",
+            parameters: { type: "object" as const, properties: { city: { type: "string", description: "City" } }, required: ["city"] },
+        },
+    }];
+
+    beforeAll(async () => {
+        server = createServer((req: IncomingMessage, res: ServerResponse) => {
+            let body = "";
+            req.on("data", chunk => body += chunk);
+            req.on("end", () => {
+                requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+                res.setHeader("Content-Type", "application/json");
+                res.end(JSON.stringify(replies.shift() ?? message([{ type: "text", text: "default" }])));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        replies = [];
+    });
+
+    test("should send the system prompt as a top-level parameter with a default max_tokens", async () => {
+        replies.push(message([{ type: "text", text: "Hello from Claude" }]));
+        const provider = new AnthropicProvider("claude-test", { baseUrl, temperature: 0.2 });
+
+        const result = await provider.generate("Hi", "Be brief");
+
+        expect(result).toBe("Hello from Claude");
+        expect(requests).toHaveLength(1);
+        expect(requests[0].url).toBe("/v1/messages");
+        expect(requests[0].headers["x-api-key"]).toBe("test-key");
+        expect(requests[0].body).toEqual({
+            model: "claude-test",
+            system: "Be brief",
+            max_tokens: 4096,
+            temperature: 0.2,
+            messages: [{ role: "user", content: "Hi" }],
+        });
+    });
+
+    test("should lift system messages out of the history and merge consecutive turns", async () => {
+        replies.push(message([{ type: "text", text: "Second answer" }]));
+        const provider = new AnthropicProvider("claude-test", { baseUrl, maxTokens: 256 });
+
+        const result = await provider.chat([
+            { role: "system", content: "You are terse" },
+            { role: "user", content: "First question" },
+            { role: "assistant", content: "First answer" },
+            { role: "user", content: "Second question" },
+            { role: "user", content: "Please hurry" },
+        ]);
+
+        expect(result).toBe("Second answer");
+        expect(requests[0].body.system).toBe("You are terse");
+        expect(requests[0].body.max_tokens).toBe(256);
+        expect(requests[0].body.messages).toEqual([
+            { role: "user", content: "First question" },
+            { role: "assistant", content: "First answer" },
+            { role: "user", content: "Second question\n\nPlease hurry" },
+        ]);
+    });
+
+    test("should run the tool loop and return tool results in a user turn", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.resolve({ temperature: 21 }));
+
+        replies.push(message([
+            { type: "text", text: "Let me check." },
+            { type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Berlin" } },
+        ], "tool_use"));
+        replies.push(message([{ type: "text", text: "It is 21 degrees in Berlin" }]));
+
+        const provider = new AnthropicProvider("claude-test", { baseUrl });
+        const result = await provider.generateWithTools("Weather in Berlin?", tools, "Use tools");
+
+        expect(result).toBe("It is 21 degrees in Berlin");
+        expect(executeTool).toHaveBeenCalledWith("get_weather", { city: "Berlin" }, undefined, undefined, undefined);
+        expect(requests).toHaveLength(2);
+        expect(requests[0].body.system).toBe("Use tools");
+        expect(requests[0].body.tools).toEqual([{
+            name: "get_weather",
+            description: "Get the weather",
+            input_schema: tools[0]!.function.parameters,
+        }]);
+
+        const followUp = requests[1].body.messages;
+        expect(followUp[1]).toMatchObject({ role: "assistant", content: [{ type: "text" }, { type: "tool_use", id: "toolu_1" }] });
+        expect(followUp[2]).toEqual({
+            role: "user",
+            content: [{ type: "tool_result", tool_use_id: "toolu_1", content: "{\"temperature\":21}" }],
+        });
+        expect(provider.getUsage()).toEqual({ promptTokens: 2, completionTokens: 2, totalTokens: 4 });
+    });
+
+    test("should report failing tools back to the model as error results", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.reject(new Error("Service down")));
+
+        replies.push(message([{ type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Berlin" } }], "tool_use"));
+        replies.push(message([{ type: "text", text: "The weather service is unavailable" }]));
+
+        const provider = new AnthropicProvider("claude-test", { baseUrl });
+        const result = await provider.chatWithTools([{ role: "user", content: "Weather?" }], tools);
+
+        expect(result).toBe("The weather service is unavailable");
+        expect(requests[1].body.messages[2].content[0]).toEqual({
+            type: "tool_result",
+            tool_use_id: "toolu_1",
+            content: "Error: Service down",
+            is_error: true,
+        });
+    });
+
+    test("should stop after maxToolRounds and ask for a final answer with tools disabled", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.resolve("ok"));
+
+        replies.push(message([{ type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Rome" } }], "tool_use"));
+        replies.push(message([{ type: "text", text: "Gave up on tools" }]));
+
+        const provider = new AnthropicProvider("claude-test", { baseUrl, maxToolRounds: 1 });
+        const result = await provider.chatWithTools([{ role: "user", content: "Loop" }], tools);
+
+        expect(result).toBe("Gave up on tools");
+        expect(requests[0].body.tool_choice).toEqual({ type: "auto" });
+        expect(requests[1].body.tool_choice).toEqual({ type: "none" });
+    });
+
+    test("should return an error string when the server fails", async () => {
+        const provider = new AnthropicProvider("claude-test", { baseUrl: "http://127.0.0.1:1" });
+        (provider as any).client = (provider as any).client.withOptions({ maxRetries: 0 });
+
+        const result = await provider.chat([{ role: "user", content: "Hi" }]);
+
+        expect(result).toMatch(/^Error: Anthropic provider error - /);
+    });
+
+    test("should require an API key", () => {
+        const apiKey = process.env.ANTHROPIC_API_KEY;
+        delete process.env.ANTHROPIC_API_KEY;
+
+        try {
+            expect(() => new AnthropicProvider("claude-test")).toThrow("ANTHROPIC_API_KEY environment variable is required");
+        } finally {
+            process.env.ANTHROPIC_API_KEY = apiKey;
+        }
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, test, afterEach } from "@jest/globals";
+import { getProviderConcurrency, setProviderConcurrency, withProviderSlot } from "../../lib/provider/concurrency";
+
+describe("Provider concurrency", () => {
+    afterEach(() => {
+        setProviderConcurrency("ollama", undefined);
+    });
+
+    test("should register limits case-insensitively and remove them", () => {
+        setProviderConcurrency("Ollama", 2);
+        expect(getProviderConcurrency("ollama")).toBe(2);
+
+        setProviderConcurrency("ollama", undefined);
+        expect(getProviderConcurrency("ollama")).toBeUndefined();
+    });
+
+    test("should reject limits that are not positive integers", () => {
+        expect(() => setProviderConcurrency("ollama", 0)).toThrow("Concurrency of provider \"ollama\" must be a positive integer");
+    });
+
+    test("should limit concurrent calls across callers", async () => {
+        setProviderConcurrency("ollama", 2);
+        let running = 0;
+        let maxRunning = 0;
+        const call = (): Promise<void> => withProviderSlot("ollama", undefined, async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+        });
+
+        await Promise.all([call(), call(), call(), call(), call()]);
+
+        expect(maxRunning).toBe(2);
+    });
+
+    test("should not limit providers without a pool", async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const call = (): Promise<void> => withProviderSlot("openai", undefined, async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            running--;
+        });
+
+        await Promise.all([call(), call(), call()]);
+
+        expect(maxRunning).toBe(3);
+    });
+
+    test("should release the slot when the call fails", async () => {
+        setProviderConcurrency("ollama", 1);
+
+        await expect(withProviderSlot("ollama", undefined, () => Promise.reject(new Error("Down")))).rejects.toThrow("Down");
+
+        await expect(withProviderSlot("ollama", undefined, () => Promise.resolve("ok"))).resolves.toBe("ok");
+    });
+});
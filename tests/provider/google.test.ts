@@ -0,0 +1,217 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, jest } from "@jest/globals";
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+// The global setup mocks the provider, this suite exercises the real implementation
+const { GoogleProvider } = jest.requireActual("../../lib/provider/google") as typeof import("../../lib/provider/google");
+
+jest.mock("../../lib/agent/functions/tools", () => ({
+    executeTool: jest.fn(),
+}));
+
+describe("GoogleProvider against a local Gemini API server", () => {
+    let server: Server;
+    let baseUrl: string;
+    let requests: any[] = [];
+    let replies: any[] = [];
+
+    const candidate = (parts: Record<string, unknown>[], finishReason = "STOP"): Record<string, unknown> => ({
+        candidates: [{ content: { role: "model", parts }, finishReason, index: 0 }],
+    });
+
+    const tools = [{
+        type: "function" as const,
+        function: {
+            name: "get_weather",
+            description: "Get the weather",
+            parameters: { type: "object" as const, properties: { city: { type: "string", description: "City" } }, required: ["city"] },
+        },
+    }];
+
+    beforeAll(async () => {
+        server = createServer((req: IncomingMessage, res: ServerResponse) => {
+            let body = "";
+            req.on("data", chunk => body += chunk);
+            req.on("end", () => {
+                requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+                const reply = replies.shift() ?? candidate([{ text: "default" }]);
+                // Streaming replies are arrays of chunks sent as server-sent events
+                if (req.url?.includes(":streamGenerateContent")) {
+                    res.setHeader("Content-Type", "text/event-stream");
+                    res.end((reply as any[]).map(chunk => `data: ${JSON.stringify(chunk)}\n\n`).join(""));
+                    return;
+                }
+                res.setHeader("Content-Type", "application/json");
+                res.end(JSON.stringify(reply));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        replies = [];
+    });
+
+    test("should send the system prompt as systemInstruction with generation options", async () => {
+        replies.push(candidate([{ text: "Hello from Gemini" }]));
+        const provider = new GoogleProvider("gemini-test", { baseUrl, temperature: 0.2, maxTokens: 64 });
+
+        const result = await provider.generate("Hi", "Be brief");
+
+        expect(result).toBe("Hello from Gemini");
+        expect(requests[0].url).toContain("/models/gemini-test:generateContent");
+        expect(requests[0].body.systemInstruction.parts).toEqual([{ text: "Be brief" }]);
+        expect(requests[0].body.generationConfig).toMatchObject({ temperature: 0.2, maxOutputTokens: 64 });
+    });
+
+    test("should move system messages from chat history into systemInstruction", async () => {
+        replies.push(candidate([{ text: "Second answer" }]));
+        const provider = new GoogleProvider("gemini-test", { baseUrl });
+
+        const result = await provider.chat([
+            { role: "system", content: "You are terse" },
+            { role: "user", content: "First question" },
+            { role: "assistant", content: "First answer" },
+            { role: "user", content: "Second question" },
+        ]);
+
+        expect(result).toBe("Second answer");
+        expect(requests[0].body.systemInstruction.parts).toEqual([{ text: "You are terse" }]);
+        expect(requests[0].body.contents).toEqual([
+            { role: "user", parts: [{ text: "First question" }] },
+            { role: "model", parts: [{ text: "First answer" }] },
+            { role: "user", parts: [{ text: "Second question" }] },
+        ]);
+    });
+
+    test("should send images as inlineData parts", async () => {
+        replies.push(candidate([{ text: "A cat" }]));
+        const provider = new GoogleProvider("gemini-test", { baseUrl });
+
+        await provider.chat([{ role: "user", content: "What is this?", images: ["data:image/jpeg;base64,/9j/4AAQ", "iVBORw0KGgo="] }]);
+
+        expect(requests[0].body.contents).toEqual([{
+            role: "user",
+            parts: [
+                { text: "What is this?" },
+                { inlineData: { mimeType: "image/jpeg", data: "/9j/4AAQ" } },
+                { inlineData: { mimeType: "image/png", data: "iVBORw0KGgo=" } },
+            ],
+        }]);
+    });
+
+    test("should run the function calling loop and send function responses back", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.resolve({ temperature: 21 }));
+
+        replies.push(candidate([{ functionCall: { name: "get_weather", args: { city: "Berlin" } } }]));
+        replies.push({ ...candidate([{ text: "It is 21 degrees in Berlin" }]), usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 8 } });
+
+        const provider = new GoogleProvider("gemini-test", { baseUrl });
+        const result = await provider.generateWithTools("Weather in Berlin?", tools, "Use tools");
+
+        expect(result).toBe("It is 21 degrees in Berlin");
+        expect(provider.getUsage()).toEqual({ promptTokens: 12, completionTokens: 8, totalTokens: 20 });
+        expect(executeTool).toHaveBeenCalledWith("get_weather", { city: "Berlin" }, undefined, undefined, undefined);
+        expect(requests).toHaveLength(2);
+        expect(requests[0].body.systemInstruction.parts).toEqual([{ text: "Use tools" }]);
+        expect(requests[0].body.tools[0].functionDeclarations[0]).toEqual({
+            name: "get_weather",
+            description: "Get the weather",
+            parametersJsonSchema: tools[0]!.function.parameters,
+        });
+
+        const followUp = requests[1].body.contents;
+        expect(followUp[1]).toEqual({ role: "model", parts: [{ functionCall: { name: "get_weather", args: { city: "Berlin" } } }] });
+        expect(followUp[2]).toEqual({
+            role: "user",
+            parts: [{ functionResponse: { name: "get_weather", response: { output: { temperature: 21 } } } }],
+        });
+    });
+
+    test("should report failing tools back to the model as error responses", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.reject(new Error("Service down")));
+
+        replies.push(candidate([{ functionCall: { id: "call_1", name: "get_weather", args: { city: "Berlin" } } }]));
+        replies.push(candidate([{ text: "The weather service is unavailable" }]));
+
+        const provider = new GoogleProvider("gemini-test", { baseUrl });
+        const result = await provider.chatWithTools([{ role: "user", content: "Weather?" }], tools);
+
+        expect(result).toBe("The weather service is unavailable");
+        expect(requests[1].body.contents[2].parts[0]).toEqual({
+            functionResponse: { id: "call_1", name: "get_weather", response: { error: "Service down" } },
+        });
+    });
+
+    test("should stop after maxToolRounds and ask for a final answer with function calling disabled", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.resolve("ok"));
+
+        replies.push(candidate([{ functionCall: { name: "get_weather", args: { city: "Rome" } } }]));
+        replies.push(candidate([{ text: "Gave up on tools" }]));
+
+        const provider = new GoogleProvider("gemini-test", { baseUrl, maxToolRounds: 1 });
+        const result = await provider.chatWithTools([{ role: "user", content: "Loop" }], tools);
+
+        expect(result).toBe("Gave up on tools");
+        expect(requests[0].body.toolConfig.functionCallingConfig.mode).toBe("AUTO");
+        expect(requests[1].body.toolConfig.functionCallingConfig.mode).toBe("NONE");
+    });
+
+    test("should stream text deltas and function calling events", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.resolve({ temperature: 21 }));
+
+        replies.push([candidate([{ functionCall: { name: "get_weather", args: { city: "Berlin" } } }])]);
+        replies.push([
+            candidate([{ text: "It is " }]),
+            { ...candidate([{ text: "21 degrees" }]), usageMetadata: { promptTokenCount: 30, candidatesTokenCount: 4 } },
+        ]);
+
+        const provider = new GoogleProvider("gemini-test", { baseUrl });
+        const events: any[] = [];
+        for await (const event of provider.stream([{ role: "user", content: "Weather in Berlin?" }], tools)) {
+            events.push(event);
+        }
+
+        expect(events).toEqual([
+            { type: "tool_call", name: "get_weather", args: { city: "Berlin" } },
+            { type: "tool_result", name: "get_weather", result: { temperature: 21 } },
+            { type: "text", text: "It is " },
+            { type: "text", text: "21 degrees" },
+        ]);
+        expect(requests[0].url).toContain("/models/gemini-test:streamGenerateContent");
+        expect(requests[1].body.contents[2].parts[0].functionResponse).toEqual({
+            name: "get_weather",
+            response: { output: { temperature: 21 } },
+        });
+        expect(provider.getUsage()).toEqual({ promptTokens: 30, completionTokens: 4, totalTokens: 34 });
+    });
+
+    test("should return an error string when the server fails", async () => {
+        const provider = new GoogleProvider("gemini-test", { baseUrl: "http://127.0.0.1:1" });
+
+        const result = await provider.chatWithTools([{ role: "user", content: "Hi" }], tools);
+
+        expect(result).toMatch(/^Error: Google Gemini provider error - /);
+    });
+
+    test("should require an API key", () => {
+        const apiKey = process.env.GEMINI_API_KEY;
+        delete process.env.GEMINI_API_KEY;
+
+        try {
+            expect(() => new GoogleProvider("gemini-test")).toThrow("GEMINI_API_KEY environment variable is required");
+        } finally {
+            process.env.GEMINI_API_KEY = apiKey;
+        }
+    });
+});
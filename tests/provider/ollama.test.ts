@@ -0,0 +1,167 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { DeferredToolCall } from "../../lib/utils/deferred";
+
+// The global setup mocks the provider, this suite exercises the real implementation
+const { OllamaProvider } = jest.requireActual("../../lib/provider/ollama") as typeof import("../../lib/provider/ollama");
+
+jest.mock("ollama", () => ({
+    __esModule: true,
+    default: { chat: jest.fn(), generate: jest.fn(), embed: jest.fn() },
+}));
+
+jest.unmock("../../lib/provider/ollama-tooluse");
+
+jest.mock("../../lib/agent/functions/tools", () => ({
+    executeTool: jest.fn(),
+}));
+
+describe("OllamaProvider streaming", () => {
+    const ollama = (jest.requireMock("ollama") as { default: { chat: jest.Mock<any> } }).default;
+
+    // The last part is marked done and carries the token counts like a real Ollama stream
+    const parts = (...items: Array<Record<string, unknown>>): AsyncIterable<any> => ({
+        async *[Symbol.asyncIterator]() {
+            for (const [index, message] of items.entries()) {
+                const done = index === items.length - 1;
+                yield {
+                    message: { role: "assistant", content: "", ...message },
+                    done,
+                    ...(done && { prompt_eval_count: 7, eval_count: 3 }),
+                };
+            }
+        },
+    });
+
+    const collect = async (iterable: AsyncIterable<any>): Promise<any[]> => {
+        const events: any[] = [];
+        for await (const event of iterable) {
+            events.push(event);
+        }
+        return events;
+    };
+
+    const tools = [{
+        type: "function" as const,
+        function: {
+            name: "get_weather",
+            description: "Get the weather",
+            parameters: { type: "object" as const, properties: { city: { type: "string", description: "City" } }, required: ["city"] },
+        },
+    }];
+
+    test("should stream text deltas with model options", async () => {
+        ollama.chat.mockImplementation(() => Promise.resolve(parts({ content: "Hel" }, { content: "lo" })));
+        const provider = new OllamaProvider("gemma3:4b", { temperature: 0.4 });
+
+        const events = await collect(provider.stream([{ role: "user", content: "Hi" }]));
+
+        expect(events).toEqual([
+            { type: "text", text: "Hel" },
+            { type: "text", text: "lo" },
+        ]);
+        expect(ollama.chat).toHaveBeenCalledWith({
+            model: "gemma3:4b",
+            messages: [{ role: "user", content: "Hi" }],
+            options: { temperature: 0.4 },
+            stream: true,
+        });
+    });
+
+    test("should run tool calls between streamed rounds", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.reject(new Error("Service down")));
+
+        ollama.chat
+            .mockImplementationOnce(() => Promise.resolve(parts({ tool_calls: [{ function: { name: "get_weather", arguments: { city: "Oslo" } } }] })))
+            .mockImplementationOnce(() => Promise.resolve(parts({ content: "Unavailable" })));
+
+        const provider = new OllamaProvider("qwen3");
+        const events = await collect(provider.stream([{ role: "user", content: "Weather?" }], tools));
+
+        expect(events).toEqual([
+            { type: "tool_call", name: "get_weather", args: { city: "Oslo" } },
+            { type: "tool_result", name: "get_weather", error: "Service down" },
+            { type: "text", text: "Unavailable" },
+        ]);
+
+        const followUp = (ollama.chat.mock.calls[1]![0] as any).messages;
+        expect(followUp[1]).toMatchObject({ role: "assistant", tool_calls: [{ function: { name: "get_weather" } }] });
+        expect(followUp[2]).toEqual({ role: "tool", content: "Tool get_weather args: {\"city\":\"Oslo\"}\nError: Service down" });
+        expect(provider.getUsage()).toEqual({ promptTokens: 14, completionTokens: 6, totalTokens: 20 });
+    });
+
+    test("should end the stream with the round that defers tool calls to the caller", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        const deferred = new DeferredToolCall("The client runs this tool");
+        executeTool.mockImplementation(() => Promise.resolve(deferred));
+
+        ollama.chat.mockImplementationOnce(() => Promise.resolve(parts({ tool_calls: [{ function: { name: "get_weather", arguments: { city: "Oslo" } } }] })));
+
+        const provider = new OllamaProvider("qwen3");
+        const events = await collect(provider.stream([{ role: "user", content: "Weather?" }], tools));
+
+        expect(events).toEqual([
+            { type: "tool_call", name: "get_weather", args: { city: "Oslo" } },
+            { type: "tool_result", name: "get_weather", result: deferred },
+        ]);
+        expect(ollama.chat).toHaveBeenCalledTimes(1);
+    });
+
+    test("should constrain chat responses to the JSON schema", async () => {
+        const jsonSchema = { type: "object", properties: { name: { type: "string" } } };
+        ollama.chat.mockImplementation(() => Promise.resolve({ message: { role: "assistant", content: "{\"name\":\"Ada\"}" } }));
+        const provider = new OllamaProvider("gemma3:4b", { jsonSchema });
+
+        await provider.chat([{ role: "user", content: "Who?" }]);
+
+        expect(ollama.chat).toHaveBeenCalledWith(expect.objectContaining({ format: jsonSchema }));
+    });
+
+    test("should send images of messages as base64 strings", async () => {
+        ollama.chat.mockImplementation(() => Promise.resolve(parts({ content: "A cat" })));
+        const provider = new OllamaProvider("llava");
+
+        await collect(provider.stream([
+            { role: "system", content: "Describe images" },
+            { role: "user", content: "What is this?", images: ["data:image/png;base64,iVBORw0KGgo=", "/9j/4AAQ"] },
+        ]));
+
+        expect(ollama.chat).toHaveBeenCalledWith(expect.objectContaining({
+            messages: [
+                { role: "system", content: "Describe images" },
+                { role: "user", content: "What is this?", images: ["iVBORw0KGgo=", "/9j/4AAQ"] },
+            ],
+        }));
+    });
+
+    test("should yield an error text event when Ollama fails", async () => {
+        ollama.chat.mockImplementation(() => Promise.reject(new Error("connect ECONNREFUSED")));
+        const provider = new OllamaProvider("gemma3:4b");
+
+        const events = await collect(provider.stream([{ role: "user", content: "Hi" }]));
+
+        expect(events).toEqual([{ type: "text", text: "Error: Ollama provider error - connect ECONNREFUSED" }]);
+    });
+});
+
+describe("OllamaProvider embeddings", () => {
+    const ollama = (jest.requireMock("ollama") as { default: { embed: jest.Mock<any> } }).default;
+
+    test("should embed the texts with the model and record the prompt tokens", async () => {
+        ollama.embed.mockImplementation(() => Promise.resolve({ embeddings: [[0.1, 0.2], [0.3, 0.4]], prompt_eval_count: 9 }));
+        const provider = new OllamaProvider("nomic-embed-text");
+
+        const embeddings = await provider.embed(["first", "second"]);
+
+        expect(embeddings).toEqual([[0.1, 0.2], [0.3, 0.4]]);
+        expect(ollama.embed).toHaveBeenCalledWith(expect.objectContaining({ model: "nomic-embed-text", input: ["first", "second"] }));
+        expect(provider.getUsage()).toEqual({ promptTokens: 9, completionTokens: 0, totalTokens: 9 });
+    });
+
+    test("should throw a provider error when Ollama fails", async () => {
+        ollama.embed.mockImplementation(() => Promise.reject(new Error("model \"gemma3:4b\" does not support embeddings")));
+        const provider = new OllamaProvider("gemma3:4b");
+
+        await expect(provider.embed(["text"])).rejects.toThrow("Ollama provider error - model \"gemma3:4b\" does not support embeddings");
+    });
+});
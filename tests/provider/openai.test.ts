@@ -0,0 +1,212 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, jest } from "@jest/globals";
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { DeferredToolCall } from "../../lib/utils/deferred";
+
+// The global setup mocks the provider, this suite exercises the real implementation
+const { OpenAIProvider } = jest.requireActual("../../lib/provider/openai") as typeof import("../../lib/provider/openai");
+
+jest.mock("../../lib/agent/functions/tools", () => ({
+    executeTool: jest.fn(),
+}));
+
+describe("OpenAIProvider against a local OpenAI-compatible server", () => {
+    let server: Server;
+    let baseUrl: string;
+    let requests: any[] = [];
+    let replies: any[] = [];
+
+    const completion = (message: Record<string, unknown>, finishReason = "stop"): Record<string, unknown> => ({
+        id: "chatcmpl-test",
+        object: "chat.completion",
+        created: 0,
+        model: "local-model",
+        choices: [{ index: 0, message: { role: "assistant", content: null, ...message }, finish_reason: finishReason }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    });
+
+    beforeAll(async () => {
+        server = createServer((req: IncomingMessage, res: ServerResponse) => {
+            let body = "";
+            req.on("data", chunk => body += chunk);
+            req.on("end", () => {
+                requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body) });
+                res.setHeader("Content-Type", "application/json");
+                res.end(JSON.stringify(replies.shift() ?? completion({ content: "default" })));
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        replies = [];
+    });
+
+    test("should send system and user prompt with model config to the overridden base URL", async () => {
+        replies.push(completion({ content: "Hello from local model" }));
+        const provider = new OpenAIProvider("local-model", { baseUrl, temperature: 0.2, maxTokens: 64 });
+
+        const result = await provider.generate("Hi", "Be brief");
+
+        expect(result).toBe("Hello from local model");
+        expect(requests).toHaveLength(1);
+        expect(requests[0].url).toBe("/v1/chat/completions");
+        expect(requests[0].body).toMatchObject({
+            model: "local-model",
+            temperature: 0.2,
+            max_tokens: 64,
+            messages: [
+                { role: "system", content: "Be brief" },
+                { role: "user", content: "Hi" },
+            ],
+        });
+    });
+
+    test("should pass chat history through unchanged", async () => {
+        replies.push(completion({ content: "Second answer" }));
+        const provider = new OpenAIProvider("local-model", { baseUrl });
+
+        const result = await provider.chat([
+            { role: "user", content: "First question" },
+            { role: "assistant", content: "First answer" },
+            { role: "user", content: "Second question" },
+        ]);
+
+        expect(result).toBe("Second answer");
+        expect(requests[0].body.messages).toHaveLength(3);
+    });
+
+    test("should request a JSON schema response format for structured output", async () => {
+        const jsonSchema = { type: "object", properties: { name: { type: "string" } } };
+        const provider = new OpenAIProvider("local-model", { baseUrl, jsonSchema });
+
+        await provider.chat([{ role: "user", content: "Who?" }]);
+
+        expect(requests[0].body.response_format).toEqual({ type: "json_schema", json_schema: { name: "response", schema: jsonSchema } });
+    });
+
+    test("should run the tool loop and feed tool results back to the model", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.resolve({ temperature: 21 }));
+
+        replies.push(completion({
+            tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Berlin\"}" } }],
+        }, "tool_calls"));
+        replies.push(completion({ content: "It is 21 degrees in Berlin" }));
+
+        const provider = new OpenAIProvider("local-model", { baseUrl });
+        const tools = [{
+            type: "function" as const,
+            function: {
+                name: "get_weather",
+                description: "Get the weather",
+                parameters: { type: "object" as const, properties: { city: { type: "string", description: "City" } }, required: ["city"] },
+            },
+        }];
+
+        const result = await provider.generateWithTools("Weather in Berlin?", tools);
+
+        expect(result).toBe("It is 21 degrees in Berlin");
+        expect(executeTool).toHaveBeenCalledWith("get_weather", { city: "Berlin" }, undefined, undefined, undefined);
+        expect(requests).toHaveLength(2);
+        expect(requests[0].body.tools[0].function.name).toBe("get_weather");
+
+        const followUp = requests[1].body.messages;
+        expect(followUp[1]).toMatchObject({ role: "assistant", tool_calls: [{ id: "call_1" }] });
+        expect(followUp[2]).toEqual({ role: "tool", tool_call_id: "call_1", content: "{\"temperature\":21}" });
+        expect(provider.getUsage()).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30 });
+    });
+
+    test("should end the tool loop with the round that defers tool calls to the caller", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.resolve(new DeferredToolCall("The client runs this tool")));
+
+        replies.push(completion({
+            content: "Let me check",
+            tool_calls: [
+                { id: "call_1", type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Oslo\"}" } },
+                { id: "call_2", type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Bergen\"}" } },
+            ],
+        }, "tool_calls"));
+
+        const provider = new OpenAIProvider("local-model", { baseUrl });
+        const result = await provider.chatWithTools([{ role: "user", content: "Weather in Oslo and Bergen?" }], [{
+            type: "function",
+            function: { name: "get_weather", description: "Get the weather", parameters: { type: "object", properties: {} } },
+        }]);
+
+        expect(result).toBe("Let me check");
+        expect(executeTool).toHaveBeenCalledTimes(2);
+        expect(requests).toHaveLength(1);
+    });
+
+    test("should stop after maxToolRounds and ask for a final answer with tools disabled", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.resolve("ok"));
+
+        replies.push(completion({
+            tool_calls: [{ id: "call_1", type: "function", function: { name: "noop", arguments: "{}" } }],
+        }, "tool_calls"));
+        replies.push(completion({ content: "Gave up on tools" }));
+
+        const provider = new OpenAIProvider("local-model", { baseUrl, maxToolRounds: 1 });
+        const result = await provider.chatWithTools([{ role: "user", content: "Loop" }], [{
+            type: "function",
+            function: { name: "noop", description: "No-op", parameters: { type: "object", properties: {} } },
+        }]);
+
+        expect(result).toBe("Gave up on tools");
+        expect(requests[1].body.tool_choice).toBe("none");
+    });
+
+    test("should create embeddings in the order of the input", async () => {
+        replies.push({
+            object: "list",
+            data: [
+                { object: "embedding", index: 1, embedding: [0.3, 0.4] },
+                { object: "embedding", index: 0, embedding: [0.1, 0.2] },
+            ],
+            model: "local-embedder",
+            usage: { prompt_tokens: 6, total_tokens: 6 },
+        });
+        const provider = new OpenAIProvider("local-embedder", { baseUrl });
+
+        const embeddings = await provider.embed(["first", "second"]);
+
+        expect(embeddings).toEqual([[0.1, 0.2], [0.3, 0.4]]);
+        expect(requests[0].url).toBe("/v1/embeddings");
+        expect(requests[0].body).toEqual({ model: "local-embedder", input: ["first", "second"], encoding_format: "float" });
+        expect(provider.getUsage()).toEqual({ promptTokens: 6, completionTokens: 0, totalTokens: 6 });
+    });
+
+    test("should return an error string when the server fails", async () => {
+        const provider = new OpenAIProvider("local-model", { baseUrl: "http://127.0.0.1:1/v1" });
+        (provider as any).client = (provider as any).client.withOptions({ maxRetries: 0 });
+
+        const result = await provider.chat([{ role: "user", content: "Hi" }]);
+
+        expect(result).toMatch(/^Error: OpenAI provider error - /);
+    });
+
+    test("should require an API key when no base URL is configured", () => {
+        const apiKey = process.env.OPENAI_API_KEY;
+        const baseUrlEnv = process.env.OPENAI_BASE_URL;
+        delete process.env.OPENAI_API_KEY;
+        delete process.env.OPENAI_BASE_URL;
+
+        try {
+            expect(() => new OpenAIProvider("gpt-4o")).toThrow("OPENAI_API_KEY environment variable is required");
+        } finally {
+            process.env.OPENAI_API_KEY = apiKey;
+            if (baseUrlEnv !== undefined) {
+                process.env.OPENAI_BASE_URL = baseUrlEnv;
+            }
+        }
+    });
+});
@@ -0,0 +1,169 @@
+import { describe, expect, test, beforeAll, afterAll, beforeEach, jest } from "@jest/globals";
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import OpenAI from "openai";
+
+// The global setup mocks the provider, this suite exercises the real implementation
+const { OpenRouterProvider } = jest.requireActual("../../lib/provider/openrouter") as typeof import("../../lib/provider/openrouter");
+
+jest.unmock("../../lib/provider/openrouter-tooluse");
+
+jest.mock("../../lib/agent/functions/tools", () => ({
+    executeTool: jest.fn(),
+}));
+
+describe("OpenRouterProvider streaming", () => {
+    let server: Server;
+    let baseUrl: string;
+    let requests: any[] = [];
+    let replies: any[][] = [];
+
+    const chunk = (delta: Record<string, unknown>): Record<string, unknown> => ({
+        id: "chatcmpl-test",
+        object: "chat.completion.chunk",
+        created: 0,
+        model: "test-model",
+        choices: [{ index: 0, delta, finish_reason: null }],
+    });
+
+    const tools = [{
+        type: "function" as const,
+        function: {
+            name: "get_weather",
+            description: "Get the weather",
+            parameters: { type: "object" as const, properties: { city: { type: "string", description: "City" } }, required: ["city"] },
+        },
+    }];
+
+    // OpenRouter has a fixed base URL, so the tool use client is pointed at the local server
+    const createProvider = (modelConfig?: Record<string, unknown>): InstanceType<typeof OpenRouterProvider> => {
+        const provider = new OpenRouterProvider("test-model", modelConfig);
+        (provider as any).toolUse.client = new OpenAI({ baseURL: baseUrl, apiKey: "test-key", maxRetries: 0 });
+        return provider;
+    };
+
+    const collect = async (iterable: AsyncIterable<any>): Promise<any[]> => {
+        const events: any[] = [];
+        for await (const event of iterable) {
+            events.push(event);
+        }
+        return events;
+    };
+
+    beforeAll(async () => {
+        server = createServer((req: IncomingMessage, res: ServerResponse) => {
+            let body = "";
+            req.on("data", data => body += data);
+            req.on("end", () => {
+                requests.push({ url: req.url, body: JSON.parse(body) });
+                const chunks = replies.shift() ?? [chunk({ content: "default" })];
+                res.setHeader("Content-Type", "text/event-stream");
+                res.end(`${chunks.map(c => `data: ${JSON.stringify(c)}\n\n`).join("")}data: [DONE]\n\n`);
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        replies = [];
+    });
+
+    test("should stream text deltas without tools", async () => {
+        replies.push([chunk({ role: "assistant", content: "Hello" }), chunk({ content: " world" })]);
+        const provider = createProvider({ temperature: 0.1 });
+
+        const events = await collect(provider.stream([{ role: "user", content: "Hi" }]));
+
+        expect(events).toEqual([
+            { type: "text", text: "Hello" },
+            { type: "text", text: " world" },
+        ]);
+        expect(requests[0].body).toMatchObject({ model: "test-model", stream: true, temperature: 0.1 });
+        expect(requests[0].body.tools).toBeUndefined();
+    });
+
+    test("should send images of user messages as image_url content parts", async () => {
+        replies.push([chunk({ role: "assistant", content: "A cat" })]);
+        const provider = createProvider();
+
+        await collect(provider.stream([
+            { role: "assistant", content: "Send me a picture" },
+            { role: "user", content: "What is this?", images: ["https://example.com/cat.png", "iVBORw0KGgo="] },
+        ]));
+
+        expect(requests[0].body.messages).toEqual([
+            { role: "assistant", content: "Send me a picture" },
+            {
+                role: "user",
+                content: [
+                    { type: "text", text: "What is this?" },
+                    { type: "image_url", image_url: { url: "https://example.com/cat.png" } },
+                    { type: "image_url", image_url: { url: "data:image/png;base64,iVBORw0KGgo=" } },
+                ],
+            },
+        ]);
+    });
+
+    test("should assemble tool call fragments and run the tool loop", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.resolve({ temperature: 21 }));
+
+        replies.push([
+            chunk({ tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "get_weather", arguments: "{\"ci" } }] }),
+            chunk({ tool_calls: [{ index: 0, function: { arguments: "ty\":\"Berlin\"}" } }] }),
+        ]);
+        replies.push([
+            chunk({ content: "21 degrees" }),
+            { ...chunk({}), choices: [], usage: { prompt_tokens: 40, completion_tokens: 3, total_tokens: 43 } },
+        ]);
+
+        const provider = createProvider();
+        const events = await collect(provider.stream([{ role: "user", content: "Weather?" }], tools));
+
+        expect(events).toEqual([
+            { type: "tool_call", name: "get_weather", args: { city: "Berlin" } },
+            { type: "tool_result", name: "get_weather", result: { temperature: 21 } },
+            { type: "text", text: "21 degrees" },
+        ]);
+        expect(requests[0].body.tool_choice).toBe("auto");
+        expect(requests[0].body.stream_options).toEqual({ include_usage: true });
+        expect(provider.getUsage()).toEqual({ promptTokens: 40, completionTokens: 3, totalTokens: 43 });
+
+        const followUp = requests[1].body.messages;
+        expect(followUp[1]).toMatchObject({
+            role: "assistant",
+            tool_calls: [{ id: "call_1", function: { name: "get_weather", arguments: "{\"city\":\"Berlin\"}" } }],
+        });
+        expect(followUp[2]).toEqual({ role: "tool", tool_call_id: "call_1", content: "{\"temperature\":21}" });
+    });
+
+    test("should disable tool calls once maxToolRounds is reached", async () => {
+        const { executeTool } = jest.requireMock("../../lib/agent/functions/tools") as { executeTool: jest.Mock<any> };
+        executeTool.mockImplementation(() => Promise.resolve("ok"));
+
+        replies.push([chunk({ tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "get_weather", arguments: "{}" } }] })]);
+        replies.push([chunk({ content: "Final" })]);
+
+        const provider = createProvider({ maxToolRounds: 1 });
+        const events = await collect(provider.stream([{ role: "user", content: "Loop" }], tools));
+
+        expect(events.at(-1)).toEqual({ type: "text", text: "Final" });
+        expect(requests[1].body.tool_choice).toBe("none");
+    });
+
+    test("should yield an error text event when the server fails", async () => {
+        const provider = new OpenRouterProvider("test-model");
+        (provider as any).toolUse.client = new OpenAI({ baseURL: "http://127.0.0.1:1/v1", apiKey: "test-key", maxRetries: 0 });
+
+        const events = await collect(provider.stream([{ role: "user", content: "Hi" }]));
+
+        expect(events).toHaveLength(1);
+        expect(events[0].text).toMatch(/^Error: OpenRouter provider error - /);
+    });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, test, afterEach, jest } from "@jest/globals";
+import { AgentForceAgent } from "../../lib/agent";
+import type { LLMProvider, ModelConfig } from "../../lib/types";
+import {
+    createProvider,
+    getRegisteredProviders,
+    hasProvider,
+    registerProvider,
+    unregisterProvider,
+} from "../../lib/provider/registry";
+
+describe("Provider registry", () => {
+    const createFakeProvider = (answer: string): LLMProvider & Record<string, jest.Mock<any>> => ({
+        generate: jest.fn<any>().mockResolvedValue(answer),
+        chat: jest.fn<any>().mockResolvedValue(`${answer} (chat)`),
+    });
+
+    afterEach(() => {
+        unregisterProvider("fake");
+    });
+
+    test("should have the built-in providers registered", () => {
+        expect(getRegisteredProviders()).toEqual(["ollama", "openrouter", "google", "openai", "anthropic"]);
+        expect(hasProvider("OpenAI")).toBe(true);
+    });
+
+    test("should create built-in providers with model and config", async () => {
+        const { OllamaProvider } = await import("../../lib/provider/ollama");
+
+        createProvider("ollama", "gemma3:4b", { temperature: 0.3 });
+
+        expect(OllamaProvider).toHaveBeenCalledWith("gemma3:4b", { temperature: 0.3 });
+    });
+
+    test("should register, resolve and unregister a custom provider", () => {
+        const factory = jest.fn((_model: string, _modelConfig?: ModelConfig) => createFakeProvider("fake answer"));
+
+        registerProvider("Fake", factory);
+
+        expect(hasProvider("fake")).toBe(true);
+        expect(getRegisteredProviders()).toContain("fake");
+        createProvider("FAKE", "fake-model", { maxTokens: 10 });
+        expect(factory).toHaveBeenCalledWith("fake-model", { maxTokens: 10 });
+
+        unregisterProvider("fake");
+        expect(hasProvider("fake")).toBe(false);
+    });
+
+    test("should throw a clear error for unknown providers", () => {
+        expect(() => createProvider("missing", "model")).toThrow(
+            "Unknown provider: \"missing\". Registered providers: ollama, openrouter, google, openai, anthropic. Use registerProvider() to add a custom provider.",
+        );
+    });
+
+    test("should validate name and factory", () => {
+        expect(() => registerProvider("  ", () => createFakeProvider("x"))).toThrow("Provider name must be a non-empty string");
+        expect(() => registerProvider("fake", "not a function" as any)).toThrow("Provider factory for \"fake\" must be a function");
+    });
+
+    test("should run agents on a registered provider", async () => {
+        const fake = createFakeProvider("deterministic answer");
+        registerProvider("fake", () => fake);
+
+        const agent = new AgentForceAgent({ name: "FakeAgent" })
+            .useLLM("fake", "fake-model")
+            .systemPrompt("You are a test")
+            .prompt("Hello");
+
+        const result = await agent.getResponse();
+
+        expect(result).toBe("deterministic answer");
+        expect(fake.generate).toHaveBeenCalledWith("Hello", "You are a test", { signal: undefined });
+    });
+
+    test("should fall back to chat without tools when the provider has no tool support", async () => {
+        const { loadTools } = await import("../../lib/agent/functions/tools");
+        (loadTools as any).mockReturnValue([
+            { type: "function", function: { name: "fs_read_file", description: "Read", parameters: { type: "object", properties: {} } } },
+        ]);
+
+        const fake = createFakeProvider("no tools");
+        registerProvider("fake", () => fake);
+
+        const agent = new AgentForceAgent({ name: "FakeAgent", tools: ["fs_read_file"] })
+            .useLLM("fake", "fake-model")
+            .prompt("Hello")
+            .task("First task");
+
+        const result = await agent.getResponse();
+
+        expect(result).toBe("no tools (chat)");
+        expect(fake.chat).toHaveBeenCalled();
+    });
+
+    test("should prefer chatWithTools when the provider supports it", async () => {
+        const { loadTools } = await import("../../lib/agent/functions/tools");
+        (loadTools as any).mockReturnValue([
+            { type: "function", function: { name: "fs_read_file", description: "Read", parameters: { type: "object", properties: {} } } },
+        ]);
+
+        const fake = { ...createFakeProvider("unused"), chatWithTools: jest.fn<any>().mockResolvedValue("used tools") };
+        registerProvider("fake", () => fake);
+
+        const agent = new AgentForceAgent({ name: "FakeAgent", tools: ["fs_read_file"] })
+            .useLLM("fake", "fake-model")
+            .task("First task");
+
+        const result = await agent.getResponse();
+
+        expect(result).toBe("used tools");
+        expect(fake.chatWithTools).toHaveBeenCalledWith(
+            expect.any(Array),
+            expect.arrayContaining([expect.objectContaining({ type: "function" })]),
+            expect.anything(),
+            agent,
+            { signal: undefined },
+        );
+        expect(fake.chat).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, test, afterEach } from "@jest/globals";
+import {
+    clearModelPricing,
+    createEmptyUsage,
+    getModelPricing,
+    mergeUsage,
+    recordUsage,
+    registerModelPricing,
+    withCost,
+} from "../../lib/provider/usage";
+
+describe("Token usage and model pricing", () => {
+    afterEach(() => {
+        clearModelPricing();
+    });
+
+    test("should record token counts and treat missing counts as zero", () => {
+        const usage = createEmptyUsage();
+
+        recordUsage(usage, 10, 4);
+        recordUsage(usage, undefined, null);
+        recordUsage(usage, 5, 1);
+
+        expect(usage).toEqual({ promptTokens: 15, completionTokens: 5, totalTokens: 20 });
+    });
+
+    test("should merge usage records and sum costs when present", () => {
+        const merged = mergeUsage(
+            { promptTokens: 1, completionTokens: 2, totalTokens: 3 },
+            { promptTokens: 4, completionTokens: 5, totalTokens: 9, cost: 0.5 },
+            { promptTokens: 0, completionTokens: 1, totalTokens: 1, cost: 0.25 },
+        );
+
+        expect(merged).toEqual({ promptTokens: 5, completionTokens: 8, totalTokens: 13, cost: 0.75 });
+        expect(mergeUsage(createEmptyUsage()).cost).toBeUndefined();
+    });
+
+    test("should prefer provider specific prices over bare model names", () => {
+        registerModelPricing({
+            "gpt-4o-mini": { input: 1, output: 2 },
+            "openrouter/gpt-4o-mini": { input: 3, output: 4 },
+        });
+
+        expect(getModelPricing("OpenAI", "gpt-4o-mini")).toEqual({ input: 1, output: 2 });
+        expect(getModelPricing("openrouter", "gpt-4o-mini")).toEqual({ input: 3, output: 4 });
+        expect(getModelPricing("ollama", "gemma3:4b")).toBeUndefined();
+    });
+
+    test("should estimate cost in USD per million tokens", () => {
+        registerModelPricing({ "openai/gpt-4o-mini": { input: 0.15, output: 0.6 } });
+        const usage = { promptTokens: 2_000_000, completionTokens: 500_000, totalTokens: 2_500_000 };
+
+        expect(withCost(usage, "openai", "gpt-4o-mini").cost).toBeCloseTo(0.6);
+        expect(withCost(usage, "openai", "unpriced-model")).toEqual(usage);
+    });
+
+    test("should reject invalid prices", () => {
+        expect(() => registerModelPricing({ "bad-model": { input: -1, output: 1 } })).toThrow(
+            "Pricing for \"bad-model\" must have non-negative \"input\" and \"output\" prices per million tokens",
+        );
+        expect(() => registerModelPricing({ "bad-model": { input: 1 } as any })).toThrow();
+    });
+});
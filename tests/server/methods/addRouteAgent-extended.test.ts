@@ -13,6 +13,7 @@ interface MockAgent {
 interface MockContext {
     req: {
         url: string;
+        raw: Request;
         json?: jest.MockedFunction<() => Promise<any>>;
         header?: jest.MockedFunction<() => Record<string, string>>;
     };
@@ -41,6 +42,7 @@ describe("createAgentRouteHandler Extended Edge Case Tests", () => {
         mockContext = {
             req: {
                 url: "http://localhost:3000/test",
+                raw: new Request("http://localhost:3000/test"),
                 json: jest.fn<() => Promise<any>>(),
                 header: jest.fn<() => Record<string, string>>().mockReturnValue({})
             },
@@ -202,6 +204,7 @@ describe("createAgentRouteHandler Extended Edge Case Tests", () => {
             const faultyContext = {
                 req: {
                     url: "http://localhost:3000/test",
+                    raw: new Request("http://localhost:3000/test"),
                     json: jest.fn<() => Promise<any>>().mockRejectedValue(new Error("JSON parse error")),
                     header: jest.fn<() => Record<string, string>>().mockReturnValue({})
                 },
@@ -21,6 +21,7 @@ interface MockAgent {
 interface MockContext {
     req: {
         url: string;
+        raw: Request;
         json: jest.MockedFunction<() => Promise<any>>;
         header: jest.MockedFunction<() => Record<string, string>>;
     };
@@ -305,6 +306,7 @@ describe("createAgentRouteHandler Function Tests", () => {
         mockContext = {
             req: {
                 url: "http://localhost:3000/test",
+                raw: new Request("http://localhost:3000/test"),
                 json: jest.fn<() => Promise<any>>(),
                 header: jest.fn<() => Record<string, string>>().mockReturnValue({})
             },
@@ -1,6 +1,7 @@
 import { describe, expect, test, beforeEach, jest } from "@jest/globals";
 import { addWorkflowTrigger, createWorkflowTriggerHandler } from "../../../lib/server/methods/addWorkflowTrigger";
 import type { AgentForceLogger } from "../../../lib/types";
+import { AgentForceWorkflow } from "../../../lib/workflow";
 
 // Mock dynamic imports to control their behavior in tests
 const mockExecAsync = jest.fn<() => Promise<{stdout: string, stderr: string}>>();
@@ -13,6 +14,11 @@ jest.mock("node:util", () => ({
     promisify: jest.fn(() => mockExecAsync)
 }));
 
+// Definition files are loaded in process, the workflow itself is tested on its own
+jest.mock("../../../lib/workflow", () => ({
+    AgentForceWorkflow: { fromFile: jest.fn() }
+}));
+
 jest.mock("node:path", () => ({
     resolve: jest.fn((path: string) => `/resolved/${path}`)
 }));
@@ -28,6 +34,7 @@ interface MockServer {
 interface MockContext {
     req: {
         url: string;
+        raw: Request;
     };
     json: jest.MockedFunction<(object: any, status?: number) => Response>;
 }
@@ -221,7 +228,8 @@ describe("createWorkflowTriggerHandler Function Tests", () => {
         mockResponse = new Response();
         mockContext = {
             req: {
-                url: "http://localhost:3000/test"
+                url: "http://localhost:3000/test",
+                raw: new Request("http://localhost:3000/test"),
             },
             json: jest.fn<(object: any, status?: number) => Response>().mockReturnValue(mockResponse)
         };
@@ -474,6 +482,44 @@ describe("createWorkflowTriggerHandler Function Tests", () => {
         });
     });
 
+    describe("Workflow Definition Files", () => {
+        test("should run YAML and JSON definition files in the server process", async () => {
+            (globalThis as any).Bun = { spawn: jest.fn() };
+            const { resolve } = await import("node:path");
+            jest.mocked(resolve).mockImplementation((path: string) => `/resolved/${path}`);
+            const run = jest.fn<(options?: any) => Promise<any>>().mockResolvedValue({ finalOutput: "done", sharedStore: {} });
+            const fromFile = jest.mocked(AgentForceWorkflow.fromFile).mockReturnValue({ run } as any);
+
+            for (const file of ["flows/support.yaml", "flows/support.yml", "flows/support.json"]) {
+                const handler = createWorkflowTriggerHandler(file, "GET", "/test");
+                await handler(mockContext as any);
+                expect(fromFile).toHaveBeenLastCalledWith(`/resolved/${file}`);
+            }
+
+            expect(run).toHaveBeenCalledWith({ signal: mockContext.req.raw.signal });
+            expect((globalThis as any).Bun.spawn).not.toHaveBeenCalled();
+            expect(mockContext.json).toHaveBeenLastCalledWith(expect.objectContaining({
+                success: true,
+                workflowPath: "flows/support.json",
+                result: { finalOutput: "done", sharedStore: {} },
+            }));
+        });
+
+        test("should return the validation errors of invalid definition files", async () => {
+            jest.mocked(AgentForceWorkflow.fromFile).mockImplementation(() => {
+                throw new Error("Invalid workflow definition in flows/support.yaml:\n  flows/support.yaml:3:16 /steps/0/sequence/0 unknown agent \"Writer\"");
+            });
+
+            const handler = createWorkflowTriggerHandler("flows/support.yaml", "GET", "/test");
+            await handler(mockContext as any);
+
+            expect(mockContext.json).toHaveBeenCalledWith(expect.objectContaining({
+                success: false,
+                error: expect.stringContaining("flows/support.yaml:3:16"),
+            }), 500);
+        });
+    });
+
     describe("Error Handling", () => {
         test("should trigger main catch block (lines 171-173) by making console.log throw", async () => {
             // Remove Bun to force Node.js path
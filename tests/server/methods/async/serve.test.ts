@@ -19,10 +19,19 @@ jest.mock("../../../../lib/server/methods/addRoute", () => ({
 jest.mock("../../../../lib/server/methods/useOpenAICompatibleRouting", () => ({
     createOpenAICompatibleRouteHandler: jest.fn(() => jest.fn())
 }));
+jest.mock("../../../../lib/server/methods/useOpenAIResponsesRouting", () => ({
+    createOpenAIResponsesRouteHandler: jest.fn(() => jest.fn())
+}));
+jest.mock("../../../../lib/server/methods/useOpenAIEmbeddingsRouting", () => ({
+    createOpenAIEmbeddingsRouteHandler: jest.fn(() => jest.fn())
+}));
 jest.mock("../../../../lib/server/methods/useOllamaCompatibleRouting", () => ({
     createOllamaGenerateRouteHandler: jest.fn(() => jest.fn()),
     createOllamaChatRouteHandler: jest.fn(() => jest.fn())
 }));
+jest.mock("../../../../lib/server/routes/v1/models", () => ({
+    createModelAgentsRoute: jest.fn(() => ({}))
+}));
 
 // Import the serve function directly
 import { serve } from "../../../../lib/server/methods/async/serve";
@@ -41,6 +50,7 @@ describe("AgentForceServer serve Method Tests", () => {
     let mockHonoPatch: jest.Mock;
     let mockHonoOptions: jest.Mock;
     let mockHonoAll: jest.Mock;
+    let mockHonoRoute: jest.Mock;
     let mockHonoFetch: jest.Mock;
     let mockCreateServer: jest.Mock;
     let mockListen: jest.Mock;
@@ -59,6 +69,7 @@ describe("AgentForceServer serve Method Tests", () => {
         mockHonoPatch = jest.fn();
         mockHonoOptions = jest.fn();
         mockHonoAll = jest.fn();
+        mockHonoRoute = jest.fn();
         mockHonoFetch = jest.fn() as any;
         
         const mockHonoInstance = {
@@ -70,6 +81,7 @@ describe("AgentForceServer serve Method Tests", () => {
             patch: mockHonoPatch,
             options: mockHonoOptions,
             all: mockHonoAll,
+            route: mockHonoRoute,
             fetch: mockHonoFetch,
         };
         
@@ -332,6 +344,58 @@ describe("AgentForceServer serve Method Tests", () => {
             expect(mockHonoPost).toHaveBeenCalledWith("/api/chat", expect.any(Function));
         });
 
+        test("should pass served models to the handlers and list them on /v1/models", async () => {
+            const { createOpenAICompatibleRouteHandler } = require("../../../../lib/server/methods/useOpenAICompatibleRouting");
+            const { createOllamaChatRouteHandler } = require("../../../../lib/server/methods/useOllamaCompatibleRouting");
+            const { createModelAgentsRoute } = require("../../../../lib/server/routes/v1/models");
+            const modelsApp = {};
+            createModelAgentsRoute.mockReturnValue(modelsApp);
+
+            const supportAgent = { getName: jest.fn().mockReturnValue("SupportBot") };
+            const sqlAgent = { getName: jest.fn().mockReturnValue("SqlHelper") };
+            (mockServerInstance as any).getRouteAgents = jest.fn().mockReturnValue([
+                { method: "POST", path: "/v1/chat/completions", agent: supportAgent, models: { "support-bot": supportAgent } },
+                { method: "POST", path: "/api/chat", agent: supportAgent, models: { "support-bot": supportAgent, "sql-helper": sqlAgent } },
+            ]);
+
+            await serve.call(mockServerInstance as any);
+
+            expect(createOpenAICompatibleRouteHandler).toHaveBeenCalledWith(supportAgent, "/v1/chat/completions", { systemMessages: undefined }, { "support-bot": supportAgent });
+            expect(createOllamaChatRouteHandler).toHaveBeenCalledWith(supportAgent, "/api/chat", { "support-bot": supportAgent, "sql-helper": sqlAgent });
+            expect(createModelAgentsRoute).toHaveBeenCalledWith({ "support-bot": supportAgent, "sql-helper": sqlAgent }, "TestServer", mockServerInstance.getLogger!());
+            expect(mockHonoRoute).toHaveBeenCalledWith("/v1", modelsApp);
+        });
+
+        test("should register the OpenAI responses and embeddings routes", async () => {
+            const { createOpenAIResponsesRouteHandler } = require("../../../../lib/server/methods/useOpenAIResponsesRouting");
+            const { createOpenAIEmbeddingsRouteHandler } = require("../../../../lib/server/methods/useOpenAIEmbeddingsRouting");
+            createOpenAIResponsesRouteHandler.mockReturnValue(jest.fn());
+            createOpenAIEmbeddingsRouteHandler.mockReturnValue(jest.fn());
+
+            const mockAgent = { getName: jest.fn().mockReturnValue("TestAgent") };
+            (mockServerInstance as any).getRouteAgents = jest.fn().mockReturnValue([
+                { method: "POST", path: "/v1/responses", agent: mockAgent, systemMessages: "replace" },
+                { method: "POST", path: "/v1/embeddings", agent: mockAgent },
+            ]);
+
+            await serve.call(mockServerInstance as any);
+
+            expect(createOpenAIResponsesRouteHandler).toHaveBeenCalledWith(mockAgent, "/v1/responses", { systemMessages: "replace" }, undefined);
+            expect(createOpenAIEmbeddingsRouteHandler).toHaveBeenCalledWith(mockAgent, "/v1/embeddings", undefined);
+            expect(mockHonoPost).toHaveBeenCalledWith("/v1/responses", expect.any(Function));
+            expect(mockHonoPost).toHaveBeenCalledWith("/v1/embeddings", expect.any(Function));
+        });
+
+        test("should not register /v1/models without served models", async () => {
+            (mockServerInstance as any).getRouteAgents = jest.fn().mockReturnValue([
+                { method: "POST", path: "/v1/chat/completions", agent: { getName: jest.fn().mockReturnValue("TestAgent") } },
+            ]);
+
+            await serve.call(mockServerInstance as any);
+
+            expect(mockHonoRoute).not.toHaveBeenCalled();
+        });
+
         test("should register all HTTP methods for route agents", async () => {
             // Mock createRouteHandler functions
             const { createAgentRouteHandler } = require("../../../../lib/server/methods/addRouteAgent");
@@ -0,0 +1,232 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+import { Hono } from "hono";
+import { AgentForceAgent } from "../../../lib/agent";
+import { OllamaProvider } from "../../../lib/provider/ollama";
+import { createOllamaChatRouteHandler, createOllamaGenerateRouteHandler } from "../../../lib/server/methods/useOllamaCompatibleRouting";
+import type { LLMStreamEvent } from "../../../lib/types";
+
+describe("Ollama-compatible routes", () => {
+    let app: Hono;
+    let agent: AgentForceAgent;
+    let events: LLMStreamEvent[];
+    let streamError: Error | undefined;
+    let consoleLogSpy: any;
+    let consoleErrorSpy: any;
+
+    const post = (path: string, body: Record<string, unknown>): Promise<Response> => Promise.resolve(app.request(path, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    }));
+
+    const readLines = async (response: Response): Promise<any[]> => {
+        const text = await response.text();
+        return text.split("\n").filter(Boolean).map(line => JSON.parse(line));
+    };
+
+    beforeEach(() => {
+        consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+        consoleErrorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+        events = [];
+        streamError = undefined;
+        (OllamaProvider as any).mockImplementation(() => ({
+            generate: jest.fn(() => Promise.resolve("Complete answer")),
+            chat: jest.fn(() => Promise.resolve("Complete answer")),
+            async *stream() {
+                yield* events;
+                if (streamError) {
+                    throw streamError;
+                }
+            },
+        }));
+
+        agent = new AgentForceAgent({ name: "OllamaAgent" }).systemPrompt("You are a helpful assistant");
+        app = new Hono();
+        app.post("/api/generate", createOllamaGenerateRouteHandler(agent, "/api/generate"));
+        app.post("/api/chat", createOllamaChatRouteHandler(agent, "/api/chat"));
+    });
+
+    afterEach(() => {
+        consoleLogSpy.mockRestore();
+        consoleErrorSpy.mockRestore();
+    });
+
+    test("should stream /api/generate by default and finish with timing fields", async () => {
+        events.push({ type: "text", text: "Hel" }, { type: "tool_call", name: "web_fetch", args: {} }, { type: "text", text: "lo" });
+
+        const response = await post("/api/generate", { model: "gemma3:4b", prompt: "Say hello" });
+
+        expect(response.headers.get("Content-Type")).toBe("application/x-ndjson");
+        const lines = await readLines(response);
+        expect(lines.slice(0, -1).map(line => [line.response, line.done])).toEqual([["Hel", false], ["lo", false]]);
+
+        const final = lines.at(-1);
+        expect(final).toMatchObject({ model: "gemma3:4b", response: "", done: true, done_reason: "stop", context: [], load_duration: 0 });
+        expect(final.prompt_eval_count).toBe(3);
+        expect(final.eval_count).toBe(2);
+        for (const field of ["total_duration", "prompt_eval_duration", "eval_duration"]) {
+            expect(Number.isInteger(final[field])).toBe(true);
+        }
+        expect(final.total_duration).toBeGreaterThanOrEqual(final.eval_duration);
+    });
+
+    test("should stream assistant messages on /api/chat", async () => {
+        events.push({ type: "text", text: "Hi" }, { type: "text", text: " there" });
+
+        const response = await post("/api/chat", { model: "gemma3:4b", stream: true, messages: [{ role: "user", content: "Hello" }] });
+
+        const lines = await readLines(response);
+        expect(lines.map(line => line.message)).toEqual([
+            { role: "assistant", content: "Hi" },
+            { role: "assistant", content: " there" },
+            { role: "assistant", content: "" },
+        ]);
+        expect(lines.at(-1).done).toBe(true);
+        expect(lines.at(-1).context).toBeUndefined();
+    });
+
+    test("should write an error line when the agent fails mid-stream", async () => {
+        events.push({ type: "text", text: "Partial" });
+        streamError = new Error("Model crashed");
+
+        const response = await post("/api/chat", { model: "gemma3:4b", messages: [{ role: "user", content: "Hello" }] });
+
+        const lines = await readLines(response);
+        expect(lines.at(-1)).toEqual({ error: "Model crashed" });
+        expect(lines.some(line => line.done === true)).toBe(false);
+    });
+
+    test("should return a single JSON object when stream is false", async () => {
+        const response = await post("/api/generate", { model: "gemma3:4b", prompt: "Say hello", stream: false });
+
+        expect(response.headers.get("Content-Type")).toContain("application/json");
+        const body = await response.json() as any;
+        expect(body).toMatchObject({ model: "gemma3:4b", response: "Complete answer", done: true });
+    });
+
+    test("should not change the route agent between requests", async () => {
+        await post("/api/generate", { model: "openrouter/openai/gpt-4o-mini", prompt: "Hi", system: "Answer in French", stream: false });
+        await post("/api/chat", { model: "llava", messages: [{ role: "system", content: "Be brief" }, { role: "user", content: "Hi" }] });
+
+        expect(agent["getSystemPrompt"]()).toBe("You are a helpful assistant");
+        expect(agent["getProvider"]()).toBe("ollama");
+        expect(agent["getModel"]()).toBe("gemma3:4b");
+        expect(agent["getUserPrompt"]()).toBe("");
+    });
+
+    test("should keep the model and system prompt of overlapping streams apart", async () => {
+        let releaseFirst!: () => void;
+        const firstStreamGate = new Promise<void>(resolve => releaseFirst = resolve);
+        const calls: Array<{ model: string; system?: string }> = [];
+        (OllamaProvider as any).mockImplementation((model: string) => ({
+            generate: jest.fn(() => Promise.resolve("unused")),
+            chat: jest.fn(() => Promise.resolve("unused")),
+            async *stream(messages: Array<{ role: string; content: string }>) {
+                calls.push({ model, system: messages.find(message => message.role === "system")?.content });
+                // The first stream is still running while the other request is handled
+                if (calls.length === 1) {
+                    await firstStreamGate;
+                }
+                yield { type: "text" as const, text: `Answer of ${model}` };
+            },
+        }));
+
+        const french = await post("/api/chat", { model: "gemma3:4b", messages: [{ role: "system", content: "Answer in French" }, { role: "user", content: "Bonjour" }] });
+        const plain = await post("/api/chat", { model: "llava", messages: [{ role: "user", content: "Hi" }] });
+        releaseFirst();
+        const [frenchLines, plainLines] = await Promise.all([readLines(french), readLines(plain)]);
+
+        expect(frenchLines[0].message.content).toBe("Answer of gemma3:4b");
+        expect(plainLines[0].message.content).toBe("Answer of llava");
+        expect(calls).toEqual([
+            { model: "gemma3:4b", system: expect.stringContaining("Answer in French") },
+            { model: "llava", system: expect.stringContaining("You are a helpful assistant") },
+        ]);
+        expect(calls[1]?.system).not.toContain("Answer in French");
+    });
+
+    describe("images", () => {
+        let chatCalls: Array<Array<Record<string, unknown>>>;
+
+        beforeEach(() => {
+            chatCalls = [];
+            (OllamaProvider as any).mockImplementation(() => ({
+                generate: jest.fn(() => Promise.resolve("Generated answer")),
+                chat: jest.fn((messages: Array<Record<string, unknown>>) => {
+                    chatCalls.push(messages);
+                    return Promise.resolve("A cat");
+                }),
+            }));
+        });
+
+        test("should pass the images of /api/generate with the prompt", async () => {
+            const response = await post("/api/generate", { model: "llava", prompt: "What is this?", images: ["/9j/4AAQ"], stream: false });
+
+            expect((await response.json() as any).response).toBe("A cat");
+            expect(chatCalls[0]?.at(-1)).toEqual({ role: "user", content: "What is this?", images: ["data:image/jpeg;base64,/9j/4AAQ"] });
+        });
+
+        test("should pass the images of the user messages of /api/chat", async () => {
+            await post("/api/chat", {
+                model: "llava",
+                stream: false,
+                messages: [
+                    { role: "user", content: "What is this?", images: ["iVBORw0KGgo="] },
+                    { role: "assistant", content: "A cat" },
+                    { role: "user", content: "What color is it?" },
+                ],
+            });
+
+            expect(chatCalls[0]?.at(-1)).toMatchObject({ role: "user", images: ["data:image/png;base64,iVBORw0KGgo="] });
+        });
+
+        test("should only accept base64 images", async () => {
+            const response = await post("/api/generate", { model: "llava", prompt: "What is this?", images: ["/etc/secret.png"] });
+
+            expect(response.status).toBe(400);
+            expect((await response.json() as any).message).toBe("Invalid \"images\" field. Must be an array of base64 encoded images if provided");
+        });
+    });
+
+    describe("model agents", () => {
+        let models: Record<string, AgentForceAgent>;
+
+        beforeEach(() => {
+            (OllamaProvider as any).mockImplementation((model: string) => ({
+                generate: jest.fn(() => Promise.resolve(`Answer of ${model}`)),
+                chat: jest.fn(() => Promise.resolve(`Answer of ${model}`)),
+            }));
+
+            models = {
+                "support-bot": new AgentForceAgent({ name: "SupportBot" }).useLLM("ollama", "support-model").systemPrompt("You help customers"),
+                "sql-helper": new AgentForceAgent({ name: "SqlHelper" }).useLLM("ollama", "sql-model").systemPrompt("You write SQL"),
+            };
+            const agent = models["support-bot"] as AgentForceAgent;
+            app = new Hono();
+            app.post("/api/generate", createOllamaGenerateRouteHandler(agent, "/api/generate", models));
+            app.post("/api/chat", createOllamaChatRouteHandler(agent, "/api/chat", models));
+        });
+
+        test("should run the agent named by the model field with its own model", async () => {
+            const generate = await post("/api/generate", { model: "sql-helper", prompt: "List the users", stream: false });
+            const chat = await post("/api/chat", { model: "support-bot", stream: false, messages: [{ role: "user", content: "Hi" }] });
+
+            expect(await generate.json()).toMatchObject({ model: "sql-helper", response: "Answer of sql-model" });
+            expect(await chat.json()).toMatchObject({ model: "support-bot", message: { content: "Answer of support-model" } });
+        });
+
+        test("should keep the system prompt of the agents", async () => {
+            await post("/api/generate", { model: "sql-helper", prompt: "List the users", system: "Answer in French", stream: false });
+
+            expect(models["sql-helper"]?.["getSystemPrompt"]()).toBe("You write SQL");
+        });
+
+        test("should return 404 for models that are not served", async () => {
+            const response = await post("/api/chat", { model: "llama3.2", stream: false, messages: [{ role: "user", content: "Hi" }] });
+
+            expect(response.status).toBe(404);
+            expect((await response.json() as any).message).toBe("Model \"llama3.2\" is not available. Available models: support-bot, sql-helper");
+        });
+    });
+});
@@ -0,0 +1,536 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+import { Hono } from "hono";
+import { AgentForceAgent } from "../../../lib/agent";
+import { registerProvider, unregisterProvider } from "../../../lib/provider/registry";
+import { loadTools } from "../../../lib/agent/functions/tools";
+import { isDeferredToolCall } from "../../../lib/utils/deferred";
+import { createOpenAICompatibleRouteHandler, useOpenAICompatibleRouting, type OpenAICompatibleRoutingOptions } from "../../../lib/server/methods/useOpenAICompatibleRouting";
+import type { LLMCallOptions, LLMStreamEvent, Tool } from "../../../lib/types";
+
+// The global setup mocks the tool functions, client tools need the real ones
+const actualTools = jest.requireActual("../../../lib/agent/functions/tools") as typeof import("../../../lib/agent/functions/tools");
+
+describe("OpenAI-compatible chat completions route", () => {
+    let app: Hono;
+    let events: LLMStreamEvent[];
+    let streamError: Error | undefined;
+    let consoleLogSpy: any;
+    let consoleErrorSpy: any;
+
+    const post = (body: Record<string, unknown>): Promise<Response> => Promise.resolve(app.request("/v1/chat/completions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    }));
+
+    // Parses the data lines of a server-sent event stream
+    const readEvents = async (response: Response): Promise<string[]> => {
+        const text = await response.text();
+        return text.split("\n\n").filter(Boolean).map(event => event.replace(/^data: /, ""));
+    };
+
+    beforeEach(() => {
+        consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+        consoleErrorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+        events = [];
+        streamError = undefined;
+        registerProvider("stream-test", () => ({
+            generate: () => Promise.resolve("Complete answer"),
+            chat: () => Promise.resolve("Complete answer"),
+            async *stream() {
+                yield* events;
+                if (streamError) {
+                    throw streamError;
+                }
+            },
+        }));
+
+        const agent = new AgentForceAgent({ name: "ChatAgent" });
+        app = new Hono();
+        app.post("/v1/chat/completions", createOpenAICompatibleRouteHandler(agent, "/v1/chat/completions"));
+    });
+
+    afterEach(() => {
+        unregisterProvider("stream-test");
+        consoleLogSpy.mockRestore();
+        consoleErrorSpy.mockRestore();
+    });
+
+    test("should stream chat.completion.chunk events terminated by [DONE]", async () => {
+        events.push(
+            { type: "tool_call", name: "web_fetch", args: {} },
+            { type: "tool_result", name: "web_fetch", result: "page" },
+            { type: "text", text: "Hello" },
+            { type: "text", text: " there" },
+        );
+
+        const response = await post({ model: "stream-test/test-model", stream: true, messages: [{ role: "user", content: "Hi" }] });
+
+        expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+        const data = await readEvents(response);
+        expect(data.at(-1)).toBe("[DONE]");
+
+        const chunks = data.slice(0, -1).map(item => JSON.parse(item));
+        expect(chunks.every(chunk => chunk.object === "chat.completion.chunk" && chunk.model === "stream-test/test-model")).toBe(true);
+        expect(chunks.map(chunk => chunk.choices[0].delta)).toEqual([
+            { role: "assistant", content: "" },
+            { content: "Hello" },
+            { content: " there" },
+            {},
+        ]);
+        expect(chunks.at(-1).choices[0].finish_reason).toBe("stop");
+        expect(chunks[0].usage).toBeUndefined();
+    });
+
+    test("should send a final usage chunk when include_usage is requested", async () => {
+        events.push({ type: "text", text: "Twelve chars" });
+
+        const response = await post({
+            model: "stream-test/test-model",
+            stream: true,
+            stream_options: { include_usage: true },
+            messages: [{ role: "user", content: "Hi" }],
+        });
+
+        const data = await readEvents(response);
+        const chunks = data.slice(0, -1).map(item => JSON.parse(item));
+        const usageChunk = chunks.at(-1);
+
+        expect(chunks.slice(0, -1).every(chunk => chunk.usage === null)).toBe(true);
+        expect(usageChunk.choices).toEqual([]);
+        expect(usageChunk.usage).toEqual({ prompt_tokens: 1, completion_tokens: 3, total_tokens: 4 });
+        expect(data.at(-1)).toBe("[DONE]");
+    });
+
+    test("should send an error event when the agent fails mid-stream", async () => {
+        events.push({ type: "text", text: "Partial" });
+        streamError = new Error("Provider went away");
+
+        const response = await post({ model: "stream-test/test-model", stream: true, messages: [{ role: "user", content: "Hi" }] });
+
+        const data = await readEvents(response);
+        expect(JSON.parse(data.at(-1)!)).toEqual({ error: { message: "Provider went away", type: "server_error" } });
+        expect(data).not.toContain("[DONE]");
+    });
+
+    test("should return a single JSON body when stream is not set", async () => {
+        const response = await post({ model: "stream-test/test-model", messages: [{ role: "user", content: "Hi" }] });
+
+        const body = await response.json() as any;
+        expect(body.object).toBe("chat.completion");
+        expect(body.choices[0].message).toEqual({ role: "assistant", content: "Complete answer" });
+        expect(body.usage).toEqual({ prompt_tokens: 1, completion_tokens: 4, total_tokens: 5 });
+    });
+
+    test("should report the token usage of the provider instead of an estimate", async () => {
+        registerProvider("stream-test", () => ({
+            generate: () => Promise.resolve("Complete answer"),
+            chat: () => Promise.resolve("Complete answer"),
+            getUsage: () => ({ promptTokens: 42, completionTokens: 7, totalTokens: 49 }),
+        }));
+
+        const response = await post({ model: "stream-test/test-model", messages: [{ role: "user", content: "Hi" }] });
+
+        expect((await response.json() as any).usage).toEqual({ prompt_tokens: 42, completion_tokens: 7, total_tokens: 49 });
+    });
+
+    test("should pass temperature and max_tokens to the provider", async () => {
+        const modelConfigs: unknown[] = [];
+        registerProvider("stream-test", (_model, modelConfig) => {
+            modelConfigs.push(modelConfig);
+            return { generate: () => Promise.resolve("Complete answer"), chat: () => Promise.resolve("Complete answer") };
+        });
+
+        await post({ model: "stream-test/test-model", messages: [{ role: "user", content: "Hi" }], temperature: 0.2, max_tokens: 64 });
+
+        expect(modelConfigs.at(-1)).toEqual({ temperature: 0.2, maxTokens: 64 });
+    });
+
+    test("should abort the agent when the client disconnects", async () => {
+        const controller = new AbortController();
+        let providerSignal: AbortSignal | undefined;
+        registerProvider("stream-test", () => ({
+            generate: (_prompt: string, _system?: string, options?: { signal?: AbortSignal }) => {
+                providerSignal = options?.signal;
+                controller.abort();
+                return new Promise<string>(() => {});
+            },
+            chat: () => Promise.resolve("Complete answer"),
+        }));
+
+        const response = await app.request(new Request("http://localhost/v1/chat/completions", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ model: "stream-test/test-model", messages: [{ role: "user", content: "Hi" }] }),
+            signal: controller.signal,
+        }));
+
+        expect(providerSignal!.aborted).toBe(true);
+        expect(response.status).toBe(500);
+    });
+
+    test("should reject invalid stream_options", async () => {
+        const response = await post({
+            model: "stream-test/test-model",
+            stream: true,
+            stream_options: { include_usage: "yes" },
+            messages: [{ role: "user", content: "Hi" }],
+        });
+
+        expect(response.status).toBe(400);
+        expect((await response.json() as any).message).toBe("Invalid \"stream_options.include_usage\" field. Must be a boolean if provided");
+    });
+
+    describe("conversation passthrough", () => {
+        let chatCalls: Array<Array<{ role: string; content: string }>>;
+        let agent: AgentForceAgent;
+
+        const useAgent = (options?: OpenAICompatibleRoutingOptions): void => {
+            app = new Hono();
+            app.post("/v1/chat/completions", createOpenAICompatibleRouteHandler(agent, "/v1/chat/completions", options));
+        };
+
+        beforeEach(() => {
+            chatCalls = [];
+            registerProvider("stream-test", () => ({
+                generate: () => Promise.resolve("Generated answer"),
+                chat: (messages: Array<{ role: string; content: string }>) => {
+                    chatCalls.push(messages);
+                    return Promise.resolve("Chat answer");
+                },
+            }));
+            agent = new AgentForceAgent({ name: "ChatAgent" }).systemPrompt("You are a support agent");
+            useAgent();
+        });
+
+        const conversation = [
+            { role: "system", content: "Answer in French" },
+            { role: "user", content: "My order is late" },
+            { role: "assistant", content: "Which order?" },
+            { role: "user", content: "Order 42" },
+        ];
+
+        test("should send earlier messages as chat history and the last message as prompt", async () => {
+            const response = await post({ model: "stream-test/test-model", messages: conversation });
+
+            expect((await response.json() as any).choices[0].message.content).toBe("Chat answer");
+            expect(chatCalls[0]).toEqual([
+                { role: "system", content: "You are a support agent\n\nAnswer in French" },
+                { role: "user", content: "My order is late" },
+                { role: "assistant", content: "Which order?" },
+                { role: "user", content: "Order 42" },
+            ]);
+        });
+
+        test.each([
+            ["prepend", "Answer in French\n\nYou are a support agent"],
+            ["replace", "Answer in French"],
+            ["ignore", "You are a support agent"],
+        ] as const)("should combine system messages with the %s policy", async (policy, systemPrompt) => {
+            useAgent({ systemMessages: policy });
+
+            await post({ model: "stream-test/test-model", messages: conversation });
+
+            expect(chatCalls[0]?.[0]).toEqual({ role: "system", content: systemPrompt });
+        });
+
+        test("should describe earlier tool calls and results in the history", async () => {
+            await post({
+                model: "stream-test/test-model",
+                messages: [
+                    { role: "user", content: "Where is order 42?" },
+                    { role: "assistant", content: null, tool_calls: [{ id: "call_1", type: "function", function: { name: "lookup_order", arguments: "{\"id\":42}" } }] },
+                    { role: "tool", tool_call_id: "call_1", content: "shipped" },
+                ],
+            });
+
+            expect(chatCalls[0]?.slice(1)).toEqual([
+                { role: "user", content: "Where is order 42?" },
+                { role: "assistant", content: "Called tool lookup_order (call_1) with arguments {\"id\":42}" },
+                { role: "user", content: "Result of tool call call_1:\nshipped" },
+            ]);
+        });
+
+        test("should accept empty tool results and assistant turns", async () => {
+            const response = await post({
+                model: "stream-test/test-model",
+                messages: [
+                    { role: "user", content: "Clear the cache" },
+                    { role: "assistant", content: "", tool_calls: [{ id: "call_1", type: "function", function: { name: "clear_cache", arguments: "{}" } }] },
+                    { role: "tool", tool_call_id: "call_1", content: "" },
+                    { role: "assistant", content: "" },
+                    { role: "user", content: "Done?" },
+                ],
+            });
+
+            expect(response.status).toBe(200);
+            expect(chatCalls[0]?.slice(1)).toEqual([
+                { role: "user", content: "Clear the cache" },
+                { role: "assistant", content: "Called tool clear_cache (call_1) with arguments {}" },
+                { role: "user", content: "Result of tool call call_1:\n" },
+                { role: "assistant", content: "" },
+                { role: "user", content: "Done?" },
+            ]);
+        });
+
+        test("should still reject empty user messages", async () => {
+            const response = await post({ model: "stream-test/test-model", messages: [{ role: "user", content: "" }] });
+
+            expect(response.status).toBe(400);
+        });
+
+        test("should pass image_url parts as images of the history and the prompt", async () => {
+            const image = (url: string): Record<string, unknown> => ({ type: "image_url", image_url: { url } });
+            await post({
+                model: "stream-test/test-model",
+                messages: [
+                    { role: "user", content: [{ type: "text", text: "What is this?" }, image("https://example.com/cat.png")] },
+                    { role: "assistant", content: "A cat" },
+                    { role: "user", content: [{ type: "text", text: "And this?" }, image("data:image/png;base64,iVBORw0KGgo=")] },
+                ],
+            });
+
+            expect(chatCalls[0]?.slice(1)).toEqual([
+                { role: "user", content: "What is this?", images: ["https://example.com/cat.png"] },
+                { role: "assistant", content: "A cat" },
+                { role: "user", content: "And this?", images: ["data:image/png;base64,iVBORw0KGgo="] },
+            ]);
+        });
+
+        test("should reject image URLs that are not http(s) or data URLs", async () => {
+            const response = await post({
+                model: "stream-test/test-model",
+                messages: [{ role: "user", content: [{ type: "image_url", image_url: { url: "/etc/secret.png" } }] }],
+            });
+
+            expect(response.status).toBe(400);
+            expect(JSON.stringify(await response.json())).toContain("must have an http(s) or data URL");
+        });
+
+        test("should not change the configured agent between requests", async () => {
+            await post({ model: "stream-test/test-model", messages: conversation });
+
+            expect(agent["getSystemPrompt"]()).toBe("You are a support agent");
+            expect(agent["getHistory"]()).toEqual([]);
+            expect(agent["getChatHistory"]()).toEqual([]);
+            expect(agent["getProvider"]()).toBe("ollama");
+        });
+
+        test("should reject conversations that end with an assistant message", async () => {
+            const response = await post({ model: "stream-test/test-model", messages: conversation.slice(0, 3) });
+
+            expect(response.status).toBe(400);
+            expect((await response.json() as any).message).toBe("The last message must be a user or tool message");
+        });
+
+        test("should reject unknown system message policies", () => {
+            const server = { getLogger: () => ({ info: jest.fn() }), getName: () => "Server", addToRouteAgents: jest.fn() };
+
+            expect(() => useOpenAICompatibleRouting.call(server as any, agent, { systemMessages: "merge" as any }))
+                .toThrow("Invalid system message policy \"merge\". Must be one of append, prepend, replace, ignore");
+        });
+    });
+
+    describe("client tools", () => {
+        let offeredTools: string[][];
+        let systemPrompts: Array<string | undefined>;
+
+        const weatherTool = {
+            type: "function",
+            function: {
+                name: "get_weather",
+                description: "Get the weather of a city",
+                parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+            },
+        };
+
+        beforeEach(() => {
+            offeredTools = [];
+            systemPrompts = [];
+            jest.mocked(loadTools).mockImplementation(actualTools.loadTools);
+            // Like the tool loops of the providers, the execution ends with the round that calls a client tool
+            registerProvider("stream-test", () => ({
+                generate: () => Promise.resolve("Plain answer"),
+                chat: () => Promise.resolve("Plain answer"),
+                async generateWithTools(_prompt: string, tools: Tool[], system?: string, logger?: any, agent?: any, options?: LLMCallOptions) {
+                    offeredTools.push(tools.map(tool => tool.function.name));
+                    systemPrompts.push(system);
+                    const results = [
+                        await actualTools.executeTool("get_weather", { city: "Oslo" }, agent, logger, options?.signal),
+                        await actualTools.executeTool("get_weather", { city: "Bergen" }, agent, logger, options?.signal),
+                    ];
+                    return results.some(isDeferredToolCall) ? "" : "It is sunny";
+                },
+                async *stream(_messages: unknown, tools: Tool[] = [], logger?: any, agent?: any, options?: LLMCallOptions) {
+                    offeredTools.push(tools.map(tool => tool.function.name));
+                    yield { type: "text" as const, text: "Let me check" };
+                    const result = await actualTools.executeTool("get_weather", { city: "Oslo" }, agent, logger, options?.signal);
+                    yield { type: "tool_call" as const, name: "get_weather", args: { city: "Oslo" } };
+                    if (!isDeferredToolCall(result)) {
+                        yield { type: "text" as const, text: "It is sunny" };
+                    }
+                },
+            }));
+        });
+
+        test("should return the tool calls of the model with finish_reason tool_calls", async () => {
+            const response = await post({ model: "stream-test/test-model", tools: [weatherTool], messages: [{ role: "user", content: "Weather in Oslo and Bergen?" }] });
+
+            const body = await response.json() as any;
+            expect(offeredTools).toEqual([["get_weather"]]);
+            expect(body.choices[0].finish_reason).toBe("tool_calls");
+            expect(body.choices[0].message).toEqual({
+                role: "assistant",
+                content: null,
+                tool_calls: [
+                    { id: expect.stringMatching(/^call_\w+$/), type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Oslo\"}" } },
+                    { id: expect.stringMatching(/^call_\w+$/), type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Bergen\"}" } },
+                ],
+            });
+        });
+
+        test("should end the stream with the tool calls", async () => {
+            const response = await post({ model: "stream-test/test-model", stream: true, tools: [weatherTool], messages: [{ role: "user", content: "Weather?" }] });
+
+            const events = await readEvents(response);
+            expect(events.at(-1)).toBe("[DONE]");
+            const chunks = events.slice(0, -1).map(event => JSON.parse(event));
+            expect(chunks[1].choices[0].delta).toEqual({ content: "Let me check" });
+            expect(chunks[2].choices[0].delta.tool_calls).toEqual([
+                { index: 0, id: expect.stringMatching(/^call_\w+$/), type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Oslo\"}" } },
+            ]);
+            expect(chunks[3].choices[0]).toMatchObject({ delta: {}, finish_reason: "tool_calls" });
+        });
+
+        test("should not offer the tools with tool_choice none", async () => {
+            const response = await post({ model: "stream-test/test-model", tools: [weatherTool], tool_choice: "none", messages: [{ role: "user", content: "Hi" }] });
+
+            const body = await response.json() as any;
+            expect(offeredTools).toEqual([]);
+            expect(body.choices[0]).toMatchObject({ message: { content: "Plain answer" }, finish_reason: "stop" });
+        });
+
+        test("should only offer the tool named by tool_choice and instruct the model to call it", async () => {
+            const timeTool = { type: "function", function: { name: "get_time" } };
+            const agent = new AgentForceAgent({ name: "ChatAgent", tools: ["web_fetch"] }).systemPrompt("You are a weather bot");
+            app = new Hono();
+            app.post("/v1/chat/completions", createOpenAICompatibleRouteHandler(agent, "/v1/chat/completions"));
+
+            await post({
+                model: "stream-test/test-model",
+                tools: [timeTool, weatherTool],
+                tool_choice: { type: "function", function: { name: "get_weather" } },
+                messages: [{ role: "user", content: "Weather?" }],
+            });
+
+            expect(offeredTools).toEqual([["get_weather"]]);
+            expect(systemPrompts[0]).toBe("You are a weather bot\n\nYou must call the tool \"get_weather\" to answer.");
+            expect(agent["getTools"]()).toEqual(["web_fetch"]);
+        });
+
+        test("should offer all tools and instruct the model to call one with tool_choice required", async () => {
+            const timeTool = { type: "function", function: { name: "get_time" } };
+
+            const response = await post({
+                model: "stream-test/test-model",
+                tools: [timeTool, weatherTool],
+                tool_choice: "required",
+                messages: [{ role: "user", content: "Weather?" }],
+            });
+
+            expect((await response.json() as any).choices[0].finish_reason).toBe("tool_calls");
+            expect(offeredTools).toEqual([["get_time", "get_weather"]]);
+            expect(systemPrompts[0]).toContain("You must call at least one of the tools \"get_time\", \"get_weather\" to answer.");
+        });
+
+        test("should reject invalid tools", async () => {
+            const invalid = [
+                [{ tools: [{ type: "function" }] }, "Tool at index 0 must have type \"function\" and a \"function\" object with a \"name\""],
+                [{ tools: [weatherTool], tool_choice: { type: "function", function: { name: "get_time" } } }, "Invalid \"tool_choice\" field. Tool \"get_time\" is not in the tools of the request"],
+                [{ tool_choice: "required" }, "Invalid \"tool_choice\" field. \"required\" needs at least one tool in the tools of the request"],
+                [{ tools: [weatherTool], tool_choice: "any" }, "Invalid \"tool_choice\" field. Must be \"none\", \"auto\", \"required\" or a function object if provided"],
+                [{ tools: [{ type: "function", function: { name: "web_fetch" } }] }, "Tool \"web_fetch\" is already registered, choose a different name"],
+            ] as const;
+
+            for (const [fields, message] of invalid) {
+                const response = await post({ model: "stream-test/test-model", messages: [{ role: "user", content: "Hi" }], ...fields });
+
+                expect(response.status).toBe(400);
+                expect((await response.json() as any).message).toBe(message);
+            }
+        });
+    });
+
+    describe("model agents", () => {
+        let calls: Array<{ model: string; system?: string }>;
+        let models: Record<string, AgentForceAgent>;
+
+        beforeEach(() => {
+            calls = [];
+            registerProvider("model-test", (model: string) => ({
+                generate: (_prompt: string, system?: string) => {
+                    calls.push({ model, system });
+                    return Promise.resolve(`Answer of ${model}`);
+                },
+                chat: () => Promise.resolve("Chat answer"),
+            }));
+
+            models = {
+                "support-bot": new AgentForceAgent({ name: "SupportBot" }).useLLM("model-test", "support-model").systemPrompt("You help customers"),
+                "sql-helper": new AgentForceAgent({ name: "SqlHelper" }).useLLM("model-test", "sql-model").systemPrompt("You write SQL"),
+            };
+            app = new Hono();
+            app.post("/v1/chat/completions", createOpenAICompatibleRouteHandler(models["support-bot"] as AgentForceAgent, "/v1/chat/completions", {}, models));
+        });
+
+        afterEach(() => {
+            unregisterProvider("model-test");
+        });
+
+        test("should run the agent named by the model field with its own provider and model", async () => {
+            const response = await post({ model: "sql-helper", messages: [{ role: "user", content: "List the users" }] });
+
+            const body = await response.json() as any;
+            expect(response.status).toBe(200);
+            expect(body.model).toBe("sql-helper");
+            expect(body.choices[0].message.content).toBe("Answer of sql-model");
+            expect(calls).toEqual([{ model: "sql-model", system: expect.stringContaining("You write SQL") }]);
+        });
+
+        test("should return 404 for models that are not served", async () => {
+            for (const model of ["ollama/gemma3:4b", "constructor"]) {
+                const response = await post({ model, messages: [{ role: "user", content: "Hi" }] });
+
+                expect(response.status).toBe(404);
+                expect(await response.json()).toEqual({
+                    error: "Model not found",
+                    message: `Model "${model}" is not available. Available models: support-bot, sql-helper`,
+                });
+            }
+            expect(calls).toEqual([]);
+        });
+
+        test("should register the agents as models of the route", () => {
+            const server = { getLogger: () => ({ info: jest.fn() }), getName: () => "Server", addToRouteAgents: jest.fn() };
+
+            useOpenAICompatibleRouting.call(server as any, models);
+
+            expect(server.addToRouteAgents).toHaveBeenCalledWith({
+                method: "POST",
+                path: "/v1/chat/completions",
+                agent: models["support-bot"],
+                models,
+            });
+        });
+
+        test("should reject invalid model maps", () => {
+            const server = { getLogger: () => ({ info: jest.fn() }), getName: () => "Server", addToRouteAgents: jest.fn() };
+
+            expect(() => useOpenAICompatibleRouting.call(server as any, {}))
+                .toThrow("Model agents must map at least one model name to an agent instance");
+            expect(() => useOpenAICompatibleRouting.call(server as any, { "support-bot": "agent" as any }))
+                .toThrow("Model \"support-bot\" must map to an agent instance");
+        });
+    });
+});
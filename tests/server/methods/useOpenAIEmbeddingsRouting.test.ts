@@ -0,0 +1,162 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+import { Hono } from "hono";
+import { AgentForceAgent } from "../../../lib/agent";
+import { registerProvider, unregisterProvider } from "../../../lib/provider/registry";
+import { createOpenAIEmbeddingsRouteHandler, useOpenAIEmbeddingsRouting } from "../../../lib/server/methods/useOpenAIEmbeddingsRouting";
+
+describe("OpenAI embeddings route", () => {
+    let app: Hono;
+    let agent: AgentForceAgent;
+    let calls: Array<{ model: string; input: string[] }>;
+    let consoleLogSpy: any;
+    let consoleErrorSpy: any;
+
+    const post = (body: Record<string, unknown>): Promise<Response> => Promise.resolve(app.request("/v1/embeddings", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    }));
+
+    beforeEach(() => {
+        consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+        consoleErrorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+        calls = [];
+        registerProvider("embed-test", (model: string) => ({
+            generate: () => Promise.resolve("unused"),
+            chat: () => Promise.resolve("unused"),
+            embed: (input: string[]) => {
+                calls.push({ model, input });
+                return Promise.resolve(input.map((_, index) => [index, 0.5]));
+            },
+        }));
+        registerProvider("chat-only", () => ({
+            generate: () => Promise.resolve("unused"),
+            chat: () => Promise.resolve("unused"),
+        }));
+
+        agent = new AgentForceAgent({ name: "Embedder" });
+        app = new Hono();
+        app.post("/v1/embeddings", createOpenAIEmbeddingsRouteHandler(agent, "/v1/embeddings"));
+    });
+
+    afterEach(() => {
+        unregisterProvider("embed-test");
+        unregisterProvider("chat-only");
+        consoleLogSpy.mockRestore();
+        consoleErrorSpy.mockRestore();
+    });
+
+    test("should return one embedding per input with the model of the request", async () => {
+        const response = await post({ model: "embed-test/embed-model", input: ["first text", "second"] });
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({
+            object: "list",
+            data: [
+                { object: "embedding", index: 0, embedding: [0, 0.5] },
+                { object: "embedding", index: 1, embedding: [1, 0.5] },
+            ],
+            model: "embed-test/embed-model",
+            usage: { prompt_tokens: 4, total_tokens: 4 },
+        });
+        expect(calls).toEqual([{ model: "embed-model", input: ["first text", "second"] }]);
+        expect(agent["getProvider"]()).toBe("ollama");
+    });
+
+    test("should encode the embeddings as base64 floats", async () => {
+        const response = await post({ model: "embed-test/embed-model", input: "text", encoding_format: "base64" });
+
+        const embedding = (await response.json() as any).data[0].embedding;
+        const bytes = Buffer.from(embedding, "base64");
+        expect([bytes.readFloatLE(0), bytes.readFloatLE(4)]).toEqual([0, 0.5]);
+    });
+
+    test("should report the token usage of the provider", async () => {
+        registerProvider("embed-test", () => ({
+            generate: () => Promise.resolve("unused"),
+            chat: () => Promise.resolve("unused"),
+            embed: () => Promise.resolve([[0.1]]),
+            getUsage: () => ({ promptTokens: 12, completionTokens: 0, totalTokens: 12 }),
+        }));
+
+        const response = await post({ model: "embed-test/embed-model", input: "text" });
+
+        expect((await response.json() as any).usage).toEqual({ prompt_tokens: 12, total_tokens: 12 });
+    });
+
+    test("should reject invalid requests", async () => {
+        const invalid = [
+            [{ model: "embed-test/embed-model", input: [] }, "Missing or invalid \"input\" field. Must be a string or a non-empty array of strings"],
+            [{ model: "embed-test/embed-model", input: "text", encoding_format: "int8" }, "Invalid \"encoding_format\" field. Must be \"float\" or \"base64\" if provided"],
+            [{ input: "text" }, "Missing or invalid \"model\" field. Must be a non-empty string"],
+        ] as const;
+
+        for (const [body, message] of invalid) {
+            const response = await post(body);
+
+            expect(response.status).toBe(400);
+            expect((await response.json() as any).message).toBe(message);
+        }
+    });
+
+    test("should return 400 for providers that are not registered", async () => {
+        const response = await post({ model: "missing/embed-model", input: "text" });
+
+        expect(response.status).toBe(400);
+        expect(await response.json()).toEqual({
+            error: "Invalid model parameter",
+            message: expect.stringMatching(/^Unknown provider "missing"\. Registered providers: .*embed-test/),
+        });
+    });
+
+    test("should return 500 when the provider does not support embeddings", async () => {
+        const response = await post({ model: "chat-only/chat-model", input: "text" });
+
+        expect(response.status).toBe(500);
+        expect(await response.json()).toEqual({
+            error: "Embedding failed",
+            message: "Provider \"chat-only\" does not support embeddings",
+        });
+    });
+
+    describe("model agents", () => {
+        let models: Record<string, AgentForceAgent>;
+
+        beforeEach(() => {
+            models = {
+                "docs-embedder": new AgentForceAgent({ name: "DocsEmbedder" }).useLLM("embed-test", "nomic-embed-text"),
+            };
+            app = new Hono();
+            app.post("/v1/embeddings", createOpenAIEmbeddingsRouteHandler(models["docs-embedder"] as AgentForceAgent, "/v1/embeddings", models));
+        });
+
+        test("should embed with the provider and model of the named agent", async () => {
+            const response = await post({ model: "docs-embedder", input: "text" });
+
+            expect((await response.json() as any).model).toBe("docs-embedder");
+            expect(calls).toEqual([{ model: "nomic-embed-text", input: ["text"] }]);
+        });
+
+        test("should return 404 for models that are not served", async () => {
+            const response = await post({ model: "ollama/nomic-embed-text", input: "text" });
+
+            expect(response.status).toBe(404);
+            expect((await response.json() as any).error).toBe("Model not found");
+            expect(calls).toEqual([]);
+        });
+
+        test("should register the agents as models of the route", () => {
+            const server = { getLogger: () => ({ info: jest.fn() }), getName: () => "Server", addToRouteAgents: jest.fn() };
+
+            useOpenAIEmbeddingsRouting.call(server as any, models);
+
+            expect(server.addToRouteAgents).toHaveBeenCalledWith({
+                method: "POST",
+                path: "/v1/embeddings",
+                agent: models["docs-embedder"],
+                models,
+            });
+        });
+    });
+});
@@ -0,0 +1,332 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+import { Hono } from "hono";
+import { AgentForceAgent } from "../../../lib/agent";
+import { registerProvider, unregisterProvider } from "../../../lib/provider/registry";
+import { loadTools } from "../../../lib/agent/functions/tools";
+import { isDeferredToolCall } from "../../../lib/utils/deferred";
+import { createOpenAIResponsesRouteHandler, useOpenAIResponsesRouting } from "../../../lib/server/methods/useOpenAIResponsesRouting";
+import type { LLMCallOptions, LLMStreamEvent, Tool } from "../../../lib/types";
+
+// The global setup mocks the tool functions, client tools need the real ones
+const actualTools = jest.requireActual("../../../lib/agent/functions/tools") as typeof import("../../../lib/agent/functions/tools");
+
+describe("OpenAI Responses route", () => {
+    let app: Hono;
+    let agent: AgentForceAgent;
+    let events: LLMStreamEvent[];
+    let streamError: Error | undefined;
+    let chatCalls: Array<Array<{ role: string; content: string; images?: string[] }>>;
+    let consoleLogSpy: any;
+    let consoleErrorSpy: any;
+
+    const post = (body: Record<string, unknown>): Promise<Response> => Promise.resolve(app.request("/v1/responses", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+    }));
+
+    // Parses the named events of a server-sent event stream
+    const readEvents = async (response: Response): Promise<Array<{ event: string; data: any }>> => {
+        const text = await response.text();
+        return text.split("\n\n").filter(Boolean).map(block => {
+            const [eventLine, dataLine] = block.split("\n");
+            return { event: eventLine!.replace(/^event: /, ""), data: JSON.parse(dataLine!.replace(/^data: /, "")) };
+        });
+    };
+
+    beforeEach(() => {
+        consoleLogSpy = jest.spyOn(console, "log").mockImplementation(() => {});
+        consoleErrorSpy = jest.spyOn(console, "error").mockImplementation(() => {});
+
+        events = [];
+        streamError = undefined;
+        chatCalls = [];
+        registerProvider("responses-test", () => ({
+            generate: () => Promise.resolve("Complete answer"),
+            chat: (messages: Array<{ role: string; content: string }>) => {
+                chatCalls.push(messages);
+                return Promise.resolve("Chat answer");
+            },
+            async *stream() {
+                yield* events;
+                if (streamError) {
+                    throw streamError;
+                }
+            },
+        }));
+
+        agent = new AgentForceAgent({ name: "ResponsesAgent" }).systemPrompt("You are a support agent");
+        app = new Hono();
+        app.post("/v1/responses", createOpenAIResponsesRouteHandler(agent, "/v1/responses"));
+    });
+
+    afterEach(() => {
+        unregisterProvider("responses-test");
+        consoleLogSpy.mockRestore();
+        consoleErrorSpy.mockRestore();
+    });
+
+    test("should return the answer as output message with usage", async () => {
+        const response = await post({ model: "responses-test/test-model", input: "Hi" });
+
+        const body = await response.json() as any;
+        expect(response.status).toBe(200);
+        expect(body).toMatchObject({
+            id: expect.stringMatching(/^resp_\w+$/),
+            object: "response",
+            status: "completed",
+            model: "responses-test/test-model",
+            instructions: null,
+            error: null,
+            usage: { input_tokens: 1, output_tokens: 4, total_tokens: 5 },
+        });
+        expect(body.output).toEqual([{
+            id: expect.stringMatching(/^msg_\w+$/),
+            type: "message",
+            status: "completed",
+            role: "assistant",
+            content: [{ type: "output_text", text: "Complete answer", annotations: [] }],
+        }]);
+    });
+
+    test("should pass instructions and earlier input items as chat history", async () => {
+        await post({
+            model: "responses-test/test-model",
+            instructions: "Answer in French",
+            input: [
+                { role: "user", content: "My order is late" },
+                { type: "message", role: "assistant", content: [{ type: "output_text", text: "Which order?" }] },
+                { role: "developer", content: "Be brief" },
+                { role: "user", content: [{ type: "input_text", text: "This one" }, { type: "input_image", image_url: "https://example.com/receipt.png" }] },
+            ],
+        });
+
+        expect(chatCalls[0]).toEqual([
+            { role: "system", content: "You are a support agent\n\nAnswer in French\n\nBe brief" },
+            { role: "user", content: "My order is late" },
+            { role: "assistant", content: "Which order?" },
+            { role: "user", content: "This one", images: ["https://example.com/receipt.png"] },
+        ]);
+        expect(agent["getSystemPrompt"]()).toBe("You are a support agent");
+    });
+
+    test("should describe earlier function calls and their outputs in the history", async () => {
+        await post({
+            model: "responses-test/test-model",
+            input: [
+                { role: "user", content: "Where is order 42?" },
+                { type: "function_call", call_id: "call_1", name: "lookup_order", arguments: "{\"id\":42}" },
+                { type: "function_call_output", call_id: "call_1", output: "shipped" },
+            ],
+        });
+
+        expect(chatCalls[0]?.slice(1)).toEqual([
+            { role: "user", content: "Where is order 42?" },
+            { role: "assistant", content: "Called tool lookup_order (call_1) with arguments {\"id\":42}" },
+            { role: "user", content: "Result of tool call call_1:\nshipped" },
+        ]);
+    });
+
+    test("should pass temperature and max_output_tokens to the provider", async () => {
+        const modelConfigs: unknown[] = [];
+        registerProvider("responses-test", (_model, modelConfig) => {
+            modelConfigs.push(modelConfig);
+            return { generate: () => Promise.resolve("Complete answer"), chat: () => Promise.resolve("Chat answer") };
+        });
+        agent.useLLM("ollama", "gemma3:4b", { temperature: 0.9, maxToolRounds: 3 });
+
+        await post({ model: "responses-test/test-model", input: "Hi", temperature: 0.3, max_output_tokens: 50 });
+
+        expect(modelConfigs.at(-1)).toEqual({ temperature: 0.3, maxToolRounds: 3, maxTokens: 50 });
+        expect(agent["getModelConfig"]()).toEqual({ temperature: 0.9, maxToolRounds: 3 });
+    });
+
+    test("should stream the response events in order", async () => {
+        events.push({ type: "text", text: "Hello" }, { type: "text", text: " there" });
+
+        const response = await post({ model: "responses-test/test-model", stream: true, input: "Hi" });
+
+        expect(response.headers.get("Content-Type")).toBe("text/event-stream");
+        const streamed = await readEvents(response);
+        expect(streamed.map(item => item.event)).toEqual([
+            "response.created",
+            "response.in_progress",
+            "response.output_item.added",
+            "response.content_part.added",
+            "response.output_text.delta",
+            "response.output_text.delta",
+            "response.output_text.done",
+            "response.content_part.done",
+            "response.output_item.done",
+            "response.completed",
+        ]);
+        expect(streamed.every((item, index) => item.data.type === item.event && item.data.sequence_number === index)).toBe(true);
+        expect(streamed.filter(item => item.event === "response.output_text.delta").map(item => item.data.delta)).toEqual(["Hello", " there"]);
+
+        const completed = streamed.at(-1)?.data.response;
+        expect(completed.status).toBe("completed");
+        expect(completed.output[0].content[0].text).toBe("Hello there");
+        expect(completed.usage).toEqual({ input_tokens: 1, output_tokens: 3, total_tokens: 4 });
+    });
+
+    test("should end the stream with response.failed when the agent fails", async () => {
+        events.push({ type: "text", text: "Partial" });
+        streamError = new Error("Provider went away");
+
+        const response = await post({ model: "responses-test/test-model", stream: true, input: "Hi" });
+
+        const streamed = await readEvents(response);
+        expect(streamed.at(-1)).toMatchObject({
+            event: "response.failed",
+            data: { response: { status: "failed", error: { code: "server_error", message: "Provider went away" } } },
+        });
+    });
+
+    test("should reject invalid requests", async () => {
+        const invalid = [
+            [{ input: "Hi", previous_response_id: "resp_1" }, "Invalid \"previous_response_id\" field. Responses are not stored, send the whole conversation as \"input\""],
+            [{ input: [] }, "Invalid \"input\" field. Must not be empty"],
+            [{ input: [{ type: "reasoning" }] }, "Input item at index 0 has unsupported type \"reasoning\". Must be \"message\", \"function_call\" or \"function_call_output\""],
+            [{ input: "Hi", tools: [{ type: "web_search" }] }, "Tool at index 0 has unsupported type \"web_search\". Only \"function\" tools are supported"],
+            [{ input: "Hi", tool_choice: "required" }, "Invalid \"tool_choice\" field. \"required\" needs at least one tool in the tools of the request"],
+            [{ input: [{ role: "user", content: [{ type: "input_image", image_url: "/etc/secret.png" }] }] }, "Input item at index 0, content part at index 0 must have an http(s) or data URL as \"image_url\""],
+        ] as const;
+
+        for (const [fields, message] of invalid) {
+            const response = await post({ model: "responses-test/test-model", ...fields });
+
+            expect(response.status).toBe(400);
+            expect((await response.json() as any).message).toBe(message);
+        }
+    });
+
+    describe("client tools", () => {
+        const weatherTool = {
+            type: "function",
+            name: "get_weather",
+            description: "Get the weather of a city",
+            parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+        };
+
+        beforeEach(() => {
+            jest.mocked(loadTools).mockImplementation(actualTools.loadTools);
+            // Like the tool loops of the providers, the execution ends with the round that calls a client tool
+            registerProvider("responses-test", () => ({
+                generate: () => Promise.resolve("Plain answer"),
+                chat: () => Promise.resolve("Plain answer"),
+                async generateWithTools(_prompt: string, _tools: Tool[], _system?: string, logger?: any, agent?: any, options?: LLMCallOptions) {
+                    const result = await actualTools.executeTool("get_weather", { city: "Oslo" }, agent, logger, options?.signal);
+                    return isDeferredToolCall(result) ? "" : "It is sunny";
+                },
+                async *stream(_messages: unknown, _tools: Tool[] = [], logger?: any, agent?: any, options?: LLMCallOptions) {
+                    yield { type: "text" as const, text: "Let me check" };
+                    const result = await actualTools.executeTool("get_weather", { city: "Oslo" }, agent, logger, options?.signal);
+                    if (!isDeferredToolCall(result)) {
+                        yield { type: "text" as const, text: "It is sunny" };
+                    }
+                },
+            }));
+        });
+
+        test("should return the tool calls of the model as function_call items", async () => {
+            const response = await post({ model: "responses-test/test-model", tools: [weatherTool], input: "Weather in Oslo?" });
+
+            const body = await response.json() as any;
+            expect(body.status).toBe("completed");
+            expect(body.output).toEqual([{
+                id: expect.stringMatching(/^fc_\w+$/),
+                type: "function_call",
+                status: "completed",
+                call_id: expect.stringMatching(/^call_\w+$/),
+                name: "get_weather",
+                arguments: "{\"city\":\"Oslo\"}",
+            }]);
+        });
+
+        test("should stream the function_call items after the message", async () => {
+            const response = await post({ model: "responses-test/test-model", stream: true, tools: [weatherTool], input: "Weather?" });
+
+            const streamed = await readEvents(response);
+            const completed = streamed.at(-1)?.data.response;
+            expect(streamed.slice(-3).map(item => [item.event, item.data.output_index])).toEqual([
+                ["response.output_item.added", 1],
+                ["response.output_item.done", 1],
+                ["response.completed", undefined],
+            ]);
+            expect(completed.output.map((item: any) => item.type)).toEqual(["message", "function_call"]);
+            expect(completed.output[0].content[0].text).toBe("Let me check");
+        });
+
+        test("should ask the model to call a tool when tool_choice is required", async () => {
+            const systemPrompts: Array<string | undefined> = [];
+            registerProvider("responses-test", () => ({
+                generate: () => Promise.resolve("Plain answer"),
+                chat: () => Promise.resolve("Plain answer"),
+                generateWithTools(_prompt: string, _tools: Tool[], system?: string) {
+                    systemPrompts.push(system);
+                    return Promise.resolve("Plain answer");
+                },
+            }));
+
+            const response = await post({ model: "responses-test/test-model", tools: [weatherTool], tool_choice: "required", input: "Weather?" });
+
+            expect(response.status).toBe(200);
+            expect(systemPrompts).toEqual(["You are a support agent\n\nYou must call at least one of the tools \"get_weather\" to answer."]);
+        });
+
+        test("should reject a tool_choice that is not in the tools", async () => {
+            const response = await post({
+                model: "responses-test/test-model",
+                tools: [weatherTool],
+                tool_choice: { type: "function", name: "get_time" },
+                input: "Hi",
+            });
+
+            expect(response.status).toBe(400);
+            expect((await response.json() as any).message).toBe("Invalid \"tool_choice\" field. Tool \"get_time\" is not in the tools of the request");
+        });
+    });
+
+    describe("model agents", () => {
+        let models: Record<string, AgentForceAgent>;
+
+        beforeEach(() => {
+            models = {
+                "support-bot": new AgentForceAgent({ name: "SupportBot" }).useLLM("responses-test", "support-model"),
+            };
+            app = new Hono();
+            app.post("/v1/responses", createOpenAIResponsesRouteHandler(models["support-bot"] as AgentForceAgent, "/v1/responses", {}, models));
+        });
+
+        test("should run the agent named by the model field", async () => {
+            const response = await post({ model: "support-bot", input: "Hi" });
+
+            const body = await response.json() as any;
+            expect(body.model).toBe("support-bot");
+            expect(body.output[0].content[0].text).toBe("Complete answer");
+        });
+
+        test("should return 404 for models that are not served", async () => {
+            const response = await post({ model: "ollama/gemma3:4b", input: "Hi" });
+
+            expect(response.status).toBe(404);
+            expect(await response.json()).toEqual({
+                error: "Model not found",
+                message: "Model \"ollama/gemma3:4b\" is not available. Available models: support-bot",
+            });
+        });
+
+        test("should register the agents as models of the route", () => {
+            const server = { getLogger: () => ({ info: jest.fn() }), getName: () => "Server", addToRouteAgents: jest.fn() };
+
+            useOpenAIResponsesRouting.call(server as any, models);
+
+            expect(server.addToRouteAgents).toHaveBeenCalledWith({
+                method: "POST",
+                path: "/v1/responses",
+                agent: models["support-bot"],
+                models,
+            });
+        });
+    });
+});
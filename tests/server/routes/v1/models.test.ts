@@ -0,0 +1,61 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+import { AgentForceAgent } from "../../../../lib/agent";
+import { createModelAgentsRoute, resolveModelAgents } from "../../../../lib/server/routes/v1/models";
+
+describe("Models route of served agents", () => {
+    let models: Record<string, AgentForceAgent>;
+    const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+    beforeEach(() => {
+        jest.spyOn(console, "log").mockImplementation(() => {});
+        models = {
+            "support-bot": new AgentForceAgent({ name: "SupportBot", tools: ["web_fetch"] }).useLLM("openrouter", "openai/gpt-4o-mini"),
+            "sql-helper": new AgentForceAgent({ name: "SqlHelper" }).useLLM("ollama", "qwen3:8b"),
+        };
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test("should list exactly the served agents with their metadata", async () => {
+        const response = await createModelAgentsRoute(models, "MyServer", logger).request("/models");
+
+        const body = await response.json() as any;
+        expect(body.object).toBe("list");
+        expect(body.data).toEqual([
+            {
+                id: "support-bot",
+                object: "model",
+                created: expect.any(Number),
+                owned_by: "MyServer",
+                permission: [],
+                root: "openai/gpt-4o-mini",
+                parent: null,
+                agent: { name: "SupportBot", provider: "openrouter", model: "openai/gpt-4o-mini", tools: ["web_fetch"] },
+            },
+            expect.objectContaining({ id: "sql-helper", agent: { name: "SqlHelper", provider: "ollama", model: "qwen3:8b", tools: [] } }),
+        ]);
+    });
+
+    test("should return one served agent by its model name", async () => {
+        const app = createModelAgentsRoute(models, "MyServer", logger);
+
+        const found = await app.request("/models/sql-helper");
+        const missing = await app.request("/models/gpt-4");
+
+        expect(await found.json()).toMatchObject({ id: "sql-helper", root: "qwen3:8b" });
+        expect(missing.status).toBe(404);
+        expect(await missing.json()).toEqual({ error: "Model 'gpt-4' not found" });
+        expect(logger.debug).toHaveBeenCalledWith("Model not found", { model: "gpt-4" });
+        expect(console.log).not.toHaveBeenCalled();
+    });
+
+    test("should resolve one agent or a map of agents", () => {
+        const agent = models["sql-helper"] as AgentForceAgent;
+
+        expect(resolveModelAgents(agent)).toEqual({ agent });
+        expect(resolveModelAgents(models)).toEqual({ agent: models["support-bot"], models });
+        expect(() => resolveModelAgents({ " ": agent })).toThrow("Model names must be non-empty strings");
+    });
+});
@@ -4,6 +4,10 @@
 // Mock puppeteer modules
 jest.mock("puppeteer-extra");
 jest.mock("puppeteer-extra-plugin-stealth");
+jest.mock("puppeteer", () => ({
+  __esModule: true,
+  default: { launch: jest.fn() },
+}));
 
 // Mock modules that use import.meta
 jest.mock("../lib/agent/functions/skills", () => ({
@@ -14,6 +18,13 @@ jest.mock("../lib/agent/functions/tools", () => ({
   loadTools: jest.fn().mockReturnValue([]),
 }));
 
+jest.mock("../lib/workflow/functions/assets", () => ({
+  loadDispatcherTemplate: () => jest.requireActual<typeof import("fs")>("fs").readFileSync(
+    jest.requireActual<typeof import("path")>("path").resolve(__dirname, "../lib/_assets/prompts/dispatcher.md.hbs"),
+    "utf-8",
+  ),
+}));
+
 // Note: We don't mock execute.ts here since we want to test it directly
 
 // Mock utility functions
@@ -46,6 +57,14 @@ jest.mock("../lib/provider/google", () => ({
   GoogleProvider: jest.fn().mockImplementation(() => createMockProvider("Google mock response"))
 }));
 
+jest.mock("../lib/provider/openai", () => ({
+  OpenAIProvider: jest.fn().mockImplementation(() => createMockProvider("OpenAI mock response"))
+}));
+
+jest.mock("../lib/provider/anthropic", () => ({
+  AnthropicProvider: jest.fn().mockImplementation(() => createMockProvider("Anthropic mock response"))
+}));
+
 // Mock tooluse
 jest.mock("../lib/provider/ollama-tooluse", () => ({
   OllamaToolUseProvider: jest.fn().mockImplementation(() => ({
@@ -110,7 +129,10 @@ jest.mock("handlebars", () => ({
 
 // Mock environment variables that may be needed
 process.env.OPENROUTER_API_KEY = "test-key";
+process.env.OPENAI_API_KEY = "test-key";
+process.env.ANTHROPIC_API_KEY = "test-key";
 process.env.GOOGLE_GENAI_API_KEY = "test-key";
+process.env.GEMINI_API_KEY = "test-key";
 
 // Suppress all error outputs in tests by setting LOG_LEVEL to silent
 process.env.LOG_LEVEL = "silent";
@@ -0,0 +1,103 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { TimeoutError, abortable, sleep, withTimeout } from "../../lib/utils/abort";
+
+describe("abort utils", () => {
+    describe("withTimeout", () => {
+        test("should return the parent signal without a timeout", () => {
+            const controller = new AbortController();
+
+            expect(withTimeout(controller.signal, undefined, "Agent").signal).toBe(controller.signal);
+        });
+
+        test("should abort with a TimeoutError once the timeout passes", async () => {
+            jest.useFakeTimers();
+            try {
+                const { signal } = withTimeout(undefined, 500, "Step 2");
+
+                await jest.advanceTimersByTimeAsync(499);
+                expect(signal!.aborted).toBe(false);
+                await jest.advanceTimersByTimeAsync(1);
+
+                expect(signal!.reason).toBeInstanceOf(TimeoutError);
+                expect(signal!.reason).toMatchObject({ name: "TimeoutError", message: "Step 2 timed out after 500 ms", timeoutMs: 500 });
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        test("should abort with the reason of the parent signal", () => {
+            const controller = new AbortController();
+            const { signal, clear } = withTimeout(controller.signal, 60_000, "Agent");
+
+            controller.abort(new Error("Client disconnected"));
+            clear();
+
+            expect(signal!.reason).toEqual(new Error("Client disconnected"));
+        });
+
+        test("should not abort after clear()", async () => {
+            jest.useFakeTimers();
+            try {
+                const controller = new AbortController();
+                const { signal, clear } = withTimeout(controller.signal, 100, "Agent");
+
+                clear();
+                await jest.advanceTimersByTimeAsync(200);
+                controller.abort();
+
+                expect(signal!.aborted).toBe(false);
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+
+    describe("abortable", () => {
+        test("should settle with the promise when the signal stays open", async () => {
+            await expect(abortable(Promise.resolve("done"), new AbortController().signal)).resolves.toBe("done");
+            await expect(abortable(Promise.reject(new Error("failed")), undefined)).rejects.toThrow("failed");
+        });
+
+        test("should reject with the abort reason without waiting for the promise", async () => {
+            const controller = new AbortController();
+            const result = abortable(new Promise(() => {}), controller.signal);
+
+            controller.abort(new TimeoutError("Agent timed out after 10 ms", 10));
+
+            await expect(result).rejects.toThrow("Agent timed out after 10 ms");
+        });
+
+        test("should reject right away when the signal is already aborted", async () => {
+            const controller = new AbortController();
+            controller.abort(new Error("Cancelled"));
+
+            await expect(abortable(Promise.resolve("late"), controller.signal)).rejects.toThrow("Cancelled");
+        });
+    });
+
+    describe("sleep", () => {
+        test("should resolve after the delay", async () => {
+            jest.useFakeTimers();
+            try {
+                const resolved = jest.fn();
+                void sleep(1000).then(resolved);
+
+                await jest.advanceTimersByTimeAsync(999);
+                expect(resolved).not.toHaveBeenCalled();
+                await jest.advanceTimersByTimeAsync(1);
+                expect(resolved).toHaveBeenCalled();
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+
+        test("should reject when the signal aborts", async () => {
+            const controller = new AbortController();
+            const result = sleep(60_000, controller.signal);
+
+            controller.abort(new Error("Stopped"));
+
+            await expect(result).rejects.toThrow("Stopped");
+        });
+    });
+});
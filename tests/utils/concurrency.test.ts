@@ -0,0 +1,91 @@
+import { describe, expect, test } from "@jest/globals";
+import { assertConcurrency, createLimiter, mapWithConcurrency } from "../../lib/utils/concurrency";
+
+// Resolves once the pending promise callbacks have run
+const flush = (): Promise<void> => new Promise(resolve => setImmediate(resolve));
+
+describe("concurrency utils", () => {
+    describe("createLimiter", () => {
+        test("should hand out at most limit slots and pass freed slots on in order", async () => {
+            const limiter = createLimiter(2);
+            const granted: number[] = [];
+
+            const first = await limiter.acquire();
+            await limiter.acquire();
+            void limiter.acquire().then(() => granted.push(3));
+            void limiter.acquire().then(() => granted.push(4));
+            await flush();
+            expect(granted).toEqual([]);
+
+            // Releasing twice frees a single slot
+            first();
+            first();
+            await flush();
+
+            expect(granted).toEqual([3]);
+        });
+
+        test("should reject a waiting acquire when its signal aborts", async () => {
+            const limiter = createLimiter(1);
+            const release = await limiter.acquire();
+            const controller = new AbortController();
+
+            const waiting = limiter.acquire(controller.signal);
+            controller.abort(new Error("Cancelled"));
+
+            await expect(waiting).rejects.toThrow("Cancelled");
+            release();
+            await expect(limiter.acquire()).resolves.toEqual(expect.any(Function));
+        });
+
+        test("should reject invalid limits", () => {
+            expect(() => createLimiter(0)).toThrow("concurrency must be a positive integer");
+            expect(() => assertConcurrency(2.5, "limit")).toThrow("limit must be a positive integer");
+        });
+    });
+
+    describe("mapWithConcurrency", () => {
+        test("should keep the item order and never exceed the concurrency", async () => {
+            let running = 0;
+            let maxRunning = 0;
+
+            const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (delay, index) => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await new Promise(resolve => setTimeout(resolve, delay));
+                running--;
+                return index;
+            });
+
+            expect(results).toEqual([0, 1, 2, 3, 4]);
+            expect(maxRunning).toBe(2);
+        });
+
+        test("should run all items at once without a concurrency", async () => {
+            let running = 0;
+            let maxRunning = 0;
+
+            await mapWithConcurrency([1, 2, 3], undefined, async () => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await flush();
+                running--;
+            });
+
+            expect(maxRunning).toBe(3);
+        });
+
+        test("should reject on the first failure and start no further items", async () => {
+            const started: number[] = [];
+
+            await expect(mapWithConcurrency([1, 2, 3, 4], 1, async item => {
+                started.push(item);
+                if (item === 2) {
+                    throw new Error("Item 2 failed");
+                }
+            })).rejects.toThrow("Item 2 failed");
+
+            expect(started).toEqual([1, 2]);
+        });
+    });
+});
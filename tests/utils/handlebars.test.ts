@@ -22,7 +22,7 @@ jest.mock("node:path", () => ({
 }));
 
 // Import the functions to test
-import { renderTemplate, isHandlebarsTemplate, renderTemplateFile } from "../../lib/utils/handlebars";
+import { renderTemplate, renderPromptTemplate, hasTemplateExpressions, isHandlebarsTemplate, renderTemplateFile } from "../../lib/utils/handlebars";
 
 describe("Handlebars Utilities Tests", () => {
     beforeEach(() => {
@@ -87,6 +87,31 @@ describe("Handlebars Utilities Tests", () => {
         });
     });
 
+    describe("renderPromptTemplate", () => {
+        test("should compile the template without HTML escaping", () => {
+            const mockCompiledTemplate = jest.fn().mockReturnValue("Write to Tom & Jerry");
+            mockHandlebarsCompile.mockReturnValue(mockCompiledTemplate);
+
+            const result = renderPromptTemplate("Write to {{store.customer}}", { store: { customer: "Tom & Jerry" } });
+
+            expect(mockHandlebarsCompile).toHaveBeenCalledWith("Write to {{store.customer}}", { noEscape: true });
+            expect(mockCompiledTemplate).toHaveBeenCalledWith({ store: { customer: "Tom & Jerry" } });
+            expect(result).toBe("Write to Tom & Jerry");
+        });
+    });
+
+    describe("hasTemplateExpressions", () => {
+        test("should detect Handlebars expressions", () => {
+            expect(hasTemplateExpressions("Hello {{store.name}}")).toBe(true);
+            expect(hasTemplateExpressions("{{#each items}}\n{{this}}\n{{/each}}")).toBe(true);
+        });
+
+        test("should ignore text without expressions", () => {
+            expect(hasTemplateExpressions("Hello world")).toBe(false);
+            expect(hasTemplateExpressions("A set like {a, b}")).toBe(false);
+        });
+    });
+
     describe("isHandlebarsTemplate", () => {
         test("should return true for .hbs files", () => {
             const hbsFiles = [
@@ -0,0 +1,97 @@
+import { describe, expect, test, jest, afterEach } from "@jest/globals";
+import { readFileSync } from "fs";
+import { detectImageMimeType, inlineImages, loadImage, parseDataUrl, toImageUrl } from "../../lib/utils/images";
+import type { LLMMessage } from "../../lib/types";
+
+const PNG = "iVBORw0KGgoAAAANSUhEUg==";
+
+describe("image utils", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    describe("parseDataUrl", () => {
+        test("should return the media type and data of base64 data URLs", () => {
+            expect(parseDataUrl(`data:image/png;base64,${PNG}`)).toEqual({ mimeType: "image/png", data: PNG });
+            expect(parseDataUrl("data:image/jpeg;name=cat.jpg;base64,/9j/4AAQ")).toEqual({ mimeType: "image/jpeg", data: "/9j/4AAQ" });
+        });
+
+        test("should return undefined for other strings", () => {
+            expect(parseDataUrl("data:text/plain,hello")).toBeUndefined();
+            expect(parseDataUrl("https://example.com/cat.png")).toBeUndefined();
+        });
+    });
+
+    describe("detectImageMimeType", () => {
+        test("should detect the media type from the file signature", () => {
+            expect(detectImageMimeType(PNG)).toBe("image/png");
+            expect(detectImageMimeType("/9j/4AAQSkZJRg")).toBe("image/jpeg");
+            expect(detectImageMimeType("R0lGODlhAQABAAAAACw=")).toBe("image/gif");
+            expect(detectImageMimeType("UklGRiQAAABXRUJQ")).toBe("image/webp");
+            expect(detectImageMimeType("AAAA")).toBe("image/png");
+        });
+    });
+
+    describe("loadImage", () => {
+        test("should load data URLs and base64 strings", async () => {
+            expect(await loadImage(`data:image/gif;base64,R0lGOD`)).toEqual({ mimeType: "image/gif", data: "R0lGOD" });
+            expect(await loadImage(`${PNG.slice(0, 10)}\n${PNG.slice(10)}`)).toEqual({ mimeType: "image/png", data: PNG });
+        });
+
+        test("should read image files", async () => {
+            jest.mocked(readFileSync).mockReturnValue(Buffer.from("jpeg bytes"));
+
+            expect(await loadImage("./photos/cat.JPG")).toEqual({ mimeType: "image/jpeg", data: Buffer.from("jpeg bytes").toString("base64") });
+            expect(readFileSync).toHaveBeenCalledWith("./photos/cat.JPG");
+        });
+
+        test("should report files that cannot be read", async () => {
+            jest.mocked(readFileSync).mockImplementation(() => {
+                throw new Error("ENOENT: no such file or directory");
+            });
+
+            await expect(loadImage("missing.png")).rejects.toThrow("Failed to read image missing.png: ENOENT: no such file or directory");
+        });
+
+        test("should fetch http(s) images with their content type", async () => {
+            const fetchSpy = jest.spyOn(globalThis, "fetch").mockResolvedValue(new Response(Buffer.from("webp bytes"), {
+                headers: { "Content-Type": "image/webp; charset=binary" },
+            }));
+            const controller = new AbortController();
+
+            const image = await loadImage("https://example.com/cat", controller.signal);
+
+            expect(image).toEqual({ mimeType: "image/webp", data: Buffer.from("webp bytes").toString("base64") });
+            expect(fetchSpy).toHaveBeenCalledWith("https://example.com/cat", { signal: controller.signal });
+        });
+
+        test("should report failed downloads", async () => {
+            jest.spyOn(globalThis, "fetch").mockResolvedValue(new Response("missing", { status: 404, statusText: "Not Found" }));
+
+            await expect(loadImage("https://example.com/cat.png")).rejects.toThrow("Failed to fetch image https://example.com/cat.png: 404 Not Found");
+        });
+
+        test("should reject unknown formats", async () => {
+            await expect(loadImage("data:image/png,raw")).rejects.toThrow("Invalid image data URL");
+            await expect(loadImage("notes.txt")).rejects.toThrow("Unsupported image \"notes.txt\"");
+        });
+    });
+
+    describe("toImageUrl", () => {
+        test("should keep http(s) URLs and turn other images into data URLs", async () => {
+            expect(await toImageUrl("https://example.com/cat.png")).toBe("https://example.com/cat.png");
+            expect(await toImageUrl(PNG)).toBe(`data:image/png;base64,${PNG}`);
+        });
+    });
+
+    describe("inlineImages", () => {
+        test("should replace images with data URLs and keep messages without images", async () => {
+            const system: LLMMessage = { role: "system", content: "Describe images" };
+
+            const messages = await inlineImages([system, { role: "user", content: "What is this?", images: [PNG] }]);
+
+            expect(messages[0]).toBe(system);
+            expect(messages[1]).toEqual({ role: "user", content: "What is this?", images: [`data:image/png;base64,${PNG}`] });
+        });
+    });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { getRetryDelay, resolveRetryPolicy, withRetry } from "../../lib/utils/retry";
+
+describe("retry utils", () => {
+    describe("resolveRetryPolicy", () => {
+        test("should apply the defaults", () => {
+            expect(resolveRetryPolicy()).toEqual({ maxAttempts: 3, initialDelayMs: 1000, maxDelayMs: 30_000, backoffFactor: 2, jitter: true });
+        });
+
+        test("should reject values out of range", () => {
+            expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow("maxAttempts must be a positive integer");
+            expect(() => resolveRetryPolicy({ initialDelayMs: -1 })).toThrow("initialDelayMs must be a non-negative number");
+            expect(() => resolveRetryPolicy({ maxDelayMs: Infinity })).toThrow("maxDelayMs must be a non-negative number");
+            expect(() => resolveRetryPolicy({ backoffFactor: 0.5 })).toThrow("backoffFactor must be a number of at least 1");
+            expect(() => resolveRetryPolicy({ retryOn: true as any })).toThrow("retryOn must be a function");
+        });
+    });
+
+    describe("getRetryDelay", () => {
+        test("should grow exponentially up to the maximum delay", () => {
+            const policy = resolveRetryPolicy({ initialDelayMs: 500, maxDelayMs: 3000, jitter: false });
+
+            expect([1, 2, 3, 4, 5].map(attempt => getRetryDelay(policy, attempt))).toEqual([500, 1000, 2000, 3000, 3000]);
+        });
+
+        test("should pick a delay between half and the full value with jitter", () => {
+            const policy = resolveRetryPolicy({ initialDelayMs: 1000 });
+
+            expect(getRetryDelay(policy, 2, () => 0)).toBe(1000);
+            expect(getRetryDelay(policy, 2, () => 0.5)).toBe(1500);
+            expect(getRetryDelay(policy, 2, () => 0.999)).toBe(1999);
+        });
+    });
+
+    describe("withRetry", () => {
+        const failingTimes = (failures: number) => {
+            let calls = 0;
+            return jest.fn((_attempt: number) => ++calls <= failures ? Promise.reject(new Error(`Failure ${calls}`)) : Promise.resolve("ok"));
+        };
+
+        test("should retry until the operation succeeds", async () => {
+            const operation = failingTimes(2);
+            const onRetry = jest.fn();
+
+            await expect(withRetry(operation, { initialDelayMs: 0 }, onRetry)).resolves.toBe("ok");
+
+            expect(operation.mock.calls.map(call => call[0])).toEqual([1, 2, 3]);
+            expect(onRetry.mock.calls.map(call => (call[0] as any).attempt)).toEqual([1, 2]);
+            expect(onRetry).toHaveBeenCalledWith({ error: new Error("Failure 1"), attempt: 1, maxAttempts: 3, delayMs: 0 });
+        });
+
+        test("should throw the last error when the attempts are used up", async () => {
+            const operation = failingTimes(5);
+
+            await expect(withRetry(operation, { maxAttempts: 2, initialDelayMs: 0 })).rejects.toThrow("Failure 2");
+            expect(operation).toHaveBeenCalledTimes(2);
+        });
+
+        test("should not retry errors declined by retryOn", async () => {
+            const operation = failingTimes(5);
+            const retryOn = jest.fn((error: unknown, _attempt: number) => !String(error).includes("Failure 2"));
+
+            await expect(withRetry(operation, { initialDelayMs: 0, retryOn })).rejects.toThrow("Failure 2");
+            expect(retryOn).toHaveBeenCalledWith(new Error("Failure 1"), 1);
+            expect(operation).toHaveBeenCalledTimes(2);
+        });
+
+        test("should run the operation once without a policy", async () => {
+            const operation = failingTimes(1);
+
+            await expect(withRetry(operation, undefined)).rejects.toThrow("Failure 1");
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        test("should not retry once the signal is aborted", async () => {
+            const controller = new AbortController();
+            const operation = jest.fn((_attempt: number) => {
+                controller.abort();
+                return Promise.reject(new Error("Aborted"));
+            });
+
+            await expect(withRetry(operation, { initialDelayMs: 0 }, undefined, controller.signal)).rejects.toThrow("Aborted");
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        test("should stop waiting for the next attempt when the signal aborts", async () => {
+            const controller = new AbortController();
+            const operation = failingTimes(1);
+            const result = withRetry(operation, { initialDelayMs: 60_000 }, () => controller.abort(new Error("Run cancelled")), controller.signal);
+
+            await expect(result).rejects.toThrow("Run cancelled");
+            expect(operation).toHaveBeenCalledTimes(1);
+        });
+
+        test("should wait for the backoff delay", async () => {
+            jest.useFakeTimers();
+            try {
+                const operation = failingTimes(1);
+                const result = withRetry(operation, { initialDelayMs: 2000, jitter: false });
+
+                await jest.advanceTimersByTimeAsync(1999);
+                expect(operation).toHaveBeenCalledTimes(1);
+                await jest.advanceTimersByTimeAsync(1);
+                await expect(result).resolves.toBe("ok");
+            } finally {
+                jest.useRealTimers();
+            }
+        });
+    });
+});
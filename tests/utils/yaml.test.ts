@@ -5,7 +5,9 @@ import {
     isValidYaml,
     safeParseYaml,
     formatResponseAsYaml,
-    validateAndFormatYaml
+    validateAndFormatYaml,
+    parseYamlWithLocations,
+    YamlParseError
 } from "../../lib/utils/yaml";
 
 describe("YAML Utility Functions", () => {
@@ -361,4 +363,48 @@ name: Alice
             }
         });
     });
+});
+
+describe("parseYamlWithLocations", () => {
+    const yamlString = "name: Flow\nsteps:\n  - sequence:\n      - Writer\n      - Critic\n";
+
+    test("should return the parsed value", () => {
+        expect(parseYamlWithLocations(yamlString).value).toEqual({ name: "Flow", steps: [{ sequence: ["Writer", "Critic"] }] });
+    });
+
+    test("should locate values by keys and indexes", () => {
+        const document = parseYamlWithLocations(yamlString);
+
+        expect(document.locate(["name"])).toEqual({ line: 1, column: 7 });
+        expect(document.locate(["steps", 0, "sequence", 1])).toEqual({ line: 5, column: 9 });
+        expect(document.locate(["steps", "0", "sequence", "0"])).toEqual({ line: 4, column: 9 });
+        expect(document.locate([])).toEqual({ line: 1, column: 1 });
+    });
+
+    test("should fall back to the closest parent that exists", () => {
+        const document = parseYamlWithLocations(yamlString);
+
+        expect(document.locate(["steps", 0, "sequence", 5])).toEqual({ line: 4, column: 7 });
+        expect(document.locate(["agents"])).toEqual({ line: 1, column: 1 });
+    });
+
+    test("should parse JSON with locations", () => {
+        const document = parseYamlWithLocations('{\n  "name": "Flow",\n  "steps": []\n}');
+
+        expect(document.value).toEqual({ name: "Flow", steps: [] });
+        expect(document.locate(["steps"])).toEqual({ line: 3, column: 12 });
+    });
+
+    test("should throw YamlParseError with the location of the problem", () => {
+        let caught: unknown;
+        try {
+            parseYamlWithLocations("name: Flow\nsteps: [one, two\n");
+        } catch (error) {
+            caught = error;
+        }
+
+        expect(caught).toBeInstanceOf(YamlParseError);
+        expect((caught as YamlParseError).line).toBeGreaterThanOrEqual(2);
+        expect((caught as YamlParseError).message).toMatch(/^Failed to parse YAML at line \d+, column \d+: /);
+    });
 });
\ No newline at end of file
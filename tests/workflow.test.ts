@@ -76,12 +76,19 @@ describe("AgentForceWorkflow Main Class Tests", () => {
             expect(typeof workflow.parallel).toBe("function");
             expect(typeof workflow.onSuccess).toBe("function");
             expect(typeof workflow.onFail).toBe("function");
+            expect(typeof workflow.retry).toBe("function");
+            expect(typeof workflow.timeout).toBe("function");
             expect(typeof workflow.iterate).toBe("function");
+            expect(typeof workflow.branch).toBe("function");
+            expect(typeof workflow.route).toBe("function");
+            expect(typeof workflow.repeatUntil).toBe("function");
+            expect(typeof workflow.checkpoint).toBe("function");
             expect(typeof workflow.debug).toBe("function");
         });
 
         test("terminal methods should be available as functions", () => {
             expect(typeof workflow.run).toBe("function");
+            expect(typeof workflow.resume).toBe("function");
             expect(typeof workflow.loop).toBe("function");
         });
     });
@@ -0,0 +1,59 @@
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
+
+// The store writes real files to a temporary directory
+jest.unmock("fs");
+jest.unmock("fs/promises");
+jest.unmock("path");
+
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileCheckpointStore } from "../../../lib/workflow/checkpoints/fileCheckpointStore";
+import type { WorkflowCheckpoint } from "../../../lib/workflow";
+
+describe("FileCheckpointStore", () => {
+    let directory: string;
+
+    const checkpoint: WorkflowCheckpoint = {
+        runId: "run-1",
+        workflowName: "Report",
+        status: "running",
+        userPrompt: "Topic",
+        stepCount: 2,
+        completedSteps: 1,
+        stepOutputs: ["Topic"],
+        lastOutput: "Topic",
+        sharedStore: { sources: ["a"] },
+        agentOutputs: {},
+        updatedAt: "2026-01-01T00:00:00.000Z",
+    };
+
+    beforeEach(() => {
+        directory = mkdtempSync(join(tmpdir(), "agentforce-checkpoints-"));
+    });
+
+    afterEach(() => {
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    test("should save and load checkpoints as JSON files", async () => {
+        const store = new FileCheckpointStore(join(directory, "nested"));
+
+        await store.save(checkpoint);
+        await store.save({ ...checkpoint, status: "completed", completedSteps: 2 });
+
+        expect(readdirSync(join(directory, "nested"))).toEqual(["run-1.json"]);
+        expect(await store.load("run-1")).toEqual({ ...checkpoint, status: "completed", completedSteps: 2 });
+    });
+
+    test("should return undefined for unknown runs", async () => {
+        expect(await new FileCheckpointStore(directory).load("missing")).toBeUndefined();
+    });
+
+    test("should reject run ids that are not safe file names", async () => {
+        const store = new FileCheckpointStore(directory);
+
+        await expect(store.load("../outside")).rejects.toThrow("Invalid run id \"../outside\"");
+        await expect(store.save({ ...checkpoint, runId: ".." })).rejects.toThrow("Invalid run id \"..\"");
+    });
+});
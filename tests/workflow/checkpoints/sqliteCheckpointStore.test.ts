@@ -0,0 +1,58 @@
+import { describe, expect, test, beforeEach } from "@jest/globals";
+import { SQLiteCheckpointStore, type SQLiteDatabase } from "../../../lib/workflow/checkpoints/sqliteCheckpointStore";
+import type { WorkflowCheckpoint } from "../../../lib/workflow";
+
+describe("SQLiteCheckpointStore", () => {
+    let statements: string[];
+    let rows: Map<string, { data: string }>;
+    let database: SQLiteDatabase;
+
+    // Keeps rows by run id like the upsert of the store, the SQL itself runs on Bun and Node.js 22.5+
+    beforeEach(() => {
+        statements = [];
+        rows = new Map();
+        database = {
+            exec: sql => statements.push(sql),
+            prepare: sql => ({
+                run: (runId: string, _workflowName: string, _status: string, data: string) => rows.set(runId, { data }),
+                get: (runId: string) => {
+                    statements.push(sql);
+                    return rows.get(runId) ?? null;
+                },
+            }),
+        };
+    });
+
+    const checkpoint: WorkflowCheckpoint = {
+        runId: "run-1",
+        workflowName: "Report",
+        status: "failed",
+        userPrompt: "Topic",
+        stepCount: 2,
+        completedSteps: 1,
+        stepOutputs: ["Topic"],
+        lastOutput: "Topic",
+        sharedStore: {},
+        agentOutputs: {},
+        error: "Provider went away",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+    };
+
+    test("should create the table once and round-trip checkpoints", async () => {
+        const store = new SQLiteCheckpointStore(database);
+
+        await store.save(checkpoint);
+        const loaded = await store.load("run-1");
+
+        expect(loaded).toEqual(checkpoint);
+        expect(statements.filter(sql => sql.includes("CREATE TABLE IF NOT EXISTS workflow_checkpoints"))).toHaveLength(1);
+    });
+
+    test("should return undefined for unknown runs", async () => {
+        expect(await new SQLiteCheckpointStore(database).load("missing")).toBeUndefined();
+    });
+
+    test("should reject invalid run ids", async () => {
+        await expect(new SQLiteCheckpointStore(database).load("a b")).rejects.toThrow("Invalid run id \"a b\"");
+    });
+});
@@ -0,0 +1,148 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { readFileSync } from "fs";
+import {
+    parseWorkflowDefinition,
+    readWorkflowDefinition,
+    WorkflowDefinitionError,
+    type WorkflowDefinitionIssue,
+} from "../../../lib/workflow/functions/definition";
+
+const validDefinition = `name: SupportFlow
+store:
+  tone: friendly
+agents:
+  - name: Classifier
+    provider: ollama
+    model: gemma3:4b
+  - name: Writer
+    tools: [web_fetch]
+steps:
+  - prompt: "{{input}}"
+  - route:
+      router: Classifier
+      routes:
+        billing: [Writer]
+      fallback: billing
+`;
+
+function issuesOf(content: string): WorkflowDefinitionIssue[] {
+    try {
+        parseWorkflowDefinition(content, "flow.yaml");
+    } catch (error) {
+        expect(error).toBeInstanceOf(WorkflowDefinitionError);
+        return (error as WorkflowDefinitionError).issues;
+    }
+    throw new Error("Expected the definition to be invalid");
+}
+
+describe("Workflow definition functions", () => {
+    describe("parseWorkflowDefinition", () => {
+        test("should return valid YAML definitions", () => {
+            const definition = parseWorkflowDefinition(validDefinition, "flow.yaml");
+
+            expect(definition.name).toBe("SupportFlow");
+            expect(definition.store).toEqual({ tone: "friendly" });
+            expect(definition.agents?.map(agent => agent.name)).toEqual(["Classifier", "Writer"]);
+            expect(definition.steps[1]?.route?.routes).toEqual({ billing: ["Writer"] });
+        });
+
+        test("should accept JSON definitions", () => {
+            const json = JSON.stringify({ name: "Flow", agents: [{ name: "Writer" }], steps: [{ sequence: ["Writer"] }] }, null, 2);
+
+            expect(parseWorkflowDefinition(json, "flow.json").steps).toEqual([{ sequence: ["Writer"] }]);
+        });
+
+        test("should report schema errors with their paths and locations", () => {
+            const issues = issuesOf("name: Flow\nagents:\n  - name: Writer\n    temperature: 0.2\nsteps:\n  - sequence: Writer\n");
+
+            expect(issues).toEqual(expect.arrayContaining([
+                { path: "/agents/0/temperature", message: "is not allowed", line: 4, column: 18 },
+                { path: "/steps/0/sequence", message: "must be array", line: 6, column: 15 },
+            ]));
+        });
+
+        test("should report missing properties at the closest parent", () => {
+            expect(issuesOf("name: Flow\nsteps:\n  - iterate:\n      agent: Writer\n")).toContainEqual(
+                { path: "/steps/0/iterate/items", message: "is required", line: 4, column: 7 },
+            );
+            expect(issuesOf("steps: []\n")).toContainEqual({ path: "/name", message: "is required", line: 1, column: 1 });
+        });
+
+        test("should report unknown agent references", () => {
+            const issues = issuesOf("name: Flow\nagents:\n  - name: Writer\nsteps:\n  - sequence: [Writer, Editor]\n    onFail: Fixer\n");
+
+            expect(issues).toEqual([
+                { path: "/steps/0/sequence/1", message: "unknown agent \"Editor\", define it under agents", line: 5, column: 24 },
+                { path: "/steps/0/onFail", message: "unknown agent \"Fixer\", define it under agents", line: 6, column: 13 },
+            ]);
+        });
+
+        test("should require exactly one kind per step", () => {
+            const issues = issuesOf("name: Flow\nagents:\n  - name: Writer\nsteps:\n  - sequence: [Writer]\n    parallel: [Writer]\n  - outputKey: draft\n");
+
+            expect(issues.map(issue => issue.path)).toEqual(["/steps/0", "/steps/1"]);
+            expect(issues[0]?.message).toContain("found sequence and parallel");
+            expect(issues[1]?.message).toBe("must define exactly one of prompt, sequence, parallel, iterate, branch, route, repeatUntil");
+        });
+
+        test("should only allow concurrency options on parallel and iterate steps", () => {
+            const issues = issuesOf("name: Flow\nagents:\n  - name: Writer\nsteps:\n  - sequence: [Writer]\n    concurrency: 2\n");
+
+            expect(issues).toEqual([{ path: "/steps/0/concurrency", message: "is only allowed on parallel and iterate steps", line: 6, column: 18 }]);
+        });
+
+        test("should report unknown providers, tools, duplicate agents and route labels", () => {
+            const issues = issuesOf([
+                "name: Flow",
+                "agents:",
+                "  - name: Writer",
+                "    provider: nowhere",
+                "    tools: [web_fetch, teleport]",
+                "  - name: Writer",
+                "steps:",
+                "  - route:",
+                "      router: Writer",
+                "      routes: { billing: [Writer] }",
+                "      fallback: sales",
+            ].join("\n"));
+
+            expect(issues.map(issue => [issue.path, issue.message])).toEqual([
+                ["/agents/0/provider", "unknown provider \"nowhere\""],
+                ["/agents/0/tools/1", "unknown tool \"teleport\""],
+                ["/agents/1/name", "duplicate agent name \"Writer\""],
+                ["/steps/0/route/fallback", "unknown route label \"sales\""],
+            ]);
+        });
+
+        test("should format every issue with the file, line and column", () => {
+            expect(() => parseWorkflowDefinition("name: Flow\nsteps:\n  - sequence: [Writer]\n", "flows/support.yaml"))
+                .toThrow("Invalid workflow definition in flows/support.yaml:\n  flows/support.yaml:3:16 /steps/0/sequence/0 unknown agent \"Writer\", define it under agents");
+        });
+
+        test("should report YAML syntax errors as definition errors", () => {
+            const issues = issuesOf("name: Flow\nsteps: [\n");
+
+            expect(issues).toHaveLength(1);
+            expect(issues[0]?.path).toBe("");
+            expect(issues[0]?.message).toMatch(/^Failed to parse YAML at line/);
+            expect(issues[0]?.line).toBeGreaterThanOrEqual(2);
+        });
+    });
+
+    describe("readWorkflowDefinition", () => {
+        test("should read and validate the file", () => {
+            jest.mocked(readFileSync).mockReturnValue(validDefinition);
+
+            expect(readWorkflowDefinition("flow.yaml").name).toBe("SupportFlow");
+        });
+
+        test("should throw a definition error when the file cannot be read", () => {
+            jest.mocked(readFileSync).mockImplementation(() => {
+                throw new Error("ENOENT: no such file or directory");
+            });
+
+            expect(() => readWorkflowDefinition("missing.yaml"))
+                .toThrow("Invalid workflow definition in missing.yaml:\n  missing.yaml / Cannot read the file: ENOENT: no such file or directory");
+        });
+    });
+});
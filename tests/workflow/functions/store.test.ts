@@ -0,0 +1,91 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { AgentForceAgent } from "../../../lib/agent";
+import { prepareAgent, renderStoreTemplate } from "../../../lib/workflow/functions/store";
+
+// The global setup mocks executeTool, this suite runs the store tool like an agent would
+const { executeTool } = jest.requireActual("../../../lib/agent/functions/tools") as typeof import("../../../lib/agent/functions/tools");
+
+describe("Workflow shared store functions", () => {
+    describe("renderStoreTemplate", () => {
+        test("should render store values and the step input without escaping", () => {
+            const store = new Map<string, any>([["customer", { name: "Tom & Jerry" }]]);
+
+            expect(renderStoreTemplate("Write to {{store.customer.name}} about {{input}}", store, "the \"late\" order"))
+                .toBe("Write to Tom & Jerry about the \"late\" order");
+        });
+
+        test("should return prompts without expressions unchanged", () => {
+            expect(renderStoreTemplate("Summarize the text", new Map(), "input")).toBe("Summarize the text");
+        });
+
+        test("should leave braces that are not store templates unchanged", () => {
+            const store = new Map<string, unknown>([["user", "Ada"]]);
+            const prompt = "Reply to {{store.user}} with JSON like {{\"name\": \"{{name}}\"}}, see {{#each items}}";
+
+            expect(renderStoreTemplate(prompt, store, "input"))
+                .toBe("Reply to Ada with JSON like {{\"name\": \"{{name}}\"}}, see {{#each items}}");
+        });
+
+        test("should render other values as JSON and missing values as empty text", () => {
+            const store = new Map<string, unknown>([["order", { id: 42, items: ["book"] }]]);
+
+            expect(renderStoreTemplate("{{ store.order }} {{store.order.items}} {{store.missing.key}}|{{input}}", store, { id: 1 }))
+                .toBe("{\"id\":42,\"items\":[\"book\"]} [\"book\"] |{\"id\":1}");
+        });
+    });
+
+    describe("prepareAgent", () => {
+        test("should run agents without templates or the store tool as they are", () => {
+            const agent = new AgentForceAgent({ name: "Writer" }).prompt("Write a poem");
+
+            expect(prepareAgent(agent, new Map(), "input")).toBe(agent);
+        });
+
+        test("should run agents with literal braces in their prompts as they are", () => {
+            const agent = new AgentForceAgent({ name: "Writer" })
+                .systemPrompt("Answer with JSON like {\"answer\": \"{{text}}\"}")
+                .prompt("Explain {{#if}} blocks of Handlebars");
+
+            const prepared = prepareAgent(agent, new Map(), "input");
+
+            expect(prepared).toBe(agent);
+            expect(prepared["getUserPrompt"]()).toBe("Explain {{#if}} blocks of Handlebars");
+        });
+
+        test("should render the prompts on a clone and keep the templates of the agent", () => {
+            const agent = new AgentForceAgent({ name: "Writer" })
+                .systemPrompt("You write for {{store.audience}}")
+                .prompt("Reply to: {{input}}");
+            const store = new Map<string, any>([["audience", "children"]]);
+
+            const prepared = prepareAgent(agent, store, "Why is the sky blue?");
+
+            expect(prepared).not.toBe(agent);
+            expect(prepared["getSystemPrompt"]()).toBe("You write for children");
+            expect(prepared["getUserPrompt"]()).toBe("Reply to: Why is the sky blue?");
+            expect(agent["getUserPrompt"]()).toBe("Reply to: {{input}}");
+        });
+
+        test("should bind the store_set tool to the shared store", async () => {
+            const agent = new AgentForceAgent({ name: "Researcher", tools: ["store_set"] });
+            const store = new Map<string, any>();
+
+            const prepared = prepareAgent(agent, store, undefined);
+            const saved = await executeTool("store_set", { key: "customer", value: "{\"name\":\"Ada\"}" }, prepared);
+            await executeTool("store_set", { key: "note", value: "Prefers email" }, prepared);
+
+            expect(saved).toEqual({ success: true, key: "customer" });
+            expect(Object.fromEntries(store)).toEqual({ customer: { name: "Ada" }, note: "Prefers email" });
+        });
+
+        test("should report store_set calls outside of a workflow", async () => {
+            const agent = new AgentForceAgent({ name: "Researcher", tools: ["store_set"] });
+
+            expect(await executeTool("store_set", { key: "customer", value: "Ada" }, agent)).toEqual({
+                success: false,
+                error: "store_set is only available to agents running in a workflow",
+                key: "customer",
+            });
+        });
+    });
+});
@@ -151,9 +151,74 @@ describe("AgentForceWorkflow loop Method Tests", () => {
         expect(setTimeoutCalls[0]?.delay).toBe(0);
     });
 
-    test("should return void (no return value)", () => {
-        const result = loop.call(mockWorkflow as any);
-        expect(result).toBeUndefined();
+    test("should return a handle with the iteration count and last result", async () => {
+        const handle = loop.call(mockWorkflow as any);
+
+        expect(handle.running).toBe(true);
+        expect(handle.iterations).toBe(0);
+
+        await new Promise(resolve => originalSetTimeout(resolve, 0));
+
+        expect(handle.iterations).toBe(1);
+        expect(handle.lastResult).toBe("success");
+        expect(handle.lastError).toBeUndefined();
+    });
+
+    test("should stop scheduling iterations when stopped", async () => {
+        const clearTimeoutSpy = jest.spyOn(global, "clearTimeout").mockImplementation(() => {});
+        const handle = loop.call(mockWorkflow as any, 1000);
+        await new Promise(resolve => originalSetTimeout(resolve, 0));
+
+        handle.stop();
+        await handle.done;
+
+        expect(handle.running).toBe(false);
+        expect(clearTimeoutSpy).toHaveBeenCalledWith(1);
+        expect(mockLogger.info).toHaveBeenCalledWith("Workflow loop finished after 1 iteration(s)");
+        clearTimeoutSpy.mockRestore();
+    });
+
+    test("should finish after the run in progress when stopped during a run", async () => {
+        let finishRun: (value: any) => void = () => {};
+        mockWorkflow.run = jest.fn<() => Promise<any>>().mockImplementation(() => new Promise(resolve => {
+            finishRun = resolve;
+        }));
+        const handle = loop.call(mockWorkflow as any);
+
+        handle.stop();
+        finishRun("late result");
+        await handle.done;
+
+        expect(handle.iterations).toBe(1);
+        expect(handle.lastResult).toBe("late result");
+        expect(setTimeoutCalls).toHaveLength(0);
+    });
+
+    test("should stop after maxIterations", async () => {
+        const handle = loop.call(mockWorkflow as any, 0, { maxIterations: 2 });
+        await new Promise(resolve => originalSetTimeout(resolve, 0));
+        await setTimeoutCalls[0]!.callback();
+        await handle.done;
+
+        expect(mockWorkflow.run).toHaveBeenCalledTimes(2);
+        expect(handle.iterations).toBe(2);
+        expect(handle.running).toBe(false);
+        expect(setTimeoutCalls).toHaveLength(1);
+    });
+
+    test("should keep the last error of a failed iteration", async () => {
+        const error = new Error("Test error");
+        mockWorkflow.run = jest.fn<() => Promise<any>>().mockRejectedValue(error);
+
+        const handle = loop.call(mockWorkflow as any);
+        await new Promise(resolve => originalSetTimeout(resolve, 0));
+
+        expect(handle.lastError).toBe(error);
+        expect(handle.iterations).toBe(1);
+    });
+
+    test("should reject invalid maxIterations", () => {
+        expect(() => loop.call(mockWorkflow as any, 0, { maxIterations: 0 })).toThrow("maxIterations must be a positive integer");
     });
 
     test("should create recursive loop structure", async () => {
@@ -0,0 +1,134 @@
+import { describe, expect, test, beforeEach, jest } from "@jest/globals";
+import { AgentForceWorkflow } from "../../../../lib/workflow";
+import type { AgentForceLogger, CheckpointStore, WorkflowCheckpoint } from "../../../../lib/mod";
+
+describe("AgentForceWorkflow checkpoints and resume", () => {
+    let saved: Map<string, WorkflowCheckpoint>;
+    let store: CheckpointStore;
+    let logger: AgentForceLogger;
+
+    const createAgent = (name: string, execute: (input: any, options?: { signal?: AbortSignal }) => Promise<any>) => ({
+        getName: () => name,
+        execute: jest.fn(execute),
+    });
+
+    // A writer that fails on its first call, like a crash halfway through the run
+    const createFlakyAgent = (name: string) => {
+        let attempts = 0;
+        return createAgent(name, input => {
+            attempts++;
+            return attempts === 1 ? Promise.reject(new Error("Provider went away")) : Promise.resolve(`${input} -> ${name}`);
+        });
+    };
+
+    beforeEach(() => {
+        saved = new Map();
+        store = {
+            save: checkpoint => {
+                saved.set(checkpoint.runId, structuredClone(checkpoint));
+                return Promise.resolve();
+            },
+            load: runId => Promise.resolve(structuredClone(saved.get(runId))),
+        };
+        logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    });
+
+    test("should save a checkpoint after every step and return the run id", async () => {
+        const researcher = createAgent("Researcher", input => Promise.resolve(`${input} -> Researcher`));
+        const workflow = new AgentForceWorkflow({ name: "Report", logger })
+            .checkpoint(store)
+            .prompt("Topic")
+            .sequence([researcher as any]);
+
+        const result = await workflow.run({ runId: "run-1" });
+
+        expect(result).toEqual({ finalOutput: "Topic -> Researcher", sharedStore: {}, runId: "run-1" });
+        expect(saved.get("run-1")).toMatchObject({
+            runId: "run-1",
+            workflowName: "Report",
+            status: "completed",
+            stepCount: 1,
+            completedSteps: 1,
+            stepOutputs: ["Topic -> Researcher"],
+        });
+    });
+
+    test("should generate a run id", async () => {
+        const writer = createAgent("Writer", () => Promise.resolve("Done"));
+        const workflow = new AgentForceWorkflow({ name: "Report", logger }).checkpoint(store).sequence([writer as any]);
+
+        const { runId } = await workflow.run();
+
+        expect(runId).toMatch(/^[0-9a-f-]{36}$/);
+        expect(saved.has(runId!)).toBe(true);
+    });
+
+    test("should resume a failed run after the last completed step", async () => {
+        const researcher = createAgent("Researcher", input => Promise.resolve(`${input} -> Researcher`));
+        const writer = createFlakyAgent("Writer");
+        const workflow = new AgentForceWorkflow({ name: "Report", logger })
+            .checkpoint(store)
+            .prompt("Topic")
+            .sequence([researcher as any])
+            .sequence([writer as any]);
+
+        await expect(workflow.run({ runId: "run-1" })).rejects.toThrow("Provider went away");
+        expect(saved.get("run-1")).toMatchObject({ status: "failed", completedSteps: 1, error: "Provider went away" });
+
+        const result = await workflow.resume("run-1");
+
+        expect(researcher.execute).toHaveBeenCalledTimes(1);
+        expect(writer.execute).toHaveBeenLastCalledWith("Topic -> Researcher", { signal: undefined });
+        expect(result.finalOutput).toBe("Topic -> Researcher -> Writer");
+        expect(saved.get("run-1")).toMatchObject({ status: "completed", completedSteps: 2 });
+        expect(saved.get("run-1")!.error).toBeUndefined();
+    });
+
+    test("should restore the state in a new workflow instance", async () => {
+        const buildWorkflow = (writer: any) => new AgentForceWorkflow({ name: "Report", logger })
+            .checkpoint(store)
+            .prompt("Topic")
+            .sequence([writer]);
+
+        const crashed = buildWorkflow(createAgent("Writer", () => Promise.reject(new Error("Crash"))));
+        crashed["internalSharedStore"].set("sources", ["a", "b"]);
+        await expect(crashed.run({ runId: "run-1" })).rejects.toThrow("Crash");
+
+        const restarted = buildWorkflow(createAgent("Writer", input => Promise.resolve(`${input} -> Writer`)));
+        const result = await restarted.resume("run-1");
+
+        expect(result).toEqual({ finalOutput: "Topic -> Writer", sharedStore: { sources: ["a", "b"] }, runId: "run-1" });
+        expect(restarted["getUserPrompt"]()).toBe("Topic");
+    });
+
+    test("should return the saved result of a completed run", async () => {
+        const writer = createAgent("Writer", () => Promise.resolve("Done"));
+        const workflow = new AgentForceWorkflow({ name: "Report", logger }).checkpoint(store).sequence([writer as any]);
+        await workflow.run({ runId: "run-1" });
+
+        const result = await workflow.resume("run-1");
+
+        expect(result.finalOutput).toBe("Done");
+        expect(writer.execute).toHaveBeenCalledTimes(1);
+    });
+
+    test("should reject unknown runs, changed workflows and missing stores", async () => {
+        const workflow = new AgentForceWorkflow({ name: "Report", logger });
+        await expect(workflow.resume("run-1")).rejects.toThrow("resume() needs a checkpoint store, call checkpoint() first");
+
+        const writer = createAgent("Writer", () => Promise.resolve("Done"));
+        workflow.checkpoint(store).sequence([writer as any]);
+        await expect(workflow.resume("missing")).rejects.toThrow("No checkpoint found for run \"missing\"");
+
+        await workflow.run({ runId: "run-1" });
+        workflow.sequence([writer as any]);
+        await expect(workflow.resume("run-1")).rejects.toThrow("Checkpoint of run \"run-1\" has 1 steps, but the workflow has 2");
+    });
+
+    test("should not return a run id without checkpoints", async () => {
+        const writer = createAgent("Writer", () => Promise.resolve("Done"));
+        const result = await new AgentForceWorkflow({ name: "Report", logger }).sequence([writer as any]).run({ runId: "run-1" });
+
+        expect(result).toEqual({ finalOutput: "Done", sharedStore: {} });
+    });
+});
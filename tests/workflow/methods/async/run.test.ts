@@ -1,5 +1,21 @@
-import { describe, expect, test, beforeEach, jest } from "@jest/globals";
+import { describe, expect, test, beforeEach, afterEach, jest } from "@jest/globals";
 import { run } from "../../../../lib/workflow/methods/async/run";
+import { AgentForceAgent } from "../../../../lib/agent";
+import { AgentForceWorkflow } from "../../../../lib/workflow";
+import { registerProvider, unregisterProvider } from "../../../../lib/provider/registry";
+import { TimeoutError } from "../../../../lib/utils/abort";
+
+// The dispatcher prompt is rendered with the real Handlebars template
+jest.unmock("handlebars");
+jest.unmock("../../../../lib/utils/truncate");
+
+// Provider failures are tested with the real Ollama provider against a mocked client
+const { OllamaProvider } = jest.requireActual("../../../../lib/provider/ollama") as typeof import("../../../../lib/provider/ollama");
+jest.mock("ollama", () => ({
+    __esModule: true,
+    default: { chat: jest.fn(), generate: jest.fn() },
+}));
+jest.unmock("../../../../lib/provider/ollama-tooluse");
 import type { AgentForceLogger } from "../../../../lib/types";
 
 describe("AgentForceWorkflow run Method Tests", () => {
@@ -17,10 +33,19 @@ describe("AgentForceWorkflow run Method Tests", () => {
     // ✅ executeStep - onSuccess handler execution
     // ✅ executeStep - multiple steps workflow
     // ✅ Edge cases (unknown step types, empty shared store)
+    // ✅ executeStep - branch, route and repeatUntil types
+    // ✅ Dispatcher planning, task routing and invalid plans
+    // ✅ Resuming a dispatched run from its checkpoint
+    // ✅ Step and agent retry policies
+    // ✅ Retries of provider failures returned as error answers
+    // ✅ Step timeouts and run cancellation
+    // ✅ Concurrency limits and settle mode of parallel and iterate steps
+    // ✅ Agent isolation of parallel and iterate steps
+    // ✅ Shared store templates and step output keys
 
     interface MockAgent {
         getName(): string;
-        execute: jest.MockedFunction<(input: any) => Promise<any>>;
+        execute: jest.MockedFunction<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>;
     }
 
     interface MockWorkflow {
@@ -49,7 +74,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
 
         mockAgent = {
             getName: () => "TestAgent",
-            execute: jest.fn<(input: any) => Promise<any>>().mockResolvedValue("Agent execution result")
+            execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Agent execution result")
         };
 
         mockWorkflow = {
@@ -151,7 +176,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
         test("should execute sequence of agents", async () => {
             const mockAgent2 = {
                 getName: () => "TestAgent2",
-                execute: jest.fn<(input: any) => Promise<any>>().mockResolvedValue("Agent 2 result")
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Agent 2 result")
             };
 
             mockWorkflow.executionPlan = [{
@@ -168,8 +193,8 @@ describe("AgentForceWorkflow run Method Tests", () => {
             expect(mockLogger.info).toHaveBeenCalledWith({
                 message: "Executing agent 'TestAgent2' in sequence."
             });
-            expect(mockAgent.execute).toHaveBeenCalledWith("Initial user prompt");
-            expect(mockAgent2.execute).toHaveBeenCalledWith("Agent execution result");
+            expect(mockAgent.execute).toHaveBeenCalledWith("Initial user prompt", { signal: undefined });
+            expect(mockAgent2.execute).toHaveBeenCalledWith("Agent execution result", { signal: undefined });
             expect(result.finalOutput).toBe("Agent 2 result");
         });
 
@@ -182,7 +207,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
 
             const result = await run.call(mockWorkflow as any);
 
-            expect(mockAgent.execute).toHaveBeenCalledWith("Initial user prompt");
+            expect(mockAgent.execute).toHaveBeenCalledWith("Initial user prompt", { signal: undefined });
             expect(result.finalOutput).toBe("Agent execution result");
         });
     });
@@ -191,7 +216,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
         test("should execute agents in parallel", async () => {
             const mockAgent2 = {
                 getName: () => "TestAgent2", 
-                execute: jest.fn<(input: any) => Promise<any>>().mockResolvedValue("Agent 2 result")
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Agent 2 result")
             };
 
             mockWorkflow.executionPlan = [{
@@ -205,15 +230,15 @@ describe("AgentForceWorkflow run Method Tests", () => {
             expect(mockLogger.info).toHaveBeenCalledWith({
                 message: "Executing 2 agents in parallel."
             });
-            expect(mockAgent.execute).toHaveBeenCalledWith("Initial user prompt");
-            expect(mockAgent2.execute).toHaveBeenCalledWith("Initial user prompt");
+            expect(mockAgent.execute).toHaveBeenCalledWith("Initial user prompt", { signal: undefined });
+            expect(mockAgent2.execute).toHaveBeenCalledWith("Initial user prompt", { signal: undefined });
             expect(result.finalOutput).toEqual(["Agent execution result", "Agent 2 result"]);
         });
     });
 
     describe("executeStep - iterate type", () => {
         test("should iterate over array of items", async () => {
-            mockAgent.execute = jest.fn<(input: any) => Promise<any>>()
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>()
                 .mockResolvedValueOnce("Result for item1")
                 .mockResolvedValueOnce("Result for item2")
                 .mockResolvedValueOnce("Result for item3");
@@ -233,9 +258,9 @@ describe("AgentForceWorkflow run Method Tests", () => {
                 message: "Iterating over 3 items with agent 'TestAgent'."
             });
             expect(mockAgent.execute).toHaveBeenCalledTimes(3);
-            expect(mockAgent.execute).toHaveBeenNthCalledWith(1, "item1");
-            expect(mockAgent.execute).toHaveBeenNthCalledWith(2, "item2");
-            expect(mockAgent.execute).toHaveBeenNthCalledWith(3, "item3");
+            expect(mockAgent.execute).toHaveBeenNthCalledWith(1, "item1", { signal: undefined });
+            expect(mockAgent.execute).toHaveBeenNthCalledWith(2, "item2", { signal: undefined });
+            expect(mockAgent.execute).toHaveBeenNthCalledWith(3, "item3", { signal: undefined });
             expect(result.finalOutput).toEqual([
                 "Result for item1",
                 "Result for item2", 
@@ -245,7 +270,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
 
         test("should iterate over items from shared store", async () => {
             mockWorkflow.getSharedStoreItem = jest.fn<(key: string) => any>().mockReturnValue(["shared1", "shared2"]);
-            mockAgent.execute = jest.fn<(input: any) => Promise<any>>()
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>()
                 .mockResolvedValueOnce("Result for shared1") 
                 .mockResolvedValueOnce("Result for shared2");
 
@@ -314,7 +339,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
 
     describe("executeStep - error handling", () => {
         test("should handle step execution error without onFail handler", async () => {
-            mockAgent.execute = jest.fn<(input: any) => Promise<any>>().mockRejectedValue(new Error("Agent execution failed"));
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockRejectedValue(new Error("Agent execution failed"));
 
             mockWorkflow.executionPlan = [{
                 type: "sequence",
@@ -334,10 +359,10 @@ describe("AgentForceWorkflow run Method Tests", () => {
         test("should execute onFail handler when step fails", async () => {
             const onFailAgent = {
                 getName: () => "OnFailAgent",
-                execute: jest.fn<(input: any) => Promise<any>>().mockResolvedValue("Failure handled")
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Failure handled")
             };
 
-            mockAgent.execute = jest.fn<(input: any) => Promise<any>>().mockRejectedValue(new Error("Agent execution failed"));
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockRejectedValue(new Error("Agent execution failed"));
 
             mockWorkflow.executionPlan = [{
                 type: "sequence",
@@ -356,17 +381,17 @@ describe("AgentForceWorkflow run Method Tests", () => {
             expect(mockLogger.warn).toHaveBeenCalledWith({
                 message: "Executing onFail handler for step: sequence"
             });
-            expect(onFailAgent.execute).toHaveBeenCalledWith("Agent execution failed");
+            expect(onFailAgent.execute).toHaveBeenCalledWith("Agent execution failed", { signal: undefined });
             expect(result.finalOutput).toBe("Failure handled");
         });
 
         test("should handle onFail handler execution error", async () => {
             const onFailAgent = {
                 getName: () => "OnFailAgent",
-                execute: jest.fn<(input: any) => Promise<any>>().mockRejectedValue(new Error("OnFail handler failed"))
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockRejectedValue(new Error("OnFail handler failed"))
             };
 
-            mockAgent.execute = jest.fn<(input: any) => Promise<any>>().mockRejectedValue(new Error("Agent execution failed"));
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockRejectedValue(new Error("Agent execution failed"));
 
             mockWorkflow.executionPlan = [{
                 type: "sequence", 
@@ -379,11 +404,145 @@ describe("AgentForceWorkflow run Method Tests", () => {
         });
     });
 
+    describe("executeStep - branch type", () => {
+        test("should run the then agents when the predicate is true", async () => {
+            const escalation = { getName: () => "Escalation", execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("escalated") };
+            const predicate = jest.fn((output: any, store: Record<string, any>) => output.includes(store.keyword));
+            mockWorkflow.internalSharedStore.set("keyword", "urgent");
+            mockWorkflow.getUserPrompt = () => "urgent: server down";
+            mockWorkflow.executionPlan = [{
+                type: "branch",
+                description: "Branch",
+                payload: { predicate, thenAgents: [escalation], elseAgents: [mockAgent] },
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(predicate).toHaveBeenCalledWith("urgent: server down", { keyword: "urgent" });
+            expect(escalation.execute).toHaveBeenCalledWith("urgent: server down", { signal: undefined });
+            expect(mockAgent.execute).not.toHaveBeenCalled();
+            expect(result.finalOutput).toBe("escalated");
+        });
+
+        test("should pass the input through when the predicate is false without else agents", async () => {
+            mockWorkflow.executionPlan = [{
+                type: "branch",
+                description: "Branch",
+                payload: { predicate: () => Promise.resolve(false), thenAgents: [mockAgent], elseAgents: [] },
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(mockAgent.execute).not.toHaveBeenCalled();
+            expect(result.finalOutput).toBe("Initial user prompt");
+        });
+    });
+
+    describe("executeStep - repeatUntil type", () => {
+        test("should repeat the agents with the previous iteration output until the condition is met", async () => {
+            const writer = { getName: () => "Writer", execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>() };
+            writer.execute.mockResolvedValueOnce("draft 1").mockResolvedValueOnce("draft 2 APPROVED");
+            const condition = jest.fn((output: any, _store?: Record<string, unknown>, _iteration?: number) => String(output).includes("APPROVED"));
+            mockWorkflow.executionPlan = [{
+                type: "repeatUntil",
+                description: "Repeat",
+                payload: { agents: [writer], condition, maxIterations: 5 },
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(writer.execute.mock.calls.map(call => call[0])).toEqual(["Initial user prompt", "draft 1"]);
+            expect(condition).toHaveBeenNthCalledWith(2, "draft 2 APPROVED", {}, 2);
+            expect(result.finalOutput).toBe("draft 2 APPROVED");
+        });
+
+        test("should stop at maxIterations and continue with the last output", async () => {
+            mockWorkflow.executionPlan = [{
+                type: "repeatUntil",
+                description: "Repeat",
+                payload: { agents: [mockAgent], condition: () => false, maxIterations: 3 },
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(mockAgent.execute).toHaveBeenCalledTimes(3);
+            expect(result.finalOutput).toBe("Agent execution result");
+            expect(mockLogger.warn).toHaveBeenCalledWith({ message: "Repeat condition not met after 3 iterations, continuing with the last output." });
+        });
+    });
+
+    describe("executeStep - route type", () => {
+        const createRouteAgent = (name: string, result: string) => ({
+            getName: () => name,
+            prompt: jest.fn(),
+            execute: jest.fn<(input?: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue(result),
+        });
+
+        test("should classify the input with a router agent and run the agents of its label", async () => {
+            const router = createRouteAgent("Triage", "  Billing. ");
+            const billing = createRouteAgent("Billing", "refund issued");
+            const technical = createRouteAgent("Technical", "fixed");
+            mockWorkflow.executionPlan = [{
+                type: "route",
+                description: "Route",
+                payload: { router, routes: { billing: [billing], technical: [technical] } },
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(router.prompt).toHaveBeenCalledWith(
+                "Initial user prompt\n\nClassify the input above. Respond with exactly one of these labels and nothing else: billing, technical",
+            );
+            expect(billing.execute).toHaveBeenCalledWith("Initial user prompt", { signal: undefined });
+            expect(technical.execute).not.toHaveBeenCalled();
+            expect(result.finalOutput).toBe("refund issued");
+        });
+
+        test("should route with a function of the output and the shared store", async () => {
+            const technical = createRouteAgent("Technical", "fixed");
+            mockWorkflow.internalSharedStore.set("team", "technical");
+            mockWorkflow.executionPlan = [{
+                type: "route",
+                description: "Route",
+                payload: { router: (_output: any, store: Record<string, any>) => store.team, routes: { billing: [mockAgent], technical: [technical] } },
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result.finalOutput).toBe("fixed");
+            expect(mockAgent.execute).not.toHaveBeenCalled();
+        });
+
+        test("should use the fallback label for unknown answers", async () => {
+            mockWorkflow.executionPlan = [{
+                type: "route",
+                description: "Route",
+                payload: { router: createRouteAgent("Triage", "no idea"), routes: { billing: [], other: [mockAgent] }, fallback: "other" },
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result.finalOutput).toBe("Agent execution result");
+        });
+
+        test("should fail on unknown labels without a fallback", async () => {
+            mockWorkflow.executionPlan = [{
+                type: "route",
+                description: "Route",
+                payload: { router: createRouteAgent("Triage", "billing or technical"), routes: { billing: [], technical: [] } },
+            }];
+
+            await expect(run.call(mockWorkflow as any)).rejects.toThrow(
+                "Router returned unknown label \"billing or technical\". Expected one of: billing, technical",
+            );
+        });
+    });
+
     describe("executeStep - onSuccess handlers", () => {
         test("should execute onSuccess handler when step succeeds", async () => {
             const onSuccessAgent = {
                 getName: () => "OnSuccessAgent",
-                execute: jest.fn<(input: any) => Promise<any>>().mockResolvedValue("Success processed")
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Success processed")
             };
 
             mockWorkflow.executionPlan = [{
@@ -398,17 +557,17 @@ describe("AgentForceWorkflow run Method Tests", () => {
             expect(mockLogger.info).toHaveBeenCalledWith({
                 message: "Executing onSuccess handler for step: prompt"
             });
-            expect(onSuccessAgent.execute).toHaveBeenCalledWith("Test prompt");
+            expect(onSuccessAgent.execute).toHaveBeenCalledWith("Test prompt", { signal: undefined });
             expect(result.finalOutput).toBe("Success processed");
         });
 
         test("should not execute onSuccess handler when step fails", async () => {
             const onSuccessAgent = {
                 getName: () => "OnSuccessAgent", 
-                execute: jest.fn<(input: any) => Promise<any>>().mockResolvedValue("Success processed")
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Success processed")
             };
 
-            mockAgent.execute = jest.fn<(input: any) => Promise<any>>().mockRejectedValue(new Error("Agent execution failed"));
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockRejectedValue(new Error("Agent execution failed"));
 
             mockWorkflow.executionPlan = [{
                 type: "sequence",
@@ -424,7 +583,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
         test("should handle onSuccess handler execution error", async () => {
             const onSuccessAgent = {
                 getName: () => "OnSuccessAgent",
-                execute: jest.fn<(input: any) => Promise<any>>().mockRejectedValue(new Error("OnSuccess handler failed"))
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockRejectedValue(new Error("OnSuccess handler failed"))
             };
 
             mockWorkflow.executionPlan = [{
@@ -438,11 +597,387 @@ describe("AgentForceWorkflow run Method Tests", () => {
         });
     });
 
+    describe("executeStep - retries", () => {
+        const timestamp = expect.any(String);
+
+        test("should retry a failed step and record the attempts", async () => {
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>()
+                .mockRejectedValueOnce(new Error("model is loading"))
+                .mockResolvedValueOnce("Recovered");
+            mockWorkflow.executionPlan = [{
+                type: "sequence",
+                description: "Flaky sequence",
+                payload: [mockAgent],
+                retry: { maxAttempts: 2, initialDelayMs: 0 },
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(mockAgent.execute).toHaveBeenCalledTimes(2);
+            expect(result.finalOutput).toBe("Recovered");
+            expect(result.retries).toEqual([{ step: 1, attempt: 1, error: "model is loading", delayMs: 0, timestamp }]);
+            expect(mockLogger.warn).toHaveBeenCalledWith(expect.objectContaining({ message: "Step 1 failed on attempt 1 of 2, retrying in 0 ms." }));
+        });
+
+        test("should run onFail after the last attempt", async () => {
+            const onFailAgent = { getName: () => "OnFailAgent", execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Handled") };
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockRejectedValue(new Error("429 Too Many Requests"));
+            mockWorkflow.executionPlan = [{
+                type: "sequence",
+                description: "Rate limited sequence",
+                payload: [mockAgent],
+                retry: { maxAttempts: 3, initialDelayMs: 0 },
+                onFail: onFailAgent,
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(mockAgent.execute).toHaveBeenCalledTimes(3);
+            expect(onFailAgent.execute).toHaveBeenCalledWith("429 Too Many Requests", { signal: undefined });
+            expect(result.retries?.map(retry => retry.attempt)).toEqual([1, 2]);
+        });
+
+        test("should retry only the failing agent with its own policy", async () => {
+            const flakyAgent = {
+                getName: () => "FlakyAgent",
+                getRetryPolicy: () => ({ maxAttempts: 3, initialDelayMs: 0 }),
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>()
+                    .mockRejectedValueOnce(new Error("Service unavailable"))
+                    .mockResolvedValueOnce("Flaky result"),
+            };
+            mockWorkflow.executionPlan = [{ type: "parallel", description: "Parallel", payload: [mockAgent, flakyAgent] }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(mockAgent.execute).toHaveBeenCalledTimes(1);
+            expect(result.finalOutput).toEqual(["Agent execution result", "Flaky result"]);
+            expect(result.retries).toEqual([{ step: 1, agent: "FlakyAgent", attempt: 1, error: "Service unavailable", delayMs: 0, timestamp }]);
+        });
+
+        test("should not retry errors declined by retryOn", async () => {
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockRejectedValue(new Error("Invalid API key"));
+            mockWorkflow.executionPlan = [{
+                type: "sequence",
+                description: "Sequence",
+                payload: [mockAgent],
+                retry: { maxAttempts: 3, initialDelayMs: 0, retryOn: (error: unknown) => !String(error).includes("API key") },
+            }];
+
+            await expect(run.call(mockWorkflow as any)).rejects.toThrow("Invalid API key");
+            expect(mockAgent.execute).toHaveBeenCalledTimes(1);
+        });
+
+        test("should not include retries in the result when nothing was retried", async () => {
+            mockWorkflow.executionPlan = [{ type: "sequence", description: "Sequence", payload: [mockAgent], retry: { initialDelayMs: 0 } }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result).toEqual({ finalOutput: "Agent execution result", sharedStore: {} });
+        });
+    });
+
+    describe("executeStep - provider failures", () => {
+        const ollama = (jest.requireMock("ollama") as { default: { chat: jest.Mock<any> } }).default;
+
+        // Agents with earlier turns send the conversation through the chat method of the provider
+        const createWriter = (): AgentForceAgent => new AgentForceAgent({ name: "Writer", logger: mockLogger })
+            .useLLM("ollama-test", "gemma3:4b")
+            .withHistory([{ role: "user", content: "Keep it short" }]);
+
+        beforeEach(() => {
+            registerProvider("ollama-test", (model, modelConfig) => new OllamaProvider(model, modelConfig));
+        });
+
+        afterEach(() => {
+            unregisterProvider("ollama-test");
+        });
+
+        test("should retry provider failures that the agent returns as error answers", async () => {
+            ollama.chat
+                .mockImplementationOnce(() => Promise.reject(new Error("429 Too Many Requests")))
+                .mockImplementationOnce(() => Promise.resolve({ message: { role: "assistant", content: "Draft" } }));
+            const writer = createWriter().retry({ maxAttempts: 2, initialDelayMs: 0, retryOn: error => String(error).includes("429") });
+            mockWorkflow.executionPlan = [{ type: "sequence", description: "Sequence", payload: [writer] }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(ollama.chat).toHaveBeenCalledTimes(2);
+            expect(result.finalOutput).toBe("Draft");
+            expect(result.retries).toEqual([{
+                step: 1,
+                agent: "Writer",
+                attempt: 1,
+                error: "Ollama provider error - 429 Too Many Requests",
+                delayMs: 0,
+                timestamp: expect.any(String),
+            }]);
+        });
+
+        test("should run onFail instead of passing the error answer on when the step has a retry policy", async () => {
+            ollama.chat.mockImplementation(() => Promise.reject(new Error("model failed to load")));
+            const onFailAgent = { getName: () => "OnFailAgent", execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Fallback") };
+            mockWorkflow.executionPlan = [{
+                type: "sequence",
+                description: "Sequence",
+                payload: [createWriter(), mockAgent],
+                retry: { maxAttempts: 2, initialDelayMs: 0 },
+                onFail: onFailAgent,
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(ollama.chat).toHaveBeenCalledTimes(2);
+            expect(mockAgent.execute).not.toHaveBeenCalled();
+            expect(onFailAgent.execute).toHaveBeenCalledWith("Ollama provider error - model failed to load", { signal: undefined });
+            expect(result.finalOutput).toBe("Fallback");
+        });
+
+        test("should pass the error answer on without a retry policy", async () => {
+            ollama.chat.mockImplementation(() => Promise.reject(new Error("model failed to load")));
+            mockWorkflow.executionPlan = [{ type: "sequence", description: "Sequence", payload: [createWriter()] }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(ollama.chat).toHaveBeenCalledTimes(1);
+            expect(result.finalOutput).toBe("Error: Ollama provider error - model failed to load");
+        });
+
+        test("should pass answers of the model that start with Error on", async () => {
+            ollama.chat.mockImplementation(() => Promise.resolve({ message: { role: "assistant", content: "Error: the input is empty" } }));
+            mockWorkflow.executionPlan = [{ type: "sequence", description: "Sequence", payload: [createWriter()], retry: { maxAttempts: 2, initialDelayMs: 0 } }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(ollama.chat).toHaveBeenCalledTimes(1);
+            expect(result.finalOutput).toBe("Error: the input is empty");
+        });
+    });
+
+    describe("executeStep - timeouts and cancellation", () => {
+        // Never settles on its own, like a model that stopped answering
+        const hangingExecute = () => jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>(() => new Promise(() => {}));
+
+        test("should fail a step that takes longer than its timeout and abort its agents", async () => {
+            const execute = hangingExecute();
+            mockWorkflow.executionPlan = [{ type: "sequence", description: "Slow sequence", payload: [{ getName: () => "SlowAgent", execute }], timeoutMs: 20 }];
+
+            const error = await run.call(mockWorkflow as any).catch((error: unknown) => error);
+
+            expect(error).toBeInstanceOf(TimeoutError);
+            expect(error).toMatchObject({ message: "Step 1 timed out after 20 ms", timeoutMs: 20 });
+            expect(execute.mock.calls[0]![1]!.signal!.reason).toBe(error);
+        });
+
+        test("should run onFail with the timeout message", async () => {
+            const onFailAgent = { getName: () => "OnFailAgent", execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Fallback") };
+            mockWorkflow.executionPlan = [{
+                type: "sequence",
+                description: "Slow sequence",
+                payload: [{ getName: () => "SlowAgent", execute: hangingExecute() }],
+                timeoutMs: 20,
+                onFail: onFailAgent,
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result.finalOutput).toBe("Fallback");
+            expect(onFailAgent.execute).toHaveBeenCalledWith("Step 1 timed out after 20 ms", { signal: undefined });
+        });
+
+        test("should apply the timeout to every attempt", async () => {
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>()
+                .mockImplementationOnce(() => new Promise(() => {}))
+                .mockResolvedValueOnce("Second attempt");
+            mockWorkflow.executionPlan = [{
+                type: "sequence",
+                description: "Sequence",
+                payload: [mockAgent],
+                timeoutMs: 20,
+                retry: { maxAttempts: 2, initialDelayMs: 0 },
+            }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result.finalOutput).toBe("Second attempt");
+            expect(result.retries).toEqual([expect.objectContaining({ step: 1, attempt: 1, error: "Step 1 timed out after 20 ms" })]);
+        });
+
+        test("should stop the run when the signal aborts", async () => {
+            const controller = new AbortController();
+            const onFailAgent = { getName: () => "OnFailAgent", execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>() };
+            const execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>(() => {
+                controller.abort(new Error("Run cancelled"));
+                return new Promise(() => {});
+            });
+            mockWorkflow.executionPlan = [
+                { type: "sequence", description: "Step 1", payload: [{ getName: () => "SlowAgent", execute }], onFail: onFailAgent, retry: { initialDelayMs: 0 } },
+                { type: "sequence", description: "Step 2", payload: [mockAgent] },
+            ];
+
+            await expect(run.call(mockWorkflow as any, { signal: controller.signal })).rejects.toThrow("Run cancelled");
+
+            expect(execute).toHaveBeenCalledTimes(1);
+            expect(execute.mock.calls[0]![1]!.signal!.aborted).toBe(true);
+            expect(onFailAgent.execute).not.toHaveBeenCalled();
+            expect(mockAgent.execute).not.toHaveBeenCalled();
+        });
+
+        test("should not start a run whose signal is already aborted", async () => {
+            mockWorkflow.executionPlan = [{ type: "sequence", description: "Sequence", payload: [mockAgent] }];
+
+            await expect(run.call(mockWorkflow as any, { signal: AbortSignal.abort(new Error("Cancelled")) })).rejects.toThrow("Cancelled");
+            expect(mockAgent.execute).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("executeStep - concurrency and settle mode", () => {
+        test("should run at most concurrency items at the same time and keep their order", async () => {
+            let running = 0;
+            let maxRunning = 0;
+            mockAgent.execute = jest.fn(async (input: any) => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await new Promise(resolve => setTimeout(resolve, input));
+                running--;
+                return `Done ${input}`;
+            });
+            mockWorkflow.executionPlan = [{ type: "iterate", description: "Iterate", payload: { items: [15, 5, 10, 1, 8], agent: mockAgent }, concurrency: 2 }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(maxRunning).toBe(2);
+            expect(result.finalOutput).toEqual(["Done 15", "Done 5", "Done 10", "Done 1", "Done 8"]);
+            expect(mockLogger.info).toHaveBeenCalledWith({ message: "Iterating over 5 items with agent 'TestAgent'.", concurrency: 2 });
+        });
+
+        test("should stop starting items after the first failure", async () => {
+            mockAgent.execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>()
+                .mockResolvedValueOnce("First")
+                .mockRejectedValueOnce(new Error("Second failed"));
+            mockWorkflow.executionPlan = [{ type: "iterate", description: "Iterate", payload: { items: ["a", "b", "c"], agent: mockAgent }, concurrency: 1 }];
+
+            await expect(run.call(mockWorkflow as any)).rejects.toThrow("Second failed");
+            expect(mockAgent.execute).toHaveBeenCalledTimes(2);
+        });
+
+        test("should collect per-agent errors in settle mode", async () => {
+            const failingAgent = { getName: () => "FailingAgent", execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockRejectedValue(new Error("Rate limited")) };
+            mockWorkflow.executionPlan = [{ type: "parallel", description: "Parallel", payload: [mockAgent, failingAgent], settle: true }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result.finalOutput).toEqual([
+                { status: "fulfilled", output: "Agent execution result" },
+                { status: "rejected", error: "Rate limited" },
+            ]);
+            expect(mockLogger.warn).toHaveBeenCalledWith(expect.objectContaining({ message: "Agent 'FailingAgent' failed, continuing with the other agents of the step." }));
+        });
+
+        test("should not settle errors of a cancelled run", async () => {
+            const controller = new AbortController();
+            mockAgent.execute = jest.fn(() => {
+                controller.abort(new Error("Run cancelled"));
+                return Promise.reject(new Error("Aborted"));
+            });
+            mockWorkflow.executionPlan = [{ type: "iterate", description: "Iterate", payload: { items: ["a"], agent: mockAgent }, settle: true }];
+
+            await expect(run.call(mockWorkflow as any, { signal: controller.signal })).rejects.toThrow("Run cancelled");
+        });
+    });
+
+    describe("executeStep - agent isolation", () => {
+        test("should run every item on a fresh clone of the agent", async () => {
+            const clones: MockAgent[] = [];
+            const clonedAgent = {
+                ...mockAgent,
+                clone: jest.fn(() => {
+                    const copy = { getName: () => "TestAgent", execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue(`Clone ${clones.length}`) };
+                    clones.push(copy);
+                    return copy;
+                }),
+            };
+            mockWorkflow.executionPlan = [{ type: "iterate", description: "Iterate", payload: { items: ["a", "b"], agent: clonedAgent } }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result.finalOutput).toEqual(["Clone 0", "Clone 1"]);
+            expect(clones[0]!.execute).toHaveBeenCalledWith("a", { signal: undefined });
+            expect(clones[1]!.execute).toHaveBeenCalledWith("b", { signal: undefined });
+            expect(mockAgent.execute).not.toHaveBeenCalled();
+        });
+
+        test("should use a new clone for every retry attempt", async () => {
+            const execute = jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>()
+                .mockRejectedValueOnce(new Error("Busy"))
+                .mockResolvedValueOnce("Second attempt");
+            const clone = jest.fn(() => ({ getName: () => "TestAgent", execute }));
+            const clonedAgent = { ...mockAgent, clone, getRetryPolicy: () => ({ maxAttempts: 2, initialDelayMs: 0 }) };
+            mockWorkflow.executionPlan = [{ type: "parallel", description: "Parallel", payload: [clonedAgent] }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result.finalOutput).toEqual(["Second attempt"]);
+            expect(clone).toHaveBeenCalledTimes(2);
+        });
+
+        test("should share the agent instance when isolation is disabled", async () => {
+            const clone = jest.fn();
+            mockWorkflow.executionPlan = [{ type: "parallel", description: "Parallel", payload: [{ ...mockAgent, clone }], isolate: false }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result.finalOutput).toEqual(["Agent execution result"]);
+            expect(clone).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("executeStep - shared store", () => {
+        afterEach(() => {
+            unregisterProvider("store-test");
+        });
+
+        test("should save the output of a step under its output key", async () => {
+            mockWorkflow.executionPlan = [
+                { type: "sequence", description: "Sequence", payload: [mockAgent], outputKey: "draft" },
+                { type: "prompt", description: "Prompt", payload: "Review this draft: {{store.draft}}" },
+            ];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result.sharedStore).toEqual({ draft: "Agent execution result" });
+            expect(result.finalOutput).toBe("Review this draft: Agent execution result");
+            expect(mockWorkflow.setUserPrompt).toHaveBeenCalledWith("Review this draft: Agent execution result");
+        });
+
+        test("should render the store and the step input into the prompts of agents", async () => {
+            const prompts: Array<{ prompt: string; system?: string }> = [];
+            registerProvider("store-test", () => ({
+                generate: (prompt: string, system?: string) => {
+                    prompts.push({ prompt, system });
+                    return Promise.resolve("Dear Ada");
+                },
+                chat: () => Promise.resolve("unused"),
+            }));
+            const writer = new AgentForceAgent({ name: "Writer", logger: mockLogger })
+                .useLLM("store-test" as any, "model")
+                .systemPrompt("Write in {{store.language}}")
+                .prompt("Answer {{store.customer.name}}: {{input}}");
+            mockWorkflow.internalSharedStore.set("language", "English").set("customer", { name: "Ada" });
+            mockWorkflow.executionPlan = [{ type: "sequence", description: "Sequence", payload: [writer] }];
+
+            const result = await run.call(mockWorkflow as any);
+
+            expect(result.finalOutput).toBe("Dear Ada");
+            expect(prompts).toEqual([{ prompt: "Answer Ada: Initial user prompt", system: expect.stringContaining("Write in English") }]);
+            expect(writer["getUserPrompt"]()).toBe("Answer {{store.customer.name}}: {{input}}");
+        });
+    });
+
     describe("executeStep - multiple steps workflow", () => {
         test("should execute multiple steps in sequence", async () => {
             const mockAgent2 = {
                 getName: () => "TestAgent2",
-                execute: jest.fn<(input: any) => Promise<any>>().mockResolvedValue("Step 2 result")
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Step 2 result")
             };
 
             mockWorkflow.executionPlan = [
@@ -461,7 +996,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
             const result = await run.call(mockWorkflow as any);
 
             expect(mockWorkflow.setUserPrompt).toHaveBeenCalledWith("Step 1 output");
-            expect(mockAgent2.execute).toHaveBeenCalledWith("Step 1 output");
+            expect(mockAgent2.execute).toHaveBeenCalledWith("Step 1 output", { signal: undefined });
             expect(result.finalOutput).toBe("Step 2 result");
         });
 
@@ -481,7 +1016,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
 
             await run.call(mockWorkflow as any);
 
-            expect(mockAgent.execute).toHaveBeenCalledWith("Modified prompt");
+            expect(mockAgent.execute).toHaveBeenCalledWith("Modified prompt", { signal: undefined });
         });
     });
 
@@ -489,7 +1024,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
         test("should handle mixed step types with success and failure handlers", async () => {
             const successAgent = {
                 getName: () => "SuccessAgent",
-                execute: jest.fn<(input: any) => Promise<any>>().mockResolvedValue("Success handled")
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Success handled")
             };
 
             mockWorkflow.executionPlan = [
@@ -509,7 +1044,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
             const result = await run.call(mockWorkflow as any);
 
             expect(result.finalOutput).toBe("Success handled");
-            expect(successAgent.execute).toHaveBeenCalledWith(["Agent execution result"]);
+            expect(successAgent.execute).toHaveBeenCalledWith(["Agent execution result"], { signal: undefined });
         });
 
         test("should handle all step types in single workflow", async () => {
@@ -517,7 +1052,7 @@ describe("AgentForceWorkflow run Method Tests", () => {
             
             const iterateAgent = {
                 getName: () => "IterateAgent",
-                execute: jest.fn<(input: any) => Promise<any>>().mockResolvedValue("Iterate result")
+                execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("Iterate result")
             };
 
             mockWorkflow.executionPlan = [
@@ -597,4 +1132,207 @@ describe("AgentForceWorkflow run Method Tests", () => {
         });
     });
 
+    describe("Dispatcher", () => {
+        const plan = [
+            "```yaml",
+            "execution_list:",
+            "  - task_id: \"task-001\"",
+            "    initial_user_prompt: \"Build a blog\"",
+            "    description: \"Write the requirements\"",
+            "    assigned_agent: \"analyst\"",
+            "    difficulty: \"Easy\"",
+            "  - task_id: \"task-002\"",
+            "    initial_user_prompt: \"Build a blog\"",
+            "    description: \"Implement the blog\"",
+            "    assigned_agent: \"Developer\"",
+            "    predicted_tool_group:",
+            "      - \"fs_write_file\"",
+            "```",
+        ].join("\n");
+
+        let calls: Array<{ model: string; system?: string; prompt: string }>;
+        let dispatcherResponse: string;
+
+        const createAgent = (name: string, model: string, tools: string[] = []): AgentForceAgent =>
+            new AgentForceAgent({ name, tools: tools as any }).useLLM("dispatch-test", model).systemPrompt(`${name} system prompt`);
+
+        beforeEach(() => {
+            calls = [];
+            dispatcherResponse = plan;
+            registerProvider("dispatch-test", model => ({
+                generate: (prompt: string, system?: string) => {
+                    calls.push({ model, system, prompt });
+                    return Promise.resolve(model === "planner" ? dispatcherResponse : `${model} result`);
+                },
+                chat: () => Promise.resolve("unused"),
+                generateWithTools: (prompt: string, _tools: any, system?: string) => {
+                    calls.push({ model, system, prompt });
+                    return Promise.resolve(`${model} result`);
+                },
+            }));
+        });
+
+        afterEach(() => {
+            unregisterProvider("dispatch-test");
+        });
+
+        test("should plan with the registered agents and run each task with results fed forward", async () => {
+            const developer = createAgent("Developer", "developer", ["fs_write_file"]);
+            const workflow = new AgentForceWorkflow({ name: "DispatchWorkflow", logger: mockLogger })
+                .prompt("Build a blog")
+                .dispatcher(createAgent("Dispatcher", "planner"))
+                .registerAgent(createAgent("Analyst", "analyst"))
+                .registerAgent(developer);
+
+            const result = await workflow.run();
+
+            const dispatcherSystemPrompt = calls[0]!.system!;
+            expect(dispatcherSystemPrompt).toContain("*   **Analyst:** Analyst system prompt");
+            expect(dispatcherSystemPrompt).toContain("*   **Developer:** Developer system prompt Tools: `fs_write_file`");
+            expect(dispatcherSystemPrompt).not.toContain("Business Analyst:");
+            expect(calls[0]!.prompt).toBe("Build a blog");
+
+            expect(calls.map(call => call.model)).toEqual(["planner", "analyst", "developer"]);
+            expect(calls[1]!.prompt).toContain("## Your task (task-001)\nWrite the requirements");
+            expect(calls[2]!.prompt).toContain("## Original request\nBuild a blog");
+            expect(calls[2]!.prompt).toContain("### task-001 - Analyst: Write the requirements\nanalyst result");
+
+            expect(result.finalOutput).toBe("developer result");
+            expect(result.dispatchedTasks).toEqual([
+                { taskId: "task-001", description: "Write the requirements", assignedAgent: "Analyst", difficulty: "Easy", predictedTools: [], output: "analyst result" },
+                { taskId: "task-002", description: "Implement the blog", assignedAgent: "Developer", predictedTools: ["fs_write_file"], output: "developer result" },
+            ]);
+        });
+
+        test("should plan on a clone and leave the prompts of the dispatcher unchanged", async () => {
+            const dispatcher = createAgent("Dispatcher", "planner").prompt("Dispatcher user prompt");
+            const workflow = new AgentForceWorkflow({ name: "DispatchWorkflow", logger: mockLogger })
+                .prompt("Build a blog")
+                .dispatcher(dispatcher)
+                .registerAgent(createAgent("Analyst", "analyst"))
+                .registerAgent(createAgent("Developer", "developer"));
+
+            await workflow.run();
+            await workflow.run();
+
+            expect(dispatcher["getSystemPrompt"]()).toBe("Dispatcher system prompt");
+            expect(dispatcher["getUserPrompt"]()).toBe("Dispatcher user prompt");
+            const plannerCalls = calls.filter(call => call.model === "planner");
+            expect(plannerCalls).toHaveLength(2);
+            expect(plannerCalls[1]!.system).toBe(plannerCalls[0]!.system);
+            expect(plannerCalls[1]!.prompt).toBe("Build a blog");
+        });
+
+        test("should feed the dispatched result into the execution plan", async () => {
+            const summarizer = { getName: () => "Summarizer", execute: jest.fn<(input: any, options?: { signal?: AbortSignal }) => Promise<any>>().mockResolvedValue("summary") };
+            const workflow = new AgentForceWorkflow({ name: "DispatchWorkflow", logger: mockLogger })
+                .prompt("Build a blog")
+                .dispatcher(createAgent("Dispatcher", "planner"))
+                .registerAgent(createAgent("Analyst", "analyst"))
+                .registerAgent(createAgent("Developer", "developer"))
+                .sequence([summarizer as any]);
+
+            const result = await workflow.run();
+
+            expect(summarizer.execute).toHaveBeenCalledWith("developer result", { signal: undefined });
+            expect(result.finalOutput).toBe("summary");
+        });
+
+        test("should reject plans assigning unknown agents", async () => {
+            const workflow = new AgentForceWorkflow({ name: "DispatchWorkflow", logger: mockLogger })
+                .prompt("Build a blog")
+                .dispatcher(createAgent("Dispatcher", "planner"))
+                .registerAgent(createAgent("Analyst", "analyst"));
+
+            await expect(workflow.run()).rejects.toThrow("Dispatcher assigned task \"task-002\" to unknown agent \"Developer\". Registered agents: Analyst");
+            expect(calls).toHaveLength(1);
+        });
+
+        test("should reject responses without an execution list", async () => {
+            dispatcherResponse = "I cannot plan this.";
+            const workflow = new AgentForceWorkflow({ name: "DispatchWorkflow", logger: mockLogger })
+                .prompt("Build a blog")
+                .dispatcher(createAgent("Dispatcher", "planner"))
+                .registerAgent(createAgent("Analyst", "analyst"));
+
+            await expect(workflow.run()).rejects.toThrow("Dispatcher did not return a valid execution list");
+        });
+
+        test("should reject plans with tasks that are not objects", async () => {
+            dispatcherResponse = ["```yaml", "execution_list:", "  - \"Write the requirements\"", "```"].join("\n");
+            const workflow = new AgentForceWorkflow({ name: "DispatchWorkflow", logger: mockLogger })
+                .prompt("Build a blog")
+                .dispatcher(createAgent("Dispatcher", "planner"))
+                .registerAgent(createAgent("Analyst", "analyst"));
+
+            await expect(workflow.run()).rejects.toThrow("Dispatcher task \"task-001\" has no description");
+        });
+
+        test("should resume a dispatched run without planning or repeating completed tasks", async () => {
+            const saved = new Map<string, any>();
+            const store = {
+                save: (checkpoint: any) => Promise.resolve(void saved.set(checkpoint.runId, structuredClone(checkpoint))),
+                load: (runId: string) => Promise.resolve(structuredClone(saved.get(runId))),
+            };
+            registerProvider("dispatch-test", model => ({
+                generate: (prompt: string, system?: string) => {
+                    calls.push({ model, system, prompt });
+                    if (model === "developer" && calls.filter(call => call.model === "developer").length === 1) {
+                        return Promise.reject(new Error("Developer crashed"));
+                    }
+                    return Promise.resolve(model === "planner" ? dispatcherResponse : `${model} result`);
+                },
+                chat: () => Promise.resolve("unused"),
+            }));
+            const workflow = new AgentForceWorkflow({ name: "DispatchWorkflow", logger: mockLogger })
+                .checkpoint(store)
+                .prompt("Build a blog")
+                .dispatcher(createAgent("Dispatcher", "planner"))
+                .registerAgent(createAgent("Analyst", "analyst"))
+                .registerAgent(createAgent("Developer", "developer"));
+
+            await expect(workflow.run({ runId: "blog" })).rejects.toThrow("Developer crashed");
+            const result = await workflow.resume("blog");
+
+            expect(calls.map(call => call.model)).toEqual(["planner", "analyst", "developer", "developer"]);
+            expect(calls[3]!.prompt).toContain("### task-001 - Analyst: Write the requirements\nanalyst result");
+            expect(result.finalOutput).toBe("developer result");
+            expect(result.dispatchedTasks?.map(task => task.output)).toEqual(["analyst result", "developer result"]);
+        });
+
+        test("should retry dispatched tasks with the policy of the assigned agent", async () => {
+            let analystCalls = 0;
+            registerProvider("dispatch-test", model => ({
+                generate: (prompt: string, system?: string) => {
+                    calls.push({ model, system, prompt });
+                    if (model === "analyst" && ++analystCalls === 1) {
+                        return Promise.reject(new Error("fetch failed"));
+                    }
+                    return Promise.resolve(model === "planner" ? dispatcherResponse : `${model} result`);
+                },
+                chat: () => Promise.resolve("unused"),
+            }));
+            const workflow = new AgentForceWorkflow({ name: "DispatchWorkflow", logger: mockLogger })
+                .prompt("Build a blog")
+                .dispatcher(createAgent("Dispatcher", "planner"))
+                .registerAgent(createAgent("Analyst", "analyst").retry({ initialDelayMs: 0 }))
+                .registerAgent(createAgent("Developer", "developer"));
+
+            const result = await workflow.run();
+
+            expect(calls.map(call => call.model)).toEqual(["planner", "analyst", "analyst", "developer"]);
+            expect(result.retries).toEqual([
+                { agent: "Analyst", taskId: "task-001", attempt: 1, error: "fetch failed", delayMs: 0, timestamp: expect.any(String) },
+            ]);
+        });
+
+        test("should require registered agents", async () => {
+            const workflow = new AgentForceWorkflow({ name: "DispatchWorkflow", logger: mockLogger })
+                .prompt("Build a blog")
+                .dispatcher(createAgent("Dispatcher", "planner"));
+
+            await expect(workflow.run()).rejects.toThrow("The dispatcher needs registered agents");
+        });
+    });
+
 });
\ No newline at end of file
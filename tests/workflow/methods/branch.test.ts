@@ -0,0 +1,39 @@
+import { describe, expect, test, beforeEach } from "@jest/globals";
+import type { AgentForceAgent } from "../../../lib/agent";
+import { branch } from "../../../lib/workflow/methods/branch";
+
+describe("AgentForceWorkflow branch Method Tests", () => {
+    let mockWorkflow: { executionPlan: any[] };
+    const escalation = { getName: () => "Escalation" } as unknown as AgentForceAgent;
+    const autoReply = { getName: () => "AutoReply" } as unknown as AgentForceAgent;
+    const isUrgent = (output: any): boolean => String(output).includes("urgent");
+
+    beforeEach(() => {
+        mockWorkflow = { executionPlan: [] };
+    });
+
+    test("should return workflow instance for method chaining", () => {
+        expect(branch.call(mockWorkflow as any, isUrgent, [escalation])).toBe(mockWorkflow);
+    });
+
+    test("should add branch step to execution plan", () => {
+        branch.call(mockWorkflow as any, isUrgent, [escalation], [autoReply]);
+
+        expect(mockWorkflow.executionPlan).toEqual([{
+            type: "branch",
+            description: "Execute agents based on a condition",
+            payload: { predicate: isUrgent, thenAgents: [escalation], elseAgents: [autoReply] },
+        }]);
+    });
+
+    test("should default to no else agents", () => {
+        branch.call(mockWorkflow as any, isUrgent, [escalation]);
+
+        expect(mockWorkflow.executionPlan[0].payload.elseAgents).toEqual([]);
+    });
+
+    test("should reject predicates that are not functions", () => {
+        expect(() => branch.call(mockWorkflow as any, "urgent" as any, [escalation])).toThrow("Branch predicate must be a function");
+        expect(mockWorkflow.executionPlan).toHaveLength(0);
+    });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, test, beforeEach } from "@jest/globals";
+import { checkpoint } from "../../../lib/workflow/methods/checkpoint";
+import { FileCheckpointStore } from "../../../lib/workflow/checkpoints/fileCheckpointStore";
+import type { CheckpointStore } from "../../../lib/workflow";
+
+describe("AgentForceWorkflow checkpoint Method Tests", () => {
+    let mockWorkflow: { checkpointStore: CheckpointStore | null };
+    const store: CheckpointStore = {
+        save: () => Promise.resolve(),
+        load: () => Promise.resolve(undefined),
+    };
+
+    beforeEach(() => {
+        mockWorkflow = { checkpointStore: null };
+    });
+
+    test("should return workflow instance for method chaining", () => {
+        expect(checkpoint.call(mockWorkflow as any, store)).toBe(mockWorkflow);
+    });
+
+    test("should use the given store", () => {
+        checkpoint.call(mockWorkflow as any, store);
+
+        expect(mockWorkflow.checkpointStore).toBe(store);
+    });
+
+    test("should default to a file store", () => {
+        checkpoint.call(mockWorkflow as any);
+
+        expect(mockWorkflow.checkpointStore).toBeInstanceOf(FileCheckpointStore);
+    });
+
+    test("should reject stores without save and load", () => {
+        expect(() => checkpoint.call(mockWorkflow as any, { save: store.save } as any)).toThrow("Checkpoint store must implement save() and load()");
+        expect(mockWorkflow.checkpointStore).toBeNull();
+    });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, test, jest } from "@jest/globals";
+import { readFileSync } from "fs";
+import { AgentForceWorkflow } from "../../../lib/workflow";
+import { WorkflowDefinitionError } from "../../../lib/workflow/functions/definition";
+
+const definition = `name: ReviewFlow
+prompt: Write about {{store.topic}}
+store:
+  topic: solar power
+  draft: { approved: false }
+agents:
+  - name: Writer
+    provider: openrouter
+    model: openai/gpt-4o-mini
+    modelConfig: { temperature: 0.2 }
+    systemPrompt: You write short articles
+    tools: [store_set]
+    retry: { maxAttempts: 2 }
+  - name: Critic
+  - name: Fixer
+steps:
+  - prompt: "Topic: {{store.topic}}"
+  - parallel: [Writer, Critic]
+    concurrency: 1
+    settle: true
+  - iterate: { items: sections, agent: Writer }
+    isolate: false
+  - branch:
+      if: { store: draft, equals: { approved: true } }
+      then: [Critic]
+      else: [Writer]
+  - repeatUntil:
+      agents: [Writer, Critic]
+      until: { contains: APPROVED }
+      maxIterations: 3
+    retry: { maxAttempts: 3, initialDelayMs: 10 }
+    timeout: 5000
+    outputKey: review
+    onFail: Fixer
+`;
+
+function loadWorkflow(content: string = definition): AgentForceWorkflow {
+    jest.mocked(readFileSync).mockReturnValue(content);
+    return AgentForceWorkflow.fromFile("flows/review.yaml");
+}
+
+describe("AgentForceWorkflow fromFile Method Tests", () => {
+    test("should create a workflow with the name, prompt and store of the file", () => {
+        const workflow = loadWorkflow();
+
+        expect(workflow).toBeInstanceOf(AgentForceWorkflow);
+        expect(workflow.getName()).toBe("ReviewFlow");
+        expect(workflow["getUserPrompt"]()).toBe("Write about {{store.topic}}");
+        expect(workflow.getSharedStoreItem("topic")).toBe("solar power");
+        expect(workflow.getSharedStoreItem("draft")).toEqual({ approved: false });
+    });
+
+    test("should configure the agents of the file", () => {
+        const plan = loadWorkflow()["executionPlan"];
+        const [writer, critic] = plan[1]?.payload;
+
+        expect(writer["getName"]()).toBe("Writer");
+        expect(writer["getProvider"]()).toBe("openrouter");
+        expect(writer["getModel"]()).toBe("openai/gpt-4o-mini");
+        expect(writer["getModelConfig"]()).toEqual({ temperature: 0.2 });
+        expect(writer["getSystemPrompt"]()).toBe("You write short articles");
+        expect(writer["getTools"]()).toEqual(["store_set"]);
+        expect(writer["getRetryPolicy"]()).toMatchObject({ maxAttempts: 2 });
+        expect(critic["getName"]()).toBe("Critic");
+        expect(critic["getProvider"]()).toBe("ollama");
+    });
+
+    test("should add the steps with their options and modifiers", () => {
+        const plan = loadWorkflow()["executionPlan"];
+
+        expect(plan.map(step => step.type)).toEqual(["prompt", "parallel", "iterate", "branch", "repeatUntil"]);
+        expect(plan[0]?.payload).toBe("Topic: {{store.topic}}");
+        expect(plan[1]).toMatchObject({ concurrency: 1, settle: true });
+        expect(plan[2]).toMatchObject({ payload: { items: "sections" }, isolate: false });
+        expect(plan[4]).toMatchObject({ payload: { maxIterations: 3 }, retry: { maxAttempts: 3, initialDelayMs: 10 }, timeoutMs: 5000, outputKey: "review" });
+        const onFail = plan[4]?.onFail;
+        expect(onFail).toBeDefined();
+        expect(onFail!["getName"]()).toBe("Fixer");
+    });
+
+    test("should share one agent instance between the steps that name it", () => {
+        const plan = loadWorkflow()["executionPlan"];
+
+        expect(plan[2]?.payload.agent).toBe(plan[1]?.payload[0]);
+        expect(plan[3]?.payload.elseAgents[0]).toBe(plan[1]?.payload[0]);
+    });
+
+    test("should turn conditions into predicates of the output and the store", async () => {
+        const plan = loadWorkflow()["executionPlan"];
+        const branchPredicate = plan[3]?.payload.predicate;
+        const untilCondition = plan[4]?.payload.condition;
+
+        expect(await branchPredicate("anything", { draft: { approved: true } })).toBe(true);
+        expect(await branchPredicate("anything", { draft: { approved: false } })).toBe(false);
+        expect(await untilCondition("Looks good, APPROVED", {}, 1)).toBe(true);
+        expect(await untilCondition(undefined, {}, 1)).toBe(false);
+    });
+
+    test("should test the truthiness of the value without a comparison", async () => {
+        const workflow = loadWorkflow("name: Flow\nagents:\n  - name: Writer\nsteps:\n  - branch: { if: { store: ready }, then: [Writer] }\n");
+        const predicate = workflow["executionPlan"][0]?.payload.predicate;
+
+        expect(await predicate("", { ready: "yes" })).toBe(true);
+        expect(await predicate("text", {})).toBe(false);
+    });
+
+    test("should throw a WorkflowDefinitionError for invalid files", () => {
+        expect(() => loadWorkflow("name: Flow\nsteps:\n  - sequence: [Writer]\n")).toThrow(WorkflowDefinitionError);
+        expect(() => loadWorkflow("name: Flow\nsteps:\n  - sequence: [Writer]\n"))
+            .toThrow("flows/review.yaml:3:16 /steps/0/sequence/0 unknown agent \"Writer\"");
+    });
+});
@@ -234,4 +234,23 @@ describe("AgentForceWorkflow iterate Method Tests", () => {
         expect(mockWorkflow.executionPlan[0]?.payload.agent).toBe(mockAgent);
         expect(mockWorkflow.executionPlan[1]?.payload.agent).toBe(mockAgent2);
     });
+
+    test("should store the concurrency and settle options on the step", () => {
+        iterate.call(mockWorkflow as any, ["a", "b"], mockAgent as unknown as AgentForceAgent, { concurrency: 4, settle: true });
+
+        expect(mockWorkflow.executionPlan[0]).toMatchObject({ type: "iterate", concurrency: 4, settle: true });
+    });
+
+    test("should reject a concurrency that is not a positive integer", () => {
+        expect(() => iterate.call(mockWorkflow as any, ["a"], mockAgent as unknown as AgentForceAgent, { concurrency: -1 }))
+            .toThrow("concurrency must be a positive integer");
+        expect(mockWorkflow.executionPlan).toHaveLength(0);
+    });
+
+    test("should only store isolate when isolation is disabled", () => {
+        iterate.call(mockWorkflow as any, ["a"], mockAgent as unknown as AgentForceAgent, { isolate: false });
+
+        expect(mockWorkflow.executionPlan[0]).toHaveProperty("isolate", false);
+        expect(mockWorkflow.executionPlan[0]).not.toHaveProperty("settle");
+    });
 });
\ No newline at end of file
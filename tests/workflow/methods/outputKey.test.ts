@@ -0,0 +1,42 @@
+import { describe, expect, test, beforeEach, jest } from "@jest/globals";
+import type { AgentForceLogger } from "../../../lib/types";
+import { outputKey } from "../../../lib/workflow/methods/outputKey";
+
+describe("AgentForceWorkflow outputKey Method Tests", () => {
+    let mockWorkflow: { executionPlan: any[]; getLogger(): AgentForceLogger };
+    let mockLogger: AgentForceLogger;
+
+    beforeEach(() => {
+        mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        mockWorkflow = {
+            executionPlan: [{ type: "sequence", description: "Execute agents in sequence", payload: [] }],
+            getLogger: () => mockLogger,
+        };
+    });
+
+    test("should return workflow instance for method chaining", () => {
+        expect(outputKey.call(mockWorkflow as any, "summary")).toBe(mockWorkflow);
+    });
+
+    test("should attach the key to the last step", () => {
+        mockWorkflow.executionPlan.push({ type: "parallel", description: "Execute agents in parallel", payload: [] });
+
+        outputKey.call(mockWorkflow as any, "reviews");
+
+        expect(mockWorkflow.executionPlan[0].outputKey).toBeUndefined();
+        expect(mockWorkflow.executionPlan[1].outputKey).toBe("reviews");
+    });
+
+    test("should warn when there is no step", () => {
+        mockWorkflow.executionPlan = [];
+
+        outputKey.call(mockWorkflow as any, "summary");
+
+        expect(mockLogger.warn).toHaveBeenCalledWith("Cannot call .outputKey() before defining a step.");
+    });
+
+    test("should reject empty keys", () => {
+        expect(() => outputKey.call(mockWorkflow as any, " ")).toThrow("Output key must be a non-empty string");
+        expect(mockWorkflow.executionPlan[0].outputKey).toBeUndefined();
+    });
+});
@@ -189,4 +189,25 @@ describe("AgentForceWorkflow parallel Method Tests", () => {
         expect(mockWorkflow.executionPlan[0]?.payload).toHaveLength(100);
         expect(mockWorkflow.executionPlan[0]?.type).toBe("parallel");
     });
+
+    test("should store the concurrency and settle options on the step", () => {
+        parallel.call(mockWorkflow as any, [mockAgent1 as unknown as AgentForceAgent], { concurrency: 2, settle: true });
+
+        expect(mockWorkflow.executionPlan[0]).toMatchObject({ type: "parallel", concurrency: 2, settle: true });
+    });
+
+    test("should reject a concurrency that is not a positive integer", () => {
+        const agents = [mockAgent1 as unknown as AgentForceAgent];
+
+        expect(() => parallel.call(mockWorkflow as any, agents, { concurrency: 0 })).toThrow("concurrency must be a positive integer");
+        expect(() => parallel.call(mockWorkflow as any, agents, { concurrency: 1.5 })).toThrow("concurrency must be a positive integer");
+        expect(mockWorkflow.executionPlan).toHaveLength(0);
+    });
+
+    test("should only store isolate when isolation is disabled", () => {
+        parallel.call(mockWorkflow as any, [mockAgent1 as unknown as AgentForceAgent], { isolate: false });
+
+        expect(mockWorkflow.executionPlan[0]).toHaveProperty("isolate", false);
+        expect(mockWorkflow.executionPlan[0]).not.toHaveProperty("settle");
+    });
 });
\ No newline at end of file
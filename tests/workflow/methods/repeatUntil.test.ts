@@ -0,0 +1,41 @@
+import { describe, expect, test, beforeEach } from "@jest/globals";
+import type { AgentForceAgent } from "../../../lib/agent";
+import { repeatUntil } from "../../../lib/workflow/methods/repeatUntil";
+
+describe("AgentForceWorkflow repeatUntil Method Tests", () => {
+    let mockWorkflow: { executionPlan: any[] };
+    const writer = { getName: () => "Writer" } as unknown as AgentForceAgent;
+    const critic = { getName: () => "Critic" } as unknown as AgentForceAgent;
+    const approved = (output: any): boolean => String(output).includes("APPROVED");
+
+    beforeEach(() => {
+        mockWorkflow = { executionPlan: [] };
+    });
+
+    test("should return workflow instance for method chaining", () => {
+        expect(repeatUntil.call(mockWorkflow as any, [writer, critic], approved)).toBe(mockWorkflow);
+    });
+
+    test("should add repeatUntil step with the default of 5 iterations", () => {
+        repeatUntil.call(mockWorkflow as any, [writer, critic], approved);
+
+        expect(mockWorkflow.executionPlan).toEqual([{
+            type: "repeatUntil",
+            description: "Repeat agents until the condition is met (max 5 iterations)",
+            payload: { agents: [writer, critic], condition: approved, maxIterations: 5 },
+        }]);
+    });
+
+    test("should use the maxIterations option", () => {
+        repeatUntil.call(mockWorkflow as any, [writer], approved, { maxIterations: 2 });
+
+        expect(mockWorkflow.executionPlan[0].payload.maxIterations).toBe(2);
+    });
+
+    test("should reject invalid conditions and iteration limits", () => {
+        expect(() => repeatUntil.call(mockWorkflow as any, [writer], "APPROVED" as any)).toThrow("repeatUntil condition must be a function");
+        expect(() => repeatUntil.call(mockWorkflow as any, [writer], approved, { maxIterations: 0 })).toThrow("maxIterations must be a positive integer");
+        expect(() => repeatUntil.call(mockWorkflow as any, [writer], approved, { maxIterations: 1.5 })).toThrow("maxIterations must be a positive integer");
+        expect(mockWorkflow.executionPlan).toHaveLength(0);
+    });
+});
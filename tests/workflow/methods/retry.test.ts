@@ -0,0 +1,50 @@
+import { describe, expect, test, beforeEach, jest } from "@jest/globals";
+import type { AgentForceLogger } from "../../../lib/types";
+import { retry } from "../../../lib/workflow/methods/retry";
+
+describe("AgentForceWorkflow retry Method Tests", () => {
+    let mockWorkflow: { executionPlan: any[]; getLogger(): AgentForceLogger };
+    let mockLogger: AgentForceLogger;
+
+    beforeEach(() => {
+        mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        mockWorkflow = {
+            executionPlan: [{ type: "sequence", description: "Execute agents in sequence", payload: [] }],
+            getLogger: () => mockLogger,
+        };
+    });
+
+    test("should return workflow instance for method chaining", () => {
+        expect(retry.call(mockWorkflow as any, {})).toBe(mockWorkflow);
+    });
+
+    test("should attach the policy with defaults to the last step", () => {
+        const retryOn = (): boolean => true;
+        mockWorkflow.executionPlan.push({ type: "parallel", description: "Execute agents in parallel", payload: [] });
+
+        retry.call(mockWorkflow as any, { maxAttempts: 5, retryOn });
+
+        expect(mockWorkflow.executionPlan[0].retry).toBeUndefined();
+        expect(mockWorkflow.executionPlan[1].retry).toEqual({
+            maxAttempts: 5,
+            initialDelayMs: 1000,
+            maxDelayMs: 30_000,
+            backoffFactor: 2,
+            jitter: true,
+            retryOn,
+        });
+    });
+
+    test("should warn when there is no step", () => {
+        mockWorkflow.executionPlan = [];
+
+        retry.call(mockWorkflow as any);
+
+        expect(mockLogger.warn).toHaveBeenCalledWith("Cannot call .retry() before defining a step.");
+    });
+
+    test("should reject invalid policies", () => {
+        expect(() => retry.call(mockWorkflow as any, { maxAttempts: 1.5 })).toThrow("maxAttempts must be a positive integer");
+        expect(mockWorkflow.executionPlan[0].retry).toBeUndefined();
+    });
+});
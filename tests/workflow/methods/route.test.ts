@@ -0,0 +1,35 @@
+import { describe, expect, test, beforeEach } from "@jest/globals";
+import type { AgentForceAgent } from "../../../lib/agent";
+import { route } from "../../../lib/workflow/methods/route";
+
+describe("AgentForceWorkflow route Method Tests", () => {
+    let mockWorkflow: { executionPlan: any[] };
+    const triage = { getName: () => "Triage" } as unknown as AgentForceAgent;
+    const billing = { getName: () => "Billing" } as unknown as AgentForceAgent;
+    const technical = { getName: () => "Technical" } as unknown as AgentForceAgent;
+
+    beforeEach(() => {
+        mockWorkflow = { executionPlan: [] };
+    });
+
+    test("should return workflow instance for method chaining", () => {
+        expect(route.call(mockWorkflow as any, triage, { billing: [billing] })).toBe(mockWorkflow);
+    });
+
+    test("should add route step to execution plan", () => {
+        route.call(mockWorkflow as any, triage, { billing: [billing], technical: [technical] }, "technical");
+
+        expect(mockWorkflow.executionPlan).toEqual([{
+            type: "route",
+            description: "Route to one of: billing, technical",
+            payload: { router: triage, routes: { billing: [billing], technical: [technical] }, fallback: "technical" },
+        }]);
+    });
+
+    test("should reject empty routes and unknown fallback labels", () => {
+        expect(() => route.call(mockWorkflow as any, triage, {})).toThrow("Route needs at least one label with agents");
+        expect(() => route.call(mockWorkflow as any, triage, { billing: [billing] }, "other"))
+            .toThrow("Fallback label \"other\" is not one of the route labels: billing");
+        expect(mockWorkflow.executionPlan).toHaveLength(0);
+    });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, test, beforeEach, jest } from "@jest/globals";
+import type { AgentForceLogger } from "../../../lib/types";
+import { timeout } from "../../../lib/workflow/methods/timeout";
+
+describe("AgentForceWorkflow timeout Method Tests", () => {
+    let mockWorkflow: { executionPlan: any[]; getLogger(): AgentForceLogger };
+    let mockLogger: AgentForceLogger;
+
+    beforeEach(() => {
+        mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        mockWorkflow = {
+            executionPlan: [{ type: "sequence", description: "Execute agents in sequence", payload: [] }],
+            getLogger: () => mockLogger,
+        };
+    });
+
+    test("should return workflow instance for method chaining", () => {
+        expect(timeout.call(mockWorkflow as any, 1000)).toBe(mockWorkflow);
+    });
+
+    test("should attach the timeout to the last step", () => {
+        mockWorkflow.executionPlan.push({ type: "parallel", description: "Execute agents in parallel", payload: [] });
+
+        timeout.call(mockWorkflow as any, 30_000);
+
+        expect(mockWorkflow.executionPlan[0].timeoutMs).toBeUndefined();
+        expect(mockWorkflow.executionPlan[1].timeoutMs).toBe(30_000);
+    });
+
+    test("should warn when there is no step", () => {
+        mockWorkflow.executionPlan = [];
+
+        timeout.call(mockWorkflow as any, 1000);
+
+        expect(mockLogger.warn).toHaveBeenCalledWith("Cannot call .timeout() before defining a step.");
+    });
+
+    test("should reject timeouts that are not positive", () => {
+        expect(() => timeout.call(mockWorkflow as any, 0)).toThrow("Timeout must be a positive number of milliseconds");
+        expect(() => timeout.call(mockWorkflow as any, Number.NaN)).toThrow("Timeout must be a positive number of milliseconds");
+        expect(mockWorkflow.executionPlan[0].timeoutMs).toBeUndefined();
+    });
+});